@@ -43,6 +43,12 @@ const InvitationScreen = React.lazy(() =>
 const GroupDetailScreen = React.lazy(() =>
   import('./features/groups/GroupDetailScreen').then(module => ({ default: module.GroupDetailScreen }))
 );
+const StatsScreen = React.lazy(() =>
+  import('./features/stats/StatsScreen').then(module => ({ default: module.StatsScreen }))
+);
+const ManageInvitationsScreen = React.lazy(() =>
+  import('./features/invitations/ManageInvitationsScreen').then(module => ({ default: module.ManageInvitationsScreen }))
+);
 const SettingsScreen = React.lazy(() =>
   import('./features/settings/SettingsScreen').then(module => ({ default: module.SettingsScreen }))
 );
@@ -77,6 +83,8 @@ const AuthenticatedRoutes: React.FC = () => {
           <Route element={<MainLayout />}>
               <Route path="/" element={<DashboardScreen />} />
               <Route path="/group/:groupId" element={<GroupDetailScreen />} />
+              <Route path="/group/:groupId/stats" element={<StatsScreen />} />
+              <Route path="/group/:groupId/invitations" element={<ManageInvitationsScreen />} />
               <Route path="/settings" element={<SettingsScreen />} />
               <Route path="*" element={<Navigate to="/" replace />} />
           </Route>
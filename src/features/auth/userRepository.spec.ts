@@ -155,9 +155,9 @@ describe('userRepository', () => {
 
       // ASSERT
       // --- THIS IS THE FIX ---
-      // The function is called twice: once for the gatekeeper check, and once
-      // for the membership cleanup. The test must assert this.
-      expect(mockGetDocs).toHaveBeenCalledTimes(2);
+      // The function is called three times: once for the gatekeeper check, once
+      // for the membership cleanup and once for the saved templates.
+      expect(mockGetDocs).toHaveBeenCalledTimes(3);
       // --- END FIX ---
       
       // Verify the deletion proceeded.
@@ -200,6 +200,36 @@ describe('userRepository', () => {
     });
   });
 
+  describe('group templates', () => {
+    it('should list a user\'s saved templates sorted by name', async () => {
+      // ARRANGE
+      mockGetDocs.mockResolvedValue({
+        docs: [{ data: () => ({ id: 't2', name: 'Standup' }) }, { data: () => ({ id: 't1', name: 'Chores' }) }],
+      } as any);
+
+      // ACT
+      const templates = await userRepository.listGroupTemplates('user-123');
+
+      // ASSERT
+      expect(mockCollection).toHaveBeenCalledWith(db, 'users', 'user-123', 'groupTemplates');
+      expect(templates.map((t) => t.name)).toEqual(['Chores', 'Standup']);
+    });
+
+    it('should save and delete a template under the user\'s document', async () => {
+      // ARRANGE
+      const template = { id: 't1', name: 'Chores', icon: '🧹', rotationStrategy: 'round-robin' as const, placeholders: [] };
+
+      // ACT
+      await userRepository.saveGroupTemplate('user-123', template);
+      await userRepository.deleteGroupTemplate('user-123', 't1');
+
+      // ASSERT
+      expect(mockDoc).toHaveBeenCalledWith(db, 'users', 'user-123', 'groupTemplates', 't1');
+      expect(mockSetDoc.mock.calls[0][1]).toEqual(template);
+      expect(mockDeleteDoc).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('findBlockingGroup', () => {
     it('should return the group name if the user is the sole admin', async () => {
       // ARRANGE
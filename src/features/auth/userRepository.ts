@@ -15,6 +15,9 @@
  *   - userRepository.updateUserDisplayName: Updates a user's display name.
  *   - userRepository.deleteUserAccount: Deletes a user's profile and auth record.
  *   - userRepository.findBlockingGroup: Checks if a user is the last admin of any group.
+ *   - userRepository.listGroupTemplates: Fetches a user's saved group templates.
+ *   - userRepository.saveGroupTemplate: Saves one of a user's group templates.
+ *   - userRepository.deleteGroupTemplate: Deletes one of a user's group templates.
  * @contract
  *   assertions:
  *     purity: mutates # This module performs read/write operations on an external database.
@@ -36,7 +39,7 @@ import {
 import { deleteUser } from 'firebase/auth';
 import { db, auth } from '../../lib/firebase';
 import type { AppUser } from './useAuthStore';
-import type { Group } from '../../types/group';
+import type { Group, GroupTemplate } from '../../types/group';
 import { groupsRepository } from '../groups/repository';
 import { logger } from '../../shared/utils/debug';
 
@@ -95,6 +98,35 @@ async function findBlockingGroup(uid: string): Promise<string | null> {
   return null;
 }
 
+/**
+ * Fetches the group templates a user has saved, sorted by name.
+ * @param uid The unique ID of the user.
+ */
+async function listGroupTemplates(uid: string): Promise<GroupTemplate[]> {
+  const templatesSnap = await getDocs(collection(db, 'users', uid, 'groupTemplates'));
+  return templatesSnap.docs
+    .map((templateDoc) => templateDoc.data() as GroupTemplate)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Saves one of a user's group templates, replacing any with the same ID.
+ * @param uid The unique ID of the user.
+ * @param template The template to save.
+ */
+async function saveGroupTemplate(uid: string, template: GroupTemplate): Promise<void> {
+  await setDoc(doc(db, 'users', uid, 'groupTemplates', template.id), template);
+}
+
+/**
+ * Deletes one of a user's group templates.
+ * @param uid The unique ID of the user.
+ * @param templateId The ID of the template to delete.
+ */
+async function deleteGroupTemplate(uid: string, templateId: string): Promise<void> {
+  await deleteDoc(doc(db, 'users', uid, 'groupTemplates', templateId));
+}
+
 /**
  * Orchestrates the complete deletion of the currently authenticated user's account.
  * It performs a critical pre-flight check to prevent orphaning groups before
@@ -124,12 +156,16 @@ async function deleteUserAccount(): Promise<void> {
       const group = groupDoc.data() as Group;
       const participantToRemove = group.participants.find(p => p.uid === uid);
       if (participantToRemove) {
-        return groupsRepository.removeParticipant(group.gid, participantToRemove.id);
+        return groupsRepository.removeParticipant(group.gid, participantToRemove.id, currentUser);
       }
     });
     await Promise.all(removalPromises);
 
-    // Step 3: Delete the core profile and auth record.
+    // Step 3: Delete the saved templates, which would otherwise outlive the profile.
+    const templatesSnap = await getDocs(collection(db, 'users', uid, 'groupTemplates'));
+    await Promise.all(templatesSnap.docs.map((templateDoc) => deleteDoc(templateDoc.ref)));
+
+    // Step 4: Delete the core profile and auth record.
     const userDocRef = doc(db, 'users', uid);
     await deleteDoc(userDocRef);
     await deleteUser(currentUser);
@@ -145,4 +181,7 @@ export const userRepository = {
   updateUserDisplayName,
   deleteUserAccount,
   findBlockingGroup,
+  listGroupTemplates,
+  saveGroupTemplate,
+  deleteGroupTemplate,
 };
\ No newline at end of file
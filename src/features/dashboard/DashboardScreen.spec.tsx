@@ -1,10 +1,11 @@
 /**
  * @file packages/whoseturnnow/src/features/dashboard/DashboardScreen.spec.tsx
- * @stamp {"ts":"2025-10-29T02:45:00Z"}
+ * @stamp {"ts":"2026-10-19T16:05:00Z"}
  * @test-target packages/whoseturnnow/src/features/dashboard/DashboardScreen.tsx
  * @description
  * Verifies the dashboard correctly displays user groups, handles navigation,
- * and orchestrates core user actions like creating a group and logging out.
+ * and orchestrates core user actions like creating a group, joining one by
+ * code, resuming an interrupted deletion, and logging out.
  * @criticality
  * Critical (Reason: I/O & Concurrency Management, Security & Authentication Context)
  * @testing-layer Integration
@@ -15,7 +16,7 @@
  *     external_io: none # Mocks MUST prevent any actual I/O.
  */
 
-import { render, screen, act } from '@testing-library/react';
+import { render, screen, act, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import type { Mock } from 'vitest';
@@ -51,6 +52,7 @@ import type { AppUser } from '../auth/useAuthStore';
 const mockUseNavigate = useNavigate as Mock;
 const mockUseAuthStore = useAuthStore as unknown as Mock;
 const mockGetUserGroups = vi.spyOn(groupsRepository, 'getUserGroups');
+const mockGetArchivedUserGroups = vi.spyOn(groupsRepository, 'getArchivedUserGroups');
 const mockSignOut = vi.mocked(signOut);
 
 const mockUser: AppUser = {
@@ -87,6 +89,10 @@ describe('DashboardScreen', () => {
       onUpdate([]);
       return () => {};
     });
+    mockGetArchivedUserGroups.mockImplementation((_userId, onUpdate) => {
+      onUpdate([]);
+      return () => {};
+    });
   });
 
   it('should subscribe to and display the user groups', async () => {
@@ -135,6 +141,36 @@ describe('DashboardScreen', () => {
     // --------------------------------
   });
 
+  it('should look up a typed join code and follow its invitation', async () => {
+    const user = userEvent.setup();
+    vi.mocked(groupsRepository.getJoinCodeOnce).mockImplementation(async (code) =>
+      code === 'ABCDEF'
+        ? { code, groupId: 'group-9', invitationId: 'token-9', createdByUid: 'owner', createdAt: 0, expiresAt: Date.now() + 60_000 }
+        : code === 'GHJKMN'
+          ? { code, groupId: 'group-8', invitationId: 'token-8', createdByUid: 'owner', createdAt: 0, expiresAt: 1 }
+          : null,
+    );
+    renderTestComponent();
+
+    await user.click(screen.getByRole('button', { name: /Enter a Code/i }));
+    await user.type(screen.getByLabelText(/Join Code/i), 'abc-xyz');
+    await user.click(screen.getByRole('button', { name: 'Join' }));
+    expect(await screen.findByText(/No group uses that code/i)).toBeInTheDocument();
+
+    await user.clear(screen.getByLabelText(/Join Code/i));
+    await user.type(screen.getByLabelText(/Join Code/i), 'ghj-kmn');
+    await user.click(screen.getByRole('button', { name: 'Join' }));
+    expect(await screen.findByText(/That code has expired/i)).toBeInTheDocument();
+    expect(mockNavigate).not.toHaveBeenCalled();
+
+    await user.clear(screen.getByLabelText(/Join Code/i));
+    await user.type(screen.getByLabelText(/Join Code/i), 'abc def');
+    await user.click(screen.getByRole('button', { name: 'Join' }));
+
+    expect(groupsRepository.getJoinCodeOnce).toHaveBeenLastCalledWith('ABCDEF');
+    expect(mockNavigate).toHaveBeenCalledWith('/join/group-9?invite=token-9');
+  });
+
   it('should call signOut when the logout menu item is clicked', async () => {
     const user = userEvent.setup();
     renderTestComponent();
@@ -147,4 +183,49 @@ describe('DashboardScreen', () => {
 
     expect(mockSignOut).toHaveBeenCalledTimes(1);
   });
-});
\ No newline at end of file
+
+  it('should list archived groups separately and purge those whose retention has run out', async () => {
+    const user = userEvent.setup();
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    const archived: Group[] = [
+      { ...mockGroups[0], gid: 'kept', name: 'Kept Group', adminUids: { [mockUser.uid]: true }, archivedAt: Date.now(), purgeAt: Date.now() + 3 * DAY_MS },
+      { ...mockGroups[1], gid: 'expired', name: 'Expired Group', adminUids: { [mockUser.uid]: true }, archivedAt: 0, purgeAt: 1 },
+    ];
+    mockGetArchivedUserGroups.mockImplementation((_userId, onUpdate) => {
+      onUpdate(archived);
+      return () => {};
+    });
+    vi.mocked(groupsRepository.deleteGroup).mockResolvedValue(undefined);
+    vi.mocked(groupsRepository.unarchiveGroup).mockResolvedValue(undefined);
+
+    renderTestComponent();
+    await user.click(screen.getByRole('button', { name: 'Archived (2)' }));
+
+    expect(screen.getByText('Deleted in 3 days')).toBeInTheDocument();
+    expect(groupsRepository.deleteGroup).toHaveBeenCalledTimes(1);
+    expect(groupsRepository.deleteGroup).toHaveBeenCalledWith('expired');
+
+    await user.click(screen.getAllByRole('button', { name: 'Restore' })[0]);
+    expect(groupsRepository.unarchiveGroup).toHaveBeenCalledWith('kept');
+  });
+
+  it('should mark an active group whose deletion was interrupted and let an admin resume it', async () => {
+    const user = userEvent.setup();
+    const interrupted: Group = { ...mockGroups[0], gid: 'halfway', name: 'Halfway Group', adminUids: { [mockUser.uid]: true }, deletingAt: 1 };
+    mockGetUserGroups.mockImplementation((_userId, onUpdate) => {
+      onUpdate([interrupted, mockGroups[1]]);
+      return () => {};
+    });
+    vi.mocked(groupsRepository.deleteGroup).mockResolvedValue(undefined);
+
+    renderTestComponent();
+
+    expect(screen.getByText('Deletion interrupted')).toBeInTheDocument();
+    expect(screen.getAllByRole('button', { name: 'Resume' })).toHaveLength(1);
+
+    await user.click(screen.getByRole('button', { name: 'Resume' }));
+    await user.click(within(screen.getByRole('dialog')).getByRole('button', { name: 'Resume' }));
+
+    expect(groupsRepository.deleteGroup).toHaveBeenCalledWith('halfway', expect.any(Function));
+  });
+});
@@ -1,12 +1,19 @@
 /**
  * @file packages/whoseturnnow/src/features/dashboard/DashboardScreen.tsx
- * @stamp {"ts":"2025-10-29T02:15:00Z"}
+ * @stamp {"ts":"2026-10-19T15:45:00Z"}
  * @architectural-role UI Component, Orchestrator
  * @description
  * Renders the user's main dashboard, which serves as the primary entry point
- * after authentication. It displays a real-time list of the user's groups,
- * provides the UI to create new groups, and contains the main application menu
- * for accessing settings or logging out.
+ * after authentication. It displays a real-time list of the user's groups
+ * (including the next deadline and an "overdue" state for scheduled groups),
+ * provides the UI to create new groups, restore one from a backup or join one
+ * by typing in its join code, and
+ * contains the main application menu for accessing settings or logging out.
+ * Archived groups are listed in a collapsible section of their own, where an
+ * admin can restore them or delete them for good; any whose retention has run
+ * out are purged when one of their admins opens the dashboard. A group whose
+ * deletion was interrupted is marked as such in whichever list holds it, where
+ * an admin can resume the deletion.
  * @core-principles
  * 1. IS the primary UI for displaying a user's collection of groups.
  * 2. OWNS the data subscription for the user's list of groups.
@@ -16,11 +23,11 @@
  * @contract
  *   assertions:
  *     purity: mutates
- *     state_ownership: [groups, isLoading, isCreateDialogOpen]
+ *     state_ownership: [groups, archivedGroups, isArchiveOpen, groupToDelete, isLoading, isCreateDialogOpen, isRestoreDialogOpen, isJoinCodeDialogOpen, dashboardError]
  *     external_io: firestore
  */
 
-import { useState, useEffect, type FC } from 'react';
+import { useState, useEffect, useRef, type FC } from 'react';
 import { useNavigate } from 'react-router-dom';
 import Box from '@mui/material/Box';
 import Typography from '@mui/material/Typography';
@@ -34,17 +41,34 @@ import Menu from '@mui/material/Menu';
 import MenuItem from '@mui/material/MenuItem';
 import Stack from '@mui/material/Stack';
 import Card from '@mui/material/Card';
+import Chip from '@mui/material/Chip';
+import Snackbar from '@mui/material/Snackbar';
+import Alert from '@mui/material/Alert';
+import Button from '@mui/material/Button';
+import Collapse from '@mui/material/Collapse';
 import AddIcon from '@mui/icons-material/Add';
 import MoreVertIcon from '@mui/icons-material/MoreVert';
+import ScheduleIcon from '@mui/icons-material/Schedule';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import ExpandLessIcon from '@mui/icons-material/ExpandLess';
+import DeleteForeverIcon from '@mui/icons-material/DeleteForever';
+import KeyboardIcon from '@mui/icons-material/Keyboard';
 import { signOut } from 'firebase/auth';
 import { auth } from '../../lib/firebase';
 import { useAuthStore } from '../auth/useAuthStore';
 import { groupsRepository } from '../groups/repository';
 import type { Group } from '../../types/group';
 import { CreateGroupDialog } from '../groups/CreateGroupDialog'; // <-- UPDATED IMPORT
+import { RestoreGroupDialog } from '../groups/RestoreGroupDialog';
+import { DeleteGroupDialog } from '../groups/DeleteGroupDialog';
+import { EnterJoinCodeDialog } from '../invitations/EnterJoinCodeDialog';
 import { useAppBar } from '../../shared/hooks/useAppBar';
 import { useMenuState } from '../groups/hooks/useMenuState';
 import { useAppStatusStore } from '../../shared/store/useAppStatusStore';
+import { useNow } from '../../shared/hooks/useNow';
+import { formatDueAt, isOverdue } from '../groups/utils/schedule';
+import { daysUntilPurge, isBeingDeleted, isDueForPurge } from '../groups/utils/archive';
+import { logger } from '../../shared/utils/debug';
 
 const getNextParticipantName = (group: Group): string => {
   if (!group.turnOrder || group.turnOrder.length === 0) {
@@ -62,9 +86,17 @@ export const DashboardScreen: FC = () => {
   const user = useAuthStore((state) => state.user);
   const connectionMode = useAppStatusStore((state) => state.connectionMode);
   const [groups, setGroups] = useState<Group[]>([]);
+  const [archivedGroups, setArchivedGroups] = useState<Group[]>([]);
+  const [isArchiveOpen, setArchiveOpen] = useState(false);
+  const [groupToDelete, setGroupToDelete] = useState<Group | null>(null);
+  const purgeRequested = useRef(new Set<string>());
   const [isLoading, setIsLoading] = useState(true);
   const [isCreateDialogOpen, setCreateDialogOpen] = useState(false);
+  const [isRestoreDialogOpen, setRestoreDialogOpen] = useState(false);
+  const [isJoinCodeDialogOpen, setJoinCodeDialogOpen] = useState(false);
+  const [dashboardError, setDashboardError] = useState<string | null>(null);
   const settingsMenu = useMenuState();
+  const now = useNow();
 
   const handleLogout = () => {
     signOut(auth);
@@ -101,11 +133,37 @@ export const DashboardScreen: FC = () => {
       setIsLoading(false);
     });
 
+    const unsubscribeArchived = groupsRepository.getArchivedUserGroups(user.uid, setArchivedGroups);
+
     return () => {
       unsubscribe();
+      unsubscribeArchived();
     };
   }, [user?.uid, connectionMode]);
 
+  // Only an admin may delete a group, so expired groups wait for one of theirs.
+  useEffect(() => {
+    if (!user?.uid) return;
+    archivedGroups
+      .filter((group) => group.adminUids[user.uid] && isDueForPurge(group, now))
+      .filter((group) => !purgeRequested.current.has(group.gid))
+      .forEach((group) => {
+        purgeRequested.current.add(group.gid);
+        groupsRepository.deleteGroup(group.gid).catch((error) => {
+          logger.error('Failed to purge archived group:', { error });
+        });
+      });
+  }, [archivedGroups, now, user?.uid]);
+
+  const handleUnarchive = async (groupId: string) => {
+    try {
+      await groupsRepository.unarchiveGroup(groupId);
+    } catch (error) {
+      logger.error('Failed to restore archived group:', { error });
+      setDashboardError('Could not restore the group.');
+    }
+  };
+
   return (
     <>
       <Box sx={{ width: '100%' }}>
@@ -123,18 +181,31 @@ export const DashboardScreen: FC = () => {
               const nextParticipantId = group.turnOrder?.[0];
               const nextParticipant = group.participants.find(p => p.id === nextParticipantId);
               const isMyTurn = nextParticipant?.uid === user?.uid;
+              const nextDueAt = isBeingDeleted(group) ? null : group.nextDueAt ?? null;
+              const overdue = isOverdue(nextDueAt, now);
 
               return (
                 <Card
                   key={group.gid}
                   sx={{
                     boxShadow: (theme) => theme.shadows[1],
-                    border: isMyTurn
-                      ? (theme) => `2px solid ${theme.palette.secondary.main}`
-                      : (theme) => `1px solid ${theme.palette.divider}`,
+                    border: overdue
+                      ? (theme) => `2px solid ${theme.palette.error.main}`
+                      : isMyTurn
+                        ? (theme) => `2px solid ${theme.palette.secondary.main}`
+                        : (theme) => `1px solid ${theme.palette.divider}`,
                   }}
                 >
-                  <ListItem disablePadding>
+                  <ListItem
+                    disablePadding
+                    secondaryAction={
+                      isBeingDeleted(group) && user && group.adminUids[user.uid] ? (
+                        <Button size="small" color="error" onClick={() => setGroupToDelete(group)}>
+                          Resume
+                        </Button>
+                      ) : null
+                    }
+                  >
                     <ListItemButton 
                       onClick={() => navigate(`/group/${group.gid}`)}
                       sx={{ py: 1.5, alignItems: 'center' }}
@@ -148,10 +219,21 @@ export const DashboardScreen: FC = () => {
                         }
                         secondary={
                           <Typography variant="body1">
-                            {`Up next: ${getNextParticipantName(group)}`}
+                            {isBeingDeleted(group)
+                              ? 'Deletion interrupted'
+                              : `Up next: ${getNextParticipantName(group)}`}
                           </Typography>
                         }
                       />
+                      {nextDueAt !== null && (
+                        <Chip
+                          icon={<ScheduleIcon />}
+                          label={overdue ? 'Overdue' : `Due ${formatDueAt(nextDueAt, now)}`}
+                          size="small"
+                          color={overdue ? 'error' : 'default'}
+                          sx={{ ml: 1 }}
+                        />
+                      )}
                     </ListItemButton>
                   </ListItem>
                 </Card>
@@ -159,6 +241,66 @@ export const DashboardScreen: FC = () => {
             })}
           </Stack>
         )}
+        <Box sx={{ display: 'flex', justifyContent: 'center', mt: 2 }}>
+          <Button variant="outlined" startIcon={<KeyboardIcon />} onClick={() => setJoinCodeDialogOpen(true)}>
+            Enter a Code
+          </Button>
+        </Box>
+        {archivedGroups.length > 0 && (
+          <Box sx={{ mt: 3 }}>
+            <Button
+              color="inherit"
+              onClick={() => setArchiveOpen((open) => !open)}
+              endIcon={isArchiveOpen ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+            >
+              Archived ({archivedGroups.length})
+            </Button>
+            <Collapse in={isArchiveOpen}>
+              <Stack spacing={1} sx={{ mt: 1 }}>
+                {archivedGroups.map((group) => (
+                  <Card key={group.gid} variant="outlined" sx={{ opacity: 0.8 }}>
+                    <ListItem
+                      secondaryAction={
+                        !user || !group.adminUids[user.uid] ? null : isBeingDeleted(group) ? (
+                          <Button size="small" color="error" onClick={() => setGroupToDelete(group)}>
+                            Resume
+                          </Button>
+                        ) : (
+                          <>
+                            <Button size="small" onClick={() => handleUnarchive(group.gid)}>
+                              Restore
+                            </Button>
+                            <IconButton
+                              edge="end"
+                              aria-label={`Delete ${group.name} permanently`}
+                              onClick={() => setGroupToDelete(group)}
+                            >
+                              <DeleteForeverIcon />
+                            </IconButton>
+                          </>
+                        )
+                      }
+                    >
+                      <Box sx={{ mr: 2, display: 'flex' }}>
+                        <Typography variant="h5">{group.icon}</Typography>
+                      </Box>
+                      <ListItemText
+                        primary={group.name}
+                        secondary={
+                          isBeingDeleted(group)
+                            ? 'Deletion interrupted'
+                            : group.purgeAt
+                              ? `Deleted in ${daysUntilPurge(group.purgeAt, now)} days`
+                              : 'Archived'
+                        }
+                      />
+                    </ListItem>
+                  </Card>
+                ))}
+              </Stack>
+            </Collapse>
+          </Box>
+        )}
       </Box>
       <Fab
         color="secondary"
@@ -176,6 +318,25 @@ export const DashboardScreen: FC = () => {
         open={isCreateDialogOpen}
         onClose={() => setCreateDialogOpen(false)}
       />
+      <RestoreGroupDialog
+        open={isRestoreDialogOpen}
+        onClose={() => setRestoreDialogOpen(false)}
+        onError={setDashboardError}
+      />
+      <EnterJoinCodeDialog
+        open={isJoinCodeDialogOpen}
+        onClose={() => setJoinCodeDialogOpen(false)}
+      />
+      <DeleteGroupDialog
+        group={groupToDelete}
+        onClose={() => setGroupToDelete(null)}
+        onError={setDashboardError}
+      />
+      <Snackbar open={!!dashboardError} autoHideDuration={6000} onClose={() => setDashboardError(null)}>
+        <Alert onClose={() => setDashboardError(null)} severity="error" sx={{ width: '100%' }}>
+          {dashboardError}
+        </Alert>
+      </Snackbar>
       <Menu
         anchorEl={settingsMenu.anchorEl}
         open={settingsMenu.isOpen}
@@ -189,6 +350,14 @@ export const DashboardScreen: FC = () => {
         >
           Settings
         </MenuItem>
+        <MenuItem
+          onClick={() => {
+            settingsMenu.handleClose();
+            setRestoreDialogOpen(true);
+          }}
+        >
+          Restore Group from Backup
+        </MenuItem>
         <MenuItem onClick={handleLogout}>Log Out</MenuItem>
       </Menu>
     </>
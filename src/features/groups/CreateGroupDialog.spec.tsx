@@ -18,6 +18,7 @@ vi.mock('react-router-dom', () => ({
 }));
 vi.mock('../auth/useAuthStore');
 vi.mock('./repository');
+vi.mock('../auth/userRepository');
 vi.mock('../../shared/components/EmojiPickerPopover', () => ({
   EmojiPickerPopover: ({ onEmojiSelect, open, onClose }: { onEmojiSelect: (e: string) => void, open: boolean, onClose: () => void }) => {
     if (!open) return null;
@@ -40,6 +41,7 @@ vi.mock('../../shared/components/EmojiPickerPopover', () => ({
 import { useNavigate } from 'react-router-dom';
 import { useAuthStore } from '../auth/useAuthStore';
 import { groupsRepository } from './repository';
+import { userRepository } from '../auth/userRepository';
 import { CreateGroupDialog } from './CreateGroupDialog'; // Import the renamed component
 import type { AppUser } from '../auth/useAuthStore';
 
@@ -63,6 +65,7 @@ describe('CreateGroupDialog', () => {
     mockUseNavigate.mockReturnValue(mockNavigate);
     mockUseAuthStore.mockReturnValue(mockUser);
     mockCreateGroup.mockResolvedValue('new-group-id');
+    vi.mocked(userRepository.listGroupTemplates).mockResolvedValue([]);
   });
 
   it('should call createGroup with correct data and navigate on success', async () => {
@@ -93,9 +96,37 @@ describe('CreateGroupDialog', () => {
         name: 'My Awesome Group',
         icon: '🧪',
         creator: mockUser,
+        rotationStrategy: 'round-robin',
       });
       expect(mockNavigate).toHaveBeenCalledWith('/group/new-group-id');
       expect(mockOnClose).toHaveBeenCalled();
     });
   });
-});
\ No newline at end of file
+
+  it('should prefill the form from a template and pass the template to createGroup', async () => {
+    const user = userEvent.setup();
+    vi.mocked(userRepository.listGroupTemplates).mockResolvedValue([
+      { id: 'saved-1', name: 'Our Flat', icon: '🏠', rotationStrategy: 'fewest-turns', placeholders: ['Sam'] },
+    ]);
+    render(<CreateGroupDialog open={true} onClose={mockOnClose} />);
+
+    await user.click(screen.getByLabelText(/Start From/i));
+    await user.click(await screen.findByRole('option', { name: /Our Flat/i }));
+
+    expect(screen.getByLabelText(/Group Name/i)).toHaveValue('Our Flat');
+    expect(screen.getByText('Adds Sam.')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /Create/i }));
+
+    await waitFor(() => {
+      expect(mockCreateGroup).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'Our Flat',
+          icon: '🏠',
+          rotationStrategy: 'fewest-turns',
+          template: expect.objectContaining({ id: 'saved-1' }),
+        }),
+      );
+    });
+  });
+});
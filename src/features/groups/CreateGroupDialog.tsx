@@ -1,24 +1,28 @@
 /**
  * @file packages/whoseturnnow/src/features/groups/CreateGroupDialog.tsx
- * @stamp {"ts":"2025-10-29T03:00:00Z"}
+ * @stamp {"ts":"2026-10-19T14:00:00Z"}
  * @architectural-role UI Component
  * @description
- * A modal component for creating a new group. It uses the "Close and Defer"
- * pattern to prevent focus-related race conditions upon submission.
+ * A modal component for creating a new group, capturing its name, icon and
+ * turn rotation strategy. The group can start from a built-in template or one
+ * the user saved, which prefills the form and adds placeholder participants,
+ * queues and wording. It uses the "Close and Defer" pattern to prevent
+ * focus-related race conditions upon submission.
  * @core-principles
  * 1. OWNS the UI state for the group creation form.
  * 2. MUST validate user input before proceeding.
  * 3. MUST deterministically manage focus by closing itself before triggering navigation.
+ * 4. MUST still offer the built-in templates when the user's own cannot be loaded.
  * @api-declaration
  *   - default: The CreateGroupDialog React functional component.
  * @contract
  *   assertions:
  *     purity: mutates
- *     state_ownership: [name, icon, isSubmitting]
+ *     state_ownership: [name, icon, rotationStrategy, templateId, savedTemplates, isSubmitting]
  *     external_io: none
  */
 
-import { useState, type FC } from 'react';
+import { useEffect, useState, type FC } from 'react';
 import { useNavigate } from 'react-router-dom';
 import Dialog from '@mui/material/Dialog';
 import DialogTitle from '@mui/material/DialogTitle';
@@ -30,14 +34,22 @@ import CircularProgress from '@mui/material/CircularProgress';
 import Box from '@mui/material/Box';
 import IconButton from '@mui/material/IconButton';
 import Typography from '@mui/material/Typography';
+import MenuItem from '@mui/material/MenuItem';
+import ListSubheader from '@mui/material/ListSubheader';
 import AddReactionIcon from '@mui/icons-material/AddReaction';
+import DeleteIcon from '@mui/icons-material/Delete';
 import { groupsRepository } from './repository';
 import { useAuthStore } from '../auth/useAuthStore';
+import { userRepository } from '../auth/userRepository';
 import { useMenuState } from './hooks/useMenuState';
 import { EmojiPickerPopover } from '../../shared/components/EmojiPickerPopover';
 import { logger } from '../../shared/utils/debug';
+import { ROTATION_STRATEGIES } from './utils/rotation';
+import { GROUP_TEMPLATES } from './utils/templates';
+import type { GroupTemplate, RotationStrategy } from '../../types/group';
 
 const DEFER_ACTION_MS = 50;
+const BLANK_TEMPLATE_ID = 'blank';
 
 interface CreateGroupDialogProps {
   open: boolean;
@@ -49,12 +61,54 @@ export const CreateGroupDialog: FC<CreateGroupDialogProps> = ({ open, onClose })
   const user = useAuthStore((state) => state.user);
   const [name, setName] = useState('');
   const [icon, setIcon] = useState('');
+  const [rotationStrategy, setRotationStrategy] = useState<RotationStrategy>('round-robin');
+  const [templateId, setTemplateId] = useState(BLANK_TEMPLATE_ID);
+  const [savedTemplates, setSavedTemplates] = useState<GroupTemplate[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const emojiPickerMenu = useMenuState();
 
+  useEffect(() => {
+    if (!open || !user) return;
+    let isCurrent = true;
+    userRepository
+      .listGroupTemplates(user.uid)
+      .then((templates) => {
+        if (isCurrent) setSavedTemplates(templates);
+      })
+      .catch((error) => logger.error('Failed to load saved templates:', { error }));
+    return () => {
+      isCurrent = false;
+    };
+  }, [open, user]);
+
+  const template = [...GROUP_TEMPLATES, ...savedTemplates].find((t) => t.id === templateId) ?? null;
+  const isSavedTemplate = savedTemplates.some((t) => t.id === templateId);
+
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id);
+    const selected = [...GROUP_TEMPLATES, ...savedTemplates].find((t) => t.id === id);
+    if (!selected) return;
+    setName(selected.name);
+    setIcon(selected.icon);
+    setRotationStrategy(selected.rotationStrategy);
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!user || !isSavedTemplate) return;
+    try {
+      await userRepository.deleteGroupTemplate(user.uid, templateId);
+      setSavedTemplates((current) => current.filter((t) => t.id !== templateId));
+      setTemplateId(BLANK_TEMPLATE_ID);
+    } catch (error) {
+      logger.error('Failed to delete template:', { error });
+    }
+  };
+
   const handleClose = () => {
     setName('');
     setIcon('');
+    setRotationStrategy('round-robin');
+    setTemplateId(BLANK_TEMPLATE_ID);
     onClose();
   };
 
@@ -72,6 +126,8 @@ export const CreateGroupDialog: FC<CreateGroupDialogProps> = ({ open, onClose })
           name: name.trim(),
           icon: icon.trim(),
           creator: user,
+          rotationStrategy,
+          ...(template && { template }),
         });
         navigate(`/group/${newGroupId}`);
       } catch (error) {
@@ -87,6 +143,53 @@ export const CreateGroupDialog: FC<CreateGroupDialogProps> = ({ open, onClose })
       <Dialog open={open} onClose={handleClose} fullWidth maxWidth="xs">
         <DialogTitle>Create a New Group</DialogTitle>
         <DialogContent>
+          <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+            <TextField
+              select
+              margin="dense"
+              id="group-template"
+              label="Start From"
+              fullWidth
+              variant="standard"
+              value={templateId}
+              onChange={(e) => handleTemplateChange(e.target.value)}
+              helperText={
+                template &&
+                [
+                  template.description,
+                  template.placeholders.length > 0 && `Adds ${template.placeholders.join(', ')}.`,
+                  template.queueNames?.length && `Queues: ${template.queueNames.join(', ')}.`,
+                ]
+                  .filter(Boolean)
+                  .join(' ')
+              }
+              disabled={isSubmitting}
+            >
+              <MenuItem value={BLANK_TEMPLATE_ID}>Blank Group</MenuItem>
+              <ListSubheader>Templates</ListSubheader>
+              {GROUP_TEMPLATES.map((option) => (
+                <MenuItem key={option.id} value={option.id}>
+                  {option.icon} {option.name}
+                </MenuItem>
+              ))}
+              {savedTemplates.length > 0 && <ListSubheader>Your Templates</ListSubheader>}
+              {savedTemplates.map((option) => (
+                <MenuItem key={option.id} value={option.id}>
+                  {option.icon} {option.name}
+                </MenuItem>
+              ))}
+            </TextField>
+            {isSavedTemplate && (
+              <IconButton
+                aria-label="delete template"
+                onClick={handleDeleteTemplate}
+                disabled={isSubmitting}
+                sx={{ mt: 2 }}
+              >
+                <DeleteIcon />
+              </IconButton>
+            )}
+          </Box>
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mt: 1 }}>
             <IconButton
               aria-label="select emoji icon"
@@ -113,6 +216,24 @@ export const CreateGroupDialog: FC<CreateGroupDialogProps> = ({ open, onClose })
               disabled={isSubmitting}
             />
           </Box>
+          <TextField
+            select
+            margin="normal"
+            id="rotation-strategy"
+            label="Turn Rotation"
+            fullWidth
+            variant="standard"
+            value={rotationStrategy}
+            onChange={(e) => setRotationStrategy(e.target.value as RotationStrategy)}
+            helperText={ROTATION_STRATEGIES.find((s) => s.value === rotationStrategy)?.description}
+            disabled={isSubmitting}
+          >
+            {ROTATION_STRATEGIES.map((option) => (
+              <MenuItem key={option.value} value={option.value}>
+                {option.label}
+              </MenuItem>
+            ))}
+          </TextField>
         </DialogContent>
         <DialogActions>
           <Button onClick={handleClose} disabled={isSubmitting}>
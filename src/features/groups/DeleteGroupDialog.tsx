@@ -0,0 +1,104 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/DeleteGroupDialog.tsx
+ * @stamp {"ts":"2026-10-19T14:15:00Z"}
+ * @architectural-role UI Component
+ * @description
+ * A modal component for permanently deleting an archived group and its whole
+ * history. Unlike the other dialogs it stays open while the deletion runs, so
+ * it can show how much of the history has been removed. A deletion that was
+ * interrupted can be resumed from the same dialog.
+ * @core-principles
+ * 1. OWNS the UI state for confirming a deletion and following its progress.
+ * 2. MUST NOT be dismissible while a deletion is running.
+ * 3. DELEGATES the deletion itself to the repository.
+ * @api-declaration
+ *   - default: The DeleteGroupDialog React functional component.
+ * @contract
+ *   assertions:
+ *     purity: mutates
+ *     state_ownership: [progress, isDeleting]
+ *     external_io: none
+ */
+
+import { useState, type FC } from 'react';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogContentText from '@mui/material/DialogContentText';
+import DialogActions from '@mui/material/DialogActions';
+import Button from '@mui/material/Button';
+import LinearProgress from '@mui/material/LinearProgress';
+import Typography from '@mui/material/Typography';
+import { groupsRepository } from './repository';
+import { logger } from '../../shared/utils/debug';
+import { isBeingDeleted } from './utils/archive';
+import type { Group } from '../../types/group';
+
+interface DeleteGroupDialogProps {
+  group: Group | null;
+  onClose: () => void;
+  onError: (message: string) => void;
+}
+
+export const DeleteGroupDialog: FC<DeleteGroupDialogProps> = ({ group, onClose, onError }) => {
+  const [progress, setProgress] = useState<{ deleted: number; total: number } | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const handleClose = () => {
+    if (isDeleting) return;
+    setProgress(null);
+    onClose();
+  };
+
+  const handleConfirm = async () => {
+    if (!group) return;
+    setIsDeleting(true);
+    try {
+      await groupsRepository.deleteGroup(group.gid, (deleted, total) => setProgress({ deleted, total }));
+    } catch (error) {
+      logger.error('Failed to delete group:', { error });
+      onError('The group was only partly deleted. Choose Resume on the dashboard to finish.');
+    } finally {
+      setIsDeleting(false);
+      setProgress(null);
+      onClose();
+    }
+  };
+
+  const isResuming = !!group && isBeingDeleted(group);
+
+  return (
+    <Dialog open={!!group} onClose={handleClose} fullWidth maxWidth="xs">
+      <DialogTitle>{isResuming ? 'Finish Deleting Group?' : 'Delete Group Permanently?'}</DialogTitle>
+      <DialogContent>
+        <DialogContentText>
+          {isResuming
+            ? `Deleting "${group?.name}" was interrupted. Continue deleting it and its remaining history?`
+            : `"${group?.name}" and its entire history will be deleted for everyone. This cannot be undone.`}
+        </DialogContentText>
+        {isDeleting && (
+          <>
+            <LinearProgress
+              variant={progress && progress.total > 0 ? 'determinate' : 'indeterminate'}
+              value={progress && progress.total > 0 ? (progress.deleted / progress.total) * 100 : 0}
+              sx={{ mt: 2 }}
+            />
+            {progress && (
+              <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                Deleted {progress.deleted} of {progress.total} history entries
+              </Typography>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose} disabled={isDeleting}>
+          Cancel
+        </Button>
+        <Button onClick={handleConfirm} variant="contained" color="error" disabled={isDeleting}>
+          {isResuming ? 'Resume' : 'Delete'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -1,10 +1,14 @@
 /**
  * @file packages/whoseturnnow/src/features/groups/GroupDetailScreen.tsx
- * @stamp {"ts":"2025-10-25T08:30:00Z"}
+ * @stamp {"ts":"2026-10-19T15:45:00Z"}
  * @architectural-role UI Component
  * @description
  * The top-level UI component for the Group Detail feature. It is a lean,
  * presentational component that delegates all logic to the `useGroupDetail` hook.
+ * When a group holds more than one queue, a tab bar switches between them.
+ * An archived group shows a banner saying when it will be deleted, and admins
+ * see any requests to join waiting for their approval. A group whose deletion
+ * was interrupted shows a banner instead of its turn actions.
  * @core-principles
  * 1. IS a "dumb" component that primarily composes other dumb children.
  * 2. MUST delegate all business logic to its backing `useGroupDetail` hook.
@@ -27,12 +31,20 @@ import Button from '@mui/material/Button';
 import IconButton from '@mui/material/IconButton';
 import MoreVertIcon from '@mui/icons-material/MoreVert';
 import Stack from '@mui/material/Stack';
+import Tabs from '@mui/material/Tabs';
+import Tab from '@mui/material/Tab';
+import Alert from '@mui/material/Alert';
 import { useGroupDetail } from './hooks/useGroupDetail';
 import { useAppBar } from '../../shared/hooks/useAppBar';
 import { ParticipantList } from './components/ParticipantList';
 import { TurnHistory } from './components/TurnHistory';
 import { GroupActionButtons } from './components/GroupActionButtons';
 import { GroupManagementDialogs } from './components/GroupManagementDialogs';
+import { SwapRequestsPanel } from './components/SwapRequestsPanel';
+import { JoinRequestsPanel } from './components/JoinRequestsPanel';
+import { TurnReviewPanel } from './components/TurnReviewPanel';
+import { resolveWording } from './utils/templates';
+import { daysUntilPurge, isArchived, isBeingDeleted } from './utils/archive';
 
 export const GroupDetailScreen: FC = () => {
   const { groupId } = useParams<{ groupId: string }>();
@@ -41,13 +53,15 @@ export const GroupDetailScreen: FC = () => {
   const viewModel = useGroupDetail(groupId);
   const {
     group,
-    turnLog,
     isLoading,
     orderedParticipants,
     isAdmin,
     isUserTurn,
     actions,
     groupMenu,
+    queues,
+    activeQueueId,
+    queueView,
   } = viewModel;
 
   const appBarActions = useMemo(() => {
@@ -89,7 +103,7 @@ export const GroupDetailScreen: FC = () => {
     );
   }
 
-  if (!group) {
+  if (!group || !queueView) {
     return (
       <Stack spacing={2} alignItems="center" sx={{ mt: 4 }}>
         <Typography variant="h5">Group not found.</Typography>
@@ -103,6 +117,61 @@ export const GroupDetailScreen: FC = () => {
   return (
     <>
       <Stack spacing={4} sx={{ pb: 12 }}>
+        {isBeingDeleted(group) ? (
+          <Alert severity="error">
+            Deleting this group was interrupted, so no turns can be taken in it.
+            {isAdmin ? ' Choose Resume on the dashboard to finish deleting it.' : ''}
+          </Alert>
+        ) : isArchived(group) && (
+          <Alert
+            severity="warning"
+            action={
+              isAdmin && (
+                <Button color="inherit" size="small" onClick={actions.handleUnarchiveGroup}>
+                  Restore
+                </Button>
+              )
+            }
+          >
+            This group is archived and will be deleted
+            {group.purgeAt ? ` in ${daysUntilPurge(group.purgeAt, viewModel.now)} days` : ''}.
+          </Alert>
+        )}
+        {queues.length > 1 && (
+          <Tabs
+            value={activeQueueId}
+            onChange={(_e, queueId: string) => viewModel.setActiveQueueId(queueId)}
+            variant="scrollable"
+            scrollButtons="auto"
+            aria-label="Queues"
+          >
+            {queues.map((queue) => (
+              <Tab key={queue.id} value={queue.id} label={queue.name} />
+            ))}
+          </Tabs>
+        )}
+        <JoinRequestsPanel
+          requests={viewModel.joinRequests}
+          onApprove={actions.handleApproveJoinRequest}
+          onReject={actions.handleRejectJoinRequest}
+          isSubmitting={viewModel.isSubmitting}
+        />
+        <SwapRequestsPanel
+          requests={viewModel.pendingSwaps}
+          onAccept={actions.handleAcceptSwap}
+          onDecline={actions.handleDeclineSwap}
+          isSubmitting={viewModel.isSubmitting}
+        />
+        <TurnReviewPanel
+          turns={viewModel.turnsToReview.map((log) => ({
+            id: log.id,
+            status: log.confirmationStatus === 'disputed' ? 'disputed' : 'pending',
+            description: actions.formatLogEntry(log),
+            reviewedByName: log.reviewedByName,
+          }))}
+          onReview={actions.handleReviewTurn}
+          isSubmitting={viewModel.isSubmitting}
+        />
         <Stack spacing={1}>
           <Typography variant="h5" component="h2">
             Up Next
@@ -115,25 +184,51 @@ export const GroupDetailScreen: FC = () => {
             isAdmin={isAdmin}
             isUserTurn={isUserTurn} 
             showTurnCounts={viewModel.showTurnCounts}
+            schedule={queueView.schedule ?? null}
+            nextDueAt={queueView.nextDueAt ?? null}
+            turnInProgress={viewModel.turnInProgress}
+            showBalances={viewModel.isLedger}
+            isReordering={isAdmin && viewModel.isReordering}
+            onSaveOrder={actions.handleSaveOrder}
+            onCancelReorder={actions.handleCancelReorder}
           />
         </Stack>
           {viewModel.showTurnHistory && (
-            <TurnHistory turnLog={turnLog} formatLogEntry={actions.formatLogEntry} />
+            <TurnHistory
+              turnLog={viewModel.turnHistory.entries}
+              formatLogEntry={actions.formatLogEntry}
+              undoableLogIds={viewModel.undoableLogIds}
+              filters={viewModel.turnHistory.filters}
+              onFiltersChange={viewModel.turnHistory.setFilters}
+              participants={viewModel.turnHistory.participants}
+              actors={viewModel.turnHistory.actors}
+              hasMore={viewModel.turnHistory.hasMore}
+              isLoadingMore={viewModel.turnHistory.isLoadingMore}
+              onLoadMore={viewModel.turnHistory.loadMore}
+            />
           )}
       </Stack>
       
-      <GroupActionButtons
-        isParticipant={!!viewModel.currentUserParticipant}
-        onTurnAction={actions.handleTurnAction}
-        onUndoClick={viewModel.undoDialog.handleOpen}
-        onSkipClick={viewModel.skipDialog.handleOpen}
-        onInviteClick={actions.handleGenericInvite}
-        onAddParticipantClick={viewModel.addParticipantDialog.handleOpen}
-        isUserTurn={isUserTurn}
-        isSubmitting={viewModel.isSubmitting}
-        undoableAction={viewModel.undoableAction}
-        isAdmin={isAdmin}
-      />
+      {!isBeingDeleted(group) && (
+        <GroupActionButtons
+          isParticipant={!!viewModel.currentUserParticipant}
+          onTurnAction={actions.handleTurnAction}
+          onStartTurnClick={actions.handleStartTurn}
+          onUndoClick={viewModel.undoDialog.handleOpen}
+          onRedoClick={actions.handleRedo}
+          onSkipClick={viewModel.skipDialog.handleOpen}
+          onInviteClick={actions.handleGenericInvite}
+          onAddParticipantClick={viewModel.addParticipantDialog.handleOpen}
+          isUserTurn={isUserTurn}
+          canStartTurn={viewModel.canStartTurn}
+          isUserTurnStarted={viewModel.isUserTurnStarted}
+          isSubmitting={viewModel.isSubmitting}
+          undoableAction={viewModel.undoableAction}
+          redoableAction={viewModel.redoableAction}
+          isAdmin={isAdmin}
+          turnLabel={resolveWording(group).turn}
+        />
+      )}
 
       <GroupManagementDialogs {...viewModel} />
     </>
@@ -0,0 +1,128 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/RestoreGroupDialog.tsx
+ * @stamp {"ts":"2026-10-19T13:55:00Z"}
+ * @architectural-role UI Component
+ * @description
+ * A modal component for restoring a group from a backup file. The chosen file
+ * is validated as soon as it is picked: a valid backup is summarised before it
+ * is restored, and an invalid one is rejected with the reason. It uses the
+ * "Close and Defer" pattern to prevent focus-related race conditions upon
+ * submission.
+ * @core-principles
+ * 1. OWNS the UI state for choosing and checking a backup file.
+ * 2. MUST NOT restore a file that failed validation.
+ * 3. DELEGATES validation to the backup utils and the restore to the repository.
+ * 4. MUST deterministically manage focus by closing itself before triggering navigation.
+ * @api-declaration
+ *   - default: The RestoreGroupDialog React functional component.
+ * @contract
+ *   assertions:
+ *     purity: mutates
+ *     state_ownership: [fileName, backup, error]
+ *     external_io: none
+ */
+
+import { useState, type ChangeEvent, type FC } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogContentText from '@mui/material/DialogContentText';
+import DialogActions from '@mui/material/DialogActions';
+import Button from '@mui/material/Button';
+import Alert from '@mui/material/Alert';
+import Typography from '@mui/material/Typography';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import { groupsRepository } from './repository';
+import { useAuthStore } from '../auth/useAuthStore';
+import { logger } from '../../shared/utils/debug';
+import { parseGroupBackup, type GroupBackup } from './utils/backup';
+
+const DEFER_ACTION_MS = 50;
+
+interface RestoreGroupDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onError: (message: string) => void;
+}
+
+export const RestoreGroupDialog: FC<RestoreGroupDialogProps> = ({ open, onClose, onError }) => {
+  const navigate = useNavigate();
+  const user = useAuthStore((state) => state.user);
+  const [fileName, setFileName] = useState('');
+  const [backup, setBackup] = useState<GroupBackup | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClose = () => {
+    setFileName('');
+    setBackup(null);
+    setError(null);
+    onClose();
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    try {
+      setBackup(parseGroupBackup(await file.text()));
+      setError(null);
+    } catch (parseError) {
+      setBackup(null);
+      setError(parseError instanceof Error ? parseError.message : 'This file could not be read.');
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!backup || !user) return;
+    handleClose();
+
+    setTimeout(async () => {
+      try {
+        const newGroupId = await groupsRepository.restoreGroupBackup(backup, user);
+        navigate(`/group/${newGroupId}`);
+      } catch (restoreError) {
+        logger.error('Failed to restore group:', { error: restoreError });
+        onError('Could not restore the group.');
+      }
+    }, DEFER_ACTION_MS);
+  };
+
+  const linkedCount = backup?.group.participants.filter((p) => p.uid && p.uid !== user?.uid).length ?? 0;
+
+  return (
+    <Dialog open={open} onClose={handleClose} fullWidth maxWidth="xs">
+      <DialogTitle>Restore a Group</DialogTitle>
+      <DialogContent>
+        <DialogContentText>
+          Restoring creates a new copy of the group with you as its admin. Everyone else becomes a
+          placeholder that can be claimed again with an invite link.
+        </DialogContentText>
+        <Button component="label" variant="outlined" startIcon={<UploadFileIcon />} sx={{ mt: 2 }}>
+          {fileName || 'Choose Backup File'}
+          <input type="file" accept="application/json,.json" hidden onChange={handleFileChange} />
+        </Button>
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+        {backup && (
+          <Typography variant="body2" sx={{ mt: 2 }}>
+            {backup.group.icon} {backup.group.name}: {backup.group.participants.length} participants
+            {linkedCount > 0 && ` (${linkedCount} to re-invite)`} and {backup.turnLog.length} history
+            entries, backed up {new Date(backup.exportedAt).toLocaleDateString()}.
+          </Typography>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>Cancel</Button>
+        <Button onClick={handleSubmit} variant="contained" disabled={!backup}>
+          Restore
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,82 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/components/ArchiveGroupDialog.tsx
+ * @stamp {"ts":"2026-10-19T14:10:00Z"}
+ * @architectural-role UI Component
+ * @description
+ * A modal dialog for an admin to archive the group, choosing how long it is
+ * kept in the archive before it is permanently deleted.
+ * @core-principles
+ * 1. IS a self-contained component for a single user action.
+ * 2. OWNS the local form state for the chosen retention period.
+ * 3. MUST use the "Close and Defer" pattern on submission.
+ */
+
+import { useState, useEffect, type FC } from 'react';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogContentText from '@mui/material/DialogContentText';
+import DialogActions from '@mui/material/DialogActions';
+import TextField from '@mui/material/TextField';
+import MenuItem from '@mui/material/MenuItem';
+import Button from '@mui/material/Button';
+import { ARCHIVE_RETENTION_OPTIONS, DEFAULT_ARCHIVE_RETENTION_DAYS } from '../utils/archive';
+
+const DEFER_ACTION_MS = 50;
+
+interface ArchiveGroupDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onConfirm: (retentionDays: number) => Promise<void>;
+}
+
+export const ArchiveGroupDialog: FC<ArchiveGroupDialogProps> = ({ open, onClose, onConfirm }) => {
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_ARCHIVE_RETENTION_DAYS);
+
+  useEffect(() => {
+    if (open) {
+      setRetentionDays(DEFAULT_ARCHIVE_RETENTION_DAYS);
+    }
+  }, [open]);
+
+  const handleConfirm = () => {
+    onClose();
+    setTimeout(() => {
+      onConfirm(retentionDays);
+    }, DEFER_ACTION_MS);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Archive Group?</DialogTitle>
+      <DialogContent>
+        <DialogContentText>
+          The group moves to the Archived section of every member's dashboard, where an admin can
+          restore it. Once the period below has passed it is deleted permanently.
+        </DialogContentText>
+        <TextField
+          select
+          margin="normal"
+          id="archive-retention"
+          label="Delete After"
+          fullWidth
+          variant="standard"
+          value={retentionDays}
+          onChange={(e) => setRetentionDays(Number(e.target.value))}
+        >
+          {ARCHIVE_RETENTION_OPTIONS.map((option) => (
+            <MenuItem key={option.days} value={option.days}>
+              {option.label}
+            </MenuItem>
+          ))}
+        </TextField>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={handleConfirm} variant="contained" color="warning">
+          Archive
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,126 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/components/AwayDialog.tsx
+ * @stamp {"ts":"2026-10-19T12:00:00Z"}
+ * @architectural-role UI Component
+ * @description
+ * A modal dialog for marking a participant as away until a return date, or as
+ * back early. It uses the "Close and Defer" pattern to prevent focus-related
+ * race conditions upon submission.
+ * @core-principles
+ * 1. IS a self-contained component for a single user action.
+ * 2. OWNS the local form state for the return date.
+ * 3. MUST only accept return dates in the future.
+ * @api-declaration
+ *   - default: The AwayDialog React functional component.
+ * @contract
+ *   assertions:
+ *     purity: mutates
+ *     state_ownership: [returnDate]
+ *     external_io: none
+ */
+
+import { useState, useEffect, type FC } from 'react';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogContentText from '@mui/material/DialogContentText';
+import TextField from '@mui/material/TextField';
+import DialogActions from '@mui/material/DialogActions';
+import Button from '@mui/material/Button';
+
+const DEFER_ACTION_MS = 50;
+
+/**
+ * Converts a `YYYY-MM-DD` input value to local midnight in epoch milliseconds.
+ */
+function parseDateInput(value: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime();
+}
+
+/**
+ * Formats epoch milliseconds as a local `YYYY-MM-DD` input value.
+ */
+function toDateInput(ms: number): string {
+  const date = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+interface AwayDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onConfirm: (awayUntil: number | null) => void;
+  participantName: string;
+  currentAwayUntil: number | null;
+}
+
+export const AwayDialog: FC<AwayDialogProps> = ({
+  open,
+  onClose,
+  onConfirm,
+  participantName,
+  currentAwayUntil,
+}) => {
+  const [returnDate, setReturnDate] = useState('');
+  const isCurrentlyAway = currentAwayUntil !== null && currentAwayUntil > Date.now();
+
+  useEffect(() => {
+    if (open) {
+      setReturnDate(isCurrentlyAway ? toDateInput(currentAwayUntil!) : '');
+    }
+  }, [open, isCurrentlyAway, currentAwayUntil]);
+
+  const tomorrow = new Date();
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  const awayUntil = parseDateInput(returnDate);
+  const isValid = awayUntil !== null && awayUntil > Date.now();
+
+  const submit = (value: number | null) => {
+    onClose();
+    setTimeout(() => {
+      onConfirm(value);
+    }, DEFER_ACTION_MS);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Away</DialogTitle>
+      <DialogContent>
+        <DialogContentText>
+          While away, {participantName} will be passed over without a skip being recorded.
+        </DialogContentText>
+        <TextField
+          autoFocus
+          margin="dense"
+          id="away-until"
+          label="Back on"
+          type="date"
+          fullWidth
+          variant="standard"
+          value={returnDate}
+          onChange={(e) => setReturnDate(e.target.value)}
+          error={returnDate !== '' && !isValid}
+          InputLabelProps={{ shrink: true }}
+          inputProps={{ min: toDateInput(tomorrow.getTime()) }}
+        />
+      </DialogContent>
+      <DialogActions>
+        {isCurrentlyAway && (
+          <Button onClick={() => submit(null)} sx={{ mr: 'auto' }}>
+            Back Now
+          </Button>
+        )}
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          onClick={() => isValid && submit(awayUntil)}
+          variant="contained"
+          disabled={!isValid}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,96 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/components/DuplicateGroupDialog.tsx
+ * @stamp {"ts":"2026-10-19T14:05:00Z"}
+ * @architectural-role UI Component
+ * @description
+ * A modal dialog for an admin to duplicate the group: the same people and
+ * settings under a new name, either keeping the current turn order and counts
+ * or starting afresh.
+ * @core-principles
+ * 1. IS a self-contained component for a single user action.
+ * 2. OWNS the local form state for the copy's name and whether to keep progress.
+ * 3. MUST use the "Close and Defer" pattern on submission.
+ */
+
+import { useState, useEffect, type FC } from 'react';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogContentText from '@mui/material/DialogContentText';
+import TextField from '@mui/material/TextField';
+import DialogActions from '@mui/material/DialogActions';
+import Button from '@mui/material/Button';
+import RadioGroup from '@mui/material/RadioGroup';
+import Radio from '@mui/material/Radio';
+import FormControlLabel from '@mui/material/FormControlLabel';
+
+const DEFER_ACTION_MS = 50;
+
+interface DuplicateGroupDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onConfirm: (name: string, keepProgress: boolean) => Promise<void>;
+  groupName: string;
+}
+
+export const DuplicateGroupDialog: FC<DuplicateGroupDialogProps> = ({
+  open,
+  onClose,
+  onConfirm,
+  groupName,
+}) => {
+  const [name, setName] = useState('');
+  const [keepProgress, setKeepProgress] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(`${groupName} (Copy)`);
+      setKeepProgress(false);
+    }
+  }, [open, groupName]);
+
+  const handleConfirm = () => {
+    if (!name.trim()) return;
+    onClose();
+    setTimeout(() => {
+      onConfirm(name.trim(), keepProgress);
+    }, DEFER_ACTION_MS);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Duplicate Group</DialogTitle>
+      <DialogContent>
+        <DialogContentText>
+          The copy has the same participants, roles and settings. History and pending swaps are not
+          copied.
+        </DialogContentText>
+        <TextField
+          autoFocus
+          margin="dense"
+          id="duplicate-name"
+          label="Group Name"
+          type="text"
+          fullWidth
+          variant="standard"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <RadioGroup
+          value={keepProgress ? 'keep' : 'reset'}
+          onChange={(e) => setKeepProgress(e.target.value === 'keep')}
+          sx={{ mt: 2 }}
+        >
+          <FormControlLabel value="reset" control={<Radio />} label="Start fresh: roster order, counts at zero" />
+          <FormControlLabel value="keep" control={<Radio />} label="Keep the current turn order and counts" />
+        </RadioGroup>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={handleConfirm} variant="contained" disabled={!name.trim()}>
+          Duplicate
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -26,35 +26,52 @@ import Fab from '@mui/material/Fab';
 import CircularProgress from '@mui/material/CircularProgress';
 import ShareIcon from '@mui/icons-material/Share';
 import UndoIcon from '@mui/icons-material/Undo';
+import RedoIcon from '@mui/icons-material/Redo';
 import AddIcon from '@mui/icons-material/Add';
 import SkipNextIcon from '@mui/icons-material/SkipNext';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
 import Stack from '@mui/material/Stack';
-import type { TurnCompletedLog } from '../../../types/group';
+import type { LogEntry, TurnUndoneLog } from '../../../types/group';
 
 interface GroupActionButtonsProps {
   onTurnAction: () => void;
+  onStartTurnClick: () => void;
   onUndoClick: () => void;
+  onRedoClick: () => void;
   onSkipClick: () => void;
   onInviteClick: () => void;
   onAddParticipantClick: (event: MouseEvent<HTMLElement>) => void;
   isUserTurn: boolean;
+  canStartTurn: boolean;
+  isUserTurnStarted: boolean;
   isSubmitting: boolean;
-  undoableAction: (TurnCompletedLog & { id: string }) | null;
+  undoableAction: (LogEntry & { id: string }) | null;
+  redoableAction: (TurnUndoneLog & { id: string }) | null;
   isParticipant: boolean;
   isAdmin: boolean;
+  /**
+   * The group's word for a turn, used on the main action button (e.g., "Complete My Coffee Run").
+   */
+  turnLabel: string;
 }
 
 export const GroupActionButtons: FC<GroupActionButtonsProps> = ({
   onTurnAction,
+  onStartTurnClick,
   onUndoClick,
+  onRedoClick,
   onSkipClick,
   onInviteClick,
   onAddParticipantClick,
   isUserTurn,
+  canStartTurn,
+  isUserTurnStarted,
   isSubmitting,
   undoableAction,
+  redoableAction,
   isParticipant,
   isAdmin,
+  turnLabel,
 }) => {
   if (!isParticipant) {
     return null;
@@ -105,6 +122,17 @@ export const GroupActionButtons: FC<GroupActionButtonsProps> = ({
             <SkipNextIcon />
           </Fab>
         )}
+        {canStartTurn && (
+          <Fab
+            color="primary"
+            aria-label="Start my turn"
+            onClick={onStartTurnClick}
+            disabled={isSubmitting}
+            size="medium"
+          >
+            <PlayArrowIcon />
+          </Fab>
+        )}
       </Stack>
 
       {/* --- CENTER BUTTON (FLUIDLY GROWING) --- */}
@@ -118,10 +146,12 @@ export const GroupActionButtons: FC<GroupActionButtonsProps> = ({
       >
         {isSubmitting ? (
           <CircularProgress size={24} color="inherit" />
+        ) : isUserTurnStarted ? (
+          `Finish My ${turnLabel}`
         ) : isUserTurn ? (
-          'Complete My Turn'
+          `Complete My ${turnLabel}`
         ) : (
-          'Take My Turn'
+          `Take My ${turnLabel}`
         )}
       </Fab>
 
@@ -135,13 +165,24 @@ export const GroupActionButtons: FC<GroupActionButtonsProps> = ({
       >
         <Fab
           color="primary"
-          aria-label="Undo last turn"
+          aria-label="Undo last action"
           disabled={!undoableAction || isSubmitting}
           onClick={onUndoClick}
           size="medium"
         >
           <UndoIcon />
         </Fab>
+        {redoableAction && (
+          <Fab
+            color="primary"
+            aria-label="Redo last undone action"
+            disabled={isSubmitting}
+            onClick={onRedoClick}
+            size="medium"
+          >
+            <RedoIcon />
+          </Fab>
+        )}
         {isAdmin && (
           <Fab
             color="primary"
@@ -1,6 +1,6 @@
 /**
  * @file packages/whoseturnnow/src/features/groups/components/GroupManagementDialogs.tsx
- * @stamp {"ts":"2025-10-29T03:15:00Z"}
+ * @stamp {"ts":"2026-10-19T14:40:00Z"}
  * @architectural-role UI Component
  * @description
  * A composite "UI Kit" component that encapsulates all dialogs, menus, and
@@ -35,6 +35,18 @@ import FormControlLabel from '@mui/material/FormControlLabel';
 import Checkbox from '@mui/material/Checkbox';
 import { AddParticipantDialog } from './AddParticipantDialog';
 import { ChangeGroupNameDialog } from './ChangeGroupNameDialog';
+import { RotationStrategyDialog } from './RotationStrategyDialog';
+import { ParticipantWeightDialog } from './ParticipantWeightDialog';
+import { ScheduleDialog } from './ScheduleDialog';
+import { QueuesDialog } from './QueuesDialog';
+import { AwayDialog } from './AwayDialog';
+import { TurnAmountDialog } from './TurnAmountDialog';
+import { SaveTemplateDialog } from './SaveTemplateDialog';
+import { DuplicateGroupDialog } from './DuplicateGroupDialog';
+import { JoinCodeDialog } from './JoinCodeDialog';
+import { InviteSheetDialog } from './InviteSheetDialog';
+import { ArchiveGroupDialog } from './ArchiveGroupDialog';
+import { resolveRotationStrategy } from '../utils/rotation';
 import { EmojiPickerPopover } from '../../../shared/components/EmojiPickerPopover';
 import type { useGroupDetail } from '../hooks/useGroupDetail';
 
@@ -44,7 +56,7 @@ const ResetCountsDialog: React.FC<{ dialog: ReturnType<typeof useGroupDetail>['r
         <DialogTitle>Reset All Turn Counts?</DialogTitle>
         <DialogContent>
             <DialogContentText>
-                This will set the turn count for every participant to zero. This action will be logged and cannot be undone.
+                This will set the turn count for every participant to zero. This action will be logged and can be undone.
             </DialogContentText>
         </DialogContent>
         <DialogActions>
@@ -54,21 +66,6 @@ const ResetCountsDialog: React.FC<{ dialog: ReturnType<typeof useGroupDetail>['r
     </Dialog>
 );
 
-const DeleteGroupDialog: React.FC<{ dialog: ReturnType<typeof useGroupDetail>['deleteDialog'] }> = ({ dialog }) => (
-    <Dialog open={dialog.isOpen} onClose={dialog.handleClose}>
-        <DialogTitle>Delete Group?</DialogTitle>
-        <DialogContent>
-            <DialogContentText>
-                Are you sure you want to permanently delete this group? This action cannot be undone.
-            </DialogContentText>
-        </DialogContent>
-        <DialogActions>
-            <Button onClick={dialog.handleClose}>Cancel</Button>
-            <Button onClick={dialog.handleConfirm} variant="contained" color="error">Delete</Button>
-        </DialogActions>
-    </Dialog>
-);
-
 // Define a comprehensive props interface for the main component
 type GroupManagementDialogsProps = Pick<
   ReturnType<typeof useGroupDetail>,
@@ -76,16 +73,28 @@ type GroupManagementDialogsProps = Pick<
   | 'participantMenu'
   | 'iconPickerMenu'
   | 'resetDialog'
-  | 'deleteDialog'
+  | 'archiveDialog'
   | 'undoDialog'
   | 'skipDialog'
   | 'addParticipantDialog'
   | 'changeNameDialog'
+  | 'rotationDialog'
+  | 'scheduleDialog'
+  | 'queuesDialog'
+  | 'saveTemplateDialog'
+  | 'duplicateDialog'
+  | 'joinCodeDialog'
+  | 'inviteSheetDialog'
+  | 'queues'
+  | 'weightDialog'
+  | 'awayDialog'
+  | 'amountDialog'
   | 'actions'
   | 'feedback'
   | 'undoableAction'
   | 'user'
   | 'group'
+  | 'now'
   | 'isAdmin'
   | 'isLastAdmin'
   | 'isSubmitting'
@@ -101,16 +110,28 @@ export const GroupManagementDialogs: React.FC<GroupManagementDialogsProps> = ({
     participantMenu,
     iconPickerMenu,
     resetDialog,
-    deleteDialog,
+    archiveDialog,
     undoDialog,
     skipDialog,
     addParticipantDialog,
     changeNameDialog,
+    rotationDialog,
+    scheduleDialog,
+    queuesDialog,
+    saveTemplateDialog,
+    duplicateDialog,
+    joinCodeDialog,
+    inviteSheetDialog,
+    queues,
+    weightDialog,
+    awayDialog,
+    amountDialog,
     actions,
     feedback,
     undoableAction,
     user,
     group,
+    now,
     isAdmin,
     isLastAdmin,
     isSubmitting,
@@ -136,6 +157,80 @@ export const GroupManagementDialogs: React.FC<GroupManagementDialogsProps> = ({
                 currentName={group?.name || ''}
             />
 
+            <RotationStrategyDialog
+                open={rotationDialog.isOpen}
+                onClose={rotationDialog.handleClose}
+                onConfirm={actions.handleUpdateRotationStrategy}
+                currentStrategy={resolveRotationStrategy(group ?? {})}
+            />
+
+            <ScheduleDialog
+                open={scheduleDialog.isOpen}
+                onClose={scheduleDialog.handleClose}
+                onConfirm={actions.handleUpdateSchedule}
+                currentSchedule={group?.schedule ?? null}
+            />
+
+            <QueuesDialog
+                open={queuesDialog.isOpen}
+                onClose={queuesDialog.handleClose}
+                queues={queues}
+                onAdd={actions.handleAddQueue}
+                onRemove={actions.handleRemoveQueue}
+            />
+
+            <SaveTemplateDialog
+                open={saveTemplateDialog.isOpen}
+                onClose={saveTemplateDialog.handleClose}
+                onConfirm={actions.handleSaveAsTemplate}
+                groupName={group?.name || ''}
+            />
+
+            <DuplicateGroupDialog
+                open={duplicateDialog.isOpen}
+                onClose={duplicateDialog.handleClose}
+                onConfirm={actions.handleDuplicateGroup}
+                groupName={group?.name || ''}
+            />
+
+            <JoinCodeDialog
+                open={joinCodeDialog.isOpen}
+                onClose={joinCodeDialog.handleClose}
+                onRegenerate={actions.handleRegenerateJoinCode}
+                joinCode={group?.joinCode ?? null}
+                now={now}
+            />
+
+            <InviteSheetDialog
+                open={inviteSheetDialog.isOpen}
+                onClose={inviteSheetDialog.handleClose}
+                onPrepare={actions.handlePrepareInviteSheet}
+                groupName={group?.name || ''}
+            />
+
+            <ParticipantWeightDialog
+                open={weightDialog.isOpen}
+                onClose={weightDialog.handleClose}
+                onConfirm={actions.handleConfirmWeight}
+                participantName={weightDialog.participant?.nickname || 'this participant'}
+                currentWeight={weightDialog.participant?.weight ?? 1}
+            />
+
+            <AwayDialog
+                open={awayDialog.isOpen}
+                onClose={awayDialog.handleClose}
+                onConfirm={actions.handleConfirmAway}
+                participantName={awayDialog.participant?.nickname || 'this participant'}
+                currentAwayUntil={awayDialog.participant?.awayUntil ?? null}
+            />
+
+            <TurnAmountDialog
+                open={amountDialog.isOpen}
+                onClose={amountDialog.handleClose}
+                onConfirm={actions.handleConfirmAmount}
+                participantName={amountDialog.participant?.nickname || 'this participant'}
+            />
+
             <Menu anchorEl={groupMenu.anchorEl} open={groupMenu.isOpen} onClose={groupMenu.handleClose}>
                 {isAdmin && (
                     [
@@ -153,12 +248,39 @@ export const GroupManagementDialogs: React.FC<GroupManagementDialogsProps> = ({
                                 sx={{ pl: 0.5, pr: 1 }}
                             />
                         </MenuItem>,
+                        <MenuItem key="toggle-confirmation" onClick={(e) => e.stopPropagation()}>
+                            <FormControlLabel
+                                control={<Checkbox checked={!!group?.requireConfirmation} onChange={actions.handleToggleRequireConfirmation} />}
+                                label="Require Confirmation"
+                                sx={{ pl: 0.5, pr: 1 }}
+                            />
+                        </MenuItem>,
+                        <MenuItem key="toggle-approval" onClick={(e) => e.stopPropagation()}>
+                            <FormControlLabel
+                                control={<Checkbox checked={!!group?.requireApproval} onChange={actions.handleToggleRequireApproval} />}
+                                label="Approve New Members"
+                                sx={{ pl: 0.5, pr: 1 }}
+                            />
+                        </MenuItem>,
                         <MenuItem key="change-name" onClick={() => { groupMenu.handleClose(); changeNameDialog.handleOpen(); }}>Change Name</MenuItem>,
                         <MenuItem key="change-icon" onClick={(e) => { groupMenu.handleClose(); iconPickerMenu.handleOpen(e); }}>Change Icon</MenuItem>,
+                        <MenuItem key="rotation" onClick={() => { groupMenu.handleClose(); rotationDialog.handleOpen(); }}>Turn Rotation</MenuItem>,
+                        <MenuItem key="schedule" onClick={() => { groupMenu.handleClose(); scheduleDialog.handleOpen(); }}>Schedule</MenuItem>,
+                        <MenuItem key="reorder" onClick={actions.handleStartReorder}>Reorder Queue</MenuItem>,
+                        <MenuItem key="queues" onClick={() => { groupMenu.handleClose(); queuesDialog.handleOpen(); }}>Manage Queues</MenuItem>,
                         <MenuItem key="reset-counts" onClick={resetDialog.handleOpen}>Reset All Turn Counts</MenuItem>,
-                        <MenuItem key="delete-group" onClick={deleteDialog.handleOpen}>Delete Group</MenuItem>
+                        <MenuItem key="invitations" onClick={actions.handleManageInvitations}>Manage Invites</MenuItem>,
+                        <MenuItem key="join-code" onClick={() => { groupMenu.handleClose(); joinCodeDialog.handleOpen(); }}>Join Code</MenuItem>,
+                        <MenuItem key="invite-sheet" onClick={() => { groupMenu.handleClose(); inviteSheetDialog.handleOpen(); }}>Invite Sheet (QR)</MenuItem>,
+                        <MenuItem key="duplicate" onClick={() => { groupMenu.handleClose(); duplicateDialog.handleOpen(); }}>Duplicate Group</MenuItem>,
+                        <MenuItem key="backup" onClick={actions.handleBackupGroup}>Back Up Group</MenuItem>,
+                        <MenuItem key="archive-group" onClick={() => { groupMenu.handleClose(); archiveDialog.handleOpen(); }}>Archive Group</MenuItem>
                     ]
                 )}
+                <MenuItem onClick={actions.handleOpenStats}>Statistics</MenuItem>
+                <MenuItem onClick={() => { groupMenu.handleClose(); saveTemplateDialog.handleOpen(); }}>Save as Template</MenuItem>
+                <MenuItem onClick={() => actions.handleExportHistory('csv')}>Export History (CSV)</MenuItem>
+                <MenuItem onClick={() => actions.handleExportHistory('json')}>Export History (JSON)</MenuItem>
                 <MenuItem onClick={actions.handleLeaveGroup} disabled={isLastAdmin}>Leave Group</MenuItem>
             </Menu>
 
@@ -178,18 +300,29 @@ export const GroupManagementDialogs: React.FC<GroupManagementDialogsProps> = ({
                             <MenuItem onClick={actions.handleRemoveParticipant}>Remove Participant</MenuItem>
                         </>
                     )}
+                    {participantMenu.selectedParticipant.uid !== null && participantMenu.selectedParticipant.uid !== user?.uid && (
+                        <MenuItem onClick={actions.handleRequestSwap}>Request Swap</MenuItem>
+                    )}
+                    {(isAdmin || participantMenu.selectedParticipant.uid === user?.uid) && (
+                        <MenuItem onClick={actions.handleOpenAwayDialog}>
+                            {participantMenu.selectedParticipant.awayUntil ? 'Change Away Status' : 'Set Away'}
+                        </MenuItem>
+                    )}
+                    {isAdmin && group && resolveRotationStrategy(group) === 'weighted' && (
+                        <MenuItem onClick={actions.handleOpenWeightDialog}>Set Turn Weight</MenuItem>
+                    )}
                 </Menu>
             )}
 
             <EmojiPickerPopover open={iconPickerMenu.isOpen} anchorEl={iconPickerMenu.anchorEl} onClose={iconPickerMenu.handleClose} onEmojiSelect={actions.handleUpdateGroupIcon} />
             <ResetCountsDialog dialog={resetDialog} />
-            <DeleteGroupDialog dialog={deleteDialog} />
+            <ArchiveGroupDialog open={archiveDialog.isOpen} onClose={archiveDialog.handleClose} onConfirm={actions.handleArchiveGroup} />
 
             <Dialog open={undoDialog.isOpen} onClose={undoDialog.handleClose}>
-                <DialogTitle>Undo Last Turn?</DialogTitle>
+                <DialogTitle>Undo Last Action?</DialogTitle>
                 <DialogContent>
                     <DialogContentText>
-                        This will reverse the turn taken by "{undoableAction?.participantName}". This action will be logged. Are you sure?
+                        This will reverse "{undoableAction && actions.formatLogEntry(undoableAction)}". This action will be logged. Are you sure?
                     </DialogContentText>
                 </DialogContent>
                 <DialogActions>
@@ -0,0 +1,149 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/components/InviteSheetDialog.tsx
+ * @stamp {"ts":"2026-10-19T15:40:00Z"}
+ * @architectural-role UI Component
+ * @description
+ * A modal dialog showing an invite sheet: a QR code for the group's generic
+ * invite and one for claiming each unclaimed placeholder, so people in the same
+ * room can join by pointing a camera at the screen. The codes are drawn in the
+ * browser, so the invite links never leave the device. The links are reused
+ * while they still work, so a sheet printed earlier keeps working. Printing the dialog
+ * hides the rest of the app and lays the codes out on a plain page that can be
+ * stuck on a wall.
+ * @core-principles
+ * 1. IS a self-contained component for a single user action.
+ * 2. OWNS the local state for the sheet's links, which are fetched each time it opens.
+ * 3. DELEGATES preparing the links to the handler it receives.
+ * 4. MUST NOT send the invite links to any third-party service.
+ */
+
+import { useEffect, useRef, useState, type FC } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogContentText from '@mui/material/DialogContentText';
+import DialogActions from '@mui/material/DialogActions';
+import Button from '@mui/material/Button';
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import CircularProgress from '@mui/material/CircularProgress';
+import GlobalStyles from '@mui/material/GlobalStyles';
+import { INVITATION_EXPIRY_DAYS, type InviteSheetEntry } from '../utils/invitations';
+
+interface InviteSheetDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onPrepare: () => Promise<InviteSheetEntry[] | null>;
+  groupName: string;
+}
+
+// While the dialog is open, printing shows only the sheet, on a plain page.
+const printStyles = (
+  <GlobalStyles
+    styles={{
+      '@media print': {
+        '#root': { display: 'none' },
+        '.MuiBackdrop-root': { display: 'none' },
+        '.MuiDialog-root': { position: 'static' },
+        '.MuiDialog-container': { display: 'block', height: 'auto' },
+        '.MuiDialog-paper': {
+          margin: 0,
+          maxWidth: 'none',
+          maxHeight: 'none',
+          boxShadow: 'none',
+          overflow: 'visible',
+        },
+      },
+    }}
+  />
+);
+
+export const InviteSheetDialog: FC<InviteSheetDialogProps> = ({
+  open,
+  onClose,
+  onPrepare,
+  groupName,
+}) => {
+  const [entries, setEntries] = useState<InviteSheetEntry[] | null>(null);
+  const [isPreparing, setIsPreparing] = useState(false);
+  // Links are prepared once per opening, even if the handler changes meanwhile.
+  const prepareRef = useRef(onPrepare);
+  prepareRef.current = onPrepare;
+
+  useEffect(() => {
+    if (!open) return;
+    let isActive = true;
+    setEntries(null);
+    setIsPreparing(true);
+    prepareRef.current()
+      .then((result) => {
+        if (isActive) setEntries(result);
+      })
+      .finally(() => {
+        if (isActive) setIsPreparing(false);
+      });
+    return () => {
+      isActive = false;
+    };
+  }, [open]);
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="md">
+      {open && printStyles}
+      <DialogTitle>Invite Sheet: {groupName}</DialogTitle>
+      <DialogContent>
+        <DialogContentText sx={{ mb: 2 }}>
+          Scan a code with a phone camera to join. Each claim code works once, and every code
+          stops working {INVITATION_EXPIRY_DAYS} days after it was first shown.
+        </DialogContentText>
+        {isPreparing && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', my: 4 }}>
+            <CircularProgress />
+          </Box>
+        )}
+        {!isPreparing && !entries && (
+          <DialogContentText color="error">The invite sheet could not be created.</DialogContentText>
+        )}
+        {entries && (
+          <Box
+            sx={{
+              display: 'grid',
+              gridTemplateColumns: 'repeat(auto-fill, minmax(200px, 1fr))',
+              gap: 3,
+            }}
+          >
+            {entries.map((entry) => (
+              <Box
+                key={entry.participantId ?? 'generic'}
+                sx={{
+                  display: 'flex',
+                  flexDirection: 'column',
+                  alignItems: 'center',
+                  p: 2,
+                  border: 1,
+                  borderColor: 'divider',
+                  borderRadius: 1,
+                  breakInside: 'avoid',
+                }}
+              >
+                <Box sx={{ p: 1, bgcolor: '#fff', lineHeight: 0 }}>
+                  <QRCodeSVG value={entry.url} size={168} marginSize={2} title={entry.label} />
+                </Box>
+                <Typography variant="subtitle1" align="center" sx={{ mt: 1 }}>
+                  {entry.label}
+                </Typography>
+              </Box>
+            ))}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ displayPrint: 'none' }}>
+        <Button onClick={onClose}>Close</Button>
+        <Button onClick={() => window.print()} variant="contained" disabled={!entries}>
+          Print
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
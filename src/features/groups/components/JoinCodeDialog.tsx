@@ -0,0 +1,97 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/components/JoinCodeDialog.tsx
+ * @stamp {"ts":"2026-10-19T16:05:00Z"}
+ * @architectural-role UI Component
+ * @description
+ * A modal dialog showing the group's join code in large type, with the date
+ * it expires beneath it, so an admin can read it out to people nearby, and
+ * letting them replace it with a new one.
+ * Unlike most dialogs it stays open while a new code is created, so the new
+ * code can be read straight away.
+ * @core-principles
+ * 1. IS a self-contained component for a single user action.
+ * 2. OWNS the local state for whether a new code is being created.
+ * 3. DELEGATES creating the code to the handler it receives.
+ */
+
+import { useState, type FC } from 'react';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogContentText from '@mui/material/DialogContentText';
+import DialogActions from '@mui/material/DialogActions';
+import Button from '@mui/material/Button';
+import Typography from '@mui/material/Typography';
+import type { Group } from '../../../types/group';
+import { formatJoinCode } from '../utils/joinCodes';
+
+interface JoinCodeDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onRegenerate: () => Promise<void>;
+  joinCode: Group['joinCode'];
+  now: number;
+}
+
+export const JoinCodeDialog: FC<JoinCodeDialogProps> = ({
+  open,
+  onClose,
+  onRegenerate,
+  joinCode,
+  now,
+}) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const isExpired = !!joinCode && joinCode.expiresAt <= now;
+
+  const handleRegenerate = async () => {
+    setIsCreating(true);
+    try {
+      await onRegenerate();
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Join Code</DialogTitle>
+      <DialogContent>
+        {joinCode ? (
+          <>
+            <Typography
+              variant="h3"
+              component="p"
+              align="center"
+              sx={{ fontFamily: 'monospace', letterSpacing: 4, my: 2, opacity: isExpired ? 0.4 : 1 }}
+            >
+              {formatJoinCode(joinCode.code)}
+            </Typography>
+            <Typography
+              variant="body2"
+              align="center"
+              color={isExpired ? 'error' : 'text.secondary'}
+              sx={{ mt: -1, mb: 2 }}
+            >
+              {`${isExpired ? 'Expired' : 'Expires'} ${new Intl.DateTimeFormat(undefined, { dateStyle: 'medium' }).format(new Date(joinCode.expiresAt))}`}
+            </Typography>
+            <DialogContentText>
+              {isExpired
+                ? 'This code has expired. Create a new one to let people join with a code.'
+                : 'Anyone can join by choosing "Enter a Code" on their dashboard.'}
+            </DialogContentText>
+          </>
+        ) : (
+          <DialogContentText>
+            Create a short code that people nearby can type in to join, instead of following a link.
+          </DialogContentText>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+        <Button onClick={handleRegenerate} variant="contained" disabled={isCreating}>
+          {joinCode ? 'New Code' : 'Create Code'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,68 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/components/JoinRequestsPanel.tsx
+ * @stamp {"ts":"2026-10-19T14:30:00Z"}
+ * @architectural-role UI Component
+ * @description
+ * Lists the users waiting for an admin to let them into a group that requires
+ * approval. Each request can be approved or rejected.
+ * @core-principles
+ * 1. IS a pure, presentational ("dumb") component.
+ * 2. MUST render nothing when there are no pending requests.
+ * 3. DELEGATES all actions to the handlers it receives.
+ * @api-declaration
+ *   - default: The JoinRequestsPanel React functional component.
+ * @contract
+ *   assertions:
+ *     purity: pure
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import { type FC } from 'react';
+import Stack from '@mui/material/Stack';
+import Alert from '@mui/material/Alert';
+import Button from '@mui/material/Button';
+import PersonAddIcon from '@mui/icons-material/PersonAdd';
+import type { JoinRequest } from '../../../types/group';
+
+interface JoinRequestsPanelProps {
+  requests: JoinRequest[];
+  onApprove: (requesterUid: string) => void;
+  onReject: (requesterUid: string) => void;
+  isSubmitting: boolean;
+}
+
+export const JoinRequestsPanel: FC<JoinRequestsPanelProps> = ({
+  requests,
+  onApprove,
+  onReject,
+  isSubmitting,
+}) => {
+  if (requests.length === 0) {
+    return null;
+  }
+
+  return (
+    <Stack spacing={1}>
+      {requests.map((request) => (
+        <Alert
+          key={request.uid}
+          icon={<PersonAddIcon />}
+          severity="info"
+          action={
+            <>
+              <Button color="inherit" size="small" onClick={() => onReject(request.uid)} disabled={isSubmitting}>
+                Reject
+              </Button>
+              <Button color="inherit" size="small" onClick={() => onApprove(request.uid)} disabled={isSubmitting}>
+                Approve
+              </Button>
+            </>
+          }
+        >
+          {request.displayName} asked to join the group.
+        </Alert>
+      ))}
+    </Stack>
+  );
+};
@@ -5,7 +5,12 @@
  * @description
  * Renders the ordered list of participants. It uses a prominent style for the
  * "Up Next" participant and a secondary highlight for the current user's row
- * to aid in self-location.
+ * to aid in self-location. For scheduled groups, the "Up Next" card also shows
+ * the current deadline and an "Overdue" state once it has passed. Away
+ * participants are greyed out and show their return date, and a turn that has
+ * been started shows as in progress with its elapsed time. Ledger groups show
+ * each participant's total spent and how far it is from the average. In
+ * reorder mode it delegates to the drag-and-drop `ReorderableParticipantList`.
  * @core-principles
  * 1. IS a pure, presentational ("dumb") component.
  * 2. MUST use a prominent, high-contrast style to distinguish the next participant.
@@ -29,7 +34,24 @@ import Chip from '@mui/material/Chip';
 import Typography from '@mui/material/Typography';
 import AdminPanelSettingsIcon from '@mui/icons-material/AdminPanelSettings';
 import ShareIcon from '@mui/icons-material/Share';
-import type { TurnParticipant } from '../../../types/group';
+import ScheduleIcon from '@mui/icons-material/Schedule';
+import FlightTakeoffIcon from '@mui/icons-material/FlightTakeoff';
+import HourglassTopIcon from '@mui/icons-material/HourglassTop';
+import type { GroupSchedule, TurnInProgress, TurnParticipant } from '../../../types/group';
+import { useNow } from '../../../shared/hooks/useNow';
+import { formatDuration } from '../../../shared/utils/formatDate';
+import { describeSchedule, formatDueAt, isOverdue } from '../utils/schedule';
+import { isParticipantAway } from '../utils/rotation';
+import { computeBalances, formatAmount } from '../utils/ledger';
+import { ReorderableParticipantList } from './ReorderableParticipantList';
+
+/**
+ * Formats an away participant's return date (e.g., "Mon, Oct 26").
+ */
+const formatReturnDate = (ms: number) =>
+  new Intl.DateTimeFormat(undefined, { weekday: 'short', month: 'short', day: 'numeric' }).format(
+    new Date(ms),
+  );
 
 interface ParticipantListProps {
   participants: TurnParticipant[];
@@ -42,6 +64,13 @@ interface ParticipantListProps {
   isAdmin: boolean;
   isUserTurn: boolean;
   showTurnCounts: boolean;
+  schedule?: GroupSchedule | null;
+  nextDueAt?: number | null;
+  turnInProgress?: TurnInProgress | null;
+  showBalances?: boolean;
+  isReordering?: boolean;
+  onSaveOrder?: (newOrder: string[]) => void;
+  onCancelReorder?: () => void;
 }
 
 export const ParticipantList: FC<ParticipantListProps> = ({
@@ -52,14 +81,71 @@ export const ParticipantList: FC<ParticipantListProps> = ({
   isAdmin,
   isUserTurn,
   showTurnCounts,
+  schedule = null,
+  nextDueAt = null,
+  turnInProgress = null,
+  showBalances = false,
+  isReordering = false,
+  onSaveOrder = () => {},
+  onCancelReorder = () => {},
 }) => {
   const theme = useTheme();
+  const now = useNow();
 
   if (participants.length === 0) {
     return null;
   }
 
+  if (isReordering) {
+    return (
+      <ReorderableParticipantList
+        participants={participants}
+        onSave={onSaveOrder}
+        onCancel={onCancelReorder}
+      />
+    );
+  }
+
   const [firstParticipant, ...remainingParticipants] = participants;
+  const overdue = isOverdue(nextDueAt, now);
+  // Members can open the menu on their own row (e.g., to set themselves away)
+  // and on other members' rows (e.g., to request a swap).
+  const canOpenMenu = (participant: TurnParticipant) =>
+    isAdmin ||
+    (!!currentUserParticipantId &&
+      (participant.id === currentUserParticipantId || participant.uid !== null));
+  const balances = showBalances ? computeBalances(participants) : {};
+  const describeStats = (participant: TurnParticipant) => {
+    const stats: string[] = [];
+    if (showTurnCounts) stats.push(`Turns: ${participant.turnCount}`);
+    if (showBalances) {
+      const balance = balances[participant.id] ?? 0;
+      stats.push(`Spent: ${formatAmount(participant.totalSpent ?? 0)}`);
+      if (balance !== 0) {
+        stats.push(`${formatAmount(Math.abs(balance))} ${balance < 0 ? 'behind' : 'ahead'}`);
+      }
+    }
+    return stats.length > 0 ? stats.join(' · ') : ' ';
+  };
+  const renderAwayChip = (participant: TurnParticipant) =>
+    isParticipantAway(participant, now) && (
+      <Chip
+        icon={<FlightTakeoffIcon />}
+        label={`Back ${formatReturnDate(participant.awayUntil!)}`}
+        size="small"
+        sx={{ ml: 1 }}
+      />
+    );
+  const renderInProgressChip = (participant: TurnParticipant) =>
+    turnInProgress?.participantId === participant.id && (
+      <Chip
+        icon={<HourglassTopIcon />}
+        label={`In progress · ${formatDuration(now - turnInProgress.startedAt)}`}
+        size="small"
+        color="info"
+        sx={{ ml: 1 }}
+      />
+    );
 
   return (
     <Stack spacing={4}>
@@ -68,14 +154,19 @@ export const ParticipantList: FC<ParticipantListProps> = ({
         key={firstParticipant.id}
         sx={{
           boxShadow: theme.shadows[8],
+          opacity: isParticipantAway(firstParticipant, now) ? 0.5 : 1,
           border: `2px solid ${
-            isUserTurn ? theme.palette.secondary.main : theme.palette.primary.main
+            overdue
+              ? theme.palette.error.main
+              : isUserTurn
+                ? theme.palette.secondary.main
+                : theme.palette.primary.main
           }`,
         }}
       >
         <ListItemButton
-          onClick={isAdmin ? (e) => onParticipantClick(e, firstParticipant) : undefined}
-          sx={{ cursor: isAdmin ? 'pointer' : 'default' }}
+          onClick={canOpenMenu(firstParticipant) ? (e) => onParticipantClick(e, firstParticipant) : undefined}
+          sx={{ cursor: canOpenMenu(firstParticipant) ? 'pointer' : 'default' }}
         >
           <ListItemText
             primary={
@@ -87,8 +178,20 @@ export const ParticipantList: FC<ParticipantListProps> = ({
                 {firstParticipant.nickname || 'Unnamed'}
               </Typography>
             }
-            secondary={showTurnCounts ? `Turns: ${firstParticipant.turnCount}` : ' '}
+            secondary={describeStats(firstParticipant)}
           />
+          {nextDueAt !== null && (
+            <Chip
+              icon={<ScheduleIcon />}
+              label={`${overdue ? 'Overdue since' : 'Due'} ${formatDueAt(nextDueAt, now)}`}
+              title={schedule ? describeSchedule(schedule) : undefined}
+              size="small"
+              color={overdue ? 'error' : 'default'}
+              sx={{ ml: 1 }}
+            />
+          )}
+          {renderInProgressChip(firstParticipant)}
+          {renderAwayChip(firstParticipant)}
           {firstParticipant.role === 'admin' && (
             <Chip icon={<AdminPanelSettingsIcon />} label="Admin" size="small" sx={{ ml: 1 }} />
           )}
@@ -113,6 +216,7 @@ export const ParticipantList: FC<ParticipantListProps> = ({
               key={participant.id}
               sx={{
                 boxShadow: theme.shadows[1],
+                opacity: isParticipantAway(participant, now) ? 0.5 : 1,
                 border: `1px solid ${
                   participant.id === currentUserParticipantId
                     ? theme.palette.primary.main
@@ -121,8 +225,8 @@ export const ParticipantList: FC<ParticipantListProps> = ({
               }}
             >
               <ListItemButton
-                onClick={isAdmin ? (e) => onParticipantClick(e, participant) : undefined}
-                sx={{ cursor: isAdmin ? 'pointer' : 'default' }}
+                onClick={canOpenMenu(participant) ? (e) => onParticipantClick(e, participant) : undefined}
+                sx={{ cursor: canOpenMenu(participant) ? 'pointer' : 'default' }}
               >
                 <ListItemText
                   primary={
@@ -134,8 +238,10 @@ export const ParticipantList: FC<ParticipantListProps> = ({
                       {participant.nickname || 'Unnamed'}
                     </Typography>
                   }
-                  secondary={showTurnCounts ? `Turns: ${participant.turnCount}` : ' '}
+                  secondary={describeStats(participant)}
                 />
+                {renderInProgressChip(participant)}
+                {renderAwayChip(participant)}
                 {participant.role === 'admin' && (
                   <Chip icon={<AdminPanelSettingsIcon />} label="Admin" size="small" sx={{ ml: 1 }} />
                 )}
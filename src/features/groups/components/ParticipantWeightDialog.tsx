@@ -0,0 +1,100 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/components/ParticipantWeightDialog.tsx
+ * @stamp {"ts":"2026-10-19T09:15:00Z"}
+ * @architectural-role UI Component
+ * @description
+ * A modal dialog for setting a participant's share of turns under the
+ * `weighted` rotation strategy. It uses the "Close and Defer" pattern to
+ * prevent focus-related race conditions upon submission.
+ * @core-principles
+ * 1. IS a self-contained component for a single user action.
+ * 2. OWNS the local form state for the weight value.
+ * 3. MUST only allow positive weights to be submitted.
+ * @api-declaration
+ *   - default: The ParticipantWeightDialog React functional component.
+ * @contract
+ *   assertions:
+ *     purity: mutates
+ *     state_ownership: [weight]
+ *     external_io: none
+ */
+
+import { useState, useEffect, type FC } from 'react';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogContentText from '@mui/material/DialogContentText';
+import TextField from '@mui/material/TextField';
+import DialogActions from '@mui/material/DialogActions';
+import Button from '@mui/material/Button';
+
+const DEFER_ACTION_MS = 50;
+
+interface ParticipantWeightDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onConfirm: (weight: number) => void;
+  participantName: string;
+  currentWeight: number;
+}
+
+export const ParticipantWeightDialog: FC<ParticipantWeightDialogProps> = ({
+  open,
+  onClose,
+  onConfirm,
+  participantName,
+  currentWeight,
+}) => {
+  const [weight, setWeight] = useState(String(currentWeight));
+
+  useEffect(() => {
+    if (open) {
+      setWeight(String(currentWeight));
+    }
+  }, [open, currentWeight]);
+
+  const parsedWeight = Number(weight);
+  const isValid = Number.isFinite(parsedWeight) && parsedWeight > 0;
+
+  const handleConfirm = () => {
+    if (!isValid) return;
+    onClose();
+    setTimeout(() => {
+      onConfirm(parsedWeight);
+    }, DEFER_ACTION_MS);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Set Turn Weight</DialogTitle>
+      <DialogContent>
+        <DialogContentText>
+          A weight of 2 means {participantName} takes twice as many turns as someone with a weight of 1.
+        </DialogContentText>
+        <TextField
+          autoFocus
+          margin="dense"
+          id="participant-weight"
+          label="Weight"
+          type="number"
+          fullWidth
+          variant="standard"
+          value={weight}
+          onChange={(e) => setWeight(e.target.value)}
+          error={!isValid}
+          inputProps={{ min: 0.1, step: 0.5 }}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          onClick={handleConfirm}
+          variant="contained"
+          disabled={!isValid || parsedWeight === currentWeight}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,124 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/components/QueuesDialog.tsx
+ * @stamp {"ts":"2026-10-19T11:20:00Z"}
+ * @architectural-role UI Component
+ * @description
+ * A modal dialog that lets an admin manage a group's named queues: it lists
+ * every queue, allows additional queues to be removed, and adds new ones. All
+ * queues share the group's roster, so no participants are chosen here.
+ * @core-principles
+ * 1. IS a self-contained component for managing a single group setting.
+ * 2. OWNS the local form state for the new queue's name.
+ * 3. MUST NOT offer to remove the group's main queue.
+ * @api-declaration
+ *   - default: The QueuesDialog React functional component.
+ * @contract
+ *   assertions:
+ *     purity: mutates
+ *     state_ownership: [name]
+ *     external_io: none
+ */
+
+import { useState, useEffect, type FC } from 'react';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import List from '@mui/material/List';
+import ListItem from '@mui/material/ListItem';
+import ListItemText from '@mui/material/ListItemText';
+import IconButton from '@mui/material/IconButton';
+import Stack from '@mui/material/Stack';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { MAIN_QUEUE_ID } from '../utils/queues';
+
+interface QueuesDialogProps {
+  open: boolean;
+  onClose: () => void;
+  queues: { id: string; name: string }[];
+  onAdd: (name: string) => Promise<void>;
+  onRemove: (queueId: string) => Promise<void>;
+}
+
+export const QueuesDialog: FC<QueuesDialogProps> = ({
+  open,
+  onClose,
+  queues,
+  onAdd,
+  onRemove,
+}) => {
+  const [name, setName] = useState('');
+
+  useEffect(() => {
+    if (!open) {
+      setName('');
+    }
+  }, [open]);
+
+  const trimmedName = name.trim();
+  const isDuplicate = queues.some(
+    (q) => q.name.toLowerCase() === trimmedName.toLowerCase(),
+  );
+
+  const handleAdd = () => {
+    if (!trimmedName || isDuplicate) return;
+    onAdd(trimmedName);
+    setName('');
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Queues</DialogTitle>
+      <DialogContent>
+        <List dense>
+          {queues.map((queue) => (
+            <ListItem
+              key={queue.id}
+              secondaryAction={
+                queue.id !== MAIN_QUEUE_ID && (
+                  <IconButton
+                    edge="end"
+                    aria-label={`Remove ${queue.name}`}
+                    onClick={() => onRemove(queue.id)}
+                  >
+                    <DeleteIcon />
+                  </IconButton>
+                )
+              }
+            >
+              <ListItemText primary={queue.name} />
+            </ListItem>
+          ))}
+        </List>
+        <Stack direction="row" spacing={1} alignItems="flex-end">
+          <TextField
+            margin="dense"
+            id="queue-name"
+            label="New queue"
+            type="text"
+            fullWidth
+            variant="standard"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            error={isDuplicate}
+            helperText={isDuplicate ? 'A queue with this name already exists.' : ' '}
+            onKeyPress={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+          />
+          <Button onClick={handleAdd} disabled={!trimmedName || isDuplicate} sx={{ mb: 3 }}>
+            Add
+          </Button>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Done</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,146 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/components/ReorderableParticipantList.tsx
+ * @stamp {"ts":"2026-10-19T13:10:00Z"}
+ * @architectural-role UI Component
+ * @description
+ * The reorder mode of the participant list. Admins arrange a draft of the queue
+ * by dragging cards (native HTML5 drag-and-drop) or, as a keyboard-accessible
+ * alternative, with the move up/down buttons or the arrow keys on a focused
+ * card. The draft is taken when reorder mode opens and is only saved when the
+ * admin confirms it.
+ * @core-principles
+ * 1. IS a self-contained component for a single user action.
+ * 2. OWNS the draft order and the drag state; the saved order is owned by the parent.
+ * 3. MUST offer a keyboard-accessible way to perform every move.
+ * @api-declaration
+ *   - default: The ReorderableParticipantList React functional component.
+ * @contract
+ *   assertions:
+ *     purity: mutates
+ *     state_ownership: [draftOrder, draggingId]
+ *     external_io: none
+ */
+
+import { useState, type FC, type KeyboardEvent } from 'react';
+import { useTheme } from '@mui/material';
+import Stack from '@mui/material/Stack';
+import Card from '@mui/material/Card';
+import CardContent from '@mui/material/CardContent';
+import Typography from '@mui/material/Typography';
+import IconButton from '@mui/material/IconButton';
+import Button from '@mui/material/Button';
+import DragIndicatorIcon from '@mui/icons-material/DragIndicator';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import type { TurnParticipant } from '../../../types/group';
+
+interface ReorderableParticipantListProps {
+  participants: TurnParticipant[];
+  onSave: (newOrder: string[]) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Returns a copy of `order` with the item at `from` moved to `to`.
+ */
+const moveItem = (order: string[], from: number, to: number): string[] => {
+  const next = [...order];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+export const ReorderableParticipantList: FC<ReorderableParticipantListProps> = ({
+  participants,
+  onSave,
+  onCancel,
+}) => {
+  const theme = useTheme();
+  const [draftOrder, setDraftOrder] = useState<string[]>(() => participants.map((p) => p.id));
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+
+  const participantsById = new Map(participants.map((p) => [p.id, p]));
+  const initialOrder = participants.map((p) => p.id);
+  const hasChanged = draftOrder.some((id, index) => id !== initialOrder[index]);
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= draftOrder.length || from === to) return;
+    setDraftOrder((order) => moveItem(order, from, to));
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>, index: number) => {
+    if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      move(index, index - 1);
+    } else if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      move(index, index + 1);
+    }
+  };
+
+  return (
+    <Stack spacing={1}>
+      <Typography variant="body2" color="text.secondary">
+        Drag participants into place, or use the arrows. The first participant is up next.
+      </Typography>
+      {draftOrder.map((id, index) => {
+        const participant = participantsById.get(id);
+        if (!participant) return null;
+        const name = participant.nickname || 'Unnamed';
+        return (
+          <Card
+            key={id}
+            draggable
+            tabIndex={0}
+            aria-label={`${name}, position ${index + 1} of ${draftOrder.length}`}
+            onKeyDown={(e) => handleKeyDown(e, index)}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              setDraggingId(id);
+            }}
+            onDragOver={(e) => {
+              e.preventDefault();
+              if (draggingId && draggingId !== id) {
+                move(draftOrder.indexOf(draggingId), index);
+              }
+            }}
+            onDrop={(e) => e.preventDefault()}
+            onDragEnd={() => setDraggingId(null)}
+            sx={{
+              cursor: 'grab',
+              opacity: draggingId === id ? 0.5 : 1,
+              border: `1px solid ${index === 0 ? theme.palette.primary.main : theme.palette.divider}`,
+            }}
+          >
+            <CardContent sx={{ display: 'flex', alignItems: 'center', py: 1, '&:last-child': { pb: 1 } }}>
+              <DragIndicatorIcon color="action" sx={{ mr: 1 }} />
+              <Typography variant="h6" component="span" sx={{ flexGrow: 1 }}>
+                {name}
+              </Typography>
+              <IconButton
+                aria-label={`Move ${name} up`}
+                onClick={() => move(index, index - 1)}
+                disabled={index === 0}
+              >
+                <ArrowUpwardIcon />
+              </IconButton>
+              <IconButton
+                aria-label={`Move ${name} down`}
+                onClick={() => move(index, index + 1)}
+                disabled={index === draftOrder.length - 1}
+              >
+                <ArrowDownwardIcon />
+              </IconButton>
+            </CardContent>
+          </Card>
+        );
+      })}
+      <Stack direction="row" spacing={1} justifyContent="flex-end">
+        <Button onClick={onCancel}>Cancel</Button>
+        <Button variant="contained" onClick={() => onSave(draftOrder)} disabled={!hasChanged}>
+          Save Order
+        </Button>
+      </Stack>
+    </Stack>
+  );
+};
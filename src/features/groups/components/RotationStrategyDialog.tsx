@@ -0,0 +1,96 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/components/RotationStrategyDialog.tsx
+ * @stamp {"ts":"2026-10-19T09:10:00Z"}
+ * @architectural-role UI Component
+ * @description
+ * A modal dialog that lets an admin choose the rule used to re-order the
+ * group's queue after each turn. It uses the "Close and Defer" pattern to
+ * prevent focus-related race conditions upon submission.
+ * @core-principles
+ * 1. IS a self-contained component for a single user action.
+ * 2. OWNS the local form state for the selected strategy.
+ * 3. MUST deterministically manage focus by closing itself before triggering a state update.
+ * @api-declaration
+ *   - default: The RotationStrategyDialog React functional component.
+ * @contract
+ *   assertions:
+ *     purity: mutates
+ *     state_ownership: [strategy]
+ *     external_io: none
+ */
+
+import { useState, useEffect, type FC } from 'react';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import Button from '@mui/material/Button';
+import RadioGroup from '@mui/material/RadioGroup';
+import Radio from '@mui/material/Radio';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import ListItemText from '@mui/material/ListItemText';
+import type { RotationStrategy } from '../../../types/group';
+import { ROTATION_STRATEGIES } from '../utils/rotation';
+
+const DEFER_ACTION_MS = 50;
+
+interface RotationStrategyDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onConfirm: (strategy: RotationStrategy) => Promise<void>;
+  currentStrategy: RotationStrategy;
+}
+
+export const RotationStrategyDialog: FC<RotationStrategyDialogProps> = ({
+  open,
+  onClose,
+  onConfirm,
+  currentStrategy,
+}) => {
+  const [strategy, setStrategy] = useState<RotationStrategy>(currentStrategy);
+
+  useEffect(() => {
+    if (open) {
+      setStrategy(currentStrategy);
+    }
+  }, [open, currentStrategy]);
+
+  const handleConfirm = () => {
+    onClose();
+    setTimeout(() => {
+      onConfirm(strategy);
+    }, DEFER_ACTION_MS);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Turn Rotation</DialogTitle>
+      <DialogContent>
+        <RadioGroup
+          value={strategy}
+          onChange={(e) => setStrategy(e.target.value as RotationStrategy)}
+        >
+          {ROTATION_STRATEGIES.map((option) => (
+            <FormControlLabel
+              key={option.value}
+              value={option.value}
+              control={<Radio />}
+              label={<ListItemText primary={option.label} secondary={option.description} />}
+              sx={{ alignItems: 'flex-start', my: 0.5 }}
+            />
+          ))}
+        </RadioGroup>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          onClick={handleConfirm}
+          variant="contained"
+          disabled={strategy === currentStrategy}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,88 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/components/SaveTemplateDialog.tsx
+ * @stamp {"ts":"2026-10-19T14:00:00Z"}
+ * @architectural-role UI Component
+ * @description
+ * A modal dialog for saving the group's configuration as a personal template,
+ * which is then offered when creating a new group.
+ * @core-principles
+ * 1. IS a self-contained component for a single user action.
+ * 2. OWNS the local form state for the template's name.
+ * 3. MUST use the "Close and Defer" pattern on submission.
+ */
+
+import { useState, useEffect, type FC } from 'react';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogContentText from '@mui/material/DialogContentText';
+import TextField from '@mui/material/TextField';
+import DialogActions from '@mui/material/DialogActions';
+import Button from '@mui/material/Button';
+
+const DEFER_ACTION_MS = 50;
+
+interface SaveTemplateDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onConfirm: (name: string) => Promise<void>;
+  groupName: string;
+}
+
+export const SaveTemplateDialog: FC<SaveTemplateDialogProps> = ({
+  open,
+  onClose,
+  onConfirm,
+  groupName,
+}) => {
+  const [name, setName] = useState(groupName);
+
+  useEffect(() => {
+    if (open) {
+      setName(groupName);
+    }
+  }, [open, groupName]);
+
+  const handleConfirm = () => {
+    if (!name.trim()) return;
+    onClose();
+    setTimeout(() => {
+      onConfirm(name.trim());
+    }, DEFER_ACTION_MS);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Save as Template</DialogTitle>
+      <DialogContent>
+        <DialogContentText>
+          The icon, rotation, schedule, queues and wording are saved. Everyone except you is saved
+          as a placeholder name; counts and history are not saved.
+        </DialogContentText>
+        <TextField
+          autoFocus
+          margin="dense"
+          id="template-name"
+          label="Template Name"
+          type="text"
+          fullWidth
+          variant="standard"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyPress={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleConfirm();
+            }
+          }}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={handleConfirm} variant="contained" disabled={!name.trim()}>
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,162 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/components/ScheduleDialog.tsx
+ * @stamp {"ts":"2026-10-19T10:15:00Z"}
+ * @architectural-role UI Component
+ * @description
+ * A modal dialog that lets an admin set, change, or remove a group's recurring
+ * schedule. It uses the "Close and Defer" pattern to prevent focus-related race
+ * conditions upon submission.
+ * @core-principles
+ * 1. IS a self-contained component for a single user action.
+ * 2. OWNS the local form state for the schedule being edited.
+ * 3. MUST only allow complete, valid schedules to be submitted.
+ * @api-declaration
+ *   - default: The ScheduleDialog React functional component.
+ * @contract
+ *   assertions:
+ *     purity: mutates
+ *     state_ownership: [frequency, weekdays, intervalDays, dueHour]
+ *     external_io: none
+ */
+
+import { useState, useEffect, type FC } from 'react';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import MenuItem from '@mui/material/MenuItem';
+import Stack from '@mui/material/Stack';
+import ToggleButton from '@mui/material/ToggleButton';
+import ToggleButtonGroup from '@mui/material/ToggleButtonGroup';
+import type { GroupSchedule } from '../../../types/group';
+import { WEEKDAY_LABELS } from '../utils/schedule';
+
+const DEFER_ACTION_MS = 50;
+
+interface ScheduleDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onConfirm: (schedule: GroupSchedule | null) => Promise<void>;
+  currentSchedule: GroupSchedule | null;
+}
+
+export const ScheduleDialog: FC<ScheduleDialogProps> = ({
+  open,
+  onClose,
+  onConfirm,
+  currentSchedule,
+}) => {
+  const [frequency, setFrequency] = useState<GroupSchedule['frequency']>('weekly');
+  const [weekdays, setWeekdays] = useState<number[]>([]);
+  const [intervalDays, setIntervalDays] = useState('2');
+  const [dueHour, setDueHour] = useState(18);
+
+  useEffect(() => {
+    if (open) {
+      setFrequency(currentSchedule?.frequency ?? 'weekly');
+      setWeekdays(currentSchedule?.weekdays ?? []);
+      setIntervalDays(String(currentSchedule?.intervalDays ?? 2));
+      setDueHour(currentSchedule?.dueHour ?? 18);
+    }
+  }, [open, currentSchedule]);
+
+  const parsedInterval = Number(intervalDays);
+  const isValid =
+    (frequency !== 'weekly' || weekdays.length > 0) &&
+    (frequency !== 'interval' || (Number.isInteger(parsedInterval) && parsedInterval >= 1));
+
+  const submit = (schedule: GroupSchedule | null) => {
+    onClose();
+    setTimeout(() => {
+      onConfirm(schedule);
+    }, DEFER_ACTION_MS);
+  };
+
+  const handleConfirm = () => {
+    if (!isValid) return;
+    submit({
+      frequency,
+      dueHour,
+      ...(frequency === 'weekly' && { weekdays: [...weekdays].sort((a, b) => a - b) }),
+      ...(frequency === 'interval' && { intervalDays: parsedInterval }),
+    });
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Schedule</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <TextField
+            select
+            id="schedule-frequency"
+            label="Repeats"
+            variant="standard"
+            value={frequency}
+            onChange={(e) => setFrequency(e.target.value as GroupSchedule['frequency'])}
+          >
+            <MenuItem value="daily">Every day</MenuItem>
+            <MenuItem value="weekly">On chosen weekdays</MenuItem>
+            <MenuItem value="interval">Every few days</MenuItem>
+          </TextField>
+
+          {frequency === 'weekly' && (
+            <ToggleButtonGroup
+              size="small"
+              value={weekdays}
+              onChange={(_e, value: number[]) => setWeekdays(value)}
+              aria-label="Weekdays"
+            >
+              {WEEKDAY_LABELS.map((label, day) => (
+                <ToggleButton key={label} value={day} aria-label={label} sx={{ flexGrow: 1 }}>
+                  {label.charAt(0)}
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+          )}
+
+          {frequency === 'interval' && (
+            <TextField
+              id="schedule-interval"
+              label="Every N days"
+              type="number"
+              variant="standard"
+              value={intervalDays}
+              onChange={(e) => setIntervalDays(e.target.value)}
+              error={!isValid}
+              inputProps={{ min: 1, step: 1 }}
+            />
+          )}
+
+          <TextField
+            select
+            id="schedule-hour"
+            label="Due at"
+            variant="standard"
+            value={dueHour}
+            onChange={(e) => setDueHour(Number(e.target.value))}
+          >
+            {Array.from({ length: 24 }, (_, hour) => (
+              <MenuItem key={hour} value={hour}>
+                {`${String(hour).padStart(2, '0')}:00`}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        {currentSchedule && (
+          <Button onClick={() => submit(null)} color="error" sx={{ mr: 'auto' }}>
+            Remove
+          </Button>
+        )}
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={handleConfirm} variant="contained" disabled={!isValid}>
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,87 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/components/SwapRequestsPanel.tsx
+ * @stamp {"ts":"2026-10-19T12:45:00Z"}
+ * @architectural-role UI Component
+ * @description
+ * Lists the pending turn swap requests that involve the current user. Incoming
+ * requests can be accepted or declined; outgoing requests can be withdrawn.
+ * @core-principles
+ * 1. IS a pure, presentational ("dumb") component.
+ * 2. MUST render nothing when there are no pending requests.
+ * 3. DELEGATES all actions to the handlers it receives.
+ * @api-declaration
+ *   - default: The SwapRequestsPanel React functional component.
+ * @contract
+ *   assertions:
+ *     purity: pure
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import { type FC } from 'react';
+import Stack from '@mui/material/Stack';
+import Alert from '@mui/material/Alert';
+import Button from '@mui/material/Button';
+import SwapVertIcon from '@mui/icons-material/SwapVert';
+
+interface SwapRequestsPanelProps {
+  requests: {
+    id: string;
+    direction: 'incoming' | 'outgoing';
+    otherParticipantName: string;
+  }[];
+  onAccept: (requestId: string) => void;
+  onDecline: (requestId: string) => void;
+  isSubmitting: boolean;
+}
+
+export const SwapRequestsPanel: FC<SwapRequestsPanelProps> = ({
+  requests,
+  onAccept,
+  onDecline,
+  isSubmitting,
+}) => {
+  if (requests.length === 0) {
+    return null;
+  }
+
+  return (
+    <Stack spacing={1}>
+      {requests.map((request) =>
+        request.direction === 'incoming' ? (
+          <Alert
+            key={request.id}
+            icon={<SwapVertIcon />}
+            severity="info"
+            action={
+              <>
+                <Button color="inherit" size="small" onClick={() => onDecline(request.id)} disabled={isSubmitting}>
+                  Decline
+                </Button>
+                <Button color="inherit" size="small" onClick={() => onAccept(request.id)} disabled={isSubmitting}>
+                  Accept
+                </Button>
+              </>
+            }
+          >
+            {request.otherParticipantName} wants to swap places with you.
+          </Alert>
+        ) : (
+          <Alert
+            key={request.id}
+            icon={<SwapVertIcon />}
+            severity="info"
+            variant="outlined"
+            action={
+              <Button color="inherit" size="small" onClick={() => onDecline(request.id)}>
+                Withdraw
+              </Button>
+            }
+          >
+            Waiting for {request.otherParticipantName} to accept your swap.
+          </Alert>
+        ),
+      )}
+    </Stack>
+  );
+};
@@ -0,0 +1,97 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/components/TurnAmountDialog.tsx
+ * @stamp {"ts":"2026-10-19T13:35:00Z"}
+ * @architectural-role UI Component
+ * @description
+ * A modal dialog that asks how much was spent when a turn is completed in a
+ * group using the `ledger` rotation strategy. It uses the "Close and Defer"
+ * pattern to prevent focus-related race conditions upon submission.
+ * @core-principles
+ * 1. IS a self-contained component for a single user action.
+ * 2. OWNS the local form state for the amount.
+ * 3. MUST only allow non-negative amounts to be submitted.
+ * @api-declaration
+ *   - default: The TurnAmountDialog React functional component.
+ * @contract
+ *   assertions:
+ *     purity: mutates
+ *     state_ownership: [amount]
+ *     external_io: none
+ */
+
+import { useState, useEffect, type FC, type FormEvent } from 'react';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogContentText from '@mui/material/DialogContentText';
+import TextField from '@mui/material/TextField';
+import DialogActions from '@mui/material/DialogActions';
+import Button from '@mui/material/Button';
+import { parseAmount } from '../utils/ledger';
+
+const DEFER_ACTION_MS = 50;
+
+interface TurnAmountDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onConfirm: (amount: number) => void;
+  participantName: string;
+}
+
+export const TurnAmountDialog: FC<TurnAmountDialogProps> = ({
+  open,
+  onClose,
+  onConfirm,
+  participantName,
+}) => {
+  const [amount, setAmount] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setAmount('');
+    }
+  }, [open]);
+
+  const parsedAmount = parseAmount(amount);
+
+  const handleConfirm = (event?: FormEvent) => {
+    event?.preventDefault();
+    if (parsedAmount === null) return;
+    onClose();
+    setTimeout(() => {
+      onConfirm(parsedAmount);
+    }, DEFER_ACTION_MS);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <form onSubmit={handleConfirm}>
+        <DialogTitle>How Much Was Spent?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            The amount is added to {participantName}'s total. Whoever has spent the least goes next.
+          </DialogContentText>
+          <TextField
+            autoFocus
+            margin="dense"
+            id="turn-amount"
+            label="Amount"
+            type="number"
+            fullWidth
+            variant="standard"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            error={amount !== '' && parsedAmount === null}
+            inputProps={{ min: 0, step: 0.01 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="submit" variant="contained" disabled={parsedAmount === null}>
+            Complete Turn
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
@@ -1,16 +1,24 @@
 /**
  * @file packages/whoseturnnow/src/features/groups/components/TurnHistory.tsx
- * @stamp {"ts":"2025-10-24T07:38:00Z"}
+ * @stamp {"ts":"2026-10-19T14:20:00Z"}
  * @architectural-role UI Component
  * @description
  * A stateful, presentational component that renders the immutable turn history
- * log. It is collapsed by default and uses a dedicated utility to format
- * timestamps for display in the user's local timezone.
+ * log. It is collapsed to the newest entry by default; expanded, it shows the
+ * history filters and loads older entries as the list is scrolled to its end.
+ * It uses a dedicated utility to format timestamps for display in the user's
+ * local timezone. Entries that are on the
+ * undo stack are marked, and entries that were undone (or undos that were
+ * redone) are struck through. Completed turns that needed confirming carry a
+ * badge showing where their review stands, and ledger turns show the amount
+ * spent. Membership and settings changes appear alongside turns, so the log is
+ * a complete audit trail of the group.
  * @core-principles
  * 1. IS a self-contained, stateful presentational component.
  * 2. OWNS its own `isExpanded` UI state.
  * 3. MUST render UI based solely on the props it receives and its internal state.
  * 4. DELEGATES the content generation and timestamp formatting to its parent/utils.
+ * 5. DELEGATES fetching older entries to its parent via `onLoadMore`.
  * @api-declaration
  *   - default: The TurnHistory React functional component.
  * @contract
@@ -20,25 +28,76 @@
  *     external_io: none
  */
 
-import { useState, type FC } from 'react';
+import { useEffect, useRef, useState, type FC } from 'react';
 import Box from '@mui/material/Box';
 import Typography from '@mui/material/Typography';
 import List from '@mui/material/List';
 import ListItem from '@mui/material/ListItem';
 import ListItemText from '@mui/material/ListItemText';
+import Chip from '@mui/material/Chip';
 import Paper from '@mui/material/Paper';
 import Button from '@mui/material/Button';
+import Divider from '@mui/material/Divider';
+import CircularProgress from '@mui/material/CircularProgress';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
-import type { LogEntry } from '../../../types/group';
+import type { ConfirmationStatus, LogEntry } from '../../../types/group';
 import { formatFirestoreTimestamp } from '../../../shared/utils/formatDate';
+import { formatAmount } from '../utils/ledger';
+import { hasActiveFilters, type TurnLogFilters } from '../utils/history';
+import { TurnHistoryFilters } from './TurnHistoryFilters';
+
+const CONFIRMATION_BADGES: Record<
+  ConfirmationStatus,
+  { label: string; color: 'warning' | 'success' | 'error' | 'default' }
+> = {
+  pending: { label: 'Pending', color: 'warning' },
+  confirmed: { label: 'Confirmed', color: 'success' },
+  disputed: { label: 'Disputed', color: 'error' },
+  rejected: { label: 'Rejected', color: 'default' },
+};
 
 interface TurnHistoryProps {
   turnLog: (LogEntry & { id: string })[];
   formatLogEntry: (log: LogEntry) => string;
+  undoableLogIds: Set<string>;
+  filters: TurnLogFilters;
+  onFiltersChange: (filters: TurnLogFilters) => void;
+  participants: { id: string; name: string }[];
+  actors: { uid: string; name: string }[];
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  onLoadMore: () => void;
 }
 
-export const TurnHistory: FC<TurnHistoryProps> = ({ turnLog, formatLogEntry }) => {
+export const TurnHistory: FC<TurnHistoryProps> = ({
+  turnLog,
+  formatLogEntry,
+  undoableLogIds,
+  filters,
+  onFiltersChange,
+  participants,
+  actors,
+  hasMore,
+  isLoadingMore,
+  onLoadMore,
+}) => {
   const [isExpanded, setIsExpanded] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Loads the next page whenever the end of the expanded list scrolls into view.
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!isExpanded || !hasMore || !sentinel) return;
+    const observer = new IntersectionObserver(
+      (observed) => {
+        if (observed.some((entry) => entry.isIntersecting)) onLoadMore();
+      },
+      { root: scrollRef.current },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [isExpanded, hasMore, onLoadMore]);
 
   const entriesToShow = isExpanded ? turnLog : turnLog.slice(0, 1);
 
@@ -48,38 +107,83 @@ export const TurnHistory: FC<TurnHistoryProps> = ({ turnLog, formatLogEntry }) =
         Turn History
       </Typography>
       <Paper>
-        <List>
-          {entriesToShow.map((log) => (
-            <ListItem key={log.id} sx={{ py: 0.5 }}>
-              <ListItemText
-                primary={formatLogEntry(log)}
-                // Replaced the placeholder with a call to our new utility.
-                secondary={formatFirestoreTimestamp(log.completedAt)}
-                sx={
-                  log.type === 'TURN_COMPLETED' && log.isUndone
-                    ? { textDecoration: 'line-through', color: 'text.disabled' }
-                    : {}
-                }
-              />
-            </ListItem>
-          ))}
-          {turnLog.length === 0 && (
-            <ListItem>
-              <ListItemText secondary="No actions have been taken yet." sx={{ textAlign: 'center' }}/>
-            </ListItem>
+        {isExpanded && (
+          <>
+            <TurnHistoryFilters
+              filters={filters}
+              onChange={onFiltersChange}
+              participants={participants}
+              actors={actors}
+            />
+            <Divider />
+          </>
+        )}
+        <Box ref={scrollRef} sx={isExpanded ? { maxHeight: 480, overflowY: 'auto' } : undefined}>
+          <List>
+            {entriesToShow.map((log) => (
+              <ListItem key={log.id} sx={{ py: 0.5 }}>
+                <ListItemText
+                  primary={formatLogEntry(log)}
+                  // Replaced the placeholder with a call to our new utility.
+                  secondary={formatFirestoreTimestamp(log.completedAt)}
+                  sx={
+                    ('isUndone' in log && log.isUndone) || ('isRedone' in log && log.isRedone)
+                      ? { textDecoration: 'line-through', color: 'text.disabled' }
+                      : {}
+                  }
+                />
+                {log.type === 'TURN_COMPLETED' && log.amount !== undefined && (
+                  <Chip label={formatAmount(log.amount)} size="small" variant="outlined" sx={{ ml: 1 }} />
+                )}
+                {log.type === 'TURN_COMPLETED' && log.confirmationStatus && (
+                  <Chip
+                    label={CONFIRMATION_BADGES[log.confirmationStatus].label}
+                    color={CONFIRMATION_BADGES[log.confirmationStatus].color}
+                    size="small"
+                    sx={{ ml: 1 }}
+                  />
+                )}
+                {undoableLogIds.has(log.id) && (
+                  <Chip label="Can undo" size="small" variant="outlined" sx={{ ml: 1 }} />
+                )}
+              </ListItem>
+            ))}
+            {turnLog.length === 0 && !isLoadingMore && (
+              <ListItem>
+                <ListItemText
+                  secondary={
+                    hasActiveFilters(filters)
+                      ? 'No entries match these filters.'
+                      : 'No actions have been taken yet.'
+                  }
+                  sx={{ textAlign: 'center' }}
+                />
+              </ListItem>
+            )}
+          </List>
+          {isExpanded && hasMore && (
+            <Box ref={sentinelRef} sx={{ display: 'flex', justifyContent: 'center', pb: 1 }}>
+              {isLoadingMore ? (
+                <CircularProgress size={24} />
+              ) : (
+                <Button size="small" onClick={onLoadMore}>
+                  Load Older Entries
+                </Button>
+              )}
+            </Box>
           )}
-        </List>
-        {turnLog.length > 1 && (
+        </Box>
+        {(turnLog.length > 1 || hasMore || isExpanded) && (
             <Button
                 fullWidth
                 onClick={() => setIsExpanded(!isExpanded)}
                 endIcon={<ExpandMoreIcon sx={{ transform: isExpanded ? 'rotate(180deg)' : 'none', transition: 'transform 0.2s' }} />}
                 sx={{ justifyContent: 'space-between', p: 1, textTransform: 'none', color: 'text.secondary' }}
             >
-                {isExpanded ? 'Show Less' : `Show ${turnLog.length - 1} more...`}
+                {isExpanded ? 'Show Less' : 'Show full history...'}
             </Button>
         )}
       </Paper>
     </Box>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,159 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/components/TurnHistoryFilters.tsx
+ * @stamp {"ts":"2026-10-19T13:45:00Z"}
+ * @architectural-role UI Component
+ * @description
+ * The filter bar for the turn history: entry kinds, the participant whose turn
+ * an entry is about, the user who recorded it, and a date range. Dates are
+ * picked as whole local days, from the start of the first to the end of the last.
+ * @core-principles
+ * 1. IS a purely presentational, controlled component.
+ * 2. MUST report every change as a complete set of filters.
+ * 3. DELEGATES the meaning of each filter to the history utils.
+ * @api-declaration
+ *   - default: The TurnHistoryFilters React functional component.
+ * @contract
+ *   assertions:
+ *     purity: pure
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import type { FC } from 'react';
+import Stack from '@mui/material/Stack';
+import TextField from '@mui/material/TextField';
+import MenuItem from '@mui/material/MenuItem';
+import Button from '@mui/material/Button';
+import ToggleButton from '@mui/material/ToggleButton';
+import ToggleButtonGroup from '@mui/material/ToggleButtonGroup';
+import {
+  EMPTY_TURN_LOG_FILTERS,
+  HISTORY_ENTRY_KINDS,
+  hasActiveFilters,
+  type HistoryEntryKind,
+  type TurnLogFilters,
+} from '../utils/history';
+
+const ANYONE = '';
+
+/**
+ * Converts a `YYYY-MM-DD` input value to local midnight in epoch milliseconds.
+ */
+function parseDateInput(value: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime();
+}
+
+/**
+ * Formats epoch milliseconds as a local `YYYY-MM-DD` input value.
+ */
+function toDateInput(ms: number | null): string {
+  if (ms === null) return '';
+  const date = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Returns the last millisecond of the local day starting at `dayStart`.
+ */
+function endOfDay(dayStart: number): number {
+  const date = new Date(dayStart);
+  date.setDate(date.getDate() + 1);
+  return date.getTime() - 1;
+}
+
+interface TurnHistoryFiltersProps {
+  filters: TurnLogFilters;
+  onChange: (filters: TurnLogFilters) => void;
+  participants: { id: string; name: string }[];
+  actors: { uid: string; name: string }[];
+}
+
+export const TurnHistoryFilters: FC<TurnHistoryFiltersProps> = ({
+  filters,
+  onChange,
+  participants,
+  actors,
+}) => {
+  const update = (changes: Partial<TurnLogFilters>) => onChange({ ...filters, ...changes });
+
+  return (
+    <Stack spacing={1.5} sx={{ p: 2 }}>
+      <ToggleButtonGroup
+        value={filters.kinds}
+        onChange={(_e, kinds: HistoryEntryKind[]) => update({ kinds })}
+        size="small"
+        fullWidth
+        aria-label="Entry types"
+      >
+        {HISTORY_ENTRY_KINDS.map((kind) => (
+          <ToggleButton key={kind.value} value={kind.value}>
+            {kind.label}
+          </ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+      <Stack direction="row" spacing={1}>
+        <TextField
+          select
+          size="small"
+          fullWidth
+          label="Whose turn"
+          value={filters.participantId ?? ANYONE}
+          onChange={(e) => update({ participantId: e.target.value || null })}
+        >
+          <MenuItem value={ANYONE}>Anyone</MenuItem>
+          {participants.map((p) => (
+            <MenuItem key={p.id} value={p.id}>
+              {p.name}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          select
+          size="small"
+          fullWidth
+          label="Recorded by"
+          value={filters.actorUid ?? ANYONE}
+          onChange={(e) => update({ actorUid: e.target.value || null })}
+        >
+          <MenuItem value={ANYONE}>Anyone</MenuItem>
+          {actors.map((a) => (
+            <MenuItem key={a.uid} value={a.uid}>
+              {a.name}
+            </MenuItem>
+          ))}
+        </TextField>
+      </Stack>
+      <Stack direction="row" spacing={1}>
+        <TextField
+          type="date"
+          size="small"
+          fullWidth
+          label="From"
+          value={toDateInput(filters.from)}
+          onChange={(e) => update({ from: parseDateInput(e.target.value) })}
+          InputLabelProps={{ shrink: true }}
+        />
+        <TextField
+          type="date"
+          size="small"
+          fullWidth
+          label="To"
+          value={toDateInput(filters.to)}
+          onChange={(e) => {
+            const day = parseDateInput(e.target.value);
+            update({ to: day === null ? null : endOfDay(day) });
+          }}
+          InputLabelProps={{ shrink: true }}
+        />
+      </Stack>
+      {hasActiveFilters(filters) && (
+        <Button size="small" onClick={() => onChange(EMPTY_TURN_LOG_FILTERS)} sx={{ alignSelf: 'flex-end' }}>
+          Clear Filters
+        </Button>
+      )}
+    </Stack>
+  );
+};
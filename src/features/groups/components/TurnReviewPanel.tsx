@@ -0,0 +1,87 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/components/TurnReviewPanel.tsx
+ * @stamp {"ts":"2026-10-19T13:30:00Z"}
+ * @architectural-role UI Component
+ * @description
+ * Lists the completed turns waiting on the current user's review. Pending
+ * turns can be confirmed or disputed; disputed turns, shown only to admins,
+ * can be counted after all or rejected.
+ * @core-principles
+ * 1. IS a pure, presentational ("dumb") component.
+ * 2. MUST render nothing when there is nothing to review.
+ * 3. DELEGATES all actions to the handler it receives.
+ * @api-declaration
+ *   - default: The TurnReviewPanel React functional component.
+ * @contract
+ *   assertions:
+ *     purity: pure
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import { type FC } from 'react';
+import Stack from '@mui/material/Stack';
+import Alert from '@mui/material/Alert';
+import Button from '@mui/material/Button';
+import FactCheckIcon from '@mui/icons-material/FactCheck';
+
+interface TurnReviewPanelProps {
+  turns: {
+    id: string;
+    status: 'pending' | 'disputed';
+    description: string;
+    reviewedByName?: string;
+  }[];
+  onReview: (logId: string, decision: 'confirm' | 'dispute' | 'reject') => void;
+  isSubmitting: boolean;
+}
+
+export const TurnReviewPanel: FC<TurnReviewPanelProps> = ({ turns, onReview, isSubmitting }) => {
+  if (turns.length === 0) {
+    return null;
+  }
+
+  return (
+    <Stack spacing={1}>
+      {turns.map((turn) =>
+        turn.status === 'pending' ? (
+          <Alert
+            key={turn.id}
+            icon={<FactCheckIcon />}
+            severity="info"
+            action={
+              <>
+                <Button color="inherit" size="small" onClick={() => onReview(turn.id, 'dispute')} disabled={isSubmitting}>
+                  Dispute
+                </Button>
+                <Button color="inherit" size="small" onClick={() => onReview(turn.id, 'confirm')} disabled={isSubmitting}>
+                  Confirm
+                </Button>
+              </>
+            }
+          >
+            Please confirm: {turn.description}
+          </Alert>
+        ) : (
+          <Alert
+            key={turn.id}
+            icon={<FactCheckIcon />}
+            severity="warning"
+            action={
+              <>
+                <Button color="inherit" size="small" onClick={() => onReview(turn.id, 'reject')} disabled={isSubmitting}>
+                  Reject
+                </Button>
+                <Button color="inherit" size="small" onClick={() => onReview(turn.id, 'confirm')} disabled={isSubmitting}>
+                  Count It
+                </Button>
+              </>
+            }
+          >
+            {turn.reviewedByName || 'A participant'} disputed: {turn.description}
+          </Alert>
+        ),
+      )}
+    </Stack>
+  );
+};
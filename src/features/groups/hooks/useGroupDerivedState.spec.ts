@@ -117,10 +117,44 @@ describe('useGroupDerivedState', () => {
       expect(result.current.undoableAction).toBeNull();
     });
 
-    it('should return null if there are no completable logs in the history', () => {
+    it('should return null if there are no undoable logs in the history', () => {
       const nonCompletableLog = { id: 'log-2', type: 'COUNTS_RESET' } as any;
       const { result } = renderHook(() => useGroupDerivedState(mockGroup, adminUser, [nonCompletableLog]));
       expect(result.current.undoableAction).toBeNull();
     });
+
+    it('should expose every entry on the undo stack, with the newest on top', () => {
+      const resetLog = {
+        id: 'log-2',
+        type: 'COUNTS_RESET',
+        undoState: { queues: {} },
+      } as any;
+      const { result } = renderHook(() =>
+        useGroupDerivedState(mockGroup, adminUser, [resetLog, mockCompletedLog]),
+      );
+      expect(result.current.undoableAction).toBe(resetLog);
+      expect([...result.current.undoableLogIds]).toEqual(['log-2', 'log-1']);
+    });
+
+    it('should offer the most recent undo for redo until a new action is taken', () => {
+      const undoneLog = { ...mockCompletedLog, isUndone: true };
+      const undoRecord = {
+        id: 'log-3',
+        type: 'TURN_UNDONE',
+        originalLogId: 'log-1',
+        redoState: { queues: {} },
+      } as any;
+
+      const { result } = renderHook(() =>
+        useGroupDerivedState(mockGroup, adminUser, [undoRecord, undoneLog]),
+      );
+      expect(result.current.redoableAction).toBe(undoRecord);
+
+      const newAction = { ...mockCompletedLog, id: 'log-4' };
+      const { result: afterNewAction } = renderHook(() =>
+        useGroupDerivedState(mockGroup, adminUser, [newAction, undoRecord, undoneLog]),
+      );
+      expect(afterNewAction.current.redoableAction).toBeNull();
+    });
   });
-});
\ No newline at end of file
+});
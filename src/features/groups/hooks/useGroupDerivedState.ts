@@ -3,13 +3,18 @@
  * @architectural-role Hook
  * @description
  * The "Brain" of the Group Detail feature. It is a pure, stateless hook that
- * encapsulates all complex business logic derivations, including the now-corrected
- * logic for enforcing a strict three-turn undo limit.
+ * encapsulates all complex business logic derivations, including the undo stack:
+ * the log entries an admin can still undo, newest first. It works on a single
+ * queue: callers pass a group already projected onto the selected queue. The
+ * undo stack is the exception, as undo is last-in, first-out across all queues.
+ * The redo stack, the undos an admin can still reverse, works the same way.
+ * Completed turns awaiting review are also listed across all queues: pending
+ * turns for participants who may confirm them, and disputed turns for admins.
  *
  * @core-principles
- * 1. IS a pure, deterministic function of its inputs (group, user, turnLog).
- * 2. OWNS all business logic calculations (e.g., 'isAdmin', 'isUserTurn', 'undoableAction').
- * 3. MUST strictly limit the undo capability to the three most recent completed turns.
+ * 1. IS a pure, deterministic function of its inputs (group, user, turnLog, queueId, nowMs).
+ * 2. OWNS all business logic calculations (e.g., 'isAdmin', 'isUserTurn', 'undoableAction', 'redoableAction', 'pendingSwaps', 'turnsToReview', 'turnInProgress').
+ * 3. MUST only offer undo and redo to admins, and only for the top of each stack.
  *
  * @api-declaration
  *   - useGroupDerivedState: The exported hook function.
@@ -24,11 +29,16 @@
 import { useMemo } from 'react';
 import type { AppUser } from '../../auth/useAuthStore';
 import type { Group, LogEntry, TurnCompletedLog, TurnParticipant } from '../../../types/group';
+import { MAIN_QUEUE_ID } from '../utils/queues';
+import { deferAwayParticipants } from '../utils/rotation';
+import { buildRedoStack, buildUndoStack } from '../utils/undo';
 
 export function useGroupDerivedState(
   group: Group | null,
   user: AppUser | null,
-  turnLog: (LogEntry & { id: string })[]
+  turnLog: (LogEntry & { id: string })[],
+  queueId: string = MAIN_QUEUE_ID,
+  nowMs?: number,
 ) {
   const currentUserParticipant = useMemo(() => {
     if (!user || !group) return null;
@@ -47,46 +57,85 @@ export function useGroupDerivedState(
       return p;
     });
 
-    return group.turnOrder
+    // Without a reference time, away status cannot be judged and is ignored.
+    const turnOrder =
+      nowMs === undefined
+        ? group.turnOrder
+        : deferAwayParticipants(group.turnOrder, group.participants, nowMs);
+
+    return turnOrder
       .map((pid) => hydratedParticipants.find((p) => p.id === pid))
       .filter((p): p is TurnParticipant => !!p);
-  }, [group, user]);
+  }, [group, user, nowMs]);
 
   const isUserTurn = useMemo(() => {
     if (!currentUserParticipant || orderedParticipants.length === 0) return false;
     return orderedParticipants[0].id === currentUserParticipant.id;
   }, [currentUserParticipant, orderedParticipants]);
 
+  const turnInProgress = group?.turnsInProgress?.[queueId] ?? null;
+  const isUserTurnStarted =
+    !!currentUserParticipant && turnInProgress?.participantId === currentUserParticipant.id;
+  // Only one turn per queue can be in progress, and only the user's own.
+  const canStartTurn = isUserTurn && !turnInProgress;
+
   const isLastAdmin = useMemo(() => {
     if (!group || !isAdmin) return false;
     return group.participants.filter((p) => p.role === 'admin').length === 1;
   }, [group, isAdmin]);
 
-  const undoableAction = useMemo(() => {
-    if (!user || !group || !turnLog) return null;
+  // The security rules only let admins undo, so members get an empty stack.
+  const undoStack = useMemo(() => {
+    if (!user || !group || !turnLog || !isAdmin) return [];
+    return buildUndoStack(turnLog);
+  }, [turnLog, group, user, isAdmin]);
 
-    // --- THIS IS THE FIX ---
-    // 1. Get ALL completed logs from the history, sorted with the most recent first.
-    const allCompletedLogs = turnLog.filter(
-      (log): log is TurnCompletedLog & { id: string } =>
-        log.type === 'TURN_COMPLETED'
-    );
+  const undoableAction = undoStack.length > 0 ? undoStack[0] : null;
 
-    // 2. Establish a fixed window of only the THREE most recent completed turns.
-    const recentTurnWindow = allCompletedLogs.slice(0, 3);
+  const redoableAction = useMemo(() => {
+    if (!user || !group || !turnLog || !isAdmin) return null;
+    return buildRedoStack(turnLog)[0] ?? null;
+  }, [turnLog, group, user, isAdmin]);
 
-    // 3. From within that fixed window, find the most recent log that is NOT already undone.
-    const logToUndo = recentTurnWindow.find(log => !log.isUndone);
-    // --- END FIX ---
+  const undoableLogIds = useMemo(
+    () => new Set(undoStack.map((log) => log.id)),
+    [undoStack],
+  );
 
-    // 4. Check permissions and return the result.
-    // The security rule has been updated; only admins can undo.
-    if (logToUndo && isAdmin) {
-      return logToUndo;
-    }
+  const pendingSwaps = useMemo(() => {
+    if (!group || !currentUserParticipant) return [];
+    const nameOf = (id: string) =>
+      group.participants.find((p) => p.id === id)?.nickname || 'Unknown';
 
-    return null;
-  }, [turnLog, group, user, isAdmin]);
+    return (group.swapRequests ?? [])
+      .filter((r) => r.queueId === queueId)
+      .filter(
+        (r) =>
+          r.toParticipantId === currentUserParticipant.id ||
+          r.fromParticipantId === currentUserParticipant.id,
+      )
+      .map((r) => {
+        const isIncoming = r.toParticipantId === currentUserParticipant.id;
+        return {
+          id: r.id,
+          direction: isIncoming ? ('incoming' as const) : ('outgoing' as const),
+          otherParticipantName: nameOf(isIncoming ? r.fromParticipantId : r.toParticipantId),
+        };
+      });
+  }, [group, currentUserParticipant, queueId]);
+
+  const turnsToReview = useMemo(() => {
+    if (!user || !currentUserParticipant) return [];
+    return turnLog.filter(
+      (log): log is TurnCompletedLog & { id: string } =>
+        log.type === 'TURN_COMPLETED' &&
+        !log.isUndone &&
+        ((log.confirmationStatus === 'pending' &&
+          log.participantId !== currentUserParticipant.id &&
+          log.actorUid !== user.uid) ||
+          (log.confirmationStatus === 'disputed' && isAdmin)),
+    );
+  }, [turnLog, user, currentUserParticipant, isAdmin]);
 
   return {
     currentUserParticipant,
@@ -94,6 +143,13 @@ export function useGroupDerivedState(
     isAdmin,
     isUserTurn,
     isLastAdmin,
+    turnInProgress,
+    isUserTurnStarted,
+    canStartTurn,
     undoableAction,
+    undoableLogIds,
+    redoableAction,
+    pendingSwaps,
+    turnsToReview,
   };
 }
\ No newline at end of file
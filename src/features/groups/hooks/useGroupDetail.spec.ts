@@ -38,6 +38,7 @@ vi.mock('./useTurnLifecycleActions');
 vi.mock('./useMembershipActions');
 vi.mock('./useGroupSettingsActions');
 vi.mock('./useSharingActions');
+vi.mock('./useTurnHistory');
 
 // --- Imports ---
 import { useGroupDetail } from './useGroupDetail';
@@ -49,6 +50,7 @@ import { useTurnLifecycleActions } from './useTurnLifecycleActions';
 import { useMembershipActions } from './useMembershipActions';
 import { useGroupSettingsActions } from './useGroupSettingsActions';
 import { useSharingActions } from './useSharingActions';
+import { useTurnHistory } from './useTurnHistory';
 
 // --- Test Setup ---
 const mockLoadGroupAndLog = vi.fn();
@@ -70,12 +72,20 @@ vi.mocked(useGroupDerivedState).mockReturnValue({
   isAdmin: false,
   isUserTurn: false,
   isLastAdmin: false,
+  turnInProgress: null,
+  isUserTurnStarted: false,
+  canStartTurn: false,
   undoableAction: null,
+  undoableLogIds: new Set(),
+  redoableAction: null,
+  pendingSwaps: [],
+  turnsToReview: [],
 });
 vi.mocked(useTurnLifecycleActions).mockReturnValue({} as any);
 vi.mocked(useMembershipActions).mockReturnValue({} as any);
 vi.mocked(useGroupSettingsActions).mockReturnValue({} as any);
 vi.mocked(useSharingActions).mockReturnValue({} as any);
+vi.mocked(useTurnHistory).mockReturnValue({} as any);
 
 
 describe('useGroupDetail Hook', () => {
@@ -1,12 +1,17 @@
 /**
  * @file packages/whoseturnnow/src/features/groups/hooks/useGroupDetail.ts
- * @stamp {"ts":"2025-10-25T15:20:00Z"}
+ * @stamp {"ts":"2026-10-19T16:10:00Z"}
  * @architectural-role Orchestrator
  *
  * @description
  * The primary "Conductor" hook for the Group Detail feature. It now systemically
  * applies the "Close and Defer" pattern to all actions triggered from menus
  * or dialogs to prevent focus-related race conditions during UI re-renders.
+ * It also owns the selection of the active queue: derived state and turn
+ * actions all operate on a view of the group projected onto that queue.
+ * In ledger groups, completing a turn first asks how much was spent.
+ * The turn history combines the live log with older pages fetched on demand.
+ * Admins also follow the group's pending join requests.
  *
  * @core-principles
  * 1. IS the single composition root for all of the feature's logic.
@@ -20,12 +25,14 @@
  * @contract
  *   assertions:
  *     purity: mutates
- *     state_ownership: [isSubmitting, feedback]
- *     external_io: none
+ *     state_ownership: [isSubmitting, feedback, selectedQueueId, isReordering, joinRequests]
+ *     external_io: firestore
  */
 
 import { useEffect, useState, useMemo, type MouseEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useGroupStore } from '../useGroupStore';
+import { groupsRepository } from '../repository';
 import { useAuthStore } from '../../auth/useAuthStore';
 import { useAppStatusStore } from '../../../shared/store/useAppStatusStore';
 import { useMenuState } from './useMenuState';
@@ -35,26 +42,49 @@ import { useTurnLifecycleActions } from './useTurnLifecycleActions';
 import { useMembershipActions } from './useMembershipActions';
 import { useGroupSettingsActions } from './useGroupSettingsActions';
 import { useSharingActions } from './useSharingActions';
-import type { TurnParticipant, LogEntry } from '../../../types/group';
+import { useTurnHistory } from './useTurnHistory';
+import { useNow } from '../../../shared/hooks/useNow';
+import { formatDuration } from '../../../shared/utils/formatDate';
+import type { TurnParticipant, LogEntry, JoinRequest } from '../../../types/group';
+import { MAIN_QUEUE_ID, getQueueName, listQueues, projectQueue } from '../utils/queues';
+import { resolveRotationStrategy } from '../utils/rotation';
+import type { HistoryExportFormat } from '../utils/export';
+import { isAuditEntry } from '../utils/history';
 
 const DEFER_ACTION_MS = 50; // A consistent, small delay for all deferred actions.
 
 export function useGroupDetail(groupId: string | undefined) {
   const user = useAuthStore((state) => state.user);
+  const navigate = useNavigate();
   const { group, turnLog, isLoading, loadGroupAndLog, cleanup } = useGroupStore();
   const connectionMode = useAppStatusStore((state) => state.connectionMode);
   const [showTurnCounts, setShowTurnCounts] = useState(true);
   const [showTurnHistory, setShowTurnHistory] = useState(true);
+  const [isReordering, setIsReordering] = useState(false);
+  const [joinRequests, setJoinRequests] = useState<JoinRequest[]>([]);
 
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [feedback, setFeedback] = useState<{ message: string; severity: 'success' | 'error' } | null>(null);
 
-  const derivedState = useGroupDerivedState(group, user, turnLog);
+  const [selectedQueueId, setSelectedQueueId] = useState(MAIN_QUEUE_ID);
+  // Falls back to the main queue if the selected queue has been removed.
+  const activeQueueId = group?.queues?.some((q) => q.id === selectedQueueId)
+    ? selectedQueueId
+    : MAIN_QUEUE_ID;
+  const queues = useMemo(() => (group ? listQueues(group) : []), [group]);
+  const queueView = useMemo(
+    () => (group ? projectQueue(group, activeQueueId) : null),
+    [group, activeQueueId],
+  );
+
+  const now = useNow();
+  const derivedState = useGroupDerivedState(queueView, user, turnLog, activeQueueId, now);
 
   const turnActions = useTurnLifecycleActions({
     ...derivedState,
     groupId,
     group,
+    queueId: activeQueueId,
     user,
     setIsSubmitting,
     setFeedback,
@@ -63,6 +93,7 @@ export function useGroupDetail(groupId: string | undefined) {
   const membershipActions = useMembershipActions({
     groupId,
     group,
+    queueId: activeQueueId,
     user,
     setIsSubmitting,
     setFeedback,
@@ -78,17 +109,25 @@ export function useGroupDetail(groupId: string | undefined) {
   const sharingActions = useSharingActions({
     groupId,
     group,
+    user,
     setFeedback,
   });
 
+  const turnHistory = useTurnHistory({ groupId, liveLog: turnLog, now, setFeedback });
+  const historyFilterOptions = useMemo(() => {
+    const named = (group?.participants ?? []).map((p) => ({ ...p, name: p.nickname || 'Unnamed' }));
+    return {
+      participants: named.map(({ id, name }) => ({ id, name })),
+      actors: named.flatMap(({ uid, name }) => (uid ? [{ uid, name }] : [])),
+    };
+  }, [group?.participants]);
+
   const groupMenu = useMenuState();
   const [selectedParticipant, setSelectedParticipant] = useState<TurnParticipant | null>(null);
   const participantMenuState = useMenuState();
   const iconPickerMenu = useMenuState();
 
-  const deleteDialog = useDialogState(() => {
-    setTimeout(() => settingsActions.handleConfirmDelete(), DEFER_ACTION_MS);
-  });
+  const archiveDialog = useDialogState(() => {});
   const resetDialog = useDialogState(() => {
     setTimeout(() => settingsActions.handleConfirmReset(), DEFER_ACTION_MS);
   });
@@ -100,6 +139,22 @@ export function useGroupDetail(groupId: string | undefined) {
   });
   const addParticipantDialog = useDialogState(() => {});
   const changeNameDialog = useDialogState(() => {}); // New dialog state
+  const rotationDialog = useDialogState(() => {});
+  const scheduleDialog = useDialogState(() => {});
+  const queuesDialog = useDialogState(() => {});
+  const saveTemplateDialog = useDialogState(() => {});
+  const duplicateDialog = useDialogState(() => {});
+  const joinCodeDialog = useDialogState(() => {});
+  const inviteSheetDialog = useDialogState(() => {});
+  const weightDialogState = useDialogState(() => {});
+  const [weightTarget, setWeightTarget] = useState<TurnParticipant | null>(null);
+  const awayDialogState = useDialogState(() => {});
+  const [awayTarget, setAwayTarget] = useState<TurnParticipant | null>(null);
+  const amountDialogState = useDialogState(() => {});
+  const [amountTarget, setAmountTarget] = useState<{
+    participant: TurnParticipant;
+    isAdminCompletion: boolean;
+  } | null>(null);
 
   useEffect(() => {
     if (groupId && connectionMode === 'live') {
@@ -108,24 +163,107 @@ export function useGroupDetail(groupId: string | undefined) {
     return () => cleanup();
   }, [groupId, connectionMode, loadGroupAndLog, cleanup]);
 
+  // Only admins may list join requests.
+  const isAdmin = derivedState.isAdmin;
+  useEffect(() => {
+    if (!groupId || !isAdmin || connectionMode !== 'live') {
+      setJoinRequests([]);
+      return;
+    }
+    return groupsRepository.getJoinRequests(groupId, setJoinRequests);
+  }, [groupId, isAdmin, connectionMode]);
+
+  const isLedger = !!group && resolveRotationStrategy(group) === 'ledger';
+
   const composedActions = useMemo(() => {
-    const formatLogEntry = (log: LogEntry) => {
+    const describeLogEntry = (log: LogEntry) => {
       switch (log.type) {
         case 'TURN_COMPLETED': {
           const byActor = log.actorUid !== log.participantId ? ` by ${log.actorName}` : '';
-          return `${log.participantName}'s turn was completed${byActor}.`;
+          const took = log.durationMs !== undefined ? ` in ${formatDuration(log.durationMs)}` : '';
+          return `${log.participantName}'s turn was completed${byActor}${took}.`;
         }
+        case 'TURN_STARTED':
+          return `${log.participantName} started their turn.`;
         case 'TURN_SKIPPED':
           return `${log.participantName} skipped their turn.`;
         case 'COUNTS_RESET':
           return `All turn counts were reset by ${log.actorName}.`;
         case 'TURN_UNDONE':
-          return `${log.actorName} undid ${log.originalParticipantName}'s turn.`;
+          switch (log.originalType) {
+            case 'TURN_SKIPPED':
+              return `${log.actorName} undid ${log.originalParticipantName}'s skip.`;
+            case 'COUNTS_RESET':
+              return `${log.actorName} undid the turn count reset.`;
+            case 'TURN_SWAPPED':
+              return `${log.actorName} undid a swap.`;
+            case 'QUEUE_REORDERED':
+              return `${log.actorName} undid a queue reorder.`;
+            default:
+              return `${log.actorName} undid ${log.originalParticipantName}'s turn.`;
+          }
+        case 'TURN_REDONE':
+          switch (log.originalType) {
+            case 'TURN_SKIPPED':
+              return `${log.actorName} redid ${log.originalParticipantName}'s skip.`;
+            case 'COUNTS_RESET':
+              return `${log.actorName} redid the turn count reset.`;
+            case 'TURN_SWAPPED':
+              return `${log.actorName} redid a swap.`;
+            case 'QUEUE_REORDERED':
+              return `${log.actorName} redid a queue reorder.`;
+            default:
+              return `${log.actorName} redid ${log.originalParticipantName}'s turn.`;
+          }
+        case 'TURN_SWAPPED':
+          return `${log.fromParticipantName} and ${log.toParticipantName} swapped places.`;
+        case 'QUEUE_REORDERED':
+          return `${log.actorName} reordered the queue.`;
+        case 'TURN_REVIEWED':
+          return log.outcome === 'confirmed'
+            ? `${log.actorName} confirmed ${log.participantName}'s turn.`
+            : `${log.actorName} rejected ${log.participantName}'s turn.`;
+        case 'PARTICIPANT_ADDED':
+          return `${log.actorName} added ${log.participantName}.`;
+        case 'PARTICIPANT_REMOVED':
+          return `${log.actorName} removed ${log.participantName}.`;
+        case 'ROLE_CHANGED':
+          return log.newRole === 'admin'
+            ? `${log.actorName} made ${log.participantName} an admin.`
+            : `${log.actorName} made ${log.participantName} a member.`;
+        case 'PLACEHOLDER_CLAIMED':
+          return `${log.participantName} claimed the spot for ${log.placeholderName}.`;
+        case 'MEMBER_JOINED':
+          return `${log.participantName} joined the group.`;
+        case 'MEMBER_LEFT':
+          return `${log.participantName} left the group.`;
+        case 'GROUP_RENAMED':
+          return `${log.actorName} renamed the group from "${log.previousName}" to "${log.newName}".`;
+        case 'ICON_CHANGED':
+          return `${log.actorName} changed the group icon from ${log.previousIcon} to ${log.newIcon}.`;
+        case 'AWAY_CHANGED':
+          return log.awayUntil === null
+            ? `${log.actorName} marked ${log.participantName} as back.`
+            : `${log.actorName} marked ${log.participantName} as away until ${new Intl.DateTimeFormat(undefined, { dateStyle: 'medium' }).format(new Date(log.awayUntil))}.`;
+        case 'WEIGHT_CHANGED':
+          return `${log.actorName} changed ${log.participantName}'s weight from ${log.previousWeight} to ${log.newWeight}.`;
         default:
           return 'An unknown action occurred.';
       }
     };
 
+    // Only label entries with their queue once the group has more than one.
+    const formatLogEntry = (log: LogEntry) => {
+      const description = describeLogEntry(log);
+      if (isAuditEntry(log)) return description;
+      const isGroupWide =
+        log.type === 'COUNTS_RESET' ||
+        ('originalType' in log && log.originalType === 'COUNTS_RESET');
+      if (!group?.queues?.length || isGroupWide) return description;
+      const queueName = getQueueName(group, log.queueId) ?? 'Removed queue';
+      return `${queueName}: ${description}`;
+    };
+
     return {
       ...turnActions,
       ...membershipActions,
@@ -139,12 +277,38 @@ export function useGroupDetail(groupId: string | undefined) {
         await settingsActions.handleUpdateGroupName(newName);
       },
 
+      // Ledger groups ask how much was spent before a turn is completed.
+      handleTurnAction: () => {
+        const participant = derivedState.isUserTurn
+          ? derivedState.orderedParticipants[0]
+          : derivedState.currentUserParticipant;
+        if (!isLedger || !participant) {
+          turnActions.handleTurnAction();
+          return;
+        }
+        setAmountTarget({ participant, isAdminCompletion: false });
+        amountDialogState.handleOpen();
+      },
       handleAdminCompleteTurn: (participantId: string) => {
+        const participant = selectedParticipant;
         participantMenuState.handleClose();
         setTimeout(() => {
-          membershipActions.handleAdminCompleteTurn(participantId);
+          if (isLedger && participant) {
+            setAmountTarget({ participant, isAdminCompletion: true });
+            amountDialogState.handleOpen();
+          } else {
+            membershipActions.handleAdminCompleteTurn(participantId);
+          }
         }, DEFER_ACTION_MS);
       },
+      handleConfirmAmount: (amount: number) => {
+        if (!amountTarget) return;
+        if (amountTarget.isAdminCompletion) {
+          membershipActions.handleAdminCompleteTurn(amountTarget.participant.id, amount);
+        } else {
+          turnActions.handleTurnAction(amount);
+        }
+      },
       handleRoleChange: (newRole: 'admin' | 'member') => {
         const participantId = selectedParticipant?.id;
         participantMenuState.handleClose();
@@ -154,6 +318,44 @@ export function useGroupDetail(groupId: string | undefined) {
           }
         }, DEFER_ACTION_MS);
       },
+      handleOpenWeightDialog: () => {
+        setWeightTarget(selectedParticipant);
+        participantMenuState.handleClose();
+        setTimeout(() => weightDialogState.handleOpen(), DEFER_ACTION_MS);
+      },
+      handleConfirmWeight: (weight: number) => {
+        if (weightTarget) {
+          membershipActions.handleWeightChange(weightTarget.id, weight);
+        }
+      },
+      handleStartReorder: () => {
+        groupMenu.handleClose();
+        setTimeout(() => setIsReordering(true), DEFER_ACTION_MS);
+      },
+      handleCancelReorder: () => setIsReordering(false),
+      handleSaveOrder: (newOrder: string[]) => {
+        setIsReordering(false);
+        turnActions.handleReorderQueue(newOrder);
+      },
+      handleRequestSwap: () => {
+        const participantId = selectedParticipant?.id;
+        participantMenuState.handleClose();
+        setTimeout(() => {
+          if (participantId) {
+            turnActions.handleRequestSwap(participantId);
+          }
+        }, DEFER_ACTION_MS);
+      },
+      handleOpenAwayDialog: () => {
+        setAwayTarget(selectedParticipant);
+        participantMenuState.handleClose();
+        setTimeout(() => awayDialogState.handleOpen(), DEFER_ACTION_MS);
+      },
+      handleConfirmAway: (awayUntil: number | null) => {
+        if (awayTarget) {
+          membershipActions.handleSetAway(awayTarget.id, awayUntil);
+        }
+      },
       handleRemoveParticipant: () => {
         const participantId = selectedParticipant?.id;
         participantMenuState.handleClose();
@@ -163,6 +365,22 @@ export function useGroupDetail(groupId: string | undefined) {
           }
         }, DEFER_ACTION_MS);
       },
+      handleExportHistory: (format: HistoryExportFormat) => {
+        groupMenu.handleClose();
+        setTimeout(() => sharingActions.handleExportHistory(format, formatLogEntry), DEFER_ACTION_MS);
+      },
+      handleBackupGroup: () => {
+        groupMenu.handleClose();
+        setTimeout(() => sharingActions.handleBackupGroup(), DEFER_ACTION_MS);
+      },
+      handleOpenStats: () => {
+        groupMenu.handleClose();
+        setTimeout(() => navigate(`/group/${groupId}/stats`), DEFER_ACTION_MS);
+      },
+      handleManageInvitations: () => {
+        groupMenu.handleClose();
+        setTimeout(() => navigate(`/group/${groupId}/invitations`), DEFER_ACTION_MS);
+      },
       handleLeaveGroup: () => {
         groupMenu.handleClose();
         setTimeout(() => {
@@ -171,6 +389,13 @@ export function useGroupDetail(groupId: string | undefined) {
       },
     };
   }, [
+    group,
+    groupId,
+    navigate,
+    isLedger,
+    derivedState.isUserTurn,
+    derivedState.orderedParticipants,
+    derivedState.currentUserParticipant,
     turnActions,
     membershipActions,
     settingsActions,
@@ -178,6 +403,12 @@ export function useGroupDetail(groupId: string | undefined) {
     selectedParticipant,
     participantMenuState,
     groupMenu,
+    weightDialogState,
+    weightTarget,
+    awayDialogState,
+    awayTarget,
+    amountDialogState,
+    amountTarget,
   ]);
 
   const participantMenu = {
@@ -198,6 +429,7 @@ export function useGroupDetail(groupId: string | undefined) {
     turnLog,
     isLoading,
     user,
+    now,
     ...derivedState,
     isSubmitting,
     feedback,
@@ -205,15 +437,36 @@ export function useGroupDetail(groupId: string | undefined) {
     participantMenu,
     iconPickerMenu,
     resetDialog,
-    deleteDialog,
+    archiveDialog,
     undoDialog,
     skipDialog,
     addParticipantDialog,
     changeNameDialog, 
+    rotationDialog,
+    scheduleDialog,
+    queuesDialog,
+    saveTemplateDialog,
+    duplicateDialog,
+    joinCodeDialog,
+    inviteSheetDialog,
+    queues,
+    activeQueueId,
+    setActiveQueueId: (queueId: string) => {
+      setIsReordering(false);
+      setSelectedQueueId(queueId);
+    },
+    queueView,
+    weightDialog: { ...weightDialogState, participant: weightTarget },
+    awayDialog: { ...awayDialogState, participant: awayTarget },
+    amountDialog: { ...amountDialogState, participant: amountTarget?.participant ?? null },
+    isLedger,
     actions: composedActions,
     showTurnCounts,
     setShowTurnCounts,
     showTurnHistory,
     setShowTurnHistory,
+    turnHistory: { ...turnHistory, ...historyFilterOptions },
+    isReordering,
+    joinRequests,
   };
 }
\ No newline at end of file
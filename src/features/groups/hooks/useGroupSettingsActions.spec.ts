@@ -25,6 +25,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 
 // --- Mocks ---
 vi.mock('../repository');
+vi.mock('../../auth/userRepository');
 vi.mock('react-router-dom', () => ({
   useNavigate: vi.fn(),
 }));
@@ -33,14 +34,16 @@ vi.mock('../../../shared/utils/debug'); // Mock the logger
 // --- Imports ---
 import { useGroupSettingsActions } from './useGroupSettingsActions';
 import { groupsRepository } from '../repository';
+import { userRepository } from '../../auth/userRepository';
 import { useNavigate } from 'react-router-dom';
 import type { AppUser } from '../../auth/useAuthStore';
 import type { Group } from '../../../types/group';
 
 // --- Test Setup ---
 const mockUpdateSettings = vi.mocked(groupsRepository.updateGroupSettings);
-const mockDeleteGroup = vi.mocked(groupsRepository.deleteGroup);
+const mockArchiveGroup = vi.mocked(groupsRepository.archiveGroup);
 const mockResetCounts = vi.mocked(groupsRepository.resetAllTurnCounts);
+const mockSaveTemplate = vi.mocked(userRepository.saveGroupTemplate);
 const mockNavigate = vi.fn();
 
 const mockUser: AppUser = { uid: 'user-admin', displayName: 'Admin User', isAnonymous: false };
@@ -80,10 +83,14 @@ describe('useGroupSettingsActions', () => {
     });
 
     // ASSERT
-    expect(mockUpdateSettings).toHaveBeenCalledWith(mockGroup.gid, {
-      name: newName,
-      icon: mockGroup.icon, // Verify the icon is preserved
-    });
+    expect(mockUpdateSettings).toHaveBeenCalledWith(
+      mockGroup.gid,
+      {
+        name: newName,
+        icon: mockGroup.icon, // Verify the icon is preserved
+      },
+      mockUser,
+    );
     expect(mockSetFeedback).toHaveBeenCalledWith({ message: 'Group name updated!', severity: 'success' });
   });
 
@@ -99,25 +106,29 @@ describe('useGroupSettingsActions', () => {
     });
 
     // ASSERT
-    expect(mockUpdateSettings).toHaveBeenCalledWith(mockGroup.gid, {
-      name: mockGroup.name, // The original name should be preserved
-      icon: newIcon,
-    });
+    expect(mockUpdateSettings).toHaveBeenCalledWith(
+      mockGroup.gid,
+      {
+        name: mockGroup.name, // The original name should be preserved
+        icon: newIcon,
+      },
+      mockUser,
+    );
     expect(mockSetFeedback).toHaveBeenCalledWith({ message: 'Group icon updated!', severity: 'success' });
   });
 
-  it('should call deleteGroup and navigate on success', async () => {
+  it('should call archiveGroup with the chosen retention and navigate on success', async () => {
     // ARRANGE
     const { result } = renderTestHook();
-    mockDeleteGroup.mockResolvedValue(undefined);
+    mockArchiveGroup.mockResolvedValue(undefined);
 
     // ACT
     await act(async () => {
-      await result.current.handleConfirmDelete();
+      await result.current.handleArchiveGroup(30);
     });
 
     // ASSERT
-    expect(mockDeleteGroup).toHaveBeenCalledWith(mockGroup.gid);
+    expect(mockArchiveGroup).toHaveBeenCalledWith(mockGroup.gid, 30);
     expect(mockNavigate).toHaveBeenCalledWith('/');
   });
 
@@ -136,19 +147,56 @@ describe('useGroupSettingsActions', () => {
     expect(mockSetFeedback).toHaveBeenCalledWith({ message: 'All turn counts have been reset.', severity: 'success' });
   });
 
+  it('should save the group as a personal template of the current user', async () => {
+    // ARRANGE
+    const { result } = renderTestHook();
+    mockSaveTemplate.mockResolvedValue(undefined);
+
+    // ACT
+    await act(async () => {
+      await result.current.handleSaveAsTemplate('Our Chores');
+    });
+
+    // ASSERT
+    expect(mockSaveTemplate).toHaveBeenCalledWith(
+      mockUser.uid,
+      expect.objectContaining({ name: 'Our Chores', icon: mockGroup.icon, placeholders: [] }),
+    );
+    expect(mockSetFeedback).toHaveBeenCalledWith({ message: 'Saved as template "Our Chores".', severity: 'success' });
+  });
+
+  it('should duplicate the group and navigate to the copy', async () => {
+    // ARRANGE
+    const { result } = renderTestHook();
+    vi.mocked(groupsRepository.duplicateGroup).mockResolvedValue('group-2');
+
+    // ACT
+    await act(async () => {
+      await result.current.handleDuplicateGroup('Original Name (Copy)', false);
+    });
+
+    // ASSERT
+    expect(groupsRepository.duplicateGroup).toHaveBeenCalledWith(mockGroup.gid, {
+      name: 'Original Name (Copy)',
+      creator: mockUser,
+      keepProgress: false,
+    });
+    expect(mockNavigate).toHaveBeenCalledWith('/group/group-2');
+  });
+
   it('should set feedback on repository failure', async () => {
     // ARRANGE
     const { result } = renderTestHook();
     const errorMessage = 'Database error';
-    mockDeleteGroup.mockRejectedValue(new Error(errorMessage));
+    mockArchiveGroup.mockRejectedValue(new Error(errorMessage));
 
     // ACT
     await act(async () => {
-      await result.current.handleConfirmDelete();
+      await result.current.handleArchiveGroup(30);
     });
 
     // ASSERT
-    expect(mockSetFeedback).toHaveBeenCalledWith({ message: 'Failed to delete group.', severity: 'error' });
+    expect(mockSetFeedback).toHaveBeenCalledWith({ message: 'Failed to archive group.', severity: 'error' });
     expect(mockNavigate).not.toHaveBeenCalled();
   });
 });
\ No newline at end of file
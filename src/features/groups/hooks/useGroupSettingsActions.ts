@@ -1,12 +1,16 @@
 /**
  * @file packages/whoseturnnow/src/features/groups/hooks/useGroupSettingsActions.ts
- * @stamp {"ts":"2025-10-25T15:10:00Z"}
+ * @stamp {"ts":"2026-10-19T14:30:00Z"}
  * @architectural-role Hook
  *
  * @description
  * A specialized action hook for managing high-level, administrative group
- * settings. It provides functions for updating a group's name and icon,
- * deleting a group, and resetting all turn counts.
+ * settings. It provides functions for updating a group's name, icon,
+ * rotation strategy and schedule, whether new members need approving,
+ * managing its named queues, archiving and
+ * restoring a group,
+ * resetting all turn counts, saving its configuration as a personal template,
+ * and duplicating it.
  *
  * @core-principles
  * 1. OWNS the command logic for all group-level administrative actions.
@@ -17,8 +21,17 @@
  *   - `useGroupSettingsActions`: The exported hook function.
  *   - `returns.handleUpdateGroupName`: Updates the group's name.
  *   - `returns.handleUpdateGroupIcon`: Updates the group's icon.
- *   - `returns.handleConfirmDelete`: Deletes the group.
+ *   - `returns.handleUpdateRotationStrategy`: Changes the group's rotation strategy.
+ *   - `returns.handleUpdateSchedule`: Sets or clears the group's recurring schedule.
+ *   - `returns.handleToggleRequireConfirmation`: Turns peer confirmation of turns on or off.
+ *   - `returns.handleToggleRequireApproval`: Turns admin approval of new members on or off.
+ *   - `returns.handleAddQueue`: Adds a new named queue.
+ *   - `returns.handleRemoveQueue`: Removes an additional queue.
+ *   - `returns.handleArchiveGroup`: Archives the group for a chosen retention period.
+ *   - `returns.handleUnarchiveGroup`: Restores the archived group.
  *   - `returns.handleConfirmReset`: Resets all turn counts.
+ *   - `returns.handleSaveAsTemplate`: Saves the group's configuration as a personal template.
+ *   - `returns.handleDuplicateGroup`: Creates a copy of the group and opens it.
  *
  * @contract
  *   assertions:
@@ -29,10 +42,13 @@
 
 import { useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { v4 as uuidv4 } from 'uuid';
 import { groupsRepository } from '../repository';
+import { userRepository } from '../../auth/userRepository';
+import { buildTemplateFromGroup } from '../utils/templates';
 import { logger } from '../../../shared/utils/debug';
 import type { AppUser } from '../../auth/useAuthStore';
-import type { Group } from '../../../types/group';
+import type { Group, GroupSchedule, RotationStrategy } from '../../../types/group';
 
 interface GroupSettingsActionsProps {
   groupId: string | undefined;
@@ -51,48 +67,163 @@ export function useGroupSettingsActions({
 
   const handleUpdateGroupName = useCallback(
     async (newName: string) => {
-      if (!groupId || !group) return;
+      if (!groupId || !group || !user) return;
       try {
-        await groupsRepository.updateGroupSettings(groupId, {
-          name: newName,
-          icon: group.icon, // Preserve the existing icon
-        });
+        await groupsRepository.updateGroupSettings(
+          groupId,
+          {
+            name: newName,
+            icon: group.icon, // Preserve the existing icon
+          },
+          user,
+        );
         setFeedback({ message: 'Group name updated!', severity: 'success' });
       } catch (error) {
         logger.error('Failed to update group name:', { error });
         setFeedback({ message: 'Failed to update name.', severity: 'error' });
       }
     },
-    [groupId, group, setFeedback],
+    [groupId, group, user, setFeedback],
   );
 
   const handleUpdateGroupIcon = useCallback(
     async (newIcon: string) => {
-      if (!groupId || !group) return;
+      if (!groupId || !group || !user) return;
       try {
-        await groupsRepository.updateGroupSettings(groupId, {
-          name: group.name,
-          icon: newIcon,
-        });
+        await groupsRepository.updateGroupSettings(
+          groupId,
+          {
+            name: group.name,
+            icon: newIcon,
+          },
+          user,
+        );
         setFeedback({ message: 'Group icon updated!', severity: 'success' });
       } catch (error) {
         logger.error('Failed to update group icon:', { error });
         setFeedback({ message: 'Failed to update icon.', severity: 'error' });
       }
     },
-    [groupId, group, setFeedback],
+    [groupId, group, user, setFeedback],
+  );
+
+  const handleUpdateRotationStrategy = useCallback(
+    async (strategy: RotationStrategy) => {
+      if (!groupId) return;
+      try {
+        await groupsRepository.updateRotationStrategy(groupId, strategy);
+        setFeedback({ message: 'Rotation updated!', severity: 'success' });
+      } catch (error) {
+        logger.error('Failed to update rotation strategy:', { error });
+        setFeedback({ message: 'Failed to update rotation.', severity: 'error' });
+      }
+    },
+    [groupId, setFeedback],
+  );
+
+  const handleUpdateSchedule = useCallback(
+    async (schedule: GroupSchedule | null) => {
+      if (!groupId) return;
+      try {
+        await groupsRepository.updateGroupSchedule(groupId, schedule);
+        setFeedback({
+          message: schedule ? 'Schedule updated!' : 'Schedule removed.',
+          severity: 'success',
+        });
+      } catch (error) {
+        logger.error('Failed to update schedule:', { error });
+        setFeedback({ message: 'Failed to update schedule.', severity: 'error' });
+      }
+    },
+    [groupId, setFeedback],
+  );
+
+  const handleToggleRequireConfirmation = useCallback(async () => {
+    if (!groupId || !group) return;
+    const requireConfirmation = !group.requireConfirmation;
+    try {
+      await groupsRepository.updateRequireConfirmation(groupId, requireConfirmation);
+      setFeedback({
+        message: requireConfirmation
+          ? 'Completed turns now need confirming.'
+          : 'Completed turns no longer need confirming.',
+        severity: 'success',
+      });
+    } catch (error) {
+      logger.error('Failed to update confirmation setting:', { error });
+      setFeedback({ message: 'Failed to update setting.', severity: 'error' });
+    }
+  }, [groupId, group, setFeedback]);
+
+  const handleToggleRequireApproval = useCallback(async () => {
+    if (!groupId || !group) return;
+    const requireApproval = !group.requireApproval;
+    try {
+      await groupsRepository.updateRequireApproval(groupId, requireApproval);
+      setFeedback({
+        message: requireApproval
+          ? 'New members now need an admin to approve them.'
+          : 'New members can now join straight away.',
+        severity: 'success',
+      });
+    } catch (error) {
+      logger.error('Failed to update approval setting:', { error });
+      setFeedback({ message: 'Failed to update setting.', severity: 'error' });
+    }
+  }, [groupId, group, setFeedback]);
+
+  const handleAddQueue = useCallback(
+    async (name: string) => {
+      if (!groupId) return;
+      try {
+        await groupsRepository.addQueue(groupId, name);
+        setFeedback({ message: `Queue "${name}" added!`, severity: 'success' });
+      } catch (error) {
+        logger.error('Failed to add queue:', { error });
+        setFeedback({ message: 'Failed to add queue.', severity: 'error' });
+      }
+    },
+    [groupId, setFeedback],
+  );
+
+  const handleRemoveQueue = useCallback(
+    async (queueId: string) => {
+      if (!groupId) return;
+      try {
+        await groupsRepository.removeQueue(groupId, queueId);
+        setFeedback({ message: 'Queue removed.', severity: 'success' });
+      } catch (error) {
+        logger.error('Failed to remove queue:', { error });
+        setFeedback({ message: 'Failed to remove queue.', severity: 'error' });
+      }
+    },
+    [groupId, setFeedback],
+  );
+
+  const handleArchiveGroup = useCallback(
+    async (retentionDays: number) => {
+      if (!groupId) return;
+      try {
+        await groupsRepository.archiveGroup(groupId, retentionDays);
+        navigate('/');
+      } catch (error) {
+        logger.error('Failed to archive group:', { error });
+        setFeedback({ message: 'Failed to archive group.', severity: 'error' });
+      }
+    },
+    [groupId, navigate, setFeedback],
   );
 
-  const handleConfirmDelete = useCallback(async () => {
+  const handleUnarchiveGroup = useCallback(async () => {
     if (!groupId) return;
     try {
-      await groupsRepository.deleteGroup(groupId);
-      navigate('/');
+      await groupsRepository.unarchiveGroup(groupId);
+      setFeedback({ message: 'Group restored.', severity: 'success' });
     } catch (error) {
-      logger.error('Failed to delete group:', { error });
-      setFeedback({ message: 'Failed to delete group.', severity: 'error' });
+      logger.error('Failed to restore group:', { error });
+      setFeedback({ message: 'Failed to restore group.', severity: 'error' });
     }
-  }, [groupId, navigate, setFeedback]);
+  }, [groupId, setFeedback]);
 
   const handleConfirmReset = useCallback(async () => {
     if (!groupId || !user) return;
@@ -105,10 +236,52 @@ export function useGroupSettingsActions({
     }
   }, [groupId, user, setFeedback]);
 
+  const handleSaveAsTemplate = useCallback(
+    async (name: string) => {
+      if (!group || !user) return;
+      try {
+        const template = buildTemplateFromGroup(group, { id: uuidv4(), name, ownerUid: user.uid });
+        await userRepository.saveGroupTemplate(user.uid, template);
+        setFeedback({ message: `Saved as template "${name}".`, severity: 'success' });
+      } catch (error) {
+        logger.error('Failed to save template:', { error });
+        setFeedback({ message: 'Failed to save template.', severity: 'error' });
+      }
+    },
+    [group, user, setFeedback],
+  );
+
+  const handleDuplicateGroup = useCallback(
+    async (name: string, keepProgress: boolean) => {
+      if (!groupId || !user) return;
+      try {
+        const newGroupId = await groupsRepository.duplicateGroup(groupId, {
+          name,
+          creator: user,
+          keepProgress,
+        });
+        navigate(`/group/${newGroupId}`);
+      } catch (error) {
+        logger.error('Failed to duplicate group:', { error });
+        setFeedback({ message: 'Failed to duplicate group.', severity: 'error' });
+      }
+    },
+    [groupId, user, navigate, setFeedback],
+  );
+
   return {
     handleUpdateGroupName,
     handleUpdateGroupIcon,
-    handleConfirmDelete,
+    handleUpdateRotationStrategy,
+    handleUpdateSchedule,
+    handleToggleRequireConfirmation,
+    handleToggleRequireApproval,
+    handleAddQueue,
+    handleRemoveQueue,
+    handleArchiveGroup,
+    handleUnarchiveGroup,
     handleConfirmReset,
+    handleSaveAsTemplate,
+    handleDuplicateGroup,
   };
 }
\ No newline at end of file
@@ -75,6 +75,7 @@ describe('useMembershipActions', () => {
     const props = {
       groupId: mockGroup.gid,
       group: mockGroup,
+      queueId: 'main',
       user: mockUser,
       setIsSubmitting: mockSetIsSubmitting,
       setFeedback: mockSetFeedback,
@@ -94,7 +95,7 @@ describe('useMembershipActions', () => {
 
     // ASSERT
     expect(mockSetGroup).toHaveBeenCalledTimes(1); // Optimistic update
-    expect(mockAddParticipant).toHaveBeenCalledWith(mockGroup.gid, 'New Member');
+    expect(mockAddParticipant).toHaveBeenCalledWith(mockGroup.gid, 'New Member', mockUser);
   });
 
   it('should call updateParticipantRole', async () => {
@@ -108,7 +109,7 @@ describe('useMembershipActions', () => {
     });
 
     // ASSERT
-    expect(mockUpdateRole).toHaveBeenCalledWith(mockGroup.gid, 'p-alice', 'admin');
+    expect(mockUpdateRole).toHaveBeenCalledWith(mockGroup.gid, 'p-alice', 'admin', mockUser);
   });
 
   it('should call removeParticipant and manage submitting state', async () => {
@@ -122,7 +123,7 @@ describe('useMembershipActions', () => {
     });
 
     // ASSERT
-    expect(mockRemoveParticipant).toHaveBeenCalledWith(mockGroup.gid, 'p-alice');
+    expect(mockRemoveParticipant).toHaveBeenCalledWith(mockGroup.gid, 'p-alice', mockUser);
     expect(mockSetIsSubmitting).toHaveBeenCalledWith(true);
     expect(mockSetIsSubmitting).toHaveBeenCalledWith(false);
   });
@@ -138,7 +139,7 @@ describe('useMembershipActions', () => {
     });
 
     // ASSERT
-    expect(mockLeaveGroup).toHaveBeenCalledWith(mockGroup.gid, mockUser.uid);
+    expect(mockLeaveGroup).toHaveBeenCalledWith(mockGroup.gid, mockUser);
     expect(mockSetIsSubmitting).toHaveBeenCalledWith(true);
     expect(mockNavigate).toHaveBeenCalledWith('/');
     // setIsSubmitting(false) is not called on success because we navigate away
@@ -156,6 +157,6 @@ describe('useMembershipActions', () => {
     
     // ASSERT
     expect(mockSetGroup).toHaveBeenCalledTimes(1); // Optimistic update
-    expect(mockAdminCompleteTurn).toHaveBeenCalledWith(mockGroup.gid, mockUser, 'p-alice');
+    expect(mockAdminCompleteTurn).toHaveBeenCalledWith(mockGroup.gid, mockUser, 'p-alice', 'main', undefined);
   });
 });
\ No newline at end of file
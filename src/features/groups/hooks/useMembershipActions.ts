@@ -1,13 +1,14 @@
 /**
  * @file packages/whoseturnnow/src/features/groups/hooks/useMembershipActions.ts
- * @stamp {"ts":"2025-10-25T15:05:00Z"}
+ * @stamp {"ts":"2026-10-19T16:10:00Z"}
  * @architectural-role Hook
  *
  * @description
  * A specialized action hook responsible for all participant and membership
  * management. This includes adding, removing, and changing the roles of
- * participants, optimistically completing turns on their behalf, and handling
- * the "leave group" action.
+ * participants, optimistically completing turns on their behalf in the
+ * selected queue, answering requests to join, and handling the "leave group"
+ * action.
  *
  * @core-principles
  * 1. OWNS the command logic for all roster and membership changes.
@@ -18,9 +19,13 @@
  *   - `useMembershipActions`: The exported hook function.
  *   - `returns.handleAddParticipant`: Adds a new placeholder participant.
  *   - `returns.handleRoleChange`: Changes a participant's role.
+ *   - `returns.handleWeightChange`: Changes a participant's weighted-rotation share.
+ *   - `returns.handleSetAway`: Marks a participant as away until a date, or back.
  *   - `returns.handleRemoveParticipant`: Removes a participant from the group.
  *   - `returns.handleLeaveGroup`: Allows the current user to leave the group.
  *   - `returns.handleAdminCompleteTurn`: Optimistically completes a turn for another user.
+ *   - `returns.handleApproveJoinRequest`: Adds a user who asked to join to the group.
+ *   - `returns.handleRejectJoinRequest`: Turns down a request to join.
  *
  * @contract
  *   assertions:
@@ -37,10 +42,17 @@ import { useGroupStore } from '../useGroupStore';
 import type { AppUser } from '../../auth/useAuthStore';
 import type { Group, TurnParticipant } from '../../../types/group';
 import { logger } from '../../../shared/utils/debug';
+import { computeCompletedTurn } from '../utils/rotation';
+import {
+  addParticipantToQueues,
+  buildQueueUpdate,
+  projectQueue,
+} from '../utils/queues';
 
 interface MembershipActionsProps {
   groupId: string | undefined;
   group: Group | null;
+  queueId: string;
   user: AppUser | null;
   setIsSubmitting: (isSubmitting: boolean) => void;
   setFeedback: (feedback: { message: string; severity: 'success' | 'error' } | null) => void;
@@ -49,6 +61,7 @@ interface MembershipActionsProps {
 export function useMembershipActions({
   groupId,
   group,
+  queueId,
   user,
   setIsSubmitting,
   setFeedback,
@@ -57,7 +70,7 @@ export function useMembershipActions({
 
   const handleAddParticipant = useCallback(
     async (name: string) => {
-      if (!groupId || !group) return;
+      if (!groupId || !group || !user) return;
 
       const originalGroup = group;
       const optimisticParticipant: TurnParticipant = {
@@ -75,39 +88,72 @@ export function useMembershipActions({
         ...originalGroup,
         participants: newParticipants,
         turnOrder: newTurnOrder,
+        ...(originalGroup.queues && {
+          queues: addParticipantToQueues(originalGroup.queues, optimisticParticipant.id),
+        }),
       });
 
       try {
-        await groupsRepository.addManagedParticipant(groupId, name);
+        await groupsRepository.addManagedParticipant(groupId, name, user);
       } catch (error) {
         logger.error('Failed to add participant:', { error });
         setFeedback({ message: 'Failed to add participant.', severity: 'error' });
         useGroupStore.getState().setGroup(originalGroup);
       }
     },
-    [groupId, group, setFeedback],
+    [groupId, group, user, setFeedback],
   );
 
   const handleRoleChange = useCallback(
     async (participantId: string, newRole: 'admin' | 'member') => {
-      if (!groupId) return;
+      if (!groupId || !user) return;
       try {
-        await groupsRepository.updateParticipantRole(groupId, participantId, newRole);
+        await groupsRepository.updateParticipantRole(groupId, participantId, newRole, user);
       } catch (error) {
         logger.error('Failed to change role:', { error });
         setFeedback({ message: 'Failed to change role.', severity: 'error' });
       }
     },
-    [groupId, setFeedback],
+    [groupId, user, setFeedback],
+  );
+
+  const handleWeightChange = useCallback(
+    async (participantId: string, weight: number) => {
+      if (!groupId || !user) return;
+      try {
+        await groupsRepository.updateParticipantWeight(groupId, participantId, weight, user);
+      } catch (error) {
+        logger.error('Failed to change weight:', { error });
+        setFeedback({ message: 'Failed to change weight.', severity: 'error' });
+      }
+    },
+    [groupId, user, setFeedback],
+  );
+
+  const handleSetAway = useCallback(
+    async (participantId: string, awayUntil: number | null) => {
+      if (!groupId || !user) return;
+      try {
+        await groupsRepository.setParticipantAway(groupId, participantId, awayUntil, user);
+        setFeedback({
+          message: awayUntil ? 'Marked as away.' : 'Welcome back!',
+          severity: 'success',
+        });
+      } catch (error) {
+        logger.error('Failed to update away status:', { error });
+        setFeedback({ message: 'Failed to update away status.', severity: 'error' });
+      }
+    },
+    [groupId, user, setFeedback],
   );
 
   const handleRemoveParticipant = useCallback(
     async (participantId: string) => {
-      if (!groupId) return;
+      if (!groupId || !user) return;
       // --- FIX: Implement loading state for this destructive action ---
       setIsSubmitting(true);
       try {
-        await groupsRepository.removeParticipant(groupId, participantId);
+        await groupsRepository.removeParticipant(groupId, participantId, user);
       } catch (error) {
         logger.error('Failed to remove participant:', { error });
         setFeedback({ message: 'Failed to remove participant.', severity: 'error' });
@@ -115,7 +161,7 @@ export function useMembershipActions({
         setIsSubmitting(false);
       }
     },
-    [groupId, setFeedback, setIsSubmitting],
+    [groupId, user, setFeedback, setIsSubmitting],
   );
 
   const handleLeaveGroup = useCallback(async () => {
@@ -123,7 +169,7 @@ export function useMembershipActions({
 
     setIsSubmitting(true); // Set loading state to true
     try {
-      await groupsRepository.leaveGroup(groupId, user.uid);
+      await groupsRepository.leaveGroup(groupId, user);
       // On success, we navigate away, so we don't need to set submitting to false.
       navigate('/');
     } catch (error) {
@@ -134,40 +180,81 @@ export function useMembershipActions({
   }, [groupId, user, navigate, setFeedback, setIsSubmitting]);
 
   const handleAdminCompleteTurn = useCallback(
-    async (participantId: string) => {
+    async (participantId: string, amount?: number) => {
       if (!groupId || !user || !group) return;
 
       const originalGroup = group;
-      const newTurnOrder = [
-        ...originalGroup.turnOrder.filter((id) => id !== participantId),
+      const completedTurn = computeCompletedTurn(
+        projectQueue(originalGroup, queueId),
         participantId,
-      ];
-      const newParticipants = originalGroup.participants.map((p) =>
-        p.id === participantId ? { ...p, turnCount: p.turnCount + 1 } : p,
+        Date.now(),
+        amount,
       );
 
       useGroupStore.getState().setGroup({
         ...originalGroup,
-        turnOrder: newTurnOrder,
-        participants: newParticipants,
+        ...buildQueueUpdate(
+          originalGroup,
+          queueId,
+          originalGroup.requireConfirmation ? { turnOrder: completedTurn.turnOrder } : completedTurn,
+        ),
       });
 
       try {
-        await groupsRepository.completeTurnTransaction(groupId, user, participantId);
+        await groupsRepository.completeTurnTransaction(
+          groupId,
+          user,
+          participantId,
+          queueId,
+          amount,
+        );
       } catch (error) {
         logger.error('Admin failed to complete turn for participant:', { error });
         setFeedback({ message: 'Failed to complete the turn.', severity: 'error' });
         useGroupStore.getState().setGroup(originalGroup);
       }
     },
-    [groupId, user, group, setFeedback],
+    [groupId, user, group, queueId, setFeedback],
+  );
+
+  const handleApproveJoinRequest = useCallback(
+    async (requesterUid: string) => {
+      if (!groupId || !user) return;
+      setIsSubmitting(true);
+      try {
+        await groupsRepository.approveJoinRequest(groupId, requesterUid, user);
+      } catch (error) {
+        logger.error('Failed to approve join request:', { error });
+        setFeedback({ message: 'Failed to approve the request.', severity: 'error' });
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [groupId, user, setFeedback, setIsSubmitting],
+  );
+
+  const handleRejectJoinRequest = useCallback(
+    async (requesterUid: string) => {
+      if (!groupId) return;
+      try {
+        await groupsRepository.rejectJoinRequest(groupId, requesterUid);
+      } catch (error) {
+        logger.error('Failed to reject join request:', { error });
+        setFeedback({ message: 'Failed to reject the request.', severity: 'error' });
+      }
+    },
+    [groupId, setFeedback],
   );
 
   return {
     handleAddParticipant,
     handleRoleChange,
+    handleWeightChange,
+    handleSetAway,
     handleRemoveParticipant,
     handleLeaveGroup,
     handleAdminCompleteTurn,
+    handleApproveJoinRequest,
+    handleRejectJoinRequest,
   };
 }
\ No newline at end of file
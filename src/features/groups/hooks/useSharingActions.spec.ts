@@ -1,13 +1,14 @@
 /**
  * @file packages/whoseturnnow/src/features/groups/hooks/useSharingActions.spec.ts
- * @stamp {"ts":"2025-10-25T15:05:00Z"}
+ * @stamp {"ts":"2026-10-19T15:40:00Z"}
  * @test-target packages/whoseturnnow/src/features/groups/hooks/useSharingActions.ts
  *
  * @description
  * Verifies the orchestration logic of the `useSharingActions` hook. This suite
  * ensures that all sharing actions correctly construct the appropriate URLs and
  * invoke the browser's Web Share API or clipboard fallback with the correct
- * parameters.
+ * parameters, minting an invitation token with the right use limit for each link,
+ * and that the invite sheet labels the links the repository prepares for it.
  *
  * @criticality
  * Critical (Reason: Core Business Logic Orchestration)
@@ -26,7 +27,21 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 
 // --- Imports ---
 import { useSharingActions } from './useSharingActions';
+import { groupsRepository } from '../repository';
+import { downloadTextFile } from '../../../shared/utils/download';
+import { buildInvitation } from '../utils/invitations';
 import type { Group } from '../../../types/group';
+import type { AppUser } from '../../auth/useAuthStore';
+
+vi.mock('../repository', () => ({
+  groupsRepository: {
+    streamTurnLog: vi.fn(),
+    createInvitation: vi.fn(),
+    regenerateJoinCode: vi.fn(),
+    prepareInviteSheetInvitations: vi.fn(),
+  },
+}));
+vi.mock('../../../shared/utils/download');
 
 // --- Mocks ---
 // Mock the browser's navigator object
@@ -56,6 +71,8 @@ const mockGroup: Group = {
   adminUids: {},
 };
 
+const mockUser: AppUser = { uid: 'owner', displayName: 'Owner', isAnonymous: false };
+
 // Set a base URL for window.location.origin
 const origin = 'https://whoseturnnow.test';
 Object.defineProperty(window, 'location', {
@@ -76,12 +93,16 @@ describe('useSharingActions', () => {
         value: mockNavigatorShare,
         writable: true,
       });
+      vi.mocked(groupsRepository.createInvitation).mockImplementation(async (groupId, creator, options) =>
+        buildInvitation({ id: 'token-1', groupId, createdByUid: creator.uid, ...options }, Date.now()),
+      );
     });
 
   const renderTestHook = () => {
     const props = {
       groupId: mockGroup.gid,
       group: mockGroup,
+      user: mockUser,
       setFeedback: mockSetFeedback,
     };
     return renderHook(() => useSharingActions(props));
@@ -94,14 +115,18 @@ describe('useSharingActions', () => {
 
     // ACT
     await act(async () => {
-      result.current.handleGenericInvite();
+      await result.current.handleGenericInvite();
     });
 
     // ASSERT
     expect(mockNavigatorShare).toHaveBeenCalledWith({
       title: `Join my list: ${mockGroup.name}`,
       text: expect.any(String),
-      url: `${origin}/join/${mockGroup.gid}`,
+      url: `${origin}/join/${mockGroup.gid}?invite=token-1`,
+    });
+    expect(groupsRepository.createInvitation).toHaveBeenCalledWith(mockGroup.gid, mockUser, {
+      participantId: null,
+      maxUses: null,
     });
     expect(mockNavigatorClipboardWriteText).not.toHaveBeenCalled();
   });
@@ -114,11 +139,11 @@ describe('useSharingActions', () => {
 
     // ACT
     await act(async () => {
-      result.current.handleGenericInvite();
+      await result.current.handleGenericInvite();
     });
 
     // ASSERT
-    const expectedUrl = `${origin}/join/${mockGroup.gid}`;
+    const expectedUrl = `${origin}/join/${mockGroup.gid}?invite=token-1`;
     expect(mockNavigatorClipboardWriteText).toHaveBeenCalledWith(expectedUrl);
     expect(mockSetFeedback).toHaveBeenCalledWith({ message: 'Invite link copied!', severity: 'success' });
   });
@@ -131,14 +156,18 @@ describe('useSharingActions', () => {
 
     // ACT
     await act(async () => {
-      result.current.handleTargetedInvite(participantId);
+      await result.current.handleTargetedInvite(participantId);
     });
 
     // ASSERT
     expect(mockNavigatorShare).toHaveBeenCalledWith({
       title: `Claim the 'Placeholder Spot' spot`,
       text: expect.any(String),
-      url: `${origin}/join/${mockGroup.gid}?participantId=${participantId}`,
+      url: `${origin}/join/${mockGroup.gid}?participantId=${participantId}&invite=token-1`,
+    });
+    expect(groupsRepository.createInvitation).toHaveBeenCalledWith(mockGroup.gid, mockUser, {
+      participantId,
+      maxUses: 1,
     });
   });
 
@@ -149,14 +178,130 @@ describe('useSharingActions', () => {
 
     // ACT
     await act(async () => {
-      result.current.handleRecoveryLink();
+      await result.current.handleRecoveryLink();
     });
 
     // ASSERT
     expect(mockNavigatorShare).toHaveBeenCalledWith({
       title: `Access link for: ${mockGroup.name}`,
       text: expect.any(String),
-      url: `${origin}/join/${mockGroup.gid}`,
+      url: `${origin}/join/${mockGroup.gid}?invite=token-1`,
+    });
+    expect(groupsRepository.createInvitation).toHaveBeenCalledWith(mockGroup.gid, mockUser, {
+      participantId: null,
+      maxUses: 1,
+    });
+  });
+
+  it('should report an error and share nothing if the invitation cannot be created', async () => {
+    // ARRANGE
+    vi.mocked(groupsRepository.createInvitation).mockRejectedValue(new Error('denied'));
+    const { result } = renderTestHook();
+
+    // ACT
+    await act(async () => {
+      await result.current.handleGenericInvite();
     });
+
+    // ASSERT
+    expect(mockNavigatorShare).not.toHaveBeenCalled();
+    expect(mockSetFeedback).toHaveBeenCalledWith({ message: 'Could not create the invite link.', severity: 'error' });
   });
-});
\ No newline at end of file
+
+  it('should replace the join code and say the old one no longer works', async () => {
+    // ARRANGE
+    vi.mocked(groupsRepository.regenerateJoinCode).mockResolvedValue({ code: 'NEWCDE', invitationId: 't', expiresAt: 1 });
+    const props = {
+      groupId: mockGroup.gid,
+      group: { ...mockGroup, joinCode: { code: 'OLDCDE', invitationId: 'old', expiresAt: 1 } },
+      user: mockUser,
+      setFeedback: mockSetFeedback,
+    };
+    const { result } = renderHook(() => useSharingActions(props));
+
+    // ACT
+    await act(async () => {
+      await result.current.handleRegenerateJoinCode();
+    });
+
+    // ASSERT
+    expect(groupsRepository.regenerateJoinCode).toHaveBeenCalledWith(mockGroup.gid, mockUser);
+    expect(mockSetFeedback).toHaveBeenCalledWith({
+      message: 'New join code created. The old code no longer works.',
+      severity: 'success',
+    });
+  });
+
+  it('should label the generic invite and a claim link for each placeholder for the invite sheet', async () => {
+    // ARRANGE
+    vi.mocked(groupsRepository.prepareInviteSheetInvitations).mockImplementation(
+      async (groupId, creator, placeholderIds) =>
+        [null, ...placeholderIds].map((participantId) =>
+          buildInvitation(
+            {
+              id: `token-${participantId ?? 'generic'}`,
+              groupId,
+              participantId,
+              createdByUid: creator.uid,
+              maxUses: participantId ? 1 : null,
+            },
+            Date.now(),
+          ),
+        ),
+    );
+    const { result } = renderTestHook();
+
+    // ACT
+    let entries;
+    await act(async () => {
+      entries = await result.current.handlePrepareInviteSheet();
+    });
+
+    // ASSERT
+    expect(entries).toEqual([
+      {
+        participantId: null,
+        label: `Join ${mockGroup.name}`,
+        url: `${origin}/join/${mockGroup.gid}?invite=token-generic`,
+      },
+      {
+        participantId: 'p-placeholder',
+        label: `Claim the 'Placeholder Spot' spot`,
+        url: `${origin}/join/${mockGroup.gid}?participantId=p-placeholder&invite=token-p-placeholder`,
+      },
+    ]);
+    expect(groupsRepository.prepareInviteSheetInvitations).toHaveBeenCalledWith(
+      mockGroup.gid,
+      mockUser,
+      ['p-placeholder'],
+    );
+    expect(mockNavigatorShare).not.toHaveBeenCalled();
+  });
+
+  it('should export every streamed page of the history as CSV', async () => {
+    // ARRANGE
+    const logBase = { actorUid: 'u', actorName: 'Alice', _participantUids: {}, _adminUids: {} };
+    const completedAt = { toDate: () => new Date('2026-01-02T03:04:05Z') };
+    vi.mocked(groupsRepository.streamTurnLog).mockImplementation(async function* () {
+      yield [{ ...logBase, id: 'l2', type: 'COUNTS_RESET', completedAt } as any];
+      yield [{ ...logBase, id: 'l1', type: 'TURN_SKIPPED', completedAt, participantId: 'p', participantName: 'Bob' } as any];
+    });
+    const { result } = renderTestHook();
+
+    // ACT
+    await act(async () => {
+      await result.current.handleExportHistory('csv', (log) => `described ${log.type}`);
+    });
+
+    // ASSERT
+    const [content, fileName, mimeType] = vi.mocked(downloadTextFile).mock.calls[0];
+    expect(content.trim().split('\r\n')).toEqual([
+      'id,timestamp,type,participant,actor,undone,description',
+      'l2,2026-01-02T03:04:05.000Z,COUNTS_RESET,,Alice,false,described COUNTS_RESET',
+      'l1,2026-01-02T03:04:05.000Z,TURN_SKIPPED,Bob,Alice,false,described TURN_SKIPPED',
+    ]);
+    expect(fileName).toMatch(/^sharing-test-group-history-\d{4}-\d{2}-\d{2}\.csv$/);
+    expect(mimeType).toBe('text/csv');
+    expect(mockSetFeedback).toHaveBeenCalledWith({ message: 'Exported 2 history entries.', severity: 'success' });
+  });
+});
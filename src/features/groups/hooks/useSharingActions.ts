@@ -1,45 +1,73 @@
 /**
  * @file packages/whoseturnnow/src/features/groups/hooks/useSharingActions.ts
- * @stamp {"ts":"2025-10-25T15:15:00Z"}
+ * @stamp {"ts":"2026-10-19T15:40:00Z"}
  * @architectural-role Hook
  *
  * @description
  * A specialized action hook that encapsulates all logic related to sharing and
  * invitations. It handles the creation of generic and targeted invitation
  * links, as well as recovery links for anonymous users, abstracting away the
- * browser's Web Share API and clipboard fallback.
+ * browser's Web Share API and clipboard fallback. It also exports the group's
+ * entire turn history as a downloadable CSV or JSON file, and saves a full
+ * backup of the group that can be restored later. Every link carries a freshly
+ * minted invitation token: generic invites can be used until they expire, while
+ * targeted and recovery links work once. Admins can also replace the group's
+ * short join code, and prepare an invite sheet: the generic invite plus a claim
+ * link for every unclaimed placeholder, for showing as QR codes in person. The
+ * sheet reuses its links while they still work.
  *
  * @core-principles
  * 1. OWNS all logic for generating and sharing URLs related to the group.
  * 2. MUST gracefully fall back to clipboard copy if the Web Share API is not available.
  * 3. MUST be stateless, receiving state and setters from its parent orchestrator.
+ * 4. MUST export the full log, streamed page by page, not just the live window.
+ * 5. MUST mint a new invitation token for every link it shares, except the invite sheet's.
  *
  * @api-declaration
  *   - `useSharingActions`: The exported hook function.
  *   - `returns.handleGenericInvite`: Shares a generic link to join the group.
  *   - `returns.handleTargetedInvite`: Shares a link to claim a specific placeholder.
  *   - `returns.handleRecoveryLink`: Shares a link for an anonymous user to recover access.
+ *   - `returns.handleExportHistory`: Downloads the full turn history as CSV or JSON.
+ *   - `returns.handleBackupGroup`: Downloads a versioned backup of the group and its log.
+ *   - `returns.handleRegenerateJoinCode`: Replaces the group's join code, retiring the old one.
+ *   - `returns.handlePrepareInviteSheet`: Gets the generic and placeholder claim links for an invite sheet.
  *
  * @contract
  *   assertions:
- *     purity: mutates # Interacts with browser APIs (clipboard, Web Share).
+ *     purity: mutates # Interacts with browser APIs (clipboard, Web Share, downloads).
  *     state_ownership: none
- *     external_io: none
+ *     external_io: firestore # Mints invitations, and reads the group and its full log when exporting.
  */
 
 import { useCallback } from 'react';
-import type { Group } from '../../../types/group';
+import type { AppUser } from '../../auth/useAuthStore';
+import type { Group, LogEntry } from '../../../types/group';
 import { logger } from '../../../shared/utils/debug';
+import { downloadTextFile } from '../../../shared/utils/download';
+import { groupsRepository } from '../repository';
+import {
+  buildHistoryExportRow,
+  buildExportFileName,
+  serializeHistoryCsv,
+  serializeHistoryJson,
+  type HistoryExportFormat,
+  type HistoryExportRow,
+} from '../utils/export';
+import { buildGroupBackup } from '../utils/backup';
+import { buildInvitationUrl, type InviteSheetEntry } from '../utils/invitations';
 
 interface SharingActionsProps {
   groupId: string | undefined;
   group: Group | null;
+  user: AppUser | null;
   setFeedback: (feedback: { message: string; severity: 'success' | 'error' } | null) => void;
 }
 
 export function useSharingActions({
   groupId,
   group,
+  user,
   setFeedback,
 }: SharingActionsProps) {
   const handleShare = useCallback(
@@ -64,40 +92,161 @@ export function useSharingActions({
     [group?.name, setFeedback],
   );
 
-  const handleGenericInvite = useCallback(() => {
+  // Mints a new invitation and returns its link, or null if that failed.
+  const mintInvitationUrl = useCallback(
+    async (participantId: string | null, maxUses: number | null) => {
+      if (!groupId || !user) return null;
+      try {
+        const invitation = await groupsRepository.createInvitation(groupId, user, {
+          participantId,
+          maxUses,
+        });
+        return buildInvitationUrl(window.location.origin, invitation);
+      } catch (error) {
+        logger.error('Failed to create invitation:', { error });
+        setFeedback({ message: 'Could not create the invite link.', severity: 'error' });
+        return null;
+      }
+    },
+    [groupId, user, setFeedback],
+  );
+
+  const handleGenericInvite = useCallback(async () => {
     if (!groupId || !group) return;
-    const url = `${window.location.origin}/join/${groupId}`;
-    handleShare(url, `Join my list: ${group.name}`, 'Invite link copied!');
-  }, [groupId, group, handleShare]);
+    const url = await mintInvitationUrl(null, null);
+    if (!url) return;
+    await handleShare(url, `Join my list: ${group.name}`, 'Invite link copied!');
+  }, [groupId, group, mintInvitationUrl, handleShare]);
 
   const handleTargetedInvite = useCallback(
-    (participantId: string) => {
+    async (participantId: string) => {
       if (!groupId || !group) return;
       const participant = group.participants.find((p) => p.id === participantId);
       const participantName = participant?.nickname || 'this spot';
-      const url = `${window.location.origin}/join/${groupId}?participantId=${participantId}`;
-      handleShare(
+      const url = await mintInvitationUrl(participantId, 1);
+      if (!url) return;
+      await handleShare(
         url,
         `Claim the '${participantName}' spot`,
         `Claim link for '${participantName}' copied!`,
       );
     },
-    [groupId, group, handleShare],
+    [groupId, group, mintInvitationUrl, handleShare],
   );
 
-  const handleRecoveryLink = useCallback(() => {
+  const handleRecoveryLink = useCallback(async () => {
     if (!groupId || !group) return;
-    const url = `${window.location.origin}/join/${groupId}`;
-    handleShare(
+    const url = await mintInvitationUrl(null, 1);
+    if (!url) return;
+    await handleShare(
       url,
       `Access link for: ${group.name}`,
       'Recovery link copied! Use this on another device.',
     );
-  }, [groupId, group, handleShare]);
+  }, [groupId, group, mintInvitationUrl, handleShare]);
+
+  const handleExportHistory = useCallback(
+    async (format: HistoryExportFormat, describe: (log: LogEntry) => string) => {
+      if (!groupId || !group) return;
+      try {
+        const rows: HistoryExportRow[] = [];
+        for await (const page of groupsRepository.streamTurnLog(groupId)) {
+          rows.push(...page.map((log) => buildHistoryExportRow(log, describe)));
+        }
+        const exportedAt = Date.now();
+        const content =
+          format === 'csv'
+            ? serializeHistoryCsv(rows)
+            : serializeHistoryJson(rows, group.name, exportedAt);
+        downloadTextFile(
+          content,
+          buildExportFileName(group.name, 'history', format, exportedAt),
+          format === 'csv' ? 'text/csv' : 'application/json',
+        );
+        setFeedback({ message: `Exported ${rows.length} history entries.`, severity: 'success' });
+      } catch (error) {
+        logger.error('Failed to export history:', { error });
+        setFeedback({ message: 'Could not export the history.', severity: 'error' });
+      }
+    },
+    [groupId, group, setFeedback],
+  );
+
+  const handleBackupGroup = useCallback(async () => {
+    if (!groupId || !group) return;
+    try {
+      // Reads the stored document rather than the on-screen copy, which may
+      // hold optimistic changes that were never saved.
+      const storedGroup = await groupsRepository.getGroupOnce(groupId);
+      if (!storedGroup) throw new Error(`Group ${groupId} not found.`);
+      const turnLog: (LogEntry & { id: string })[] = [];
+      for await (const page of groupsRepository.streamTurnLog(groupId)) {
+        turnLog.push(...page);
+      }
+      const exportedAt = Date.now();
+      downloadTextFile(
+        JSON.stringify(buildGroupBackup(storedGroup, turnLog, exportedAt), null, 2),
+        buildExportFileName(group.name, 'backup', 'json', exportedAt),
+        'application/json',
+      );
+      setFeedback({ message: 'Backup saved.', severity: 'success' });
+    } catch (error) {
+      logger.error('Failed to back up group:', { error });
+      setFeedback({ message: 'Could not back up the group.', severity: 'error' });
+    }
+  }, [groupId, group, setFeedback]);
+
+  const handleRegenerateJoinCode = useCallback(async () => {
+    if (!groupId || !user) return;
+    const hadCode = !!group?.joinCode;
+    try {
+      await groupsRepository.regenerateJoinCode(groupId, user);
+      setFeedback({
+        message: hadCode ? 'New join code created. The old code no longer works.' : 'Join code created!',
+        severity: 'success',
+      });
+    } catch (error) {
+      logger.error('Failed to create join code:', { error });
+      setFeedback({ message: 'Could not create a join code.', severity: 'error' });
+    }
+  }, [groupId, group?.joinCode, user, setFeedback]);
+
+  // Returns null if any link could not be prepared, so a sheet is never shown
+  // with some of its codes missing. The sheet's links are reused while they
+  // still work, so opening it again does not mint more.
+  const handlePrepareInviteSheet = useCallback(async (): Promise<InviteSheetEntry[] | null> => {
+    if (!groupId || !group || !user) return null;
+    const placeholders = group.participants.filter((p) => p.uid === null);
+    try {
+      const invitations = await groupsRepository.prepareInviteSheetInvitations(
+        groupId,
+        user,
+        placeholders.map((p) => p.id),
+      );
+      return invitations.map((invitation) => {
+        const placeholder = placeholders.find((p) => p.id === invitation.participantId);
+        return {
+          participantId: invitation.participantId,
+          label: placeholder
+            ? `Claim the '${placeholder.nickname || 'Unnamed'}' spot`
+            : `Join ${group.name}`,
+          url: buildInvitationUrl(window.location.origin, invitation),
+        };
+      });
+    } catch (error) {
+      logger.error('Failed to prepare invite sheet:', { error });
+      setFeedback({ message: 'Could not create the invite links.', severity: 'error' });
+      return null;
+    }
+  }, [groupId, group, user, setFeedback]);
 
   return {
     handleGenericInvite,
     handleTargetedInvite,
     handleRecoveryLink,
+    handleExportHistory,
+    handleBackupGroup,
+    handleRegenerateJoinCode,
+    handlePrepareInviteSheet,
   };
 }
\ No newline at end of file
@@ -0,0 +1,111 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/hooks/useTurnHistory.ts
+ * @stamp {"ts":"2026-10-19T13:45:00Z"}
+ * @architectural-role Hook
+ *
+ * @description
+ * Manages browsing a group's full turn history. The newest entries come from
+ * the live log listener owned by the group store; older entries are fetched a
+ * page at a time as the history is scrolled. Filters apply to both sources, and
+ * changing them starts the older pages over.
+ *
+ * @core-principles
+ * 1. OWNS the history filters and the older pages fetched so far.
+ * 2. MUST keep the live entries as the source of truth for the newest window.
+ * 3. MUST discard a page that arrives after the filters or group it was requested for changed.
+ * 4. DELEGATES all I/O to the repository and all matching to the history utils.
+ *
+ * @api-declaration
+ *   - `useTurnHistory`: The exported hook function.
+ *   - `returns.entries`: The matching entries loaded so far, newest first.
+ *   - `returns.filters`: The active filters.
+ *   - `returns.setFilters`: Replaces the filters and starts the older pages over.
+ *   - `returns.hasMore`: Whether older matching entries may remain.
+ *   - `returns.isLoadingMore`: Whether a page is being fetched.
+ *   - `returns.loadMore`: Fetches the next page of older entries.
+ *
+ * @contract
+ *   assertions:
+ *     purity: mutates
+ *     state_ownership: [filters, olderLog, reachedEnd, isLoadingMore]
+ *     external_io: none # Delegates I/O to the repository.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { groupsRepository } from '../repository';
+import { logger } from '../../../shared/utils/debug';
+import type { LogEntry } from '../../../types/group';
+import {
+  EMPTY_TURN_LOG_FILTERS,
+  HISTORY_PAGE_SIZE,
+  LIVE_LOG_LIMIT,
+  matchesTurnLogFilters,
+  mergeTurnLogPages,
+  type TurnLogFilters,
+} from '../utils/history';
+
+type TurnLogEntry = LogEntry & { id: string };
+
+interface TurnHistoryProps {
+  groupId: string | undefined;
+  liveLog: TurnLogEntry[];
+  now: number;
+  setFeedback: (feedback: { message: string; severity: 'success' | 'error' } | null) => void;
+}
+
+export function useTurnHistory({ groupId, liveLog, now, setFeedback }: TurnHistoryProps) {
+  const [filters, setFilters] = useState<TurnLogFilters>(EMPTY_TURN_LOG_FILTERS);
+  const [olderLog, setOlderLog] = useState<TurnLogEntry[]>([]);
+  const [reachedEnd, setReachedEnd] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Bumped whenever the pages start over, so a page in flight can tell it is stale.
+  const generationRef = useRef(0);
+
+  useEffect(() => {
+    generationRef.current += 1;
+    setOlderLog([]);
+    setReachedEnd(false);
+    setIsLoadingMore(false);
+  }, [groupId, filters]);
+
+  const liveMatches = useMemo(
+    () => liveLog.filter((log) => matchesTurnLogFilters(log, filters, now)),
+    [liveLog, filters, now],
+  );
+
+  const entries = useMemo(
+    () => mergeTurnLogPages(liveMatches, olderLog, now),
+    [liveMatches, olderLog, now],
+  );
+
+  // The live window holds every entry when it is not full.
+  const hasMore = !reachedEnd && (olderLog.length > 0 || liveLog.length >= LIVE_LOG_LIMIT);
+
+  const loadMore = useCallback(async () => {
+    if (!groupId || !hasMore || isLoadingMore) return;
+    const generation = generationRef.current;
+    const afterLogId = olderLog[olderLog.length - 1]?.id ?? liveLog[liveLog.length - 1]?.id ?? null;
+    setIsLoadingMore(true);
+
+    try {
+      const page = await groupsRepository.getTurnLogPage(
+        groupId,
+        filters,
+        afterLogId,
+        HISTORY_PAGE_SIZE,
+      );
+      if (generation !== generationRef.current) return;
+      // The live matches are kept too, so entries that later leave the live
+      // window stay in the history.
+      setOlderLog((previous) => [...mergeTurnLogPages(liveMatches, previous, now), ...page]);
+      setReachedEnd(page.length < HISTORY_PAGE_SIZE);
+    } catch (error) {
+      logger.error('Failed to load older history:', { error });
+      setFeedback({ message: 'Could not load older history.', severity: 'error' });
+    } finally {
+      if (generation === generationRef.current) setIsLoadingMore(false);
+    }
+  }, [groupId, hasMore, isLoadingMore, olderLog, liveLog, liveMatches, filters, now, setFeedback]);
+
+  return { entries, filters, setFilters, hasMore, isLoadingMore, loadMore };
+}
@@ -33,12 +33,13 @@ import { useTurnLifecycleActions } from './useTurnLifecycleActions';
 import { groupsRepository } from '../repository';
 import { useGroupStore } from '../useGroupStore';
 import type { AppUser } from '../../auth/useAuthStore';
-import type { Group, TurnCompletedLog, TurnParticipant } from '../../../types/group';
+import type { Group, TurnCompletedLog, TurnParticipant, TurnUndoneLog } from '../../../types/group';
 
 // --- Test Setup ---
 const mockCompleteTurn = vi.mocked(groupsRepository.completeTurnTransaction);
 const mockSkipTurn = vi.mocked(groupsRepository.skipTurnTransaction);
-const mockUndoTurn = vi.mocked(groupsRepository.undoTurnTransaction);
+const mockUndoTurn = vi.mocked(groupsRepository.undoLogTransaction);
+const mockRedo = vi.mocked(groupsRepository.redoLogTransaction);
 const mockSetGroup = vi.fn();
 
 const mockUser: AppUser = { uid: 'user-bob', displayName: 'Bob', isAnonymous: false };
@@ -55,6 +56,9 @@ const mockGroup: Group = {
 const mockUndoableAction: TurnCompletedLog & { id: string } = {
   id: 'log-1', type: 'TURN_COMPLETED', participantId: 'p-alice'
 } as any;
+const mockRedoableAction: TurnUndoneLog & { id: string } = {
+  id: 'log-2', type: 'TURN_UNDONE', originalLogId: 'log-1'
+} as any;
 
 describe('useTurnLifecycleActions', () => {
   let mockSetIsSubmitting: ReturnType<typeof vi.fn>;
@@ -75,11 +79,13 @@ describe('useTurnLifecycleActions', () => {
     const props = {
       groupId: mockGroup.gid,
       group: mockGroup,
+      queueId: 'main',
       user: mockUser,
       currentUserParticipant: mockGroup.participants[1] as TurnParticipant, // Bob's record
       isUserTurn,
       orderedParticipants,
       undoableAction: mockUndoableAction,
+      redoableAction: mockRedoableAction,
       setIsSubmitting: mockSetIsSubmitting,
       setFeedback: mockSetFeedback,
     };
@@ -99,7 +105,7 @@ describe('useTurnLifecycleActions', () => {
 
       // ASSERT
       expect(mockSetGroup).toHaveBeenCalledTimes(1); // Optimistic update
-      expect(mockCompleteTurn).toHaveBeenCalledWith(mockGroup.gid, mockUser, 'p-bob');
+      expect(mockCompleteTurn).toHaveBeenCalledWith(mockGroup.gid, mockUser, 'p-bob', 'main', undefined);
     });
 
     it('should complete turn for the next participant when it IS the user`s turn', async () => {
@@ -114,7 +120,23 @@ describe('useTurnLifecycleActions', () => {
 
       // ASSERT
       expect(mockSetGroup).toHaveBeenCalledTimes(1); // Optimistic update
-      expect(mockCompleteTurn).toHaveBeenCalledWith(mockGroup.gid, mockUser, 'p-bob');
+      expect(mockCompleteTurn).toHaveBeenCalledWith(mockGroup.gid, mockUser, 'p-bob', 'main', undefined);
+    });
+
+    it('should pass the amount spent through and add it optimistically', async () => {
+      // ARRANGE
+      const { result } = renderTestHook(false);
+      mockCompleteTurn.mockResolvedValue(undefined);
+
+      // ACT
+      await act(async () => {
+        result.current.handleTurnAction(12.5);
+      });
+
+      // ASSERT
+      const optimisticGroup = mockSetGroup.mock.calls[0][0];
+      expect(optimisticGroup.participants.find((p: any) => p.id === 'p-bob').totalSpent).toBe(12.5);
+      expect(mockCompleteTurn).toHaveBeenCalledWith(mockGroup.gid, mockUser, 'p-bob', 'main', 12.5);
     });
 
     it('should revert the optimistic update on repository failure', async () => {
@@ -146,14 +168,14 @@ describe('useTurnLifecycleActions', () => {
       });
 
       // ASSERT
-      expect(mockSkipTurn).toHaveBeenCalledWith(mockGroup.gid, mockUser, 'p-bob');
+      expect(mockSkipTurn).toHaveBeenCalledWith(mockGroup.gid, mockUser, 'p-bob', 'main');
       expect(mockSetIsSubmitting).toHaveBeenCalledWith(true);
       expect(mockSetIsSubmitting).toHaveBeenCalledWith(false);
     });
   });
 
   describe('handleConfirmUndo', () => {
-    it('should call undoTurnTransaction and manage submitting state', async () => {
+    it('should call undoLogTransaction and manage submitting state', async () => {
       // ARRANGE
       const { result } = renderTestHook(false);
       mockUndoTurn.mockResolvedValue(undefined);
@@ -167,7 +189,24 @@ describe('useTurnLifecycleActions', () => {
       expect(mockUndoTurn).toHaveBeenCalledWith(mockGroup.gid, mockUser, mockUndoableAction);
       expect(mockSetIsSubmitting).toHaveBeenCalledWith(true);
       expect(mockSetIsSubmitting).toHaveBeenCalledWith(false);
-      expect(mockSetFeedback).toHaveBeenCalledWith({ message: 'Last turn successfully undone.', severity: 'success' });
+      expect(mockSetFeedback).toHaveBeenCalledWith({ message: 'Last action successfully undone.', severity: 'success' });
+    });
+  });
+
+  describe('handleRedo', () => {
+    it('should call redoLogTransaction with the most recent undo and report success', async () => {
+      // ARRANGE
+      const { result } = renderTestHook(false);
+      mockRedo.mockResolvedValue(undefined);
+
+      // ACT
+      await act(async () => {
+        result.current.handleRedo();
+      });
+
+      // ASSERT
+      expect(mockRedo).toHaveBeenCalledWith(mockGroup.gid, mockUser, mockRedoableAction);
+      expect(mockSetFeedback).toHaveBeenCalledWith({ message: 'Action successfully redone.', severity: 'success' });
     });
   });
-});
\ No newline at end of file
+});
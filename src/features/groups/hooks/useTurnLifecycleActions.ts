@@ -4,8 +4,12 @@
  * @architectural-role Hook
  * @description
  * A specialized action hook responsible for the core turn-taking lifecycle.
- * It provides functions for optimistically completing a turn, skipping a turn,
- * and undoing a completed turn.
+ * It provides functions for starting a long turn, optimistically completing a
+ * turn, skipping a turn, undoing the most recent undoable action or redoing the
+ * most recent undo, proposing or answering turn swaps, reviewing turns that
+ * need confirming, and manually reordering the currently selected queue.
+ * Optimistic queue changes are computed through the same rotation utilities
+ * the repository uses. A turn that needs confirming is not counted optimistically.
  * @core-principles
  * 1. OWNS the command logic for the primary user interaction loop.
  * 2. MUST be stateless, receiving state setters from its parent orchestrator.
@@ -15,17 +19,21 @@ import { useCallback } from 'react';
 import { groupsRepository } from '../repository';
 import { useGroupStore } from '../useGroupStore';
 import type { AppUser } from '../../auth/useAuthStore';
-import type { Group, TurnCompletedLog, TurnParticipant } from '../../../types/group';
+import type { Group, LogEntry, TurnParticipant, TurnUndoneLog } from '../../../types/group';
 import { logger } from '../../../shared/utils/debug';
+import { computeCompletedTurn } from '../utils/rotation';
+import { buildQueueUpdate, projectQueue } from '../utils/queues';
 
 interface TurnLifecycleActionsProps {
   groupId: string | undefined;
   group: Group | null;
+  queueId: string;
   user: AppUser | null;
   currentUserParticipant: TurnParticipant | null;
   isUserTurn: boolean;
   orderedParticipants: TurnParticipant[];
-  undoableAction: (TurnCompletedLog & { id: string }) | null;
+  undoableAction: (LogEntry & { id: string }) | null;
+  redoableAction: (TurnUndoneLog & { id: string }) | null;
   setIsSubmitting: (isSubmitting: boolean) => void;
   setFeedback: (feedback: { message: string; severity: 'success' | 'error' } | null) => void;
 }
@@ -33,75 +41,216 @@ interface TurnLifecycleActionsProps {
 export function useTurnLifecycleActions({
   groupId,
   group,
+  queueId,
   user,
   currentUserParticipant,
   isUserTurn,
   orderedParticipants,
   undoableAction,
+  redoableAction,
   setIsSubmitting,
   setFeedback,
 }: TurnLifecycleActionsProps) {
-  const handleTurnAction = useCallback(async () => {
+  const handleTurnAction = useCallback(async (amount?: number) => {
     if (!groupId || !user || !currentUserParticipant || !group) return;
 
     const participantToMoveId = isUserTurn ? orderedParticipants[0].id : currentUserParticipant.id;
     if (!participantToMoveId) return;
 
     const originalGroup = group;
-    const newTurnOrder = [
-      ...originalGroup.turnOrder.filter((id) => id !== participantToMoveId),
+    const completedTurn = computeCompletedTurn(
+      projectQueue(originalGroup, queueId),
       participantToMoveId,
-    ];
-    const newParticipants = originalGroup.participants.map((p) =>
-      p.id === participantToMoveId ? { ...p, turnCount: p.turnCount + 1 } : p,
+      Date.now(),
+      amount,
     );
 
     useGroupStore.getState().setGroup({
       ...originalGroup,
-      turnOrder: newTurnOrder,
-      participants: newParticipants,
+      ...buildQueueUpdate(
+        originalGroup,
+        queueId,
+        originalGroup.requireConfirmation ? { turnOrder: completedTurn.turnOrder } : completedTurn,
+      ),
     });
 
     try {
-      await groupsRepository.completeTurnTransaction(groupId, user, participantToMoveId);
+      await groupsRepository.completeTurnTransaction(
+        groupId,
+        user,
+        participantToMoveId,
+        queueId,
+        amount,
+      );
     } catch (error) {
       logger.error('Failed to complete turn:', { error });
       setFeedback({ message: 'Failed to complete turn.', severity: 'error' });
       useGroupStore.getState().setGroup(originalGroup);
     }
-  }, [groupId, user, currentUserParticipant, group, isUserTurn, orderedParticipants, setFeedback]);
+  }, [groupId, user, currentUserParticipant, group, queueId, isUserTurn, orderedParticipants, setFeedback]);
+
+  const handleStartTurn = useCallback(async () => {
+    if (!groupId || !user || !currentUserParticipant) return;
+    setIsSubmitting(true);
+    try {
+      await groupsRepository.startTurnTransaction(groupId, user, currentUserParticipant.id, queueId);
+    } catch (error) {
+      logger.error('Failed to start turn:', { error });
+      setFeedback({ message: 'Failed to start your turn.', severity: 'error' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [groupId, user, currentUserParticipant, queueId, setIsSubmitting, setFeedback]);
 
   const handleSkipTurn = useCallback(async () => {
     if (!groupId || !user || orderedParticipants.length === 0) return;
     const participantToSkipId = orderedParticipants[0].id;
     setIsSubmitting(true);
     try {
-      await groupsRepository.skipTurnTransaction(groupId, user, participantToSkipId);
+      await groupsRepository.skipTurnTransaction(groupId, user, participantToSkipId, queueId);
     } catch (error) {
       logger.error('User failed to skip turn:', { error });
       setFeedback({ message: 'Failed to skip the turn.', severity: 'error' });
     } finally {
       setIsSubmitting(false);
     }
-  }, [groupId, user, orderedParticipants, setIsSubmitting, setFeedback]);
+  }, [groupId, user, queueId, orderedParticipants, setIsSubmitting, setFeedback]);
 
   const handleConfirmUndo = useCallback(async () => {
     if (!groupId || !user || !undoableAction) return;
     setIsSubmitting(true);
     try {
-      await groupsRepository.undoTurnTransaction(groupId, user, undoableAction);
-      setFeedback({ message: 'Last turn successfully undone.', severity: 'success' });
+      await groupsRepository.undoLogTransaction(groupId, user, undoableAction);
+      setFeedback({ message: 'Last action successfully undone.', severity: 'success' });
     } catch (error) {
-      logger.error('Failed to undo turn:', { error });
-      setFeedback({ message: 'Failed to undo turn.', severity: 'error' });
+      logger.error('Failed to undo action:', { error });
+      setFeedback({ message: 'Failed to undo the last action.', severity: 'error' });
     } finally {
       setIsSubmitting(false);
     }
   }, [groupId, user, undoableAction, setIsSubmitting, setFeedback]);
 
+  const handleRedo = useCallback(async () => {
+    if (!groupId || !user || !redoableAction) return;
+    setIsSubmitting(true);
+    try {
+      await groupsRepository.redoLogTransaction(groupId, user, redoableAction);
+      setFeedback({ message: 'Action successfully redone.', severity: 'success' });
+    } catch (error) {
+      logger.error('Failed to redo action:', { error });
+      setFeedback({ message: 'Failed to redo the action.', severity: 'error' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [groupId, user, redoableAction, setIsSubmitting, setFeedback]);
+
+  const handleReviewTurn = useCallback(
+    async (logId: string, decision: 'confirm' | 'dispute' | 'reject') => {
+      if (!groupId || !user) return;
+      setIsSubmitting(true);
+      try {
+        if (decision === 'confirm') {
+          await groupsRepository.confirmTurnTransaction(groupId, user, logId);
+          setFeedback({ message: 'Turn confirmed.', severity: 'success' });
+        } else if (decision === 'dispute') {
+          await groupsRepository.disputeTurnTransaction(groupId, user, logId);
+          setFeedback({ message: 'Turn sent to the admins for review.', severity: 'success' });
+        } else {
+          await groupsRepository.rejectTurnTransaction(groupId, user, logId);
+          setFeedback({ message: 'Turn rejected.', severity: 'success' });
+        }
+      } catch (error) {
+        logger.error('Failed to review turn:', { error });
+        setFeedback({ message: 'Failed to review the turn.', severity: 'error' });
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [groupId, user, setIsSubmitting, setFeedback],
+  );
+
+  const handleRequestSwap = useCallback(
+    async (toParticipantId: string) => {
+      if (!groupId || !user || !currentUserParticipant) return;
+      try {
+        await groupsRepository.requestSwap(
+          groupId,
+          user,
+          currentUserParticipant.id,
+          toParticipantId,
+          queueId,
+        );
+        setFeedback({ message: 'Swap requested.', severity: 'success' });
+      } catch (error) {
+        logger.error('Failed to request swap:', { error });
+        setFeedback({ message: 'Failed to request swap.', severity: 'error' });
+      }
+    },
+    [groupId, user, currentUserParticipant, queueId, setFeedback],
+  );
+
+  const handleAcceptSwap = useCallback(
+    async (requestId: string) => {
+      if (!groupId || !user) return;
+      setIsSubmitting(true);
+      try {
+        await groupsRepository.acceptSwapRequest(groupId, user, requestId);
+        setFeedback({ message: 'Swap accepted.', severity: 'success' });
+      } catch (error) {
+        logger.error('Failed to accept swap:', { error });
+        setFeedback({ message: 'Failed to accept swap.', severity: 'error' });
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [groupId, user, setIsSubmitting, setFeedback],
+  );
+
+  const handleDeclineSwap = useCallback(
+    async (requestId: string) => {
+      if (!groupId || !user) return;
+      try {
+        await groupsRepository.declineSwapRequest(groupId, user, requestId);
+      } catch (error) {
+        logger.error('Failed to decline swap:', { error });
+        setFeedback({ message: 'Failed to decline swap.', severity: 'error' });
+      }
+    },
+    [groupId, user, setFeedback],
+  );
+
+  const handleReorderQueue = useCallback(
+    async (newOrder: string[]) => {
+      if (!groupId || !user || !group) return;
+
+      const originalGroup = group;
+      useGroupStore.getState().setGroup({
+        ...originalGroup,
+        ...buildQueueUpdate(originalGroup, queueId, { turnOrder: newOrder }),
+      });
+
+      try {
+        await groupsRepository.reorderQueue(groupId, user, newOrder, queueId);
+        setFeedback({ message: 'Queue reordered.', severity: 'success' });
+      } catch (error) {
+        logger.error('Failed to reorder queue:', { error });
+        setFeedback({ message: 'Failed to reorder queue.', severity: 'error' });
+        useGroupStore.getState().setGroup(originalGroup);
+      }
+    },
+    [groupId, user, group, queueId, setFeedback],
+  );
+
   return {
+    handleStartTurn,
     handleTurnAction,
     handleSkipTurn,
     handleConfirmUndo,
+    handleRedo,
+    handleReviewTurn,
+    handleRequestSwap,
+    handleAcceptSwap,
+    handleDeclineSwap,
+    handleReorderQueue,
   };
 }
\ No newline at end of file
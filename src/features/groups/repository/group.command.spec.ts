@@ -1,6 +1,6 @@
 /**
  * @file packages/whoseturnnow/src/features/groups/repository/group.command.spec.ts
- * @stamp {"ts":"2025-10-25T13:00:00Z"}
+ * @stamp {"ts":"2026-10-19T14:35:00Z"}
  * @test-target packages/whoseturnnow/src/features/groups/repository/group.command.ts
  *
  * @description
@@ -24,19 +24,33 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import {
   doc,
   collection,
+  getDoc,
+  getDocs,
+  getCountFromServer,
   setDoc,
   updateDoc,
   deleteDoc,
   runTransaction,
   serverTimestamp,
+  writeBatch,
+  Timestamp,
 } from 'firebase/firestore';
 import { v4 as uuidv4 } from 'uuid';
 import {
   createGroup,
+  duplicateGroup,
   updateGroupSettings,
+  updateRotationStrategy,
+  updateGroupSchedule,
+  addQueue,
+  removeQueue,
   resetAllTurnCounts,
+  archiveGroup,
+  unarchiveGroup,
   deleteGroup,
+  restoreGroupBackup,
 } from './group.command';
+import { buildGroupBackup } from '../utils/backup';
 import type { AppUser } from '../../auth/useAuthStore';
 import type { Group } from '../../../types/group';
 
@@ -102,16 +116,163 @@ describe('group.command', () => {
       expect(newGroupPayload.participants[0].uid).toBe(mockCreator.uid);
       expect(newGroupPayload.participants[0].role).toBe('admin');
       expect(newGroupPayload.adminUids).toEqual({ [mockCreator.uid]: true });
+      expect(newGroupPayload.rotationStrategy).toBe('round-robin');
+    });
+
+    it('should start the group with the placeholders, queues and settings of a template', async () => {
+      await createGroup({
+        name: 'Flat',
+        icon: '🧹',
+        creator: mockCreator,
+        template: {
+          id: 'tpl-1',
+          name: 'Chores',
+          icon: '🧹',
+          rotationStrategy: 'round-robin',
+          schedule: { frequency: 'daily', dueHour: 9 },
+          placeholders: ['Housemate 2'],
+          queueNames: ['Bins'],
+          wording: { turn: 'Chores' },
+        },
+      });
+
+      const newGroupPayload = mockSetDoc.mock.calls[0][1] as Group;
+      expect(newGroupPayload.participants.map((p) => [p.uid, p.role, p.nickname])).toEqual([
+        [mockCreator.uid, 'admin', 'Creator'],
+        [null, 'member', 'Housemate 2'],
+      ]);
+      expect(newGroupPayload.adminUids).toEqual({ [mockCreator.uid]: true });
+      expect(newGroupPayload.queues?.map((q) => q.name)).toEqual(['Bins']);
+      expect(newGroupPayload.wording).toEqual({ turn: 'Chores' });
+      expect(newGroupPayload.nextDueAt).toEqual(expect.any(Number));
+    });
+  });
+
+  describe('duplicateGroup', () => {
+    const admin: AppUser = { uid: 'u1', displayName: 'P1', isAnonymous: false };
+
+    it('should create a copy that keeps the members and roles of the source', async () => {
+      // ARRANGE
+      vi.mocked(getDoc).mockResolvedValue({ exists: () => true, data: () => mockBaseGroup } as any);
+
+      // ACT
+      const gid = await duplicateGroup('group-1', { name: 'Copy', creator: admin, keepProgress: false });
+
+      // ASSERT
+      const newGroupPayload = mockSetDoc.mock.calls[0][1] as Group;
+      expect(gid).toBe('mock-new-gid');
+      expect(newGroupPayload).toMatchObject({
+        gid: 'mock-new-gid',
+        name: 'Copy',
+        ownerUid: 'u1',
+        participantUids: mockBaseGroup.participantUids,
+        adminUids: mockBaseGroup.adminUids,
+        duplicatedFromGid: 'group-1',
+      });
+      expect(newGroupPayload.participants.map((p) => p.turnCount)).toEqual([0, 0]);
+    });
+
+    it('should refuse a user who is not an admin of the source', async () => {
+      // ARRANGE
+      vi.mocked(getDoc).mockResolvedValue({ exists: () => true, data: () => mockBaseGroup } as any);
+      const member: AppUser = { uid: 'u2', displayName: 'P2', isAnonymous: false };
+
+      // ACT & ASSERT
+      await expect(
+        duplicateGroup('group-1', { name: 'Copy', creator: member, keepProgress: true }),
+      ).rejects.toThrow('Only an admin can duplicate this group.');
+      expect(mockSetDoc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateRotationStrategy', () => {
+    it('should call updateDoc with the new strategy', async () => {
+      await updateRotationStrategy('group-1', 'fewest-turns');
+
+      expect(mockUpdateDoc).toHaveBeenCalledWith(expect.anything(), {
+        rotationStrategy: 'fewest-turns',
+      });
     });
   });
 
   describe('updateGroupSettings', () => {
-    it('should call updateDoc with the specified settings', async () => {
+    it('should update the settings and log the rename and the icon change', async () => {
       const newSettings = { name: 'Updated Name', icon: '🚀' };
-      await updateGroupSettings('group-1', newSettings);
+      await updateGroupSettings('group-1', newSettings, mockCreator);
 
-      expect(mockUpdateDoc).toHaveBeenCalledTimes(1);
-      expect(mockUpdateDoc).toHaveBeenCalledWith(expect.anything(), newSettings);
+      expect(mockTransaction.update).toHaveBeenCalledWith(expect.anything(), newSettings);
+      expect(mockTransaction.set).toHaveBeenCalledTimes(2);
+      expect(mockTransaction.set.mock.calls[0][1]).toMatchObject({
+        type: 'GROUP_RENAMED',
+        previousName: mockBaseGroup.name,
+        newName: 'Updated Name',
+        actorUid: mockCreator.uid,
+      });
+      expect(mockTransaction.set.mock.calls[1][1]).toMatchObject({
+        type: 'ICON_CHANGED',
+        previousIcon: mockBaseGroup.icon,
+        newIcon: '🚀',
+      });
+    });
+
+    it('should only log the setting that actually changed', async () => {
+      await updateGroupSettings('group-1', { name: 'Updated Name', icon: mockBaseGroup.icon }, mockCreator);
+
+      expect(mockTransaction.set).toHaveBeenCalledTimes(1);
+      expect(mockTransaction.set.mock.calls[0][1].type).toBe('GROUP_RENAMED');
+    });
+  });
+
+  describe('updateGroupSchedule', () => {
+    it('should store the schedule together with its first deadline', async () => {
+      await updateGroupSchedule('group-1', { frequency: 'daily', dueHour: 18 });
+
+      const payload = mockUpdateDoc.mock.calls[0][1] as any;
+      expect(payload.schedule).toEqual({ frequency: 'daily', dueHour: 18 });
+      expect(typeof payload.nextDueAt).toBe('number');
+    });
+
+    it('should clear the deadline when the schedule is removed', async () => {
+      await updateGroupSchedule('group-1', null);
+
+      expect(mockUpdateDoc).toHaveBeenCalledWith(expect.anything(), {
+        schedule: null,
+        nextDueAt: null,
+      });
+    });
+  });
+
+  describe('addQueue', () => {
+    it('should append a queue containing every participant with zero turns', async () => {
+      mockUuidv4.mockReturnValue('q-new');
+
+      const queueId = await addQueue('group-1', 'Trash');
+
+      expect(queueId).toBe('q-new');
+      const payload = mockTransaction.update.mock.calls[0][1];
+      expect(payload.queues).toEqual([
+        { id: 'q-new', name: 'Trash', turnOrder: ['p1', 'p2'], turnCounts: { p1: 0, p2: 0 } },
+      ]);
+    });
+  });
+
+  describe('removeQueue', () => {
+    it('should drop only the targeted queue', async () => {
+      mockTransaction.get.mockResolvedValue({
+        exists: () => true,
+        data: () => ({
+          ...mockBaseGroup,
+          queues: [
+            { id: 'q1', name: 'Trash', turnOrder: [], turnCounts: {} },
+            { id: 'q2', name: 'Laundry', turnOrder: [], turnCounts: {} },
+          ],
+        }),
+      });
+
+      await removeQueue('group-1', 'q1');
+
+      const payload = mockTransaction.update.mock.calls[0][1];
+      expect(payload.queues.map((q: any) => q.id)).toEqual(['q2']);
     });
   });
 
@@ -128,15 +289,154 @@ describe('group.command', () => {
       const logPayload = mockTransaction.set.mock.calls[0][1];
       expect(logPayload.type).toBe('COUNTS_RESET');
       expect(logPayload.actorUid).toBe(mockCreator.uid);
+      expect(Object.keys(logPayload.undoState.queues)).toContain('main');
+    });
+  });
+
+  describe('archiveGroup', () => {
+    it('should stamp the archive time and the purge time the retention allows', async () => {
+      vi.spyOn(Date, 'now').mockReturnValue(1_000);
+
+      await archiveGroup('group-1', 30);
+
+      expect(mockUpdateDoc).toHaveBeenCalledWith(expect.anything(), {
+        archivedAt: 1_000,
+        purgeAt: 1_000 + 30 * 24 * 60 * 60 * 1000,
+      });
+      vi.mocked(Date.now).mockRestore();
+    });
+
+    it('should clear both times when the group is restored', async () => {
+      await unarchiveGroup('group-1');
+
+      expect(mockUpdateDoc).toHaveBeenCalledWith(expect.anything(), { archivedAt: null, purgeAt: null });
     });
   });
 
   describe('deleteGroup', () => {
+    const mockBatch = { delete: vi.fn(), commit: vi.fn() };
+    const logPage = (ids: string[]) =>
+      ({ empty: ids.length === 0, size: ids.length, docs: ids.map((id) => ({ ref: { id } })) }) as any;
+
+    beforeEach(() => {
+      vi.mocked(writeBatch).mockReturnValue(mockBatch as any);
+      vi.mocked(getCountFromServer).mockResolvedValue({ data: () => ({ count: 0 }) } as any);
+      vi.mocked(getDocs).mockResolvedValue(logPage([]));
+      vi.mocked(getDoc).mockResolvedValue({ exists: () => true, data: () => mockBaseGroup } as any);
+    });
+
     it('should call deleteDoc on the correct document reference', async () => {
       await deleteGroup('group-1');
       
       expect(mockDoc).toHaveBeenCalledWith(expect.anything(), 'groups', 'group-1');
       expect(mockDeleteDoc).toHaveBeenCalledTimes(1);
     });
+
+    it('should mark the group, delete its log in batches with progress, then delete the group', async () => {
+      // ARRANGE
+      vi.mocked(getCountFromServer).mockResolvedValue({ data: () => ({ count: 3 }) } as any);
+      vi.mocked(getDocs)
+        .mockResolvedValueOnce(logPage(['log-1', 'log-2']))
+        .mockResolvedValueOnce(logPage(['log-3']))
+        .mockResolvedValueOnce(logPage([]));
+      const onProgress = vi.fn();
+
+      // ACT
+      await deleteGroup('group-1', onProgress);
+
+      // ASSERT
+      expect(mockUpdateDoc).toHaveBeenCalledWith(expect.anything(), { deletingAt: expect.any(Number) });
+      expect(mockBatch.delete).toHaveBeenCalledTimes(3);
+      expect(mockBatch.commit).toHaveBeenCalledTimes(2);
+      expect(onProgress.mock.calls).toEqual([[0, 3], [2, 3], [3, 3]]);
+      expect(mockUpdateDoc.mock.invocationCallOrder[0]).toBeLessThan(mockBatch.delete.mock.invocationCallOrder[0]);
+      expect(mockDeleteDoc.mock.invocationCallOrder[0]).toBeGreaterThan(mockBatch.commit.mock.invocationCallOrder[1]);
+    });
+
+    it('should delete the invitations and join requests after the log and before the group', async () => {
+      // ARRANGE
+      vi.mocked(getDocs)
+        .mockResolvedValueOnce(logPage([]))
+        .mockResolvedValueOnce(logPage(['invite-1', 'invite-2']))
+        .mockResolvedValueOnce(logPage([]))
+        .mockResolvedValueOnce(logPage(['user-waiting']));
+
+      // ACT
+      await deleteGroup('group-1');
+
+      // ASSERT
+      expect(mockCollection).toHaveBeenCalledWith(expect.anything(), 'groups', 'group-1', 'invitations');
+      expect(mockCollection).toHaveBeenCalledWith(expect.anything(), 'groups', 'group-1', 'joinRequests');
+      expect(mockBatch.delete).toHaveBeenCalledTimes(3);
+      expect(mockDeleteDoc.mock.invocationCallOrder[0]).toBeGreaterThan(mockBatch.commit.mock.invocationCallOrder[0]);
+    });
+
+    it('should delete the group\'s join code before the group', async () => {
+      // ARRANGE
+      vi.mocked(getDoc).mockResolvedValue({
+        exists: () => true,
+        data: () => ({ ...mockBaseGroup, joinCode: { code: 'ABCDEF', invitationId: 'invite-1', expiresAt: 1 } }),
+      } as any);
+
+      // ACT
+      await deleteGroup('group-1');
+
+      // ASSERT
+      expect(mockDoc).toHaveBeenCalledWith(expect.anything(), 'joinCodes', 'ABCDEF');
+      expect(mockDeleteDoc).toHaveBeenCalledTimes(2);
+    });
+
+    it('should leave the group in place when a batch fails, so deletion can be resumed', async () => {
+      // ARRANGE
+      vi.mocked(getDocs).mockResolvedValueOnce(logPage(['log-1']));
+      mockBatch.commit.mockRejectedValueOnce(new Error('offline'));
+
+      // ACT & ASSERT
+      await expect(deleteGroup('group-1')).rejects.toThrow('offline');
+      expect(mockDeleteDoc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restoreGroupBackup', () => {
+    it('should write the group before its log, keeping log IDs and times', async () => {
+      // ARRANGE
+      const mockBatch = { set: vi.fn(), commit: vi.fn().mockResolvedValue(undefined) };
+      vi.mocked(writeBatch).mockReturnValue(mockBatch as any);
+      vi.mocked(Timestamp.fromMillis).mockImplementation((ms) => ({ ms }) as any);
+      mockUuidv4.mockReturnValueOnce('new-gid' as any).mockReturnValueOnce('new-slot' as any);
+      const backup = buildGroupBackup(
+        mockBaseGroup,
+        [
+          {
+            id: 'log-1',
+            type: 'COUNTS_RESET',
+            completedAt: { toDate: () => new Date(1000) } as any,
+            actorUid: 'u1',
+            actorName: 'P1',
+            _participantUids: { u1: true, u2: true },
+            _adminUids: { u1: true },
+          },
+        ],
+        2000,
+      );
+
+      // ACT
+      const gid = await restoreGroupBackup(backup, mockCreator);
+
+      // ASSERT
+      expect(gid).toBe('new-gid');
+      const restored = mockSetDoc.mock.calls[0][1] as Group;
+      expect(restored.ownerUid).toBe(mockCreator.uid);
+      expect(restored.participants.map((p) => p.id)).toEqual(['new-slot', 'p1', 'p2']);
+      expect(mockDoc).toHaveBeenCalledWith(expect.anything(), 'log-1');
+      expect(mockBatch.set).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+        type: 'COUNTS_RESET',
+        completedAt: { ms: 1000 },
+        _participantUids: { [mockCreator.uid]: true },
+      }));
+      expect(mockSetDoc.mock.invocationCallOrder[0]).toBeLessThan(
+        mockBatch.commit.mock.invocationCallOrder[0],
+      );
+    });
   });
-});
\ No newline at end of file
+});
@@ -1,6 +1,6 @@
 /**
  * @file packages/whoseturnnow/src/features/groups/repository/group.command.ts
- * @stamp {"ts":"2025-10-23T09:50:00Z"}
+ * @stamp {"ts":"2026-10-19T14:35:00Z"}
  * @architectural-role Data Repository (Command)
  * @description
  * Encapsulates all write-only and transactional Firestore interactions for
@@ -13,9 +13,19 @@
  *    log entries simultaneously (e.g., resetting counts).
  * @api-declaration
  *   - createGroup: Creates a new Group document.
- *   - updateGroupSettings: Updates a group's name and icon.
+ *   - duplicateGroup: Creates a new group with the roster and settings of an existing one.
+ *   - updateGroupSettings: Updates a group's name and icon, logging each change.
+ *   - updateRotationStrategy: Changes the rule used to re-order the queue.
+ *   - updateGroupSchedule: Sets or clears the group's recurring schedule.
+ *   - updateRequireConfirmation: Turns peer confirmation of completed turns on or off.
+ *   - updateRequireApproval: Turns admin approval of new members on or off.
+ *   - addQueue: Adds a new named queue that shares the group's roster.
+ *   - removeQueue: Removes one of the group's additional queues.
  *   - resetAllTurnCounts: Atomically resets all turn counts and creates a log entry.
- *   - deleteGroup: Deletes an entire group document.
+ *   - archiveGroup: Hides a group until it is restored or its retention runs out.
+ *   - unarchiveGroup: Restores an archived group.
+ *   - deleteGroup: Deletes a group, its turn log, invitations, join requests and join code, resuming any earlier attempt.
+ *   - restoreGroupBackup: Recreates a backed-up group and its log under a new ID.
  * @contract
  *   assertions:
  *     purity: mutates
@@ -26,11 +36,18 @@
 import {
     collection,
     doc,
+    getDoc,
+    getDocs,
+    getCountFromServer,
+    query,
+    limit,
     setDoc,
     updateDoc,
     runTransaction,
     serverTimestamp,
     deleteDoc,
+    writeBatch,
+    Timestamp,
   } from 'firebase/firestore';
   import { v4 as uuidv4 } from 'uuid';
   import { db } from '../../../lib/firebase';
@@ -39,20 +56,41 @@ import {
     Group,
     TurnParticipant,
     CountsResetLog,
+    GroupRenamedLog,
+    IconChangedLog,
+    RotationStrategy,
+    GroupSchedule,
+    GroupTemplate,
+    TurnQueue,
   } from '../../../types/group';
   import { _deriveUids } from './_utils';
+  import { computeNextDueAt } from '../utils/schedule';
+  import { listQueues } from '../utils/queues';
+  import { captureUndoState } from '../utils/undo';
+  import { buildRestoredGroup, type GroupBackup } from '../utils/backup';
+  import { applyGroupTemplate } from '../utils/templates';
+  import { buildDuplicatedGroup } from '../utils/duplicate';
+  import { computePurgeAt } from '../utils/archive';
+
+  // Firestore allows at most 500 writes in one batch.
+  const LOG_WRITE_BATCH_SIZE = 500;
+  const LOG_DELETE_BATCH_SIZE = LOG_WRITE_BATCH_SIZE;
   
   /**
    * Creates a new, valid Group document in Firestore.
-   * @param options An object containing the name, icon, and creator's user object.
+   * @param options An object containing the name, icon, creator's user object,
+   *                an optional rotation strategy and an optional template whose
+   *                placeholders, queues and settings the group starts with.
    * @returns The unique ID of the newly created group.
    */
   export async function createGroup(options: {
     name: string;
     icon: string;
     creator: AppUser;
+    rotationStrategy?: RotationStrategy;
+    template?: GroupTemplate;
   }): Promise<string> {
-    const { name, icon, creator } = options;
+    const { name, icon, creator, rotationStrategy = 'round-robin', template } = options;
     const gid = uuidv4();
     const participantId = uuidv4();
   
@@ -64,18 +102,21 @@ import {
       nickname: creator.displayName ?? 'default',
     };
   
-    const participants = [creatorParticipant];
-    const { participantUids, adminUids } = _deriveUids(participants);
+    const { schedule, ...fromTemplate } = template
+      ? applyGroupTemplate(template, creatorParticipant, uuidv4)
+      : { participants: [creatorParticipant], turnOrder: [participantId], schedule: null };
+    const { participantUids, adminUids } = _deriveUids(fromTemplate.participants);
   
     const newGroup: Group = {
       gid,
       name,
       icon,
       ownerUid: creator.uid,
-      participants,
-      turnOrder: [participantId],
       participantUids,
       adminUids,
+      ...fromTemplate,
+      rotationStrategy,
+      ...(schedule && { schedule, nextDueAt: computeNextDueAt(schedule, Date.now()) }),
     };
   
     const groupDocRef = doc(db, 'groups', gid);
@@ -84,20 +125,200 @@ import {
   }
   
   /**
-   * Updates a group's settings (name and icon).
+   * Creates a new group with the roster, roles, settings and queues of an
+   * existing one. Only an admin of the source group may duplicate it.
+   * @param sourceGroupId The ID of the group to duplicate.
+   * @param options The new group's name, the duplicating user, and whether to
+   *                keep the turn order and counts rather than reset them.
+   * @returns The unique ID of the new group.
+   */
+  export async function duplicateGroup(
+    sourceGroupId: string,
+    options: { name: string; creator: AppUser; keepProgress: boolean },
+  ): Promise<string> {
+    const sourceDoc = await getDoc(doc(db, 'groups', sourceGroupId));
+    if (!sourceDoc.exists()) throw new Error('Group not found.');
+    const source = sourceDoc.data() as Group;
+    if (!source.adminUids[options.creator.uid]) {
+      throw new Error('Only an admin can duplicate this group.');
+    }
+
+    const gid = uuidv4();
+    const newGroup = buildDuplicatedGroup(source, {
+      gid,
+      name: options.name,
+      creatorUid: options.creator.uid,
+      keepProgress: options.keepProgress,
+    });
+    if (newGroup.schedule) {
+      newGroup.nextDueAt = computeNextDueAt(newGroup.schedule, Date.now());
+    }
+
+    await setDoc(doc(db, 'groups', gid), newGroup);
+    return gid;
+  }
+
+  /**
+   * Updates a group's settings (name and icon). A rename and an icon change are
+   * logged as separate entries, in the same transaction as the update.
    * @param groupId The ID of the group to update.
    * @param settings An object containing the new name and/or icon.
+   * @param actor The admin changing the settings.
    */
   export async function updateGroupSettings(
     groupId: string,
     settings: { name: string; icon: string },
+    actor: AppUser,
+  ): Promise<void> {
+    const groupDocRef = doc(db, 'groups', groupId);
+    await runTransaction(db, async (transaction) => {
+      const groupDoc = await transaction.get(groupDocRef);
+      if (!groupDoc.exists()) throw new Error('Group not found.');
+
+      const group = groupDoc.data() as Group;
+      const audit = {
+        completedAt: serverTimestamp(),
+        actorUid: actor.uid,
+        actorName: actor.displayName || 'Unknown Actor',
+        _participantUids: group.participantUids,
+        _adminUids: group.adminUids,
+      };
+
+      transaction.update(groupDocRef, settings);
+
+      if (settings.name !== group.name) {
+        const renamedLog: GroupRenamedLog = {
+          ...audit,
+          type: 'GROUP_RENAMED',
+          previousName: group.name,
+          newName: settings.name,
+        };
+        transaction.set(doc(collection(db, 'groups', groupId, 'turnLog')), renamedLog);
+      }
+      if (settings.icon !== group.icon) {
+        const iconLog: IconChangedLog = {
+          ...audit,
+          type: 'ICON_CHANGED',
+          previousIcon: group.icon,
+          newIcon: settings.icon,
+        };
+        transaction.set(doc(collection(db, 'groups', groupId, 'turnLog')), iconLog);
+      }
+    });
+  }
+  
+  /**
+   * Changes the rotation strategy used to re-order the group's queue.
+   * @param groupId The ID of the group to update.
+   * @param rotationStrategy The new strategy to apply to future turns.
+   */
+  export async function updateRotationStrategy(
+    groupId: string,
+    rotationStrategy: RotationStrategy,
+  ): Promise<void> {
+    const groupDocRef = doc(db, 'groups', groupId);
+    await updateDoc(groupDocRef, { rotationStrategy });
+  }
+
+  /**
+   * Turns peer confirmation of completed turns on or off. Turns completed while
+   * it is on stay uncounted until another participant confirms them.
+   * @param groupId The ID of the group to update.
+   * @param requireConfirmation Whether completed turns need confirming.
+   */
+  export async function updateRequireConfirmation(
+    groupId: string,
+    requireConfirmation: boolean,
+  ): Promise<void> {
+    const groupDocRef = doc(db, 'groups', groupId);
+    await updateDoc(groupDocRef, { requireConfirmation });
+  }
+
+  /**
+   * Turns admin approval of new members on or off. While it is on, following a
+   * generic invite link files a join request instead of joining.
+   * @param groupId The ID of the group to update.
+   * @param requireApproval Whether new members need approving.
+   */
+  export async function updateRequireApproval(
+    groupId: string,
+    requireApproval: boolean,
+  ): Promise<void> {
+    const groupDocRef = doc(db, 'groups', groupId);
+    await updateDoc(groupDocRef, { requireApproval });
+  }
+  
+  /**
+   * Sets or clears a group's recurring schedule. Setting a schedule also
+   * computes the first deadline from the current time.
+   * @param groupId The ID of the group to update.
+   * @param schedule The new schedule, or `null` to remove deadlines entirely.
+   */
+  export async function updateGroupSchedule(
+    groupId: string,
+    schedule: GroupSchedule | null,
   ): Promise<void> {
     const groupDocRef = doc(db, 'groups', groupId);
-    await updateDoc(groupDocRef, settings);
+    await updateDoc(groupDocRef, {
+      schedule,
+      nextDueAt: schedule ? computeNextDueAt(schedule, Date.now()) : null,
+    });
   }
   
   /**
-   * Atomically resets all participant turn counts to 0 and creates a log entry.
+   * Adds a new, named queue to a group. The queue starts with every current
+   * participant, in the main queue's order, and with zero turns each.
+   * @param groupId The ID of the group to modify.
+   * @param name The display name of the new queue.
+   * @returns The ID of the new queue.
+   */
+  export async function addQueue(groupId: string, name: string): Promise<string> {
+    const groupDocRef = doc(db, 'groups', groupId);
+    const queueId = uuidv4();
+
+    await runTransaction(db, async (transaction) => {
+      const groupDoc = await transaction.get(groupDocRef);
+      if (!groupDoc.exists()) throw new Error('Group not found.');
+
+      const group = groupDoc.data() as Group;
+      const newQueue: TurnQueue = {
+        id: queueId,
+        name,
+        turnOrder: [...group.turnOrder],
+        turnCounts: Object.fromEntries(group.participants.map((p) => [p.id, 0])),
+      };
+
+      transaction.update(groupDocRef, { queues: [...(group.queues ?? []), newQueue] });
+    });
+
+    return queueId;
+  }
+
+  /**
+   * Removes one of a group's additional queues. The main queue cannot be removed.
+   * @param groupId The ID of the group to modify.
+   * @param queueId The ID of the queue to remove.
+   */
+  export async function removeQueue(groupId: string, queueId: string): Promise<void> {
+    const groupDocRef = doc(db, 'groups', groupId);
+
+    await runTransaction(db, async (transaction) => {
+      const groupDoc = await transaction.get(groupDocRef);
+      if (!groupDoc.exists()) throw new Error('Group not found.');
+
+      const group = groupDoc.data() as Group;
+      transaction.update(groupDocRef, {
+        queues: (group.queues ?? []).filter((q) => q.id !== queueId),
+        ...(group.swapRequests && {
+          swapRequests: group.swapRequests.filter((r) => r.queueId !== queueId),
+        }),
+      });
+    });
+  }
+
+  /**
+   * Atomically resets all participant turn counts, in every queue, to 0 and
+   * creates a log entry.
    * @param groupId The ID of the group to reset.
    * @param actor The user performing the reset action.
    */
@@ -116,7 +337,12 @@ import {
         turnCount: 0,
       }));
   
-      transaction.update(groupDocRef, { participants: newParticipants });
+      transaction.update(groupDocRef, {
+        participants: newParticipants,
+        ...(group.queues && {
+          queues: group.queues.map((q) => ({ ...q, turnCounts: {} })),
+        }),
+      });
   
       const newLogRef = doc(collection(db, 'groups', groupId, 'turnLog'));
       const newLogEntry: CountsResetLog = {
@@ -124,6 +350,10 @@ import {
         completedAt: serverTimestamp(),
         actorUid: actor.uid,
         actorName: actor.displayName || 'Unknown Actor',
+        undoState: captureUndoState(
+          group,
+          listQueues(group).map((q) => q.id),
+        ),
         _participantUids: group.participantUids,
         _adminUids: group.adminUids,
       };
@@ -132,10 +362,112 @@ import {
   }
   
   /**
-   * Permanently deletes a group document and all its sub-collections.
+   * Archives a group. It disappears from its members' active groups and is
+   * purged once the chosen retention period has passed, unless it is restored.
+   * @param groupId The ID of the group to archive.
+   * @param retentionDays How many days to keep the archived group.
+   */
+  export async function archiveGroup(groupId: string, retentionDays: number): Promise<void> {
+    const archivedAt = Date.now();
+    const groupDocRef = doc(db, 'groups', groupId);
+    await updateDoc(groupDocRef, {
+      archivedAt,
+      purgeAt: computePurgeAt(archivedAt, retentionDays),
+    });
+  }
+
+  /**
+   * Restores an archived group to its members' active groups.
+   * @param groupId The ID of the group to restore.
+   */
+  export async function unarchiveGroup(groupId: string): Promise<void> {
+    const groupDocRef = doc(db, 'groups', groupId);
+    await updateDoc(groupDocRef, { archivedAt: null, purgeAt: null });
+  }
+
+  /**
+   * Permanently deletes a group, its whole turn log, its invitations, its
+   * join requests and its join code. The group is first marked as being deleted, which the
+   * security rules require before any log entry may be removed. The log and
+   * the other sub-collections are then
+   * deleted in batches and the group document last, so an interrupted deletion
+   * leaves a marked group behind and calling this again picks up where it stopped.
    * @param groupId The ID of the group to delete.
+   * @param onProgress Called after each batch with the number of log entries
+   *                   deleted so far and the number there were to delete.
    */
-  export async function deleteGroup(groupId: string): Promise<void> {
+  export async function deleteGroup(
+    groupId: string,
+    onProgress?: (deleted: number, total: number) => void,
+  ): Promise<void> {
     const groupDocRef = doc(db, 'groups', groupId);
+    await updateDoc(groupDocRef, { deletingAt: Date.now() });
+    const groupSnap = await getDoc(groupDocRef);
+    const joinCode = groupSnap.exists() ? (groupSnap.data() as Group).joinCode : null;
+
+    const logsCollectionRef = collection(db, 'groups', groupId, 'turnLog');
+    const total = (await getCountFromServer(logsCollectionRef)).data().count;
+    let deleted = 0;
+    onProgress?.(deleted, total);
+
+    for (;;) {
+      const logsSnap = await getDocs(query(logsCollectionRef, limit(LOG_DELETE_BATCH_SIZE)));
+      if (logsSnap.empty) break;
+
+      const batch = writeBatch(db);
+      logsSnap.docs.forEach((logDoc) => batch.delete(logDoc.ref));
+      await batch.commit();
+
+      deleted += logsSnap.size;
+      onProgress?.(Math.min(deleted, total), total);
+    }
+
+    for (const subcollection of ['invitations', 'joinRequests']) {
+      const subcollectionRef = collection(db, 'groups', groupId, subcollection);
+      for (;;) {
+        const snap = await getDocs(query(subcollectionRef, limit(LOG_DELETE_BATCH_SIZE)));
+        if (snap.empty) break;
+
+        const batch = writeBatch(db);
+        snap.docs.forEach((subDoc) => batch.delete(subDoc.ref));
+        await batch.commit();
+      }
+    }
+
+    if (joinCode) {
+      await deleteDoc(doc(db, 'joinCodes', joinCode.code));
+    }
     await deleteDoc(groupDocRef);
-  }
\ No newline at end of file
+  }
+
+  /**
+   * Recreates a backed-up group under a new ID, with the importer as its owner
+   * and only admin. The group document is written first, so the log entries
+   * that follow pass the membership check, then the log in batches.
+   * @param backup A backup that passed `parseGroupBackup`.
+   * @param importer The user restoring the backup.
+   * @returns The unique ID of the restored group.
+   */
+  export async function restoreGroupBackup(
+    backup: GroupBackup,
+    importer: AppUser,
+  ): Promise<string> {
+    const gid = uuidv4();
+    const { group, turnLog } = buildRestoredGroup(backup, gid, importer, uuidv4());
+
+    await setDoc(doc(db, 'groups', gid), group);
+
+    const logsCollectionRef = collection(db, 'groups', gid, 'turnLog');
+    for (let i = 0; i < turnLog.length; i += LOG_WRITE_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      for (const { id, entry, completedAtMs } of turnLog.slice(i, i + LOG_WRITE_BATCH_SIZE)) {
+        batch.set(doc(logsCollectionRef, id), {
+          ...entry,
+          completedAt: Timestamp.fromMillis(completedAtMs),
+        });
+      }
+      await batch.commit();
+    }
+
+    return gid;
+  }
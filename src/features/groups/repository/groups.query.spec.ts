@@ -1,12 +1,13 @@
 /**
  * @file packages/whoseturnnow/src/features/groups/repository/groups.query.spec.ts
- * @stamp {"ts":"2025-10-25T12:50:00Z"}
+ * @stamp {"ts":"2026-10-19T15:55:00Z"}
  * @test-target packages/whoseturnnow/src/features/groups/repository/groups.query.ts
  *
  * @description
  * Verifies the "Circuit Breaker" pattern by directly testing the exported
  * `handleListenerError` function, ensuring it correctly falls back to a
- * static fetch when a `resource-exhausted` error is encountered.
+ * static fetch when a `resource-exhausted` error is encountered. Also verifies
+ * that paging through the turn log stops when its cursor entry has vanished.
  *
  * @criticality
  * Critical (Reason: I/O & Concurrency Management)
@@ -21,10 +22,11 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { getDocs } from 'firebase/firestore';
+import { getDoc, getDocs } from 'firebase/firestore';
 import { useAppStatusStore } from '../../../shared/store/useAppStatusStore';
 // Import the new, directly testable function
-import { handleListenerError } from './groups.query';
+import { handleListenerError, getTurnLogPage } from './groups.query';
+import { EMPTY_TURN_LOG_FILTERS } from '../utils/history';
 import type { FirestoreError, Query } from 'firebase/firestore';
 
 // --- Mocks ---
@@ -65,4 +67,22 @@ describe('groups.query error handler', () => {
     expect(mockGetDocs).toHaveBeenCalledWith(mockQuery);
     expect(mockOnUpdate).toHaveBeenCalledWith([]); // From the transformed mockGetDocs result
   });
-});
\ No newline at end of file
+});
+
+describe('getTurnLogPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetDocs.mockResolvedValue({ docs: [] } as any);
+  });
+
+  it('should refuse to restart from the newest entry when the cursor entry is gone', async () => {
+    // ARRANGE
+    vi.mocked(getDoc).mockResolvedValue({ exists: () => false } as any);
+
+    // ACT & ASSERT
+    await expect(getTurnLogPage('group-1', EMPTY_TURN_LOG_FILTERS, 'deleted-log', 50)).rejects.toThrow(
+      'The history changed while it was being read',
+    );
+    expect(mockGetDocs).not.toHaveBeenCalled();
+  });
+});
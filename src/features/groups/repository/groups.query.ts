@@ -1,6 +1,6 @@
 /**
  * @file packages/whoseturnnow/src/features/groups/repository/groups.query.ts
- * @stamp {"ts":"2025-10-25T09:45:00Z"}
+ * @stamp {"ts":"2026-10-19T15:55:00Z"}
  * @architectural-role Data Repository (Query)
  * @description
  * Encapsulates all read-only Firestore interactions. This module implements the
@@ -30,6 +30,8 @@ import {
   limit,
   getDoc,
   getDocs,
+  startAfter,
+  type QueryConstraint,
   type Unsubscribe,
   type Query,
   type DocumentReference,
@@ -38,7 +40,14 @@ import {
 import { db } from '../../../lib/firebase';
 import { useAppStatusStore } from '../../../shared/store/useAppStatusStore';
 import { logger } from '../../../shared/utils/debug';
-import type { Group, LogEntry } from '../../../types/group';
+import type { Group, Invitation, JoinCode, JoinRequest, LogEntry } from '../../../types/group';
+import {
+  EMPTY_TURN_LOG_FILTERS,
+  LIVE_LOG_LIMIT,
+  resolveFilterTypes,
+  type TurnLogFilters,
+} from '../utils/history';
+import { isArchived } from '../utils/archive';
 
 const FIREBASE_RESOURCE_EXHAUSTED = 'resource-exhausted';
 
@@ -101,19 +110,39 @@ function createResilientListener<T>(
 }
 
 
+/**
+ * Builds the query for every group the user is a member of, archived or not.
+ */
+function userGroupsQuery(userId: string): Query {
+  return query(collection(db, 'groups'), where(`participantUids.${userId}`, '==', true));
+}
+
+/**
+ * Subscribes to the user's active groups. Archived groups are left out.
+ */
 export function getUserGroups(
   userId: string,
   onUpdate: (groups: Group[]) => void,
 ): Unsubscribe {
   logger.debug(`[getUserGroups] Subscribing for userId: '${userId}'`);
-  const groupsCollectionRef = collection(db, 'groups');
-  const q = query(
-    groupsCollectionRef,
-    where(`participantUids.${userId}`, '==', true),
+  return createResilientListener<Group[]>(userGroupsQuery(userId), onUpdate, (snapshot) =>
+    snapshot.docs.map((doc: any) => doc.data()).filter((group: Group) => !isArchived(group)),
   );
+}
 
-  return createResilientListener<Group[]>(q, onUpdate, (snapshot) =>
-    snapshot.docs.map((doc: any) => doc.data()),
+/**
+ * Subscribes to the user's archived groups, soonest to be purged first.
+ */
+export function getArchivedUserGroups(
+  userId: string,
+  onUpdate: (groups: Group[]) => void,
+): Unsubscribe {
+  logger.debug(`[getArchivedUserGroups] Subscribing for userId: '${userId}'`);
+  return createResilientListener<Group[]>(userGroupsQuery(userId), onUpdate, (snapshot) =>
+    snapshot.docs
+      .map((doc: any) => doc.data())
+      .filter((group: Group) => isArchived(group))
+      .sort((a: Group, b: Group) => (a.purgeAt ?? Infinity) - (b.purgeAt ?? Infinity)),
   );
 }
 
@@ -135,13 +164,93 @@ export async function getGroupOnce(groupId: string): Promise<Group | null> {
   return groupDocSnap.exists() ? (groupDocSnap.data() as Group) : null;
 }
 
+/**
+ * Fetches a single invitation once.
+ * @param groupId The ID of the group the invitation is for.
+ * @param invitationId The invitation's token.
+ * @returns The invitation, or `null` if no such token exists.
+ */
+export async function getInvitationOnce(
+  groupId: string,
+  invitationId: string,
+): Promise<Invitation | null> {
+  const invitationSnap = await getDoc(doc(db, 'groups', groupId, 'invitations', invitationId));
+  return invitationSnap.exists() ? (invitationSnap.data() as Invitation) : null;
+}
+
+/**
+ * Looks up a join code once.
+ * @param code The code, as returned by `normalizeJoinCode`.
+ * @returns The code's lookup document, or `null` if no group uses the code.
+ */
+export async function getJoinCodeOnce(code: string): Promise<JoinCode | null> {
+  const codeSnap = await getDoc(doc(db, 'joinCodes', code));
+  return codeSnap.exists() ? (codeSnap.data() as JoinCode) : null;
+}
+
+/**
+ * Subscribes to a group's invitations, newest first, including revoked and
+ * expired ones. Only admins may list them.
+ * @param groupId The ID of the group.
+ */
+export function getGroupInvitations(
+  groupId: string,
+  onUpdate: (invitations: Invitation[]) => void,
+): Unsubscribe {
+  logger.debug(`[getGroupInvitations] Subscribing for groupId: '${groupId}'`);
+  const q = query(
+    collection(db, 'groups', groupId, 'invitations'),
+    orderBy('createdAt', 'desc'),
+  );
+  return createResilientListener<Invitation[]>(q, onUpdate, (snapshot) =>
+    snapshot.docs.map((doc: any) => doc.data()),
+  );
+}
+
+/**
+ * Subscribes to a group's pending join requests, oldest first. Only admins may
+ * list them.
+ * @param groupId The ID of the group.
+ */
+export function getJoinRequests(
+  groupId: string,
+  onUpdate: (requests: JoinRequest[]) => void,
+): Unsubscribe {
+  logger.debug(`[getJoinRequests] Subscribing for groupId: '${groupId}'`);
+  const q = query(
+    collection(db, 'groups', groupId, 'joinRequests'),
+    orderBy('requestedAt', 'asc'),
+  );
+  return createResilientListener<JoinRequest[]>(q, onUpdate, (snapshot) =>
+    snapshot.docs.map((doc: any) => doc.data()),
+  );
+}
+
+/**
+ * Subscribes to the user's own join request for a group. Receives `null` once
+ * the request has been approved or rejected.
+ * @param groupId The ID of the group.
+ * @param uid The UID of the user who asked to join.
+ */
+export function getJoinRequest(
+  groupId: string,
+  uid: string,
+  onUpdate: (request: JoinRequest | null) => void,
+): Unsubscribe {
+  logger.debug(`[getJoinRequest] Subscribing for groupId: '${groupId}'`);
+  const requestDocRef = doc(db, 'groups', groupId, 'joinRequests', uid);
+  return createResilientListener<JoinRequest | null>(requestDocRef, onUpdate, (snapshot) =>
+    snapshot.exists() ? snapshot.data() : null,
+  );
+}
+
 export function getGroupTurnLog(
   groupId: string,
   onUpdate: (logs: (LogEntry & { id: string })[]) => void,
 ): Unsubscribe {
   logger.debug(`[getGroupTurnLog] Subscribing for groupId: '${groupId}'`);
   const logsCollectionRef = collection(db, 'groups', groupId, 'turnLog');
-  const q = query(logsCollectionRef, orderBy('completedAt', 'desc'), limit(50));
+  const q = query(logsCollectionRef, orderBy('completedAt', 'desc'), limit(LIVE_LOG_LIMIT));
 
   return createResilientListener<(LogEntry & { id: string })[]>(
     q,
@@ -149,4 +258,69 @@ export function getGroupTurnLog(
     (snapshot) =>
       snapshot.docs.map((doc: any) => ({ ...doc.data(), id: doc.id })),
   );
-}
\ No newline at end of file
+}
+
+/**
+ * Fetches one page of a group's turn log, newest first, for browsing history
+ * older than the live window of `getGroupTurnLog`. Filters are applied by the
+ * query itself, so each page holds only matching entries. Any equality filter
+ * combined with the time ordering needs one of the composite indexes in
+ * `firestore.indexes.json`.
+ * @param groupId The ID of the group.
+ * @param filters The filters every entry on the page must match.
+ * @param afterLogId The ID of the entry to continue after, or `null` to start from the newest.
+ *                   Throws if that entry no longer exists.
+ * @param pageSize The maximum number of entries to fetch.
+ */
+export async function getTurnLogPage(
+  groupId: string,
+  filters: TurnLogFilters,
+  afterLogId: string | null,
+  pageSize: number,
+): Promise<(LogEntry & { id: string })[]> {
+  const logsCollectionRef = collection(db, 'groups', groupId, 'turnLog');
+  const constraints: QueryConstraint[] = [];
+
+  const types = resolveFilterTypes(filters.kinds);
+  if (types.length > 0) constraints.push(where('type', 'in', types));
+  if (filters.participantId !== null) {
+    constraints.push(where('participantId', '==', filters.participantId));
+  }
+  if (filters.actorUid !== null) constraints.push(where('actorUid', '==', filters.actorUid));
+  if (filters.from !== null) constraints.push(where('completedAt', '>=', new Date(filters.from)));
+  if (filters.to !== null) constraints.push(where('completedAt', '<=', new Date(filters.to)));
+
+  constraints.push(orderBy('completedAt', 'desc'));
+  if (afterLogId) {
+    // The cursor is the entry's own snapshot, so entries sharing a timestamp are not skipped.
+    const cursor = await getDoc(doc(logsCollectionRef, afterLogId));
+    // Starting over from the newest entry would repeat pages, and could loop forever.
+    if (!cursor.exists()) {
+      throw new Error('The history changed while it was being read. Please try again.');
+    }
+    constraints.push(startAfter(cursor));
+  }
+  constraints.push(limit(pageSize));
+
+  const snapshot = await getDocs(query(logsCollectionRef, ...constraints));
+  return snapshot.docs.map((doc) => ({ ...(doc.data() as LogEntry), id: doc.id }));
+}
+
+/**
+ * Streams a group's entire turn log, newest first, one page at a time, so
+ * large logs can be processed without a single unbounded read.
+ * @param groupId The ID of the group.
+ * @param pageSize The number of entries to read per page.
+ */
+export async function* streamTurnLog(
+  groupId: string,
+  pageSize: number = 500,
+): AsyncGenerator<(LogEntry & { id: string })[]> {
+  let afterLogId: string | null = null;
+  for (;;) {
+    const page = await getTurnLogPage(groupId, EMPTY_TURN_LOG_FILTERS, afterLogId, pageSize);
+    if (page.length > 0) yield page;
+    if (page.length < pageSize) return;
+    afterLogId = page[page.length - 1].id;
+  }
+}
@@ -26,6 +26,8 @@ import * as queries from './groups.query';
 import * as groupCommands from './group.command';
 import * as participantCommands from './participants.command';
 import * as turnCommands from './turns.command';
+import * as swapCommands from './swaps.command';
+import * as invitationCommands from './invitations.command';
 
 /**
  * The unified groups repository, providing all functions for reading and
@@ -36,4 +38,6 @@ export const groupsRepository = {
   ...groupCommands,
   ...participantCommands,
   ...turnCommands,
+  ...swapCommands,
+  ...invitationCommands,
 };
\ No newline at end of file
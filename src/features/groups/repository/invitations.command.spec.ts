@@ -0,0 +1,193 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/repository/invitations.command.spec.ts
+ * @stamp {"ts":"2026-10-19T15:40:00Z"}
+ * @test-target packages/whoseturnnow/src/features/groups/repository/invitations.command.ts
+ *
+ * @description
+ * Verifies the invitation commands: minting and revoking tokens, and replacing
+ * a group's join code so that the old code and its token stop working in the
+ * same transaction that creates the new ones, and reusing the invite sheet's
+ * working tokens.
+ *
+ * @criticality
+ * Critical (Reason: Security & Authentication Context)
+ *
+ * @testing-layer Integration
+ *
+ * @contract
+ *   assertions:
+ *     purity: read-only # This test file asserts on the state of mocked modules.
+ *     state_ownership: none
+ *     external_io: none # Mocks MUST prevent any actual I/O.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { doc, getDocs, runTransaction, setDoc, updateDoc, writeBatch } from 'firebase/firestore';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  createInvitation,
+  prepareInviteSheetInvitations,
+  revokeInvitation,
+  regenerateJoinCode,
+} from './invitations.command';
+import { buildInvitation } from '../utils/invitations';
+import type { AppUser } from '../../auth/useAuthStore';
+import type { Group } from '../../../types/group';
+
+// --- Mocks & Test Setup ---
+const mockRunTransaction = vi.mocked(runTransaction);
+const mockDoc = vi.mocked(doc);
+
+const mockTransaction = {
+  get: vi.fn(),
+  update: vi.fn(),
+  set: vi.fn(),
+  delete: vi.fn(),
+};
+
+const admin: AppUser = { uid: 'user-admin', displayName: 'Admin', isAnonymous: false };
+
+const mockGroup: Group = {
+  gid: 'group-1',
+  name: 'Test Group',
+  icon: '🧪',
+  ownerUid: 'user-admin',
+  participants: [{ id: 'p-admin', uid: 'user-admin', role: 'admin', turnCount: 0, nickname: 'Admin' }],
+  turnOrder: ['p-admin'],
+  participantUids: { 'user-admin': true },
+  adminUids: { 'user-admin': true },
+};
+
+/**
+ * Finds the first write of the given kind made to a document path.
+ */
+const writeTo = (mock: ReturnType<typeof vi.fn>, path: string) =>
+  mock.mock.calls.find(([ref]) => ref.path === path);
+
+describe('invitations.command', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDoc.mockImplementation(((_db: unknown, ...segments: string[]) => ({ path: segments.join('/') })) as any);
+    mockRunTransaction.mockImplementation(async (_, fn) => fn(mockTransaction as any));
+    vi.mocked(uuidv4).mockReturnValue('token-new' as any);
+  });
+
+  it('should store a new, unused invitation under its token', async () => {
+    const invitation = await createInvitation('group-1', admin, { participantId: null, maxUses: 1 });
+
+    expect(invitation).toMatchObject({ id: 'token-new', groupId: 'group-1', maxUses: 1, useCount: 0, revoked: false });
+    expect(setDoc).toHaveBeenCalledWith({ path: 'groups/group-1/invitations/token-new' }, invitation);
+  });
+
+  it('should revoke an invitation by flagging it', async () => {
+    await revokeInvitation('group-1', 'token-old');
+
+    expect(updateDoc).toHaveBeenCalledWith({ path: 'groups/group-1/invitations/token-old' }, { revoked: true });
+  });
+
+  describe('regenerateJoinCode', () => {
+    it('should create a code backed by a new unlimited invitation', async () => {
+      // ARRANGE
+      mockTransaction.get
+        .mockResolvedValueOnce({ exists: () => true, data: () => mockGroup })
+        .mockResolvedValueOnce({ exists: () => false });
+
+      // ACT
+      const joinCode = await regenerateJoinCode('group-1', admin);
+
+      // ASSERT
+      expect(joinCode.code).toMatch(/^[A-Z2-9]{6}$/);
+      expect(joinCode.invitationId).toBe('token-new');
+      expect(writeTo(mockTransaction.set, 'groups/group-1/invitations/token-new')?.[1]).toMatchObject({
+        maxUses: null,
+        participantId: null,
+      });
+      expect(writeTo(mockTransaction.set, `joinCodes/${joinCode.code}`)?.[1]).toMatchObject({
+        groupId: 'group-1',
+        invitationId: 'token-new',
+      });
+      expect(mockTransaction.update).toHaveBeenCalledWith({ path: 'groups/group-1' }, { joinCode });
+      expect(mockTransaction.delete).not.toHaveBeenCalled();
+    });
+
+    it('should retire the old code and revoke its invitation in the same transaction', async () => {
+      // ARRANGE
+      const groupWithCode = { ...mockGroup, joinCode: { code: 'OLDABC', invitationId: 'token-old', expiresAt: 1 } };
+      mockTransaction.get
+        .mockResolvedValueOnce({ exists: () => true, data: () => groupWithCode })
+        .mockResolvedValueOnce({ exists: () => false });
+
+      // ACT
+      await regenerateJoinCode('group-1', admin);
+
+      // ASSERT
+      expect(mockTransaction.delete).toHaveBeenCalledWith({ path: 'joinCodes/OLDABC' });
+      expect(mockTransaction.update).toHaveBeenCalledWith(
+        { path: 'groups/group-1/invitations/token-old' },
+        { revoked: true },
+      );
+    });
+
+    it('should write nothing if the new code is already taken', async () => {
+      // ARRANGE
+      mockTransaction.get
+        .mockResolvedValueOnce({ exists: () => true, data: () => mockGroup })
+        .mockResolvedValueOnce({ exists: () => true });
+
+      // ACT & ASSERT
+      await expect(regenerateJoinCode('group-1', admin)).rejects.toThrow(/already taken/);
+      expect(mockTransaction.set).not.toHaveBeenCalled();
+      expect(mockTransaction.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('prepareInviteSheetInvitations', () => {
+    const mockBatch = { set: vi.fn(), commit: vi.fn() };
+    const sheetInvitation = (id: string, participantId: string | null, extra: object = {}) => ({
+      ...buildInvitation(
+        { id, groupId: 'group-1', participantId, createdByUid: 'user-admin', maxUses: participantId ? 1 : null },
+        Date.now(),
+      ),
+      inviteSheet: true,
+      ...extra,
+    });
+    const stored = (...invitations: object[]) =>
+      ({ docs: invitations.map((invitation) => ({ data: () => invitation })) }) as any;
+
+    beforeEach(() => {
+      vi.mocked(writeBatch).mockReturnValue(mockBatch as any);
+    });
+
+    it('should reuse working sheet tokens and only mint the missing ones', async () => {
+      // ARRANGE
+      const generic = sheetInvitation('token-generic', null);
+      vi.mocked(getDocs).mockResolvedValue(
+        stored(generic, sheetInvitation('token-used', 'p-bob', { useCount: 1 })),
+      );
+
+      // ACT
+      const invitations = await prepareInviteSheetInvitations('group-1', admin, ['p-bob']);
+
+      // ASSERT
+      expect(invitations[0]).toBe(generic);
+      expect(invitations[1]).toMatchObject({ id: 'token-new', participantId: 'p-bob', maxUses: 1, inviteSheet: true });
+      expect(mockBatch.set).toHaveBeenCalledTimes(1);
+      expect(mockBatch.set).toHaveBeenCalledWith({ path: 'groups/group-1/invitations/token-new' }, invitations[1]);
+      expect(mockBatch.commit).toHaveBeenCalledTimes(1);
+    });
+
+    it('should write nothing when every sheet token still works', async () => {
+      // ARRANGE
+      vi.mocked(getDocs).mockResolvedValue(
+        stored(sheetInvitation('token-generic', null), sheetInvitation('token-bob', 'p-bob')),
+      );
+
+      // ACT
+      const invitations = await prepareInviteSheetInvitations('group-1', admin, ['p-bob']);
+
+      // ASSERT
+      expect(invitations.map((invitation) => invitation.id)).toEqual(['token-generic', 'token-bob']);
+      expect(mockBatch.commit).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/repository/invitations.command.ts
+ * @stamp {"ts":"2026-10-19T15:40:00Z"}
+ * @architectural-role Data Repository (Command)
+ * @description
+ * Encapsulates all write-only Firestore interactions for invitation tokens:
+ * minting a token for a generic, targeted or recovery link, and revoking one.
+ * Tokens are redeemed by the join and claim commands, in the same transaction
+ * that adds the invitee to the group. A group's join code is a short alias for
+ * one of its tokens; replacing the code retires the old code and its token
+ * together. The printable invite sheet keeps reusing its own tokens while they
+ * still work, so opening it again does not pile up new ones.
+ * @core-principles
+ * 1. OWNS all write I/O logic for the invitation lifecycle, except redemption.
+ * 2. MUST mint tokens that are random and unguessable.
+ * 3. MUST NOT contain any functions that only read or subscribe to data.
+ * 4. MUST leave a group with at most one working join code.
+ * 5. MUST only mint invite sheet tokens for slots that have no working one.
+ * @api-declaration
+ *   - createInvitation: Mints and stores a new invitation token.
+ *   - revokeInvitation: Stops an invitation from working.
+ *   - regenerateJoinCode: Replaces the group's join code with a new one.
+ *   - prepareInviteSheetInvitations: Returns the invite sheet's working tokens, minting any that are missing.
+ * @contract
+ *   assertions:
+ *     purity: mutates
+ *     state_ownership: none
+ *     external_io: firestore
+ */
+
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  runTransaction,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../../../lib/firebase';
+import type { AppUser } from '../../auth/useAuthStore';
+import type { Group, Invitation, JoinCode } from '../../../types/group';
+import { buildInvitation, isInvitationActive } from '../utils/invitations';
+import { generateJoinCode } from '../utils/joinCodes';
+
+/**
+ * Mints and stores a new invitation token for a group.
+ * @param groupId The ID of the group to invite to.
+ * @param creator The admin creating the invitation.
+ * @param options The placeholder slot the invitation claims (`null` to join as
+ *                a new participant) and how many times it can be used (`null`
+ *                for no limit).
+ * @returns The stored invitation.
+ */
+export async function createInvitation(
+  groupId: string,
+  creator: AppUser,
+  options: { participantId: string | null; maxUses: number | null },
+): Promise<Invitation> {
+  const invitation = buildInvitation(
+    {
+      id: uuidv4(),
+      groupId,
+      participantId: options.participantId,
+      createdByUid: creator.uid,
+      maxUses: options.maxUses,
+    },
+    Date.now(),
+  );
+  await setDoc(doc(db, 'groups', groupId, 'invitations', invitation.id), invitation);
+  return invitation;
+}
+
+/**
+ * Revokes an invitation so its link stops working immediately.
+ * @param groupId The ID of the group the invitation is for.
+ * @param invitationId The invitation's token.
+ */
+export async function revokeInvitation(groupId: string, invitationId: string): Promise<void> {
+  await updateDoc(doc(db, 'groups', groupId, 'invitations', invitationId), { revoked: true });
+}
+
+/**
+ * Atomically replaces a group's join code. A new unlimited invitation is minted
+ * for the new code, and the old code is deleted and its invitation revoked in
+ * the same transaction, so the old code stops working at once.
+ * @param groupId The ID of the group.
+ * @param creator The admin creating the code.
+ * @returns The group's new join code.
+ */
+export async function regenerateJoinCode(
+  groupId: string,
+  creator: AppUser,
+): Promise<NonNullable<Group['joinCode']>> {
+  const groupDocRef = doc(db, 'groups', groupId);
+
+  return runTransaction(db, async (transaction) => {
+    const groupDoc = await transaction.get(groupDocRef);
+    if (!groupDoc.exists()) {
+      throw new Error(`Group with ID ${groupId} does not exist.`);
+    }
+    const group = groupDoc.data() as Group;
+
+    const code = generateJoinCode((count) => crypto.getRandomValues(new Uint8Array(count)));
+    const codeDocRef = doc(db, 'joinCodes', code);
+    if ((await transaction.get(codeDocRef)).exists()) {
+      throw new Error('That code is already taken. Please try again.');
+    }
+
+    const invitation = buildInvitation(
+      { id: uuidv4(), groupId, participantId: null, createdByUid: creator.uid, maxUses: null },
+      Date.now(),
+    );
+    const joinCode: JoinCode = {
+      code,
+      groupId,
+      invitationId: invitation.id,
+      createdByUid: creator.uid,
+      createdAt: invitation.createdAt,
+      expiresAt: invitation.expiresAt,
+    };
+
+    if (group.joinCode) {
+      transaction.delete(doc(db, 'joinCodes', group.joinCode.code));
+      transaction.update(doc(db, 'groups', groupId, 'invitations', group.joinCode.invitationId), {
+        revoked: true,
+      });
+    }
+    transaction.set(doc(db, 'groups', groupId, 'invitations', invitation.id), invitation);
+    transaction.set(codeDocRef, joinCode);
+
+    const groupJoinCode = { code, invitationId: invitation.id, expiresAt: invitation.expiresAt };
+    transaction.update(groupDocRef, { joinCode: groupJoinCode });
+    return groupJoinCode;
+  });
+}
+
+/**
+ * Returns a working invitation for every link on the group's invite sheet: the
+ * generic invite and a claim for each given placeholder. Sheet tokens that
+ * still work are reused, so a printed sheet keeps working; only the missing
+ * ones are minted, all in one batch.
+ * @param groupId The ID of the group.
+ * @param creator The admin preparing the sheet.
+ * @param placeholderIds The IDs of the placeholder slots to include.
+ * @returns The invitations, the generic one first and then one per placeholder, in order.
+ */
+export async function prepareInviteSheetInvitations(
+  groupId: string,
+  creator: AppUser,
+  placeholderIds: string[],
+): Promise<Invitation[]> {
+  const invitationsRef = collection(db, 'groups', groupId, 'invitations');
+  const existingSnap = await getDocs(query(invitationsRef, where('inviteSheet', '==', true)));
+  const now = Date.now();
+  const working = existingSnap.docs
+    .map((invitationDoc) => invitationDoc.data() as Invitation)
+    .filter((invitation) => isInvitationActive(invitation, now));
+
+  const batch = writeBatch(db);
+  let hasNew = false;
+  const invitations = [null, ...placeholderIds].map((participantId) => {
+    const reusable = working.find((invitation) => invitation.participantId === participantId);
+    if (reusable) return reusable;
+    const invitation: Invitation = {
+      ...buildInvitation(
+        {
+          id: uuidv4(),
+          groupId,
+          participantId,
+          createdByUid: creator.uid,
+          maxUses: participantId === null ? null : 1,
+        },
+        now,
+      ),
+      inviteSheet: true,
+    };
+    batch.set(doc(db, 'groups', groupId, 'invitations', invitation.id), invitation);
+    hasNew = true;
+    return invitation;
+  });
+
+  if (hasNew) await batch.commit();
+  return invitations;
+}
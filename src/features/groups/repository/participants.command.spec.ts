@@ -1,12 +1,16 @@
 /**
  * @file packages/whoseturnnow/src/features/groups/repository/participants.command.spec.ts
- * @stamp {"ts":"2025-10-25T12:30:00Z"}
+ * @stamp {"ts":"2026-10-19T16:10:00Z"}
  * @test-target packages/whoseturnnow/src/features/groups/repository/participants.command.ts
  *
  * @description
  * Verifies the transactional integrity and correctness of all participant and
  * membership management operations, ensuring that the participants array and all
- * derived UID maps are updated correctly.
+ * derived UID maps are updated correctly, and that every change writes its
+ * audit entry to the turn log in the same transaction. Joining, claiming and
+ * asking to join must redeem a valid invitation and record it on the joiner.
+ * Only a participant or an admin may change that participant's weight or
+ * away status.
  *
  * @criticality
  * Critical (Reason: I/O & Concurrency Management)
@@ -26,11 +30,16 @@ import { v4 as uuidv4 } from 'uuid';
 import {
   addManagedParticipant,
   updateParticipantRole,
+  updateParticipantWeight,
+  setParticipantAway,
   removeParticipant,
   leaveGroup,
   joinGroupAsNewParticipant,
   claimPlaceholder,
+  requestToJoinGroup,
+  approveJoinRequest,
 } from './participants.command';
+import { buildInvitation } from '../utils/invitations';
 import type { AppUser } from '../../auth/useAuthStore';
 import type { Group } from '../../../types/group';
 
@@ -53,6 +62,12 @@ const mockUser: AppUser = {
   isAnonymous: false,
 };
 
+const mockAdmin: AppUser = {
+  uid: 'user-admin',
+  displayName: 'Admin Alice',
+  isAnonymous: false,
+};
+
 const baseMockGroup: Group = {
   gid: 'group-1',
   name: 'Test Group',
@@ -80,7 +95,7 @@ describe('participants.command', () => {
 
   describe('addManagedParticipant', () => {
     it('should add a new placeholder participant to the end of the queue', async () => {
-      await addManagedParticipant(baseMockGroup.gid, 'New Placeholder');
+      await addManagedParticipant(baseMockGroup.gid, 'New Placeholder', mockAdmin);
       
       expect(mockTransaction.update).toHaveBeenCalledTimes(1);
       const updatePayload = mockTransaction.update.mock.calls[0][1];
@@ -89,24 +104,125 @@ describe('participants.command', () => {
       expect(updatePayload.participants[3].nickname).toBe('New Placeholder');
       expect(updatePayload.participants[3].uid).toBeNull();
       expect(updatePayload.turnOrder).toEqual(['p-admin', 'p-member', 'p-placeholder', 'mock-uuid-123']);
+      expect(mockTransaction.set).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          type: 'PARTICIPANT_ADDED',
+          participantId: 'mock-uuid-123',
+          participantName: 'New Placeholder',
+          actorUid: 'user-admin',
+        }),
+      );
     });
   });
 
   describe('updateParticipantRole', () => {
     it('should correctly promote a member to an admin and update adminUids', async () => {
-      await updateParticipantRole(baseMockGroup.gid, 'p-member', 'admin');
+      await updateParticipantRole(baseMockGroup.gid, 'p-member', 'admin', mockAdmin);
       
       expect(mockTransaction.update).toHaveBeenCalledTimes(1);
       const payload = mockTransaction.update.mock.calls[0][1];
       
       expect(payload.participants[1].role).toBe('admin');
       expect(payload.adminUids).toEqual({ 'user-admin': true, 'user-member': true });
+      expect(mockTransaction.set).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          type: 'ROLE_CHANGED',
+          participantName: 'Member Bob',
+          previousRole: 'member',
+          newRole: 'admin',
+          _adminUids: { 'user-admin': true, 'user-member': true },
+        }),
+      );
+    });
+
+    it('should neither write nor log when the role is unchanged', async () => {
+      await updateParticipantRole(baseMockGroup.gid, 'p-member', 'member', mockAdmin);
+
+      expect(mockTransaction.update).not.toHaveBeenCalled();
+      expect(mockTransaction.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateParticipantWeight', () => {
+    it('should set the weight on the target participant only and log the change', async () => {
+      await updateParticipantWeight(baseMockGroup.gid, 'p-member', 2, mockAdmin);
+
+      const payload = mockTransaction.update.mock.calls[0][1];
+      expect(payload.participants[1].weight).toBe(2);
+      expect(payload.participants[0].weight).toBeUndefined();
+
+      const logPayload = mockTransaction.set.mock.calls[0][1];
+      expect(logPayload).toMatchObject({
+        type: 'WEIGHT_CHANGED',
+        participantId: 'p-member',
+        previousWeight: 1,
+        newWeight: 2,
+        actorUid: mockAdmin.uid,
+      });
+    });
+
+    it('should reject non-positive weights without touching the group', async () => {
+      await expect(
+        updateParticipantWeight(baseMockGroup.gid, 'p-member', 0, mockAdmin),
+      ).rejects.toThrow();
+      expect(mockRunTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should not let a member change someone else`s weight', async () => {
+      const member: AppUser = { uid: 'user-member', displayName: 'Member Bob', isAnonymous: false };
+
+      await expect(
+        updateParticipantWeight(baseMockGroup.gid, 'p-admin', 2, member),
+      ).rejects.toThrow('Only the participant or an admin');
+      expect(mockTransaction.update).not.toHaveBeenCalled();
+      expect(mockTransaction.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setParticipantAway', () => {
+    it('should mark the participant away, move them behind everyone available and log it', async () => {
+      const awayUntil = Date.now() + 24 * 60 * 60 * 1000;
+
+      await setParticipantAway(baseMockGroup.gid, 'p-admin', awayUntil, mockAdmin);
+
+      const payload = mockTransaction.update.mock.calls[0][1];
+      expect(payload.participants.find((p: any) => p.id === 'p-admin').awayUntil).toBe(awayUntil);
+      expect(payload.turnOrder).toEqual(['p-member', 'p-placeholder', 'p-admin']);
+
+      // One audit entry, and no skip entries for the participants passed over.
+      expect(mockTransaction.set).toHaveBeenCalledTimes(1);
+      expect(mockTransaction.set.mock.calls[0][1]).toMatchObject({
+        type: 'AWAY_CHANGED',
+        participantId: 'p-admin',
+        awayUntil,
+        actorUid: mockAdmin.uid,
+      });
+    });
+
+    it('should clear the away status without re-ordering the queue', async () => {
+      await setParticipantAway(baseMockGroup.gid, 'p-admin', null, mockAdmin);
+
+      const payload = mockTransaction.update.mock.calls[0][1];
+      expect(payload.participants.find((p: any) => p.id === 'p-admin').awayUntil).toBeNull();
+      expect(payload.turnOrder).toEqual(baseMockGroup.turnOrder);
+    });
+
+    it('should let a member mark only themselves as away', async () => {
+      const member: AppUser = { uid: 'user-member', displayName: 'Member Bob', isAnonymous: false };
+
+      await setParticipantAway(baseMockGroup.gid, 'p-member', null, member);
+      await expect(
+        setParticipantAway(baseMockGroup.gid, 'p-admin', null, member),
+      ).rejects.toThrow('Only the participant or an admin');
+      expect(mockTransaction.update).toHaveBeenCalledTimes(1);
     });
   });
 
   describe('removeParticipant', () => {
     it('should remove the participant and update all relevant arrays and maps', async () => {
-      await removeParticipant(baseMockGroup.gid, 'p-member');
+      await removeParticipant(baseMockGroup.gid, 'p-member', mockAdmin);
 
       expect(mockTransaction.update).toHaveBeenCalledTimes(1);
       const payload = mockTransaction.update.mock.calls[0][1];
@@ -116,45 +232,245 @@ describe('participants.command', () => {
       expect(payload.turnOrder).toEqual(['p-admin', 'p-placeholder']);
       expect(payload.participantUids).toEqual({ 'user-admin': true });
       expect(payload.adminUids).toEqual({ 'user-admin': true });
+      expect(payload).not.toHaveProperty('queues');
+      expect(mockTransaction.set).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          type: 'PARTICIPANT_REMOVED',
+          participantId: 'p-member',
+          participantName: 'Member Bob',
+          actorUid: 'user-admin',
+        }),
+      );
+    });
+
+    it('should also remove the participant from every additional queue', async () => {
+      mockTransaction.get.mockResolvedValue({
+        exists: () => true,
+        data: () => ({
+          ...baseMockGroup,
+          queues: [
+            {
+              id: 'q-trash',
+              name: 'Trash',
+              turnOrder: ['p-member', 'p-admin'],
+              turnCounts: { 'p-member': 1, 'p-admin': 2 },
+            },
+          ],
+        }),
+      });
+
+      await removeParticipant(baseMockGroup.gid, 'p-member', mockAdmin);
+
+      const payload = mockTransaction.update.mock.calls[0][1];
+      expect(payload.queues[0].turnOrder).toEqual(['p-admin']);
+      expect(payload.queues[0].turnCounts).toEqual({ 'p-admin': 2 });
     });
   });
 
   describe('leaveGroup', () => {
     it('should call removeParticipant for the correct user', async () => {
       // Since `leaveGroup` orchestrates `removeParticipant`, we can verify its effect.
-      await leaveGroup(baseMockGroup.gid, 'user-member');
+      await leaveGroup(baseMockGroup.gid, {
+        uid: 'user-member',
+        displayName: 'Member Bob',
+        isAnonymous: false,
+      });
 
       expect(mockGetDoc).toHaveBeenCalledTimes(1); // It first fetches the group.
       expect(mockRunTransaction).toHaveBeenCalledTimes(1); // Then it runs the remove transaction.
       const payload = mockTransaction.update.mock.calls[0][1];
       expect(payload.participants.find((p: any) => p.id === 'p-member')).toBeUndefined();
+      expect(mockTransaction.set).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ type: 'MEMBER_LEFT', actorUid: 'user-member' }),
+      );
     });
   });
 
+  /**
+   * Builds an unused invitation to the test group for the given slot.
+   */
+  const invitationFor = (participantId: string | null) =>
+    buildInvitation(
+      { id: 'token-1', groupId: baseMockGroup.gid, participantId, createdByUid: 'user-admin', maxUses: null },
+      Date.now(),
+    );
+  const found = (data: unknown) => ({ exists: () => true, data: () => data });
+  const missing = { exists: () => false };
+
   describe('joinGroupAsNewParticipant', () => {
-    it('should add the new user as a participant', async () => {
-      await joinGroupAsNewParticipant(baseMockGroup.gid, mockUser);
-      
-      expect(mockTransaction.update).toHaveBeenCalledTimes(1);
-      const payload = mockTransaction.update.mock.calls[0][1];
-      
+    beforeEach(() => {
+      mockTransaction.get
+        .mockResolvedValueOnce(found(baseMockGroup))
+        .mockResolvedValueOnce(found(invitationFor(null)));
+    });
+
+    it('should add the new user as a participant, recording the invitation', async () => {
+      await joinGroupAsNewParticipant(baseMockGroup.gid, mockUser, 'token-1');
+
+      const payload = mockTransaction.update.mock.calls.find(([, data]) => data.participants)![1];
+
       expect(payload.participants.length).toBe(4);
-      expect(payload.participants[3].uid).toBe(mockUser.uid);
+      expect(payload.participants[3]).toMatchObject({ uid: mockUser.uid, invitationId: 'token-1' });
+      expect(payload.turnOrder).toEqual([...baseMockGroup.turnOrder, 'mock-uuid-123']);
       expect(payload.participantUids).toEqual({ 'user-admin': true, 'user-member': true, [mockUser.uid]: true });
+      expect(Object.keys(payload).sort()).toEqual(['participantUids', 'participants', 'turnOrder']);
+      expect(mockTransaction.set).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          type: 'MEMBER_JOINED',
+          participantName: 'New User',
+          _participantUids: payload.participantUids,
+        }),
+      );
+    });
+
+    it('should neither write nor log when the user is already a member', async () => {
+      await joinGroupAsNewParticipant(baseMockGroup.gid, mockAdmin, 'token-1');
+
+      expect(mockTransaction.update).not.toHaveBeenCalled();
+      expect(mockTransaction.set).not.toHaveBeenCalled();
+    });
+
+    it('should count a use of the invitation the user joined with', async () => {
+      await joinGroupAsNewParticipant(baseMockGroup.gid, mockUser, 'token-1');
+
+      expect(mockTransaction.update).toHaveBeenCalledWith(expect.anything(), { useCount: 1 });
+      expect(mockTransaction.update).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refuse a revoked invitation without joining', async () => {
+      mockTransaction.get
+        .mockReset()
+        .mockResolvedValueOnce(found(baseMockGroup))
+        .mockResolvedValueOnce(found({ ...invitationFor(null), revoked: true }));
+
+      await expect(joinGroupAsNewParticipant(baseMockGroup.gid, mockUser, 'token-1')).rejects.toThrow(/revoked/);
+      expect(mockTransaction.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a token that does not exist without joining', async () => {
+      mockTransaction.get.mockReset().mockResolvedValueOnce(found(baseMockGroup)).mockResolvedValueOnce(missing);
+
+      await expect(joinGroupAsNewParticipant(baseMockGroup.gid, mockUser, 'token-x')).rejects.toThrow(/not valid/);
+      expect(mockTransaction.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to add anyone directly to a group that requires approval', async () => {
+      mockTransaction.get
+        .mockReset()
+        .mockResolvedValueOnce(found({ ...baseMockGroup, requireApproval: true }))
+        .mockResolvedValueOnce(found(invitationFor(null)));
+
+      await expect(joinGroupAsNewParticipant(baseMockGroup.gid, mockUser, 'token-1')).rejects.toThrow(/approve/);
+      expect(mockTransaction.update).not.toHaveBeenCalled();
     });
   });
 
-  describe('claimPlaceholder', () => {
-    it('should update the placeholder with the new user`s info', async () => {
-      await claimPlaceholder(baseMockGroup.gid, 'p-placeholder', mockUser);
-      
+  describe('join requests', () => {
+    const approvalGroup = { ...baseMockGroup, requireApproval: true };
+
+    it('should file a request under the user\'s UID, redeeming the invitation', async () => {
+      mockTransaction.get
+        .mockResolvedValueOnce(found(approvalGroup))
+        .mockResolvedValueOnce(missing)
+        .mockResolvedValueOnce(found(invitationFor(null)));
+
+      await requestToJoinGroup(baseMockGroup.gid, mockUser, 'token-1');
+
+      expect(mockDoc).toHaveBeenCalledWith(expect.anything(), 'groups', 'group-1', 'joinRequests', mockUser.uid);
+      expect(mockTransaction.set).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ uid: mockUser.uid, displayName: 'New User', invitationId: 'token-1' }),
+      );
       expect(mockTransaction.update).toHaveBeenCalledTimes(1);
+      expect(mockTransaction.update).toHaveBeenCalledWith(expect.anything(), { useCount: 1 });
+    });
+
+    it('should refuse to file a request with an expired invitation', async () => {
+      mockTransaction.get
+        .mockResolvedValueOnce(found(approvalGroup))
+        .mockResolvedValueOnce(missing)
+        .mockResolvedValueOnce(found({ ...invitationFor(null), expiresAt: 1 }));
+
+      await expect(requestToJoinGroup(baseMockGroup.gid, mockUser, 'token-1')).rejects.toThrow(/expired/);
+      expect(mockTransaction.set).not.toHaveBeenCalled();
+    });
+
+    it('should not file a second request while one is pending', async () => {
+      mockTransaction.get
+        .mockResolvedValueOnce(found(approvalGroup))
+        .mockResolvedValueOnce({ exists: () => true })
+        .mockResolvedValueOnce(found(invitationFor(null)));
+
+      await requestToJoinGroup(baseMockGroup.gid, mockUser, 'token-1');
+
+      expect(mockTransaction.set).not.toHaveBeenCalled();
+      expect(mockTransaction.update).not.toHaveBeenCalled();
+    });
+
+    it('should add the requester, log it as the approving admin, and remove the request', async () => {
+      mockTransaction.get
+        .mockResolvedValueOnce(found(approvalGroup))
+        .mockResolvedValueOnce(found({ uid: mockUser.uid, displayName: 'New User', requestedAt: 1, invitationId: 'token-1' }));
+
+      await approveJoinRequest(baseMockGroup.gid, mockUser.uid, mockAdmin);
+
       const payload = mockTransaction.update.mock.calls[0][1];
+      expect(payload.participantUids[mockUser.uid]).toBe(true);
+      expect(payload.participants[3].invitationId).toBe('token-1');
+      expect(mockTransaction.set).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ type: 'MEMBER_JOINED', participantName: 'New User', actorUid: mockAdmin.uid }),
+      );
+      expect(mockTransaction.delete).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail when the request has already been answered', async () => {
+      mockTransaction.get
+        .mockResolvedValueOnce(found(approvalGroup))
+        .mockResolvedValueOnce(missing);
+
+      await expect(approveJoinRequest(baseMockGroup.gid, mockUser.uid, mockAdmin)).rejects.toThrow(/not found/);
+      expect(mockTransaction.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('claimPlaceholder', () => {
+    it('should update the placeholder with the new user`s info and the invitation', async () => {
+      mockTransaction.get
+        .mockResolvedValueOnce(found(structuredClone(baseMockGroup)))
+        .mockResolvedValueOnce(found(invitationFor('p-placeholder')));
+
+      await claimPlaceholder(baseMockGroup.gid, 'p-placeholder', mockUser, 'token-1');
+
+      expect(mockTransaction.update).toHaveBeenCalledTimes(2);
+      const payload = mockTransaction.update.mock.calls.find(([, data]) => data.participants)![1];
       const claimedSlot = payload.participants.find((p: any) => p.id === 'p-placeholder');
-      
+
       expect(claimedSlot.uid).toBe(mockUser.uid);
       expect(claimedSlot.nickname).toBe(mockUser.displayName);
+      expect(claimedSlot.invitationId).toBe('token-1');
       expect(payload.participantUids).toEqual({ 'user-admin': true, 'user-member': true, [mockUser.uid]: true });
+      expect(mockTransaction.set).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          type: 'PLACEHOLDER_CLAIMED',
+          participantId: 'p-placeholder',
+          participantName: 'New User',
+          placeholderName: 'Placeholder',
+        }),
+      );
+    });
+
+    it('should refuse a generic invitation for claiming a slot', async () => {
+      mockTransaction.get
+        .mockResolvedValueOnce(found(structuredClone(baseMockGroup)))
+        .mockResolvedValueOnce(found(invitationFor(null)));
+
+      await expect(claimPlaceholder(baseMockGroup.gid, 'p-placeholder', mockUser, 'token-1')).rejects.toThrow(/not valid/);
+      expect(mockTransaction.update).not.toHaveBeenCalled();
     });
   });
-});
\ No newline at end of file
+});
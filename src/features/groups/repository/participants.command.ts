@@ -1,12 +1,23 @@
 /**
  * @file packages/whoseturnnow/src/features/groups/repository/participants.command.ts
- * @stamp {"ts":"2025-10-23T09:55:00Z"}
+ * @stamp {"ts":"2026-10-19T16:10:00Z"}
  * @architectural-role Data Repository (Command)
  * @description
  * Encapsulates all write-only and transactional Firestore interactions for
  * managing a group's participants and membership. This includes adding,
 
- * removing, updating roles, and handling join/leave logic.
+ * removing, updating roles, and handling join/leave logic. Roster changes are
+ * mirrored into every additional queue so all queues share one roster. Every
+ * membership change, and every change to a participant's weight or away
+ * status, writes its audit entry to the turn log in the same transaction as
+ * the change itself. A participant's weight and away status may only be
+ * changed by that participant or an admin. Joining or claiming always requires an
+ * invitation, whose token is redeemed in the same transaction and recorded on
+ * the joiner's participant entry, so the security rules can check that a
+ * used-up, expired or revoked invitation never adds anyone. In a group that
+ * requires approval, a generic invite only files a join request, and the user
+ * is added when an admin approves it. Joining never touches the additional
+ * queues, which pick up new members when they are next projected.
  * @core-principles
  * 1. OWNS all write I/O logic for participant and membership management.
  * 2. MUST NOT contain any functions that only read or subscribe to data.
@@ -15,10 +26,15 @@
  * @api-declaration
  *   - addManagedParticipant: Adds a new placeholder participant.
  *   - updateParticipantRole: Changes a participant's role.
+ *   - updateParticipantWeight: Changes a participant's weighted-rotation share.
+ *   - setParticipantAway: Marks a participant as away until a date, or back.
  *   - removeParticipant: Removes a participant from a group.
  *   - leaveGroup: Allows a user to remove themselves from a group.
- *   - joinGroupAsNewParticipant: Adds a new user to a group.
- *   - claimPlaceholder: Allows a user to take over a placeholder slot.
+ *   - joinGroupAsNewParticipant: Adds a new user to a group, redeeming an invitation.
+ *   - claimPlaceholder: Allows a user to take over a placeholder slot, redeeming an invitation.
+ *   - requestToJoinGroup: Asks to join a group that requires approval, redeeming an invitation.
+ *   - approveJoinRequest: Adds the requester to the group and removes their request.
+ *   - rejectJoinRequest: Removes a join request without adding the requester.
  * @contract
  *   assertions:
  *     purity: mutates
@@ -26,22 +42,136 @@
  *     external_io: firestore
  */
 
-import { doc, runTransaction, getDoc } from 'firebase/firestore';
+import {
+  collection,
+  doc,
+  runTransaction,
+  getDoc,
+  deleteDoc,
+  serverTimestamp,
+  type DocumentReference,
+  type Transaction,
+} from 'firebase/firestore';
 import { v4 as uuidv4 } from 'uuid';
 import { db } from '../../../lib/firebase';
 import type { AppUser } from '../../auth/useAuthStore';
-import type { Group, TurnParticipant } from '../../../types/group';
+import type {
+  AwayChangedLog,
+  Group,
+  Invitation,
+  JoinRequest,
+  MemberJoinedLog,
+  MemberLeftLog,
+  ParticipantAddedLog,
+  ParticipantRemovedLog,
+  PlaceholderClaimedLog,
+  RoleChangedLog,
+  TurnParticipant,
+  WeightChangedLog,
+} from '../../../types/group';
 import { _deriveUids } from './_utils';
 import { logger } from '../../../shared/utils/debug';
+import {
+  addParticipantToQueues,
+  removeParticipantFromQueues,
+} from '../utils/queues';
+import { deferAwayParticipants } from '../utils/rotation';
+import { getInvitationProblem } from '../utils/invitations';
+
+interface InvitationRead {
+  ref: DocumentReference;
+  invitation: Invitation | null;
+}
+
+/**
+ * Reads an invitation inside a transaction, ahead of any of its writes.
+ * @returns The invitation, or `null` if the token was not found, and its reference.
+ */
+async function readInvitation(
+  transaction: Transaction,
+  groupId: string,
+  invitationId: string,
+): Promise<InvitationRead> {
+  const ref = doc(db, 'groups', groupId, 'invitations', invitationId);
+  const invitationDoc = await transaction.get(ref);
+  return { ref, invitation: invitationDoc.exists() ? (invitationDoc.data() as Invitation) : null };
+}
+
+/**
+ * Counts one use of an invitation read earlier in the transaction, or throws
+ * if it can no longer be redeemed for the given slot.
+ */
+function redeemInvitation(
+  transaction: Transaction,
+  { ref, invitation }: InvitationRead,
+  link: { groupId: string; participantId: string | null },
+): void {
+  const problem = getInvitationProblem(invitation, link, Date.now());
+  if (problem || !invitation) {
+    throw new Error(problem ?? 'This invitation link is not valid.');
+  }
+  transaction.update(ref, { useCount: invitation.useCount + 1 });
+}
+
+/**
+ * Appends a user to a group as a new member, at the end of the main queue, and
+ * logs that they joined. The group MUST have been read in the same transaction.
+ * Only the fields the security rules allow a self-join to change are written;
+ * additional queues add the member when they are projected.
+ * @param member The user joining, the name they join under and the invitation
+ *               they followed.
+ * @param actor The user who let them in: themselves, or the admin approving them.
+ */
+function addMember(
+  transaction: Transaction,
+  groupId: string,
+  group: Group,
+  member: { uid: string; nickname: string; invitationId: string },
+  actor: { uid: string; name: string },
+): void {
+  const newParticipant: TurnParticipant = {
+    id: uuidv4(),
+    uid: member.uid,
+    nickname: member.nickname,
+    role: 'member',
+    turnCount: 0,
+    invitationId: member.invitationId,
+  };
+
+  const newParticipants = [...group.participants, newParticipant];
+  const newTurnOrder = [...group.turnOrder, newParticipant.id];
+  const { participantUids, adminUids } = _deriveUids(newParticipants);
+
+  transaction.update(doc(db, 'groups', groupId), {
+    participants: newParticipants,
+    turnOrder: newTurnOrder,
+    participantUids,
+  });
+
+  const newLogRef = doc(collection(db, 'groups', groupId, 'turnLog'));
+  const newLogEntry: MemberJoinedLog = {
+    type: 'MEMBER_JOINED',
+    completedAt: serverTimestamp(),
+    participantId: newParticipant.id,
+    participantName: member.nickname,
+    actorUid: actor.uid,
+    actorName: actor.name,
+    _participantUids: participantUids,
+    _adminUids: adminUids,
+  };
+  transaction.set(newLogRef, newLogEntry);
+}
 
 /**
  * Adds a new "Managed Participant" (a placeholder without a user account) to a group.
  * @param groupId The ID of the group to modify.
  * @param participantName The name for the new placeholder.
+ * @param actor The admin adding the placeholder.
  */
 export async function addManagedParticipant(
   groupId: string,
   participantName: string,
+  actor: AppUser,
 ): Promise<void> {
   const groupDocRef = doc(db, 'groups', groupId);
 
@@ -71,7 +201,23 @@ export async function addManagedParticipant(
       turnOrder: newTurnOrder,
       participantUids,
       adminUids,
+      ...(groupData.queues && {
+        queues: addParticipantToQueues(groupData.queues, participantId),
+      }),
     });
+
+    const newLogRef = doc(collection(db, 'groups', groupId, 'turnLog'));
+    const newLogEntry: ParticipantAddedLog = {
+      type: 'PARTICIPANT_ADDED',
+      completedAt: serverTimestamp(),
+      participantId,
+      participantName,
+      actorUid: actor.uid,
+      actorName: actor.displayName || 'Unknown Actor',
+      _participantUids: participantUids,
+      _adminUids: adminUids,
+    };
+    transaction.set(newLogRef, newLogEntry);
   });
 }
 
@@ -80,11 +226,13 @@ export async function addManagedParticipant(
  * @param groupId The ID of the group to modify.
  * @param participantId The ID of the participant whose role is changing.
  * @param newRole The new role to assign ('admin' or 'member').
+ * @param actor The admin changing the role.
  */
 export async function updateParticipantRole(
   groupId: string,
   participantId: string,
   newRole: 'admin' | 'member',
+  actor: AppUser,
 ): Promise<void> {
   const groupDocRef = doc(db, 'groups', groupId);
 
@@ -94,6 +242,11 @@ export async function updateParticipantRole(
       throw new Error('Group does not exist!');
     }
     const group = groupDoc.data() as Group;
+    const participant = group.participants.find((p) => p.id === participantId);
+    if (!participant) {
+      throw new Error('Participant not found.');
+    }
+    if (participant.role === newRole) return;
 
     const newParticipants = group.participants.map((p) =>
       p.id === participantId ? { ...p, role: newRole } : p,
@@ -106,17 +259,163 @@ export async function updateParticipantRole(
       participantUids,
       adminUids,
     });
+
+    const newLogRef = doc(collection(db, 'groups', groupId, 'turnLog'));
+    const newLogEntry: RoleChangedLog = {
+      type: 'ROLE_CHANGED',
+      completedAt: serverTimestamp(),
+      participantId,
+      participantName: participant.nickname || 'Unknown',
+      previousRole: participant.role,
+      newRole,
+      actorUid: actor.uid,
+      actorName: actor.displayName || 'Unknown Actor',
+      _participantUids: participantUids,
+      _adminUids: adminUids,
+    };
+    transaction.set(newLogRef, newLogEntry);
+  });
+}
+
+/**
+ * Finds the participant whose own settings are changing, checking that the
+ * actor is that participant or an admin.
+ */
+function findOwnOrAdministeredParticipant(
+  group: Group,
+  participantId: string,
+  actor: AppUser,
+): TurnParticipant {
+  const participant = group.participants.find((p) => p.id === participantId);
+  if (!participant) {
+    throw new Error('Participant not found.');
+  }
+  if (participant.uid !== actor.uid && !group.adminUids[actor.uid]) {
+    throw new Error('Only the participant or an admin can change this.');
+  }
+  return participant;
+}
+
+/**
+ * Updates the weight of a specific participant, used by the `weighted`
+ * rotation strategy, and logs a `WEIGHT_CHANGED` entry.
+ * @param groupId The ID of the group to modify.
+ * @param participantId The ID of the participant whose weight is changing.
+ * @param weight The new, positive weight.
+ * @param actor The user changing the weight. MUST be the participant or an admin.
+ */
+export async function updateParticipantWeight(
+  groupId: string,
+  participantId: string,
+  weight: number,
+  actor: AppUser,
+): Promise<void> {
+  if (!(weight > 0)) {
+    throw new Error('Weight must be a positive number.');
+  }
+  const groupDocRef = doc(db, 'groups', groupId);
+
+  await runTransaction(db, async (transaction) => {
+    const groupDoc = await transaction.get(groupDocRef);
+    if (!groupDoc.exists()) {
+      throw new Error('Group does not exist!');
+    }
+    const group = groupDoc.data() as Group;
+    const participant = findOwnOrAdministeredParticipant(group, participantId, actor);
+    const previousWeight = participant.weight ?? 1;
+    if (previousWeight === weight) return;
+
+    const newParticipants = group.participants.map((p) =>
+      p.id === participantId ? { ...p, weight } : p,
+    );
+
+    transaction.update(groupDocRef, { participants: newParticipants });
+
+    const newLogRef = doc(collection(db, 'groups', groupId, 'turnLog'));
+    const newLogEntry: WeightChangedLog = {
+      type: 'WEIGHT_CHANGED',
+      completedAt: serverTimestamp(),
+      participantId,
+      participantName: participant.nickname || 'Unknown',
+      previousWeight,
+      newWeight: weight,
+      actorUid: actor.uid,
+      actorName: actor.displayName || 'Unknown Actor',
+      _participantUids: group.participantUids,
+      _adminUids: group.adminUids,
+    };
+    transaction.set(newLogRef, newLogEntry);
+  });
+}
+
+/**
+ * Marks a participant as away until the given time, or as back if `null`, and
+ * logs an `AWAY_CHANGED` entry. Every queue is re-ordered at once so an away
+ * participant is never shown as "up next"; no skip entries are logged.
+ * @param groupId The ID of the group to modify.
+ * @param participantId The ID of the participant whose status is changing.
+ * @param awayUntil The time (epoch milliseconds) the participant returns, or `null`.
+ * @param actor The user changing the status. MUST be the participant or an admin.
+ */
+export async function setParticipantAway(
+  groupId: string,
+  participantId: string,
+  awayUntil: number | null,
+  actor: AppUser,
+): Promise<void> {
+  const groupDocRef = doc(db, 'groups', groupId);
+
+  await runTransaction(db, async (transaction) => {
+    const groupDoc = await transaction.get(groupDocRef);
+    if (!groupDoc.exists()) {
+      throw new Error('Group does not exist!');
+    }
+    const group = groupDoc.data() as Group;
+    const participant = findOwnOrAdministeredParticipant(group, participantId, actor);
+
+    const newParticipants = group.participants.map((p) =>
+      p.id === participantId ? { ...p, awayUntil } : p,
+    );
+    const now = Date.now();
+
+    transaction.update(groupDocRef, {
+      participants: newParticipants,
+      turnOrder: deferAwayParticipants(group.turnOrder, newParticipants, now),
+      ...(group.queues && {
+        queues: group.queues.map((q) => ({
+          ...q,
+          turnOrder: deferAwayParticipants(q.turnOrder, newParticipants, now),
+        })),
+      }),
+    });
+
+    const newLogRef = doc(collection(db, 'groups', groupId, 'turnLog'));
+    const newLogEntry: AwayChangedLog = {
+      type: 'AWAY_CHANGED',
+      completedAt: serverTimestamp(),
+      participantId,
+      participantName: participant.nickname || 'Unknown',
+      awayUntil,
+      actorUid: actor.uid,
+      actorName: actor.displayName || 'Unknown Actor',
+      _participantUids: group.participantUids,
+      _adminUids: group.adminUids,
+    };
+    transaction.set(newLogRef, newLogEntry);
   });
 }
 
 /**
- * Removes a participant from a group entirely.
+ * Removes a participant from a group entirely. A user removing their own
+ * participant is logged as leaving rather than as a removal.
  * @param groupId The ID of the group to modify.
  * @param participantId The ID of the participant to remove.
+ * @param actor The user performing the removal.
  */
 export async function removeParticipant(
   groupId: string,
   participantId: string,
+  actor: AppUser,
 ): Promise<void> {
   const groupDocRef = doc(db, 'groups', groupId);
 
@@ -126,6 +425,8 @@ export async function removeParticipant(
       throw new Error('Group does not exist!');
     }
     const group = groupDoc.data() as Group;
+    const participant = group.participants.find((p) => p.id === participantId);
+    if (!participant) return;
 
     const newParticipants = group.participants.filter(
       (p) => p.id !== participantId,
@@ -139,27 +440,48 @@ export async function removeParticipant(
       turnOrder: newTurnOrder,
       participantUids,
       adminUids,
+      ...(group.queues && {
+        queues: removeParticipantFromQueues(group.queues, participantId),
+      }),
+      ...(group.swapRequests && {
+        swapRequests: group.swapRequests.filter(
+          (r) => r.fromParticipantId !== participantId && r.toParticipantId !== participantId,
+        ),
+      }),
     });
+
+    const newLogRef = doc(collection(db, 'groups', groupId, 'turnLog'));
+    const newLogEntry: ParticipantRemovedLog | MemberLeftLog = {
+      type: participant.uid === actor.uid ? 'MEMBER_LEFT' : 'PARTICIPANT_REMOVED',
+      completedAt: serverTimestamp(),
+      participantId,
+      participantName: participant.nickname || 'Unknown',
+      actorUid: actor.uid,
+      actorName: actor.displayName || 'Unknown Actor',
+      _participantUids: participantUids,
+      _adminUids: adminUids,
+    };
+    transaction.set(newLogRef, newLogEntry);
   });
 }
 
 /**
  * Allows a user to leave a group by removing their own participant entry.
  * @param groupId The ID of the group to leave.
- * @param userId The UID of the user who is leaving.
+ * @param user The user who is leaving.
  */
 export async function leaveGroup(
   groupId: string,
-  userId: string,
+  user: AppUser,
 ): Promise<void> {
   const groupDocRef = doc(db, 'groups', groupId);
   const groupSnap = await getDoc(groupDocRef);
   if (!groupSnap.exists()) return;
 
   const group = groupSnap.data() as Group;
-  const participant = group.participants.find((p) => p.uid === userId);
+  const participant = group.participants.find((p) => p.uid === user.uid);
   if (participant) {
-    await removeParticipant(groupId, participant.id);
+    await removeParticipant(groupId, participant.id, user);
   }
 }
 
@@ -167,10 +489,13 @@ export async function leaveGroup(
  * Adds a new, authenticated user as a new participant to a group.
  * @param groupId The group to join.
  * @param user The user who is joining.
+ * @param invitationId The token of the invitation being followed. It is
+ *                     checked and counted as used in the same transaction.
  */
 export async function joinGroupAsNewParticipant(
   groupId: string,
   user: AppUser,
+  invitationId: string,
 ): Promise<void> {
   const groupDocRef = doc(db, 'groups', groupId);
 
@@ -180,30 +505,25 @@ export async function joinGroupAsNewParticipant(
       throw new Error('Group does not exist!');
     }
     const group = groupDoc.data() as Group;
+    const invitationRead = await readInvitation(transaction, groupId, invitationId);
 
     if (group.participantUids[user.uid]) {
       logger.log('User is already in this group.');
       return;
     }
-
-    const newParticipant: TurnParticipant = {
-      id: uuidv4(),
-      uid: user.uid,
-      nickname: user.displayName || 'New User',
-      role: 'member',
-      turnCount: 0,
-    };
-
-    const newParticipants = [...group.participants, newParticipant];
-    const newTurnOrder = [...group.turnOrder, newParticipant.id];
-    const { participantUids, adminUids } = _deriveUids(newParticipants);
-
-    transaction.update(groupDocRef, {
-      participants: newParticipants,
-      turnOrder: newTurnOrder,
-      participantUids,
-      adminUids,
-    });
+    if (group.requireApproval) {
+      throw new Error('An admin must approve new members of this group.');
+    }
+    redeemInvitation(transaction, invitationRead, { groupId, participantId: null });
+
+    const nickname = user.displayName || 'New User';
+    addMember(
+      transaction,
+      groupId,
+      group,
+      { uid: user.uid, nickname, invitationId },
+      { uid: user.uid, name: nickname },
+    );
   });
 }
 
@@ -212,11 +532,14 @@ export async function joinGroupAsNewParticipant(
  * @param groupId The group containing the placeholder.
  * @param participantId The ID of the placeholder slot to claim.
  * @param user The user claiming the slot.
+ * @param invitationId The token of the invitation being followed. It is
+ *                     checked and counted as used in the same transaction.
  */
 export async function claimPlaceholder(
   groupId: string,
   participantId: string,
   user: AppUser,
+  invitationId: string,
 ): Promise<void> {
   const groupDocRef = doc(db, 'groups', groupId);
   await runTransaction(db, async (transaction) => {
@@ -226,6 +549,7 @@ export async function claimPlaceholder(
     }
 
     const group = groupDoc.data() as Group;
+    const invitationRead = await readInvitation(transaction, groupId, invitationId);
     const participantIndex = group.participants.findIndex(
       (p) => p.id === participantId,
     );
@@ -236,14 +560,19 @@ export async function claimPlaceholder(
     if (group.participants[participantIndex].uid !== null) {
       throw new Error('This participant slot has already been claimed.');
     }
+    redeemInvitation(transaction, invitationRead, { groupId, participantId });
+
+    const placeholderName = group.participants[participantIndex].nickname || 'Unknown';
+    const claimedName = user.displayName || 'New Member';
 
     // --- THIS IS THE FIX ---
     // Update the participant's UID to link the account.
     group.participants[participantIndex].uid = user.uid;
     // Overwrite the placeholder nickname with the user's global displayName,
     // providing a fallback to satisfy the type system.
-    group.participants[participantIndex].nickname = user.displayName || 'New Member';
+    group.participants[participantIndex].nickname = claimedName;
     // --- END FIX ---
+    group.participants[participantIndex].invitationId = invitationId;
     
     const { participantUids, adminUids } = _deriveUids(group.participants);
 
@@ -252,6 +581,110 @@ export async function claimPlaceholder(
       participantUids,
       adminUids,
     });
+
+    const newLogRef = doc(collection(db, 'groups', groupId, 'turnLog'));
+    const newLogEntry: PlaceholderClaimedLog = {
+      type: 'PLACEHOLDER_CLAIMED',
+      completedAt: serverTimestamp(),
+      participantId,
+      participantName: claimedName,
+      placeholderName,
+      actorUid: user.uid,
+      actorName: claimedName,
+      _participantUids: participantUids,
+      _adminUids: adminUids,
+    };
+    transaction.set(newLogRef, newLogEntry);
+  });
+}
+
+/**
+ * Asks to join a group that requires an admin's approval. The request is
+ * stored under the user's UID, so asking again while one is pending changes
+ * nothing and does not use the invitation again.
+ * @param groupId The group to ask to join.
+ * @param user The user asking to join.
+ * @param invitationId The token of the invitation being followed. It is
+ *                     checked and counted as used in the same transaction.
+ */
+export async function requestToJoinGroup(
+  groupId: string,
+  user: AppUser,
+  invitationId: string,
+): Promise<void> {
+  const groupDocRef = doc(db, 'groups', groupId);
+  const requestDocRef = doc(db, 'groups', groupId, 'joinRequests', user.uid);
+
+  await runTransaction(db, async (transaction) => {
+    const groupDoc = await transaction.get(groupDocRef);
+    if (!groupDoc.exists()) {
+      throw new Error('Group does not exist!');
+    }
+    const group = groupDoc.data() as Group;
+    const requestDoc = await transaction.get(requestDocRef);
+    const invitationRead = await readInvitation(transaction, groupId, invitationId);
+
+    if (group.participantUids[user.uid] || requestDoc.exists()) {
+      logger.log('User is already in this group or waiting to join it.');
+      return;
+    }
+    redeemInvitation(transaction, invitationRead, { groupId, participantId: null });
+
+    const request: JoinRequest = {
+      uid: user.uid,
+      displayName: user.displayName || 'New User',
+      requestedAt: Date.now(),
+      invitationId,
+    };
+    transaction.set(requestDocRef, request);
+  });
+}
+
+/**
+ * Atomically approves a join request: the requester is added to the group as
+ * a new member and their request is removed.
+ * @param groupId The group the request is for.
+ * @param requesterUid The UID of the user who asked to join.
+ * @param actor The admin approving the request.
+ */
+export async function approveJoinRequest(
+  groupId: string,
+  requesterUid: string,
+  actor: AppUser,
+): Promise<void> {
+  const groupDocRef = doc(db, 'groups', groupId);
+  const requestDocRef = doc(db, 'groups', groupId, 'joinRequests', requesterUid);
+
+  await runTransaction(db, async (transaction) => {
+    const groupDoc = await transaction.get(groupDocRef);
+    if (!groupDoc.exists()) {
+      throw new Error('Group does not exist!');
+    }
+    const group = groupDoc.data() as Group;
+    const requestDoc = await transaction.get(requestDocRef);
+    if (!requestDoc.exists()) {
+      throw new Error('Join request not found. It may have been withdrawn.');
+    }
+    const request = requestDoc.data() as JoinRequest;
+
+    if (!group.participantUids[requesterUid]) {
+      addMember(
+        transaction,
+        groupId,
+        group,
+        { uid: requesterUid, nickname: request.displayName, invitationId: request.invitationId },
+        { uid: actor.uid, name: actor.displayName || 'Unknown Actor' },
+      );
+    }
+    transaction.delete(requestDocRef);
   });
 }
 
+/**
+ * Rejects a join request, or withdraws it when called by the requester.
+ * @param groupId The group the request is for.
+ * @param requesterUid The UID of the user who asked to join.
+ */
+export async function rejectJoinRequest(groupId: string, requesterUid: string): Promise<void> {
+  await deleteDoc(doc(db, 'groups', groupId, 'joinRequests', requesterUid));
+}
@@ -0,0 +1,180 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/repository/swaps.command.spec.ts
+ * @stamp {"ts":"2026-10-19T15:30:00Z"}
+ * @test-target packages/whoseturnnow/src/features/groups/repository/swaps.command.ts
+ *
+ * @description
+ * Verifies the transactional integrity of the swap request lifecycle:
+ * proposing a swap, accepting it (trading positions and logging), and
+ * declining it.
+ *
+ * @criticality
+ * Critical (Reason: Core Business Logic Orchestration, I/O & Concurrency Management)
+ *
+ * @testing-layer Integration
+ *
+ * @contract
+ *   assertions:
+ *     purity: read-only # This test file asserts on the state of mocked modules.
+ *     state_ownership: none
+ *     external_io: none # Mocks MUST prevent any actual I/O.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { doc, runTransaction, serverTimestamp } from 'firebase/firestore';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  requestSwap,
+  acceptSwapRequest,
+  declineSwapRequest,
+} from './swaps.command';
+import type { AppUser } from '../../auth/useAuthStore';
+import type { Group } from '../../../types/group';
+
+// --- Mocks & Test Setup ---
+const mockRunTransaction = vi.mocked(runTransaction);
+const mockServerTimestamp = vi.mocked(serverTimestamp);
+const mockDoc = vi.mocked(doc);
+const mockUuidv4 = vi.mocked(uuidv4);
+
+const mockTransaction = {
+  get: vi.fn(),
+  update: vi.fn(),
+  set: vi.fn(),
+  delete: vi.fn(),
+};
+
+const alice: AppUser = { uid: 'user-alice', displayName: 'Alice', isAnonymous: false };
+const bob: AppUser = { uid: 'user-bob', displayName: 'Bob', isAnonymous: false };
+const carol: AppUser = { uid: 'user-carol', displayName: 'Carol', isAnonymous: false };
+
+const mockGroup: Group = {
+  gid: 'group-1',
+  name: 'Test Group',
+  icon: '🧪',
+  ownerUid: 'owner',
+  participants: [
+    { id: 'p-alice', uid: 'user-alice', role: 'member', turnCount: 5, nickname: 'Alice' },
+    { id: 'p-bob', uid: 'user-bob', role: 'member', turnCount: 4, nickname: 'Bob' },
+    { id: 'p-carol', uid: 'user-carol', role: 'member', turnCount: 3, nickname: 'Carol' },
+  ],
+  turnOrder: ['p-alice', 'p-bob', 'p-carol'],
+  participantUids: { 'user-alice': true, 'user-bob': true, 'user-carol': true },
+  adminUids: {},
+  swapRequests: [
+    {
+      id: 'swap-1',
+      fromParticipantId: 'p-alice',
+      toParticipantId: 'p-carol',
+      queueId: 'main',
+      requestedByUid: 'user-alice',
+      _fromParticipantIndex: 0,
+      requestedAt: 0,
+    },
+  ],
+};
+
+describe('swaps.command', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRunTransaction.mockImplementation(async (_db, updateFunction) => {
+      await updateFunction(mockTransaction as any);
+    });
+    mockTransaction.get.mockResolvedValue({
+      exists: () => true,
+      data: () => mockGroup,
+    });
+    mockServerTimestamp.mockReturnValue('mock-timestamp' as any);
+    mockDoc.mockReturnValue({ id: 'mock-doc-ref' } as any);
+    mockUuidv4.mockReturnValue('swap-new' as any);
+  });
+
+  describe('requestSwap', () => {
+    it('should append a new pending request', async () => {
+      // ACT
+      const requestId = await requestSwap(mockGroup.gid, bob, 'p-bob', 'p-alice');
+
+      // ASSERT
+      expect(requestId).toBe('swap-new');
+      const payload = mockTransaction.update.mock.calls[0][1];
+      expect(payload.swapRequests).toHaveLength(2);
+      expect(payload.swapRequests[1]).toMatchObject({
+        id: 'swap-new',
+        fromParticipantId: 'p-bob',
+        toParticipantId: 'p-alice',
+        queueId: 'main',
+        requestedByUid: 'user-bob',
+        _fromParticipantIndex: 1,
+      });
+    });
+
+    it('should not let a member propose a swap for someone else`s place', async () => {
+      await expect(
+        requestSwap(mockGroup.gid, carol, 'p-bob', 'p-alice'),
+      ).rejects.toThrow('your own place');
+      expect(mockTransaction.update).not.toHaveBeenCalled();
+    });
+
+    it('should let an admin propose a swap on a participant`s behalf', async () => {
+      // ARRANGE
+      mockTransaction.get.mockResolvedValue({
+        exists: () => true,
+        data: () => ({ ...mockGroup, adminUids: { 'user-carol': true } }),
+      });
+
+      // ACT
+      await requestSwap(mockGroup.gid, carol, 'p-bob', 'p-alice');
+
+      // ASSERT
+      expect(mockTransaction.update.mock.calls[0][1].swapRequests[1]).toMatchObject({
+        fromParticipantId: 'p-bob',
+        requestedByUid: 'user-carol',
+      });
+    });
+
+    it('should reject a duplicate request', async () => {
+      await expect(
+        requestSwap(mockGroup.gid, alice, 'p-alice', 'p-carol'),
+      ).rejects.toThrow('already been requested');
+      expect(mockTransaction.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('acceptSwapRequest', () => {
+    it('should swap positions, remove the request, and create a TURN_SWAPPED log', async () => {
+      // ACT
+      await acceptSwapRequest(mockGroup.gid, carol, 'swap-1');
+
+      // ASSERT
+      const payload = mockTransaction.update.mock.calls[0][1];
+      expect(payload.turnOrder).toEqual(['p-carol', 'p-bob', 'p-alice']);
+      expect(payload.swapRequests).toEqual([]);
+
+      expect(mockTransaction.set).toHaveBeenCalledTimes(1);
+      const logPayload = mockTransaction.set.mock.calls[0][1];
+      expect(logPayload.type).toBe('TURN_SWAPPED');
+      expect(logPayload.fromParticipantName).toBe('Alice');
+      expect(logPayload.toParticipantName).toBe('Carol');
+      expect(logPayload.actorUid).toBe('user-carol');
+    });
+
+    it('should not let an uninvolved member accept the swap', async () => {
+      await expect(acceptSwapRequest(mockGroup.gid, bob, 'swap-1')).rejects.toThrow();
+      expect(mockTransaction.update).not.toHaveBeenCalled();
+      expect(mockTransaction.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('declineSwapRequest', () => {
+    it('should remove the request without touching the queue or the log', async () => {
+      // ACT
+      await declineSwapRequest(mockGroup.gid, carol, 'swap-1');
+
+      // ASSERT
+      expect(mockTransaction.update).toHaveBeenCalledWith(expect.anything(), {
+        swapRequests: [],
+      });
+      expect(mockTransaction.set).not.toHaveBeenCalled();
+    });
+  });
+});
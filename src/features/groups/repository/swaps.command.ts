@@ -0,0 +1,211 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/repository/swaps.command.ts
+ * @stamp {"ts":"2026-10-19T15:30:00Z"}
+ * @architectural-role Data Repository (Command)
+ * @description
+ * Encapsulates all transactional Firestore interactions for turn swap requests:
+ * proposing a swap between two participants, accepting it (which trades their
+ * queue positions and logs a `TURN_SWAPPED` entry), and declining or
+ * withdrawing it.
+ * @core-principles
+ * 1. OWNS all write I/O logic for the swap request lifecycle.
+ * 2. MUST use atomic transactions so a swap is applied to the queue state it was checked against.
+ * 3. MUST only let a participant (or an admin) propose a swap for their own slot.
+ * 4. MUST only let the participants involved (or an admin) answer a request.
+ * @api-declaration
+ *   - requestSwap: Proposes a swap between two participants.
+ *   - acceptSwapRequest: Atomically swaps the two participants' positions and logs it.
+ *   - declineSwapRequest: Removes a pending request without changing the queue.
+ * @contract
+ *   assertions:
+ *     purity: mutates
+ *     state_ownership: none
+ *     external_io: firestore
+ */
+
+import {
+  collection,
+  doc,
+  runTransaction,
+  serverTimestamp,
+} from 'firebase/firestore';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../../../lib/firebase';
+import type { AppUser } from '../../auth/useAuthStore';
+import type { Group, SwapRequest, TurnSwappedLog } from '../../../types/group';
+import { MAIN_QUEUE_ID, buildQueueUpdate, projectQueue } from '../utils/queues';
+import { captureUndoState } from '../utils/undo';
+
+/**
+ * Proposes a swap of queue positions between two participants.
+ * @param groupId The ID of the group.
+ * @param actor The user making the request. MUST own the proposing slot or be an admin.
+ * @param fromParticipantId The ID of the participant proposing the swap.
+ * @param toParticipantId The ID of the participant being asked.
+ * @param queueId The ID of the queue the swap applies to. Defaults to the main queue.
+ * @returns The ID of the new request.
+ */
+export async function requestSwap(
+  groupId: string,
+  actor: AppUser,
+  fromParticipantId: string,
+  toParticipantId: string,
+  queueId: string = MAIN_QUEUE_ID,
+): Promise<string> {
+  if (fromParticipantId === toParticipantId) {
+    throw new Error('A participant cannot swap with themselves.');
+  }
+  const groupDocRef = doc(db, 'groups', groupId);
+  const requestId = uuidv4();
+
+  await runTransaction(db, async (transaction) => {
+    const groupDoc = await transaction.get(groupDocRef);
+    if (!groupDoc.exists()) {
+      throw new Error(`Group with ID ${groupId} does not exist.`);
+    }
+    const groupData = groupDoc.data() as Group;
+
+    const fromIndex = groupData.participants.findIndex((p) => p.id === fromParticipantId);
+    if (fromIndex === -1 || !groupData.participants.some((p) => p.id === toParticipantId)) {
+      throw new Error('Both participants must belong to the group.');
+    }
+    if (groupData.participants[fromIndex].uid !== actor.uid && !groupData.adminUids[actor.uid]) {
+      throw new Error('You can only propose swaps for your own place in the queue.');
+    }
+
+    const existingRequests = groupData.swapRequests ?? [];
+    const isDuplicate = existingRequests.some(
+      (r) =>
+        r.queueId === queueId &&
+        r.fromParticipantId === fromParticipantId &&
+        r.toParticipantId === toParticipantId,
+    );
+    if (isDuplicate) {
+      throw new Error('This swap has already been requested.');
+    }
+
+    const newRequest: SwapRequest = {
+      id: requestId,
+      fromParticipantId,
+      toParticipantId,
+      queueId,
+      requestedByUid: actor.uid,
+      _fromParticipantIndex: fromIndex,
+      requestedAt: Date.now(),
+    };
+
+    transaction.update(groupDocRef, {
+      swapRequests: [...existingRequests, newRequest],
+    });
+  });
+
+  return requestId;
+}
+
+/**
+ * Atomically accepts a swap request. The two participants trade positions in
+ * the request's queue, the request is removed, and a `TURN_SWAPPED` log entry
+ * is created.
+ * @param groupId The ID of the group.
+ * @param actor The user accepting the request. MUST be the asked participant or an admin.
+ * @param requestId The ID of the request to accept.
+ */
+export async function acceptSwapRequest(
+  groupId: string,
+  actor: AppUser,
+  requestId: string,
+): Promise<void> {
+  const groupDocRef = doc(db, 'groups', groupId);
+
+  await runTransaction(db, async (transaction) => {
+    const groupDoc = await transaction.get(groupDocRef);
+    if (!groupDoc.exists()) {
+      throw new Error(`Group with ID ${groupId} does not exist.`);
+    }
+    const groupData = groupDoc.data() as Group;
+
+    const request = groupData.swapRequests?.find((r) => r.id === requestId);
+    if (!request) {
+      throw new Error('Swap request not found. It may have been withdrawn.');
+    }
+
+    const fromParticipant = groupData.participants.find((p) => p.id === request.fromParticipantId);
+    const toParticipant = groupData.participants.find((p) => p.id === request.toParticipantId);
+    if (!fromParticipant || !toParticipant) {
+      throw new Error('A participant in this swap is no longer in the group.');
+    }
+    if (toParticipant.uid !== actor.uid && !groupData.adminUids[actor.uid]) {
+      throw new Error('Only the participant being asked can accept this swap.');
+    }
+
+    const { turnOrder } = projectQueue(groupData, request.queueId);
+    const fromIndex = turnOrder.indexOf(fromParticipant.id);
+    const toIndex = turnOrder.indexOf(toParticipant.id);
+    if (fromIndex === -1 || toIndex === -1) {
+      throw new Error('A participant in this swap is not in the queue.');
+    }
+
+    const newTurnOrder = [...turnOrder];
+    newTurnOrder[fromIndex] = toParticipant.id;
+    newTurnOrder[toIndex] = fromParticipant.id;
+
+    transaction.update(groupDocRef, {
+      ...buildQueueUpdate(groupData, request.queueId, { turnOrder: newTurnOrder }),
+      swapRequests: (groupData.swapRequests ?? []).filter((r) => r.id !== requestId),
+    });
+
+    const newLogRef = doc(collection(db, 'groups', groupId, 'turnLog'));
+    const newLogEntry: TurnSwappedLog = {
+      type: 'TURN_SWAPPED',
+      completedAt: serverTimestamp(),
+      fromParticipantId: fromParticipant.id,
+      fromParticipantName: fromParticipant.nickname || 'Unknown',
+      toParticipantId: toParticipant.id,
+      toParticipantName: toParticipant.nickname || 'Unknown',
+      queueId: request.queueId,
+      actorUid: actor.uid,
+      actorName: actor.displayName || 'Unknown',
+      undoState: captureUndoState(groupData, [request.queueId]),
+      _participantUids: groupData.participantUids,
+      _adminUids: groupData.adminUids,
+    };
+    transaction.set(newLogRef, newLogEntry);
+  });
+}
+
+/**
+ * Removes a pending swap request without changing the queue. Used both for
+ * declining an incoming request and withdrawing an outgoing one.
+ * @param groupId The ID of the group.
+ * @param actor The user declining or withdrawing. MUST be one of the two participants or an admin.
+ * @param requestId The ID of the request to remove.
+ */
+export async function declineSwapRequest(
+  groupId: string,
+  actor: AppUser,
+  requestId: string,
+): Promise<void> {
+  const groupDocRef = doc(db, 'groups', groupId);
+
+  await runTransaction(db, async (transaction) => {
+    const groupDoc = await transaction.get(groupDocRef);
+    if (!groupDoc.exists()) {
+      throw new Error(`Group with ID ${groupId} does not exist.`);
+    }
+    const groupData = groupDoc.data() as Group;
+
+    const request = groupData.swapRequests?.find((r) => r.id === requestId);
+    if (!request) return;
+
+    const involvedUids = groupData.participants
+      .filter((p) => p.id === request.fromParticipantId || p.id === request.toParticipantId)
+      .map((p) => p.uid);
+    if (!involvedUids.includes(actor.uid) && !groupData.adminUids[actor.uid]) {
+      throw new Error('Only the participants involved can decline this swap.');
+    }
+
+    transaction.update(groupDocRef, {
+      swapRequests: (groupData.swapRequests ?? []).filter((r) => r.id !== requestId),
+    });
+  });
+}
@@ -22,12 +22,18 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { doc, runTransaction, serverTimestamp } from 'firebase/firestore';
 import {
+  startTurnTransaction,
   completeTurnTransaction,
   skipTurnTransaction,
-  undoTurnTransaction,
+  undoLogTransaction,
+  redoLogTransaction,
+  reorderQueue,
+  confirmTurnTransaction,
+  disputeTurnTransaction,
+  rejectTurnTransaction,
 } from './turns.command';
 import type { AppUser } from '../../auth/useAuthStore';
-import type { Group, TurnCompletedLog } from '../../../types/group';
+import type { Group, LogEntry, TurnCompletedLog, TurnUndoneLog } from '../../../types/group';
 
 // --- Mocks & Test Setup ---
 const mockRunTransaction = vi.mocked(runTransaction);
@@ -47,6 +53,17 @@ const mockActor: AppUser = {
   isAnonymous: false,
 };
 
+/**
+ * Makes the next two `transaction.get` calls return the group and then the log
+ * entry being acted on, in the order `undoLogTransaction` and the
+ * confirmation commands read them.
+ */
+const mockUndoReads = (group: Group, log: LogEntry) => {
+  mockTransaction.get
+    .mockResolvedValueOnce({ exists: () => true, data: () => group })
+    .mockResolvedValueOnce({ exists: () => true, data: () => log });
+};
+
 const mockGroup: Group = {
   gid: 'group-1',
   name: 'Test Group',
@@ -92,6 +109,144 @@ describe('turns.command', () => {
       const logPayload = mockTransaction.set.mock.calls[0][1];
       expect(logPayload.type).toBe('TURN_COMPLETED');
     });
+
+    it('should re-order the queue using the group`s rotation strategy', async () => {
+      // ARRANGE
+      const fewestTurnsGroup: Group = {
+        ...mockGroup,
+        participants: [
+          ...mockGroup.participants,
+          { id: 'p-carol', uid: null, role: 'member', turnCount: 1, nickname: 'Carol' },
+        ],
+        turnOrder: ['p-alice', 'p-bob', 'p-carol'],
+        rotationStrategy: 'fewest-turns',
+      };
+      mockTransaction.get.mockResolvedValue({
+        exists: () => true,
+        data: () => fewestTurnsGroup,
+      });
+
+      // ACT
+      await completeTurnTransaction(mockGroup.gid, mockActor, 'p-alice');
+
+      // ASSERT
+      const updatePayload = mockTransaction.update.mock.calls[0][1];
+      expect(updatePayload.turnOrder).toEqual(['p-carol', 'p-bob', 'p-alice']);
+    });
+
+    it('should move the deadline forward for a scheduled group', async () => {
+      // ARRANGE
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date(2026, 0, 5, 10));
+      const scheduledGroup: Group = {
+        ...mockGroup,
+        schedule: { frequency: 'daily', dueHour: 18 },
+        nextDueAt: new Date(2026, 0, 5, 18).getTime(),
+      };
+      mockTransaction.get.mockResolvedValue({
+        exists: () => true,
+        data: () => scheduledGroup,
+      });
+
+      // ACT
+      await completeTurnTransaction(mockGroup.gid, mockActor, 'p-alice');
+      vi.useRealTimers();
+
+      // ASSERT
+      const updatePayload = mockTransaction.update.mock.calls[0][1];
+      expect(updatePayload.nextDueAt).toBe(new Date(2026, 0, 6, 18).getTime());
+    });
+
+    it('should not write a deadline for an unscheduled group', async () => {
+      await completeTurnTransaction(mockGroup.gid, mockActor, 'p-alice');
+
+      const updatePayload = mockTransaction.update.mock.calls[0][1];
+      expect(updatePayload).not.toHaveProperty('nextDueAt');
+    });
+  });
+
+  describe('ledger groups', () => {
+    const ledgerGroup: Group = { ...mockGroup, rotationStrategy: 'ledger' };
+
+    it('should add the amount to the participant`s total and record it on the log', async () => {
+      // ARRANGE
+      mockTransaction.get.mockResolvedValue({ exists: () => true, data: () => ledgerGroup });
+
+      // ACT
+      await completeTurnTransaction(mockGroup.gid, mockActor, 'p-alice', 'main', 7.5);
+
+      // ASSERT
+      const updatePayload = mockTransaction.update.mock.calls[0][1];
+      expect(updatePayload.participants[0].totalSpent).toBe(7.5);
+      const logPayload = mockTransaction.set.mock.calls[0][1];
+      expect(logPayload.amount).toBe(7.5);
+      expect(logPayload.undoState.queues.main.totalsSpent).toEqual({ 'p-alice': 0, 'p-bob': 0 });
+    });
+
+    it('should refuse to complete a turn without an amount', async () => {
+      // ARRANGE
+      mockTransaction.get.mockResolvedValue({ exists: () => true, data: () => ledgerGroup });
+
+      // ACT & ASSERT
+      await expect(
+        completeTurnTransaction(mockGroup.gid, mockActor, 'p-alice'),
+      ).rejects.toThrow('amount spent');
+      expect(mockTransaction.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('startTurnTransaction', () => {
+    it('should mark the turn as in progress and create a TURN_STARTED log', async () => {
+      // ACT
+      await startTurnTransaction(mockGroup.gid, mockActor, 'p-alice');
+
+      // ASSERT
+      const updatePayload = mockTransaction.update.mock.calls[0][1];
+      expect(updatePayload.turnsInProgress.main.participantId).toBe('p-alice');
+      expect(updatePayload).not.toHaveProperty('turnOrder');
+
+      const logPayload = mockTransaction.set.mock.calls[0][1];
+      expect(logPayload.type).toBe('TURN_STARTED');
+      expect(logPayload.participantName).toBe('Alice');
+    });
+
+    it('should reject a second turn in progress in the same queue', async () => {
+      // ARRANGE
+      mockTransaction.get.mockResolvedValue({
+        exists: () => true,
+        data: () => ({
+          ...mockGroup,
+          turnsInProgress: { main: { participantId: 'p-bob', startedAt: 0 } },
+        }),
+      });
+
+      // ACT & ASSERT
+      await expect(startTurnTransaction(mockGroup.gid, mockActor, 'p-alice')).rejects.toThrow(
+        'already in progress',
+      );
+      expect(mockTransaction.update).not.toHaveBeenCalled();
+    });
+
+    it('should record the duration and end the turn in progress on completion', async () => {
+      // ARRANGE
+      const startedAt = Date.now() - 90 * 60_000;
+      mockTransaction.get.mockResolvedValue({
+        exists: () => true,
+        data: () => ({
+          ...mockGroup,
+          turnsInProgress: { main: { participantId: 'p-alice', startedAt } },
+        }),
+      });
+
+      // ACT
+      await completeTurnTransaction(mockGroup.gid, mockActor, 'p-alice');
+
+      // ASSERT
+      const updatePayload = mockTransaction.update.mock.calls[0][1];
+      expect(updatePayload.turnsInProgress).toEqual({});
+      const logPayload = mockTransaction.set.mock.calls[0][1];
+      expect(logPayload.durationMs).toBeGreaterThanOrEqual(90 * 60_000);
+    });
   });
 
   describe('skipTurnTransaction', () => {
@@ -107,10 +262,125 @@ describe('turns.command', () => {
       expect(mockTransaction.set).toHaveBeenCalledTimes(1);
       const logPayload = mockTransaction.set.mock.calls[0][1];
       expect(logPayload.type).toBe('TURN_SKIPPED');
+      expect(logPayload.undoState.queues.main.turnOrder).toEqual(['p-alice', 'p-bob']);
+    });
+
+    it('should refuse to skip a turn in a group that is being deleted', async () => {
+      // ARRANGE
+      mockTransaction.get.mockResolvedValue({
+        exists: () => true,
+        data: () => ({ ...mockGroup, deletingAt: 1 }),
+      });
+
+      // ACT & ASSERT
+      await expect(skipTurnTransaction(mockGroup.gid, mockActor, 'p-alice')).rejects.toThrow(
+        'being deleted',
+      );
+      expect(mockTransaction.update).not.toHaveBeenCalled();
+      expect(mockTransaction.set).not.toHaveBeenCalled();
     });
   });
 
-  describe('undoTurnTransaction', () => {
+  describe('reorderQueue', () => {
+    it('should write the new order and log both orders', async () => {
+      // ACT
+      await reorderQueue(mockGroup.gid, mockActor, ['p-bob', 'p-alice']);
+
+      // ASSERT
+      expect(mockTransaction.update).toHaveBeenCalledWith(expect.anything(), {
+        turnOrder: ['p-bob', 'p-alice'],
+      });
+      const logPayload = mockTransaction.set.mock.calls[0][1];
+      expect(logPayload.type).toBe('QUEUE_REORDERED');
+      expect(logPayload.previousOrder).toEqual(['p-alice', 'p-bob']);
+      expect(logPayload.newOrder).toEqual(['p-bob', 'p-alice']);
+    });
+
+    it('should reject an order that adds or drops participants', async () => {
+      await expect(
+        reorderQueue(mockGroup.gid, mockActor, ['p-bob', 'p-bob']),
+      ).rejects.toThrow();
+      await expect(reorderQueue(mockGroup.gid, mockActor, ['p-bob'])).rejects.toThrow();
+      expect(mockTransaction.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('additional queues', () => {
+    const groupWithQueue: Group = {
+      ...mockGroup,
+      queues: [
+        {
+          id: 'q-trash',
+          name: 'Trash',
+          turnOrder: ['p-bob', 'p-alice'],
+          turnCounts: { 'p-bob': 2 },
+        },
+      ],
+    };
+
+    beforeEach(() => {
+      mockTransaction.get.mockResolvedValue({
+        exists: () => true,
+        data: () => groupWithQueue,
+      });
+    });
+
+    it('should rotate only the targeted queue and record it on the log', async () => {
+      // ACT
+      await completeTurnTransaction(mockGroup.gid, mockActor, 'p-bob', 'q-trash');
+
+      // ASSERT
+      const updatePayload = mockTransaction.update.mock.calls[0][1];
+      expect(updatePayload).not.toHaveProperty('turnOrder');
+      expect(updatePayload).not.toHaveProperty('participants');
+      expect(updatePayload.queues[0].turnOrder).toEqual(['p-alice', 'p-bob']);
+      expect(updatePayload.queues[0].turnCounts).toEqual({ 'p-alice': 0, 'p-bob': 3 });
+
+      const logPayload = mockTransaction.set.mock.calls[0][1];
+      expect(logPayload.queueId).toBe('q-trash');
+    });
+
+    it('should refuse to complete or skip a turn in a queue the group does not have', async () => {
+      // ACT & ASSERT
+      await expect(
+        completeTurnTransaction(mockGroup.gid, mockActor, 'p-bob', 'q-deleted'),
+      ).rejects.toThrow('Queue not found.');
+      await expect(
+        skipTurnTransaction(mockGroup.gid, mockActor, 'p-bob', 'q-deleted'),
+      ).rejects.toThrow('Queue not found.');
+      expect(mockTransaction.update).not.toHaveBeenCalled();
+      expect(mockTransaction.set).not.toHaveBeenCalled();
+    });
+
+    it('should undo a turn in the queue recorded on the log', async () => {
+      // ARRANGE
+      const logToUndo: TurnCompletedLog & { id: string } = {
+        id: 'log-1',
+        type: 'TURN_COMPLETED',
+        participantId: 'p-bob',
+        participantName: 'Bob',
+        queueId: 'q-trash',
+        completedAt: 'old-timestamp' as any,
+        actorUid: 'user-bob',
+        actorName: 'Bob',
+        _adminUids: {},
+        _participantUids: {},
+      };
+
+      mockUndoReads(groupWithQueue, logToUndo);
+
+      // ACT
+      await undoLogTransaction(mockGroup.gid, mockActor, logToUndo);
+
+      // ASSERT
+      const groupUpdatePayload = mockTransaction.update.mock.calls[0][1];
+      expect(groupUpdatePayload.participants).toBeUndefined();
+      expect(groupUpdatePayload.queues[0].turnCounts['p-bob']).toBe(1);
+      expect(groupUpdatePayload.queues[0].turnOrder).toEqual(['p-bob', 'p-alice']);
+    });
+  });
+
+  describe('undoLogTransaction', () => {
     const mockLogToUndo: TurnCompletedLog & { id: string } = {
       id: 'log-to-undo-123',
       type: 'TURN_COMPLETED',
@@ -124,8 +394,11 @@ describe('turns.command', () => {
     };
 
     it('should revert turn order, decrement count, create an UNDONE log, and flag the original log', async () => {
+      // ARRANGE
+      mockUndoReads(mockGroup, mockLogToUndo);
+
       // ACT
-      await undoTurnTransaction(mockGroup.gid, mockActor, mockLogToUndo);
+      await undoLogTransaction(mockGroup.gid, mockActor, mockLogToUndo);
 
       // ASSERT
       expect(mockTransaction.update).toHaveBeenCalledTimes(2);
@@ -136,9 +409,245 @@ describe('turns.command', () => {
       expect(mockTransaction.set).toHaveBeenCalledTimes(1);
       const undoLogPayload = mockTransaction.set.mock.calls[0][1];
       expect(undoLogPayload.type).toBe('TURN_UNDONE');
+      expect(undoLogPayload.originalLogId).toBe('log-to-undo-123');
+      expect(undoLogPayload.originalType).toBe('TURN_COMPLETED');
 
       const logUpdatePayload = mockTransaction.update.mock.calls[1][1];
       expect(logUpdatePayload).toEqual({ isUndone: true });
     });
+
+    it('should restore a skipped turn from its recorded before-state', async () => {
+      // ARRANGE
+      const skippedLog: LogEntry & { id: string } = {
+        id: 'log-skip',
+        type: 'TURN_SKIPPED',
+        participantId: 'p-bob',
+        participantName: 'Bob',
+        queueId: 'main',
+        completedAt: 'old-timestamp' as any,
+        actorUid: 'user-bob',
+        actorName: 'Bob',
+        undoState: {
+          queues: { main: { turnOrder: ['p-bob', 'p-alice'], turnCounts: { 'p-alice': 5, 'p-bob': 4 } } },
+        },
+        _adminUids: {},
+        _participantUids: {},
+      };
+      mockUndoReads(mockGroup, skippedLog);
+
+      // ACT
+      await undoLogTransaction(mockGroup.gid, mockActor, skippedLog);
+
+      // ASSERT
+      const groupUpdatePayload = mockTransaction.update.mock.calls[0][1];
+      expect(groupUpdatePayload.turnOrder).toEqual(['p-bob', 'p-alice']);
+      expect(mockTransaction.set.mock.calls[0][1]).toMatchObject({
+        type: 'TURN_UNDONE',
+        originalType: 'TURN_SKIPPED',
+        originalParticipantName: 'Bob',
+        queueId: 'main',
+      });
+    });
+
+    it('should refuse to undo an entry that is already undone', async () => {
+      // ARRANGE
+      mockUndoReads(mockGroup, { ...mockLogToUndo, isUndone: true });
+
+      // ACT & ASSERT
+      await expect(
+        undoLogTransaction(mockGroup.gid, mockActor, mockLogToUndo),
+      ).rejects.toThrow('already been undone');
+      expect(mockTransaction.update).not.toHaveBeenCalled();
+      expect(mockTransaction.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('redoLogTransaction', () => {
+    const undoneTurn: TurnCompletedLog = {
+      type: 'TURN_COMPLETED',
+      participantId: 'p-alice',
+      participantName: 'Alice',
+      completedAt: 'old-timestamp' as any,
+      actorUid: 'user-alice',
+      actorName: 'Alice',
+      isUndone: true,
+      _adminUids: {},
+      _participantUids: {},
+    };
+    const undoRecord: TurnUndoneLog & { id: string } = {
+      id: 'log-undo',
+      type: 'TURN_UNDONE',
+      originalLogId: 'log-turn',
+      originalType: 'TURN_COMPLETED',
+      originalParticipantName: 'Alice',
+      queueId: 'main',
+      completedAt: 'old-timestamp' as any,
+      actorUid: 'user-actor-1',
+      actorName: 'Actor User',
+      redoState: {
+        queues: { main: { turnOrder: ['p-bob', 'p-alice'], turnCounts: { 'p-alice': 6, 'p-bob': 4 } } },
+      },
+      _adminUids: {},
+      _participantUids: {},
+    };
+
+    const mockRedoReads = (undoLog: LogEntry, originalLog: LogEntry) => {
+      mockTransaction.get
+        .mockResolvedValueOnce({ exists: () => true, data: () => mockGroup })
+        .mockResolvedValueOnce({ exists: () => true, data: () => undoLog })
+        .mockResolvedValueOnce({ exists: () => true, data: () => originalLog });
+    };
+
+    it('should restore the undone state, clear the undone flag, and create a REDONE log', async () => {
+      // ARRANGE
+      mockRedoReads(undoRecord, undoneTurn);
+
+      // ACT
+      await redoLogTransaction(mockGroup.gid, mockActor, undoRecord);
+
+      // ASSERT
+      const groupUpdatePayload = mockTransaction.update.mock.calls[0][1];
+      expect(groupUpdatePayload.turnOrder).toEqual(['p-bob', 'p-alice']);
+      expect(groupUpdatePayload.participants[0].turnCount).toBe(6);
+
+      expect(mockTransaction.set.mock.calls[0][1]).toMatchObject({
+        type: 'TURN_REDONE',
+        originalLogId: 'log-turn',
+        undoLogId: 'log-undo',
+        originalType: 'TURN_COMPLETED',
+      });
+      expect(mockTransaction.update.mock.calls[1][1]).toEqual({ isUndone: false });
+      expect(mockTransaction.update.mock.calls[2][1]).toEqual({ isRedone: true });
+    });
+
+    it('should refuse to redo an undo that was already redone', async () => {
+      // ARRANGE
+      mockRedoReads({ ...undoRecord, isRedone: true }, undoneTurn);
+
+      // ACT & ASSERT
+      await expect(
+        redoLogTransaction(mockGroup.gid, mockActor, undoRecord),
+      ).rejects.toThrow('already been redone');
+      expect(mockTransaction.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('turn confirmation', () => {
+    const bob: AppUser = { uid: 'user-bob', displayName: 'Bob', isAnonymous: false };
+    const aliceUser: AppUser = { uid: 'user-alice', displayName: 'Alice', isAnonymous: false };
+    const pendingTurn: TurnCompletedLog = {
+      type: 'TURN_COMPLETED',
+      completedAt: 'ts' as any,
+      participantId: 'p-alice',
+      participantName: 'Alice',
+      confirmationStatus: 'pending',
+      actorUid: 'user-alice',
+      actorName: 'Alice',
+      _participantUids: {},
+      _adminUids: {},
+    };
+
+    it('should rotate without counting when the group requires confirmation', async () => {
+      // ARRANGE
+      mockTransaction.get.mockResolvedValue({
+        exists: () => true,
+        data: () => ({ ...mockGroup, requireConfirmation: true }),
+      });
+
+      // ACT
+      await completeTurnTransaction(mockGroup.gid, mockActor, 'p-alice');
+
+      // ASSERT
+      const updatePayload = mockTransaction.update.mock.calls[0][1];
+      expect(updatePayload.turnOrder).toEqual(['p-bob', 'p-alice']);
+      expect(updatePayload).not.toHaveProperty('participants');
+      expect(mockTransaction.set.mock.calls[0][1].confirmationStatus).toBe('pending');
+    });
+
+    it('should count a pending turn once another participant confirms it', async () => {
+      // ARRANGE
+      mockUndoReads(mockGroup, pendingTurn);
+
+      // ACT
+      await confirmTurnTransaction(mockGroup.gid, bob, 'log-turn');
+
+      // ASSERT
+      const groupUpdatePayload = mockTransaction.update.mock.calls[0][1];
+      expect(groupUpdatePayload.participants[0].turnCount).toBe(6);
+      expect(mockTransaction.update.mock.calls[1][1]).toEqual({
+        confirmationStatus: 'confirmed',
+        reviewedByUid: 'user-bob',
+        reviewedByName: 'Bob',
+      });
+      expect(mockTransaction.set.mock.calls[0][1]).toMatchObject({
+        type: 'TURN_REVIEWED',
+        originalLogId: 'log-turn',
+        outcome: 'confirmed',
+        participantId: 'p-alice',
+        actorUid: 'user-bob',
+      });
+    });
+
+    it('should not let a participant confirm their own turn', async () => {
+      // ARRANGE
+      mockUndoReads(mockGroup, pendingTurn);
+
+      // ACT & ASSERT
+      await expect(
+        confirmTurnTransaction(mockGroup.gid, aliceUser, 'log-turn'),
+      ).rejects.toThrow('Another participant');
+      expect(mockTransaction.update).not.toHaveBeenCalled();
+    });
+
+    it('should mark a disputed turn without counting it', async () => {
+      // ARRANGE
+      mockUndoReads(mockGroup, pendingTurn);
+
+      // ACT
+      await disputeTurnTransaction(mockGroup.gid, bob, 'log-turn');
+
+      // ASSERT
+      expect(mockTransaction.update).toHaveBeenCalledTimes(1);
+      expect(mockTransaction.set).not.toHaveBeenCalled();
+      expect(mockTransaction.update.mock.calls[0][1]).toMatchObject({
+        confirmationStatus: 'disputed',
+        reviewedByUid: 'user-bob',
+      });
+    });
+
+    it('should only let an admin resolve a dispute', async () => {
+      // ARRANGE
+      const disputedTurn: TurnCompletedLog = { ...pendingTurn, confirmationStatus: 'disputed' };
+      mockUndoReads(mockGroup, disputedTurn);
+
+      // ACT & ASSERT
+      await expect(
+        confirmTurnTransaction(mockGroup.gid, bob, 'log-turn'),
+      ).rejects.toThrow('Only an admin');
+      expect(mockTransaction.update).not.toHaveBeenCalled();
+    });
+
+    it('should return a rejected turn to the front of the queue', async () => {
+      // ARRANGE
+      const adminGroup: Group = {
+        ...mockGroup,
+        turnOrder: ['p-bob', 'p-alice'],
+        adminUids: { 'user-bob': true },
+      };
+      mockUndoReads(adminGroup, { ...pendingTurn, confirmationStatus: 'disputed' });
+
+      // ACT
+      await rejectTurnTransaction(mockGroup.gid, bob, 'log-turn');
+
+      // ASSERT
+      const groupUpdatePayload = mockTransaction.update.mock.calls[0][1];
+      expect(groupUpdatePayload.turnOrder).toEqual(['p-alice', 'p-bob']);
+      expect(groupUpdatePayload).not.toHaveProperty('participants');
+      expect(mockTransaction.update.mock.calls[1][1].confirmationStatus).toBe('rejected');
+      expect(mockTransaction.set.mock.calls[0][1]).toMatchObject({
+        type: 'TURN_REVIEWED',
+        outcome: 'rejected',
+      });
+    });
   });
-});
\ No newline at end of file
+});
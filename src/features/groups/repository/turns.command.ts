@@ -1,19 +1,36 @@
 /**
  * @file packages/whoseturnnow/src/features/groups/repository/turns.command.ts
- * @stamp {"ts":"2025-10-24T12:15:00Z"}
+ * @stamp {"ts":"2026-10-19T15:50:00Z"}
  * @architectural-role Data Repository (Command)
  * @description
  * Encapsulates all transactional Firestore interactions for the core turn
  * lifecycle. It ensures that all data modifications also update the necessary
- * denormalized fields required by the security rules.
+ * denormalized fields required by the security rules. Queue re-ordering is
+ * delegated to the shared rotation utilities so the saved result always matches
+ * the client's optimistic preview, including passing over away participants.
+ * Every operation targets a single queue, defaulting to the group's main queue
+ * and refusing one the group does not have, and stores the queue's
+ * before-state on its log entry so it can be undone.
+ * Long turns can be started before they are completed; the completion then
+ * records how long the turn took. Groups can require completed turns to be
+ * confirmed by another participant before they are counted. Confirming or
+ * rejecting a turn logs a `TURN_REVIEWED` entry, which undo and redo cannot
+ * cross. Turns cannot be started, completed or skipped in a group that is
+ * being deleted.
  * @core-principles
  * 1. OWNS all write I/O logic for the turn lifecycle.
  * 2. MUST use atomic transactions for all state-changing operations.
  * 3. MUST maintain the integrity of denormalized data (e.g., `participantUids` and `adminUids`).
  * @api-declaration
+ *   - startTurnTransaction: Atomically marks a turn as in progress.
  *   - completeTurnTransaction: Atomically completes a turn.
  *   - skipTurnTransaction: Atomically skips a turn.
- *   - undoTurnTransaction: Atomically reverses a completed turn.
+ *   - undoLogTransaction: Atomically reverses any undoable log entry.
+ *   - redoLogTransaction: Atomically re-applies the most recently undone log entry.
+ *   - reorderQueue: Atomically replaces a queue's order and logs the change.
+ *   - confirmTurnTransaction: Atomically confirms a pending or disputed turn and counts it.
+ *   - disputeTurnTransaction: Atomically sends a pending turn to the admins for review.
+ *   - rejectTurnTransaction: Atomically upholds a dispute and returns the turn to its participant.
  * @contract
  *   assertions:
  *     purity: mutates
@@ -26,28 +43,149 @@ import {
   doc,
   runTransaction,
   serverTimestamp,
+  type Transaction,
 } from 'firebase/firestore';
 import { db } from '../../../lib/firebase';
 import type { AppUser } from '../../auth/useAuthStore';
 import type {
   Group,
+  LogEntry,
   TurnCompletedLog,
   TurnUndoneLog,
+  TurnRedoneLog,
+  TurnReviewedLog,
   TurnSkippedLog,
+  TurnStartedLog,
+  QueueReorderedLog,
 } from '../../../types/group';
 import { _deriveUids } from './_utils';
+import {
+  computeCompletedTurn,
+  computeSkippedTurn,
+  resolveRotationStrategy,
+} from '../utils/rotation';
+import { advanceDueAt } from '../utils/schedule';
+import { isBeingDeleted } from '../utils/archive';
+import { MAIN_QUEUE_ID, buildQueueUpdate, projectQueue } from '../utils/queues';
+import {
+  canUndoLog,
+  captureRedoState,
+  captureUndoState,
+  computeRedoUpdate,
+  computeUndoUpdate,
+} from '../utils/undo';
 
 /**
- * Atomically completes a turn. This involves re-ordering the queue, incrementing
- * the participant's turn count, and creating a new `TURN_COMPLETED` log entry.
+ * Builds the update that ends a participant's turn in progress on a queue, if
+ * they have one. Turns in progress by anyone else are left untouched.
+ */
+function endTurnInProgress(
+  group: Group,
+  queueId: string,
+  participantId: string,
+): Pick<Group, 'turnsInProgress'> | Record<string, never> {
+  const inProgress = group.turnsInProgress?.[queueId];
+  if (inProgress?.participantId !== participantId) return {};
+  const { [queueId]: _ended, ...rest } = group.turnsInProgress ?? {};
+  return { turnsInProgress: rest };
+}
+
+/**
+ * Refuses turn actions on a group whose deletion was started, so an
+ * interrupted deletion cannot be undermined by new log entries.
+ */
+function assertNotBeingDeleted(group: Group): void {
+  if (isBeingDeleted(group)) {
+    throw new Error('This group is being deleted.');
+  }
+}
+
+/**
+ * Refuses a queue ID that names neither the main queue nor one of the group's
+ * additional queues, rather than letting it fall back to the main queue.
+ */
+function assertQueueExists(group: Group, queueId: string): void {
+  if (queueId !== MAIN_QUEUE_ID && !group.queues?.some((q) => q.id === queueId)) {
+    throw new Error('Queue not found.');
+  }
+}
+
+/**
+ * Atomically marks a turn as in progress and creates a `TURN_STARTED` log
+ * entry. The queue order is unchanged until the turn is completed.
+ * @param groupId The ID of the group.
+ * @param actor The user performing the action.
+ * @param participantId The ID of the participant starting their turn.
+ * @param queueId The ID of the queue the turn belongs to. Defaults to the main queue.
+ */
+export async function startTurnTransaction(
+  groupId: string,
+  actor: AppUser,
+  participantId: string,
+  queueId: string = MAIN_QUEUE_ID,
+): Promise<void> {
+  const groupDocRef = doc(db, 'groups', groupId);
+
+  await runTransaction(db, async (transaction) => {
+    const groupDoc = await transaction.get(groupDocRef);
+    if (!groupDoc.exists()) {
+      throw new Error(`Group with ID ${groupId} does not exist.`);
+    }
+
+    const groupData = groupDoc.data() as Group;
+    assertNotBeingDeleted(groupData);
+    assertQueueExists(groupData, queueId);
+    const participant = groupData.participants.find((p) => p.id === participantId);
+    if (!participant) {
+      throw new Error(`Participant with ID ${participantId} not found in group.`);
+    }
+    if (groupData.turnsInProgress?.[queueId]) {
+      throw new Error('A turn is already in progress in this queue.');
+    }
+
+    transaction.update(groupDocRef, {
+      turnsInProgress: {
+        ...groupData.turnsInProgress,
+        [queueId]: { participantId, startedAt: Date.now() },
+      },
+    });
+
+    const newLogRef = doc(collection(db, 'groups', groupId, 'turnLog'));
+    const newLogEntry: TurnStartedLog = {
+      type: 'TURN_STARTED',
+      completedAt: serverTimestamp(),
+      participantId,
+      participantName: participant.nickname || 'Unknown',
+      queueId,
+      actorUid: actor.uid,
+      actorName: actor.displayName || 'Unknown',
+      _participantUids: groupData.participantUids,
+      _adminUids: groupData.adminUids,
+    };
+    transaction.set(newLogRef, newLogEntry);
+  });
+}
+
+/**
+ * Atomically completes a turn. This involves re-ordering the queue according to
+ * the group's rotation strategy, incrementing the participant's turn count,
+ * moving a scheduled group's deadline forward, ending the participant's turn
+ * in progress, and creating a new `TURN_COMPLETED` log entry that records the
+ * turn's duration if it was started first. Ledger groups add the amount spent
+ * to the participant's total. In groups that require confirmation the count
+ * and total are left alone and the log entry is marked as pending instead.
  * @param groupId The ID of the group where the turn is being completed.
  * @param actor The user performing the action.
  * @param participantToMoveId The ID of the participant whose turn is being completed.
+ * @param queueId The ID of the queue the turn belongs to. Defaults to the main queue.
+ * @param amount The amount spent on the turn. Required when the group uses the `ledger` strategy.
  */
 export async function completeTurnTransaction(
   groupId: string,
   actor: AppUser,
   participantToMoveId: string,
+  queueId: string = MAIN_QUEUE_ID,
+  amount?: number,
 ): Promise<void> {
   const groupDocRef = doc(db, 'groups', groupId);
 
@@ -58,7 +196,9 @@ export async function completeTurnTransaction(
     }
 
     const groupData = groupDoc.data() as Group;
-    const { participants, turnOrder } = groupData;
+    assertNotBeingDeleted(groupData);
+    assertQueueExists(groupData, queueId);
+    const { participants } = groupData;
 
     const participantToMove = participants.find(
       (p) => p.id === participantToMoveId,
@@ -69,17 +209,35 @@ export async function completeTurnTransaction(
       );
     }
 
-    const newTurnOrder = [
-      ...turnOrder.filter((id) => id !== participantToMoveId),
-      participantToMoveId,
-    ];
-    const newParticipants = participants.map((p) =>
-      p.id === participantToMoveId ? { ...p, turnCount: p.turnCount + 1 } : p,
-    );
+    const isLedger = resolveRotationStrategy(groupData) === 'ledger';
+    if (isLedger && (amount === undefined || !Number.isFinite(amount) || amount < 0)) {
+      throw new Error('A turn in a ledger group must record the amount spent.');
+    }
+    const spent = isLedger ? amount : undefined;
+
+    const now = Date.now();
+    const queueView = projectQueue(groupData, queueId);
+    const completedTurn = computeCompletedTurn(queueView, participantToMoveId, now, spent);
+    const inProgress = groupData.turnsInProgress?.[queueId];
+    const durationMs =
+      inProgress?.participantId === participantToMoveId
+        ? Math.max(0, now - inProgress.startedAt)
+        : undefined;
+
+    // A turn that needs confirming still rotates the queue, but is only
+    // counted once another participant confirms it.
+    const needsConfirmation = !!groupData.requireConfirmation;
 
     transaction.update(groupDocRef, {
-      turnOrder: newTurnOrder,
-      participants: newParticipants,
+      ...buildQueueUpdate(
+        groupData,
+        queueId,
+        needsConfirmation ? { turnOrder: completedTurn.turnOrder } : completedTurn,
+      ),
+      ...(queueView.schedule && {
+        nextDueAt: advanceDueAt(queueView.schedule, queueView.nextDueAt, now),
+      }),
+      ...endTurnInProgress(groupData, queueId, participantToMoveId),
     });
 
     const newLogRef = doc(collection(db, 'groups', groupId, 'turnLog'));
@@ -88,8 +246,15 @@ export async function completeTurnTransaction(
       completedAt: serverTimestamp(),
       participantId: participantToMoveId,
       participantName: participantToMove.nickname || 'Unknown',
+      queueId,
+      ...(durationMs !== undefined && { durationMs }),
+      ...(spent !== undefined && { amount: spent }),
+      ...(needsConfirmation && { confirmationStatus: 'pending' as const }),
       actorUid: actor.uid,
       actorName: actor.displayName || 'Unknown',
+      undoState: captureUndoState(groupData, [queueId], {
+        includeDueAt: !!queueView.schedule,
+      }),
       _participantUids: groupData.participantUids,
       _adminUids: groupData.adminUids,
     };
@@ -98,17 +263,18 @@ export async function completeTurnTransaction(
 }
 
 /**
- * Atomically reverses a completed turn. This involves reverting the group state
- * (turn order and count), creating a new log entry for the undo action, and
- * flagging the original log entry as undone.
+ * Atomically reverses a log entry. The queues it changed are restored from its
+ * before-state, a new `TURN_UNDONE` log entry is created, and the original
+ * entry is flagged as undone. Callers MUST only undo the newest entry on the
+ * undo stack, so the restored state follows on from the current one.
  * @param groupId The ID of the group.
  * @param actor The user performing the undo action.
- * @param logToUndo The original 'TURN_COMPLETED' log object, which MUST include its Firestore document ID.
+ * @param logToUndo The original log object, which MUST include its Firestore document ID.
  */
-export async function undoTurnTransaction(
+export async function undoLogTransaction(
   groupId: string,
   actor: AppUser,
-  logToUndo: TurnCompletedLog & { id: string },
+  logToUndo: LogEntry & { id: string },
 ): Promise<void> {
   const groupDocRef = doc(db, 'groups', groupId);
   const originalLogDocRef = doc(db, 'groups', groupId, 'turnLog', logToUndo.id);
@@ -118,33 +284,21 @@ export async function undoTurnTransaction(
     if (!groupDoc.exists()) {
       throw new Error(`Group with ID ${groupId} does not exist.`);
     }
+    const originalLogDoc = await transaction.get(originalLogDocRef);
+    if (!originalLogDoc.exists()) {
+      throw new Error(`Log entry ${logToUndo.id} does not exist.`);
+    }
 
     const groupData = groupDoc.data() as Group;
-    const { participants, turnOrder } = groupData;
-
-    const participantIdToRestore = logToUndo.participantId;
-    const participantToRestore = participants.find(
-      (p) => p.id === participantIdToRestore,
-    );
-
-    if (!participantToRestore) {
-      throw new Error(
-        `Participant ${participantIdToRestore} from log entry not found in group.`,
-      );
+    const originalLog = originalLogDoc.data() as LogEntry;
+    if (!canUndoLog(originalLog)) {
+      throw new Error('This entry records no action that can be undone.');
+    }
+    if ('isUndone' in originalLog && originalLog.isUndone) {
+      throw new Error('This action has already been undone.');
     }
 
-    const newTurnOrder = [
-      participantIdToRestore,
-      ...turnOrder.filter((id) => id !== participantIdToRestore),
-    ];
-
-    const newParticipants = participants.map((p) =>
-      p.id === participantIdToRestore
-        ? { ...p, turnCount: Math.max(0, p.turnCount - 1) }
-        : p,
-    );
-
-    const { participantUids, adminUids } = _deriveUids(newParticipants);
+    const { participantUids, adminUids } = _deriveUids(groupData.participants);
 
     const newUndoLogRef = doc(collection(db, 'groups', groupId, 'turnLog'));
     const newUndoLogEntry: TurnUndoneLog = {
@@ -152,14 +306,17 @@ export async function undoTurnTransaction(
       completedAt: serverTimestamp(),
       actorUid: actor.uid,
       actorName: actor.displayName || 'Unknown',
-      originalParticipantName: logToUndo.participantName,
+      originalLogId: logToUndo.id,
+      originalType: originalLog.type,
+      originalParticipantName: 'participantName' in originalLog ? originalLog.participantName : '',
+      ...('queueId' in originalLog && originalLog.queueId && { queueId: originalLog.queueId }),
+      redoState: captureRedoState(groupData, originalLog),
       _participantUids: groupData.participantUids,
       _adminUids: groupData.adminUids,
     };
 
     transaction.update(groupDocRef, {
-      turnOrder: newTurnOrder,
-      participants: newParticipants,
+      ...computeUndoUpdate(groupData, originalLog, Date.now()),
       participantUids,
       adminUids,
     });
@@ -171,16 +328,91 @@ export async function undoTurnTransaction(
 }
 
 /**
-* Atomically skips a turn. This involves re-ordering the queue and creating a
-* new `TURN_SKIPPED` log entry, without incrementing the turn count.
+ * Atomically reverses an undo. The state the undo reversed is restored, the
+ * original log entry's undone flag is cleared, the undo record is flagged as
+ * redone, and a new `TURN_REDONE` log entry is created. Callers MUST only redo
+ * the newest undo record on the redo stack.
+ * @param groupId The ID of the group.
+ * @param actor The user performing the redo action.
+ * @param undoLog The 'TURN_UNDONE' log object to reverse, which MUST include its Firestore document ID.
+ */
+export async function redoLogTransaction(
+  groupId: string,
+  actor: AppUser,
+  undoLog: TurnUndoneLog & { id: string },
+): Promise<void> {
+  const { originalLogId } = undoLog;
+  if (!originalLogId) {
+    throw new Error('This undo does not record which action it reversed.');
+  }
+  const groupDocRef = doc(db, 'groups', groupId);
+  const undoLogDocRef = doc(db, 'groups', groupId, 'turnLog', undoLog.id);
+  const originalLogDocRef = doc(db, 'groups', groupId, 'turnLog', originalLogId);
+
+  await runTransaction(db, async (transaction) => {
+    const groupDoc = await transaction.get(groupDocRef);
+    if (!groupDoc.exists()) {
+      throw new Error(`Group with ID ${groupId} does not exist.`);
+    }
+    const undoLogDoc = await transaction.get(undoLogDocRef);
+    const originalLogDoc = await transaction.get(originalLogDocRef);
+    if (!undoLogDoc.exists() || !originalLogDoc.exists()) {
+      throw new Error(`Log entry ${undoLog.id} or the action it undid does not exist.`);
+    }
+
+    const groupData = groupDoc.data() as Group;
+    const currentUndoLog = undoLogDoc.data() as LogEntry;
+    const originalLog = originalLogDoc.data() as LogEntry;
+    if (currentUndoLog.type !== 'TURN_UNDONE' || currentUndoLog.isRedone) {
+      throw new Error('This undo has already been redone.');
+    }
+    if (!('isUndone' in originalLog && originalLog.isUndone)) {
+      throw new Error('The original action is not undone.');
+    }
+
+    const { participantUids, adminUids } = _deriveUids(groupData.participants);
+
+    transaction.update(groupDocRef, {
+      ...computeRedoUpdate(groupData, currentUndoLog, Date.now()),
+      participantUids,
+      adminUids,
+    });
+
+    const newRedoLogRef = doc(collection(db, 'groups', groupId, 'turnLog'));
+    const newRedoLogEntry: TurnRedoneLog = {
+      type: 'TURN_REDONE',
+      completedAt: serverTimestamp(),
+      actorUid: actor.uid,
+      actorName: actor.displayName || 'Unknown',
+      originalLogId,
+      originalType: originalLog.type,
+      undoLogId: undoLog.id,
+      originalParticipantName: currentUndoLog.originalParticipantName,
+      ...(currentUndoLog.queueId && { queueId: currentUndoLog.queueId }),
+      _participantUids: groupData.participantUids,
+      _adminUids: groupData.adminUids,
+    };
+    transaction.set(newRedoLogRef, newRedoLogEntry);
+
+    transaction.update(originalLogDocRef, { isUndone: false });
+    transaction.update(undoLogDocRef, { isRedone: true });
+  });
+}
+
+/**
+* Atomically skips a turn. This involves re-ordering the queue according to the
+* group's rotation strategy, ending the participant's turn in progress, and
+* creating a new `TURN_SKIPPED` log entry, without incrementing the turn count.
 * @param groupId The ID of the group where the turn is being skipped.
 * @param actor The user performing the action.
 * @param participantToMoveId The ID of the participant whose turn is being skipped.
+* @param queueId The ID of the queue the turn belongs to. Defaults to the main queue.
 */
 export async function skipTurnTransaction(
   groupId: string,
   actor: AppUser,
   participantToMoveId: string,
+  queueId: string = MAIN_QUEUE_ID,
 ): Promise<void> {
   const groupDocRef = doc(db, 'groups', groupId);
 
@@ -191,7 +423,9 @@ export async function skipTurnTransaction(
     }
 
     const groupData = groupDoc.data() as Group;
-    const { participants, turnOrder } = groupData;
+    assertNotBeingDeleted(groupData);
+    assertQueueExists(groupData, queueId);
+    const { participants } = groupData;
 
     const participantToMove = participants.find(
       (p) => p.id === participantToMoveId,
@@ -202,13 +436,16 @@ export async function skipTurnTransaction(
       );
     }
 
-    const newTurnOrder = [
-      ...turnOrder.filter((id) => id !== participantToMoveId),
+    const undoState = captureUndoState(groupData, [queueId]);
+    const skippedTurn = computeSkippedTurn(
+      projectQueue(groupData, queueId),
       participantToMoveId,
-    ];
+      Date.now(),
+    );
 
     transaction.update(groupDocRef, {
-      turnOrder: newTurnOrder,
+      ...buildQueueUpdate(groupData, queueId, skippedTurn),
+      ...endTurnInProgress(groupData, queueId, participantToMoveId),
     });
 
     const newLogRef = doc(collection(db, 'groups', groupId, 'turnLog'));
@@ -217,11 +454,269 @@ export async function skipTurnTransaction(
       completedAt: serverTimestamp(),
       participantId: participantToMoveId,
       participantName: participantToMove.nickname || 'Unknown',
+      queueId,
       actorUid: actor.uid,
       actorName: actor.displayName || 'Unknown',
+      undoState,
       _participantUids: groupData.participantUids,
       _adminUids: groupData.adminUids,
     };
     transaction.set(newLogRef, newLogEntry);
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Atomically replaces a queue's order with a manually arranged one and creates
+ * a `QUEUE_REORDERED` log entry holding the before and after orders. Turn
+ * counts are left untouched.
+ * @param groupId The ID of the group.
+ * @param actor The admin performing the action.
+ * @param newOrder The new order. MUST contain exactly the IDs already in the queue.
+ * @param queueId The ID of the queue to reorder. Defaults to the main queue.
+ */
+export async function reorderQueue(
+  groupId: string,
+  actor: AppUser,
+  newOrder: string[],
+  queueId: string = MAIN_QUEUE_ID,
+): Promise<void> {
+  const groupDocRef = doc(db, 'groups', groupId);
+
+  await runTransaction(db, async (transaction) => {
+    const groupDoc = await transaction.get(groupDocRef);
+    if (!groupDoc.exists()) {
+      throw new Error(`Group with ID ${groupId} does not exist.`);
+    }
+
+    const groupData = groupDoc.data() as Group;
+    assertQueueExists(groupData, queueId);
+    const { turnOrder: previousOrder } = projectQueue(groupData, queueId);
+
+    const isSameSet =
+      newOrder.length === previousOrder.length &&
+      new Set(newOrder).size === newOrder.length &&
+      newOrder.every((id) => previousOrder.includes(id));
+    if (!isSameSet) {
+      throw new Error('The new order must contain exactly the participants already in the queue.');
+    }
+
+    transaction.update(
+      groupDocRef,
+      buildQueueUpdate(groupData, queueId, { turnOrder: newOrder }),
+    );
+
+    const newLogRef = doc(collection(db, 'groups', groupId, 'turnLog'));
+    const newLogEntry: QueueReorderedLog = {
+      type: 'QUEUE_REORDERED',
+      completedAt: serverTimestamp(),
+      previousOrder,
+      newOrder,
+      queueId,
+      actorUid: actor.uid,
+      actorName: actor.displayName || 'Unknown',
+      undoState: captureUndoState(groupData, [queueId]),
+      _participantUids: groupData.participantUids,
+      _adminUids: groupData.adminUids,
+    };
+    transaction.set(newLogRef, newLogEntry);
+  });
+}
+
+/**
+ * Reads a group and one of its `TURN_COMPLETED` log entries inside a
+ * transaction, for the confirmation steps below.
+ */
+async function readTurnForReview(
+  transaction: Transaction,
+  groupId: string,
+  logId: string,
+): Promise<{ groupData: Group; log: TurnCompletedLog }> {
+  const groupDoc = await transaction.get(doc(db, 'groups', groupId));
+  if (!groupDoc.exists()) {
+    throw new Error(`Group with ID ${groupId} does not exist.`);
+  }
+  const logDoc = await transaction.get(doc(db, 'groups', groupId, 'turnLog', logId));
+  if (!logDoc.exists()) {
+    throw new Error('The turn being reviewed no longer exists.');
+  }
+
+  const log = logDoc.data() as LogEntry;
+  if (log.type !== 'TURN_COMPLETED' || !log.confirmationStatus) {
+    throw new Error('This turn does not need confirming.');
+  }
+  if (log.isUndone) {
+    throw new Error('This turn has been undone.');
+  }
+  return { groupData: groupDoc.data() as Group, log };
+}
+
+/**
+ * Whether a user either did a turn or recorded it, and so may not vouch for it.
+ */
+const isOwnTurn = (group: Group, log: TurnCompletedLog, uid: string): boolean =>
+  log.actorUid === uid ||
+  group.participants.some((p) => p.id === log.participantId && p.uid === uid);
+
+/**
+ * Writes the `TURN_REVIEWED` entry for a confirmed or rejected turn. The review
+ * changes the queue after the turn was logged, so the entry stops older
+ * snapshots from being restored over it.
+ */
+function logTurnReview(
+  transaction: Transaction,
+  groupId: string,
+  group: Group,
+  actor: AppUser,
+  logId: string,
+  log: TurnCompletedLog,
+  outcome: TurnReviewedLog['outcome'],
+): void {
+  const reviewLog: TurnReviewedLog = {
+    type: 'TURN_REVIEWED',
+    completedAt: serverTimestamp(),
+    originalLogId: logId,
+    outcome,
+    participantId: log.participantId,
+    participantName: log.participantName,
+    ...(log.queueId && { queueId: log.queueId }),
+    actorUid: actor.uid,
+    actorName: actor.displayName || 'Unknown',
+    _participantUids: group.participantUids,
+    _adminUids: group.adminUids,
+  };
+  transaction.set(doc(collection(db, 'groups', groupId, 'turnLog')), reviewLog);
+}
+
+/**
+ * Atomically confirms a completed turn, counting it (and any amount spent) in
+ * its queue, and logs the review. A pending turn can be confirmed by any participant other than the
+ * one who did or recorded it; a disputed turn can only be confirmed by an admin.
+ * @param groupId The ID of the group.
+ * @param actor The user confirming the turn.
+ * @param logId The ID of the `TURN_COMPLETED` log entry.
+ */
+export async function confirmTurnTransaction(
+  groupId: string,
+  actor: AppUser,
+  logId: string,
+): Promise<void> {
+  await runTransaction(db, async (transaction) => {
+    const { groupData, log } = await readTurnForReview(transaction, groupId, logId);
+    const isAdmin = !!groupData.adminUids[actor.uid];
+
+    if (log.confirmationStatus === 'pending') {
+      if (!groupData.participantUids[actor.uid] || isOwnTurn(groupData, log, actor.uid)) {
+        throw new Error('Another participant must confirm this turn.');
+      }
+    } else if (log.confirmationStatus === 'disputed') {
+      if (!isAdmin) {
+        throw new Error('Only an admin can resolve a disputed turn.');
+      }
+    } else {
+      throw new Error('This turn has already been reviewed.');
+    }
+
+    const queueId = log.queueId ?? MAIN_QUEUE_ID;
+    const queueExists = queueId === MAIN_QUEUE_ID || groupData.queues?.some((q) => q.id === queueId);
+    if (queueExists) {
+      const queueView = projectQueue(groupData, queueId);
+      transaction.update(
+        doc(db, 'groups', groupId),
+        buildQueueUpdate(groupData, queueId, {
+          turnOrder: queueView.turnOrder,
+          participants: queueView.participants.map((p) =>
+            p.id === log.participantId
+              ? {
+                  ...p,
+                  turnCount: p.turnCount + 1,
+                  ...(log.amount !== undefined && { totalSpent: (p.totalSpent ?? 0) + log.amount }),
+                }
+              : p,
+          ),
+        }),
+      );
+    }
+
+    transaction.update(doc(db, 'groups', groupId, 'turnLog', logId), {
+      confirmationStatus: 'confirmed',
+      reviewedByUid: actor.uid,
+      reviewedByName: actor.displayName || 'Unknown',
+    });
+    logTurnReview(transaction, groupId, groupData, actor, logId, log, 'confirmed');
+  });
+}
+
+/**
+ * Atomically disputes a pending turn, sending it to the group's admins for
+ * review. Any participant other than the one who did or recorded the turn can
+ * dispute it. The turn stays uncounted.
+ * @param groupId The ID of the group.
+ * @param actor The user disputing the turn.
+ * @param logId The ID of the `TURN_COMPLETED` log entry.
+ */
+export async function disputeTurnTransaction(
+  groupId: string,
+  actor: AppUser,
+  logId: string,
+): Promise<void> {
+  await runTransaction(db, async (transaction) => {
+    const { groupData, log } = await readTurnForReview(transaction, groupId, logId);
+
+    if (log.confirmationStatus !== 'pending') {
+      throw new Error('Only a turn awaiting confirmation can be disputed.');
+    }
+    if (!groupData.participantUids[actor.uid] || isOwnTurn(groupData, log, actor.uid)) {
+      throw new Error('Another participant must review this turn.');
+    }
+
+    transaction.update(doc(db, 'groups', groupId, 'turnLog', logId), {
+      confirmationStatus: 'disputed',
+      reviewedByUid: actor.uid,
+      reviewedByName: actor.displayName || 'Unknown',
+    });
+  });
+}
+
+/**
+ * Atomically upholds a dispute and logs the review. The turn is never counted
+ * and the participant goes back to the front of the queue, since their turn is
+ * still owed.
+ * @param groupId The ID of the group.
+ * @param actor The admin rejecting the turn.
+ * @param logId The ID of the `TURN_COMPLETED` log entry.
+ */
+export async function rejectTurnTransaction(
+  groupId: string,
+  actor: AppUser,
+  logId: string,
+): Promise<void> {
+  await runTransaction(db, async (transaction) => {
+    const { groupData, log } = await readTurnForReview(transaction, groupId, logId);
+
+    if (!groupData.adminUids[actor.uid]) {
+      throw new Error('Only an admin can resolve a disputed turn.');
+    }
+    if (log.confirmationStatus !== 'disputed') {
+      throw new Error('Only a disputed turn can be rejected.');
+    }
+
+    const queueId = log.queueId ?? MAIN_QUEUE_ID;
+    const queueExists = queueId === MAIN_QUEUE_ID || groupData.queues?.some((q) => q.id === queueId);
+    const turnOrder = queueExists ? projectQueue(groupData, queueId).turnOrder : [];
+    if (turnOrder.includes(log.participantId)) {
+      transaction.update(
+        doc(db, 'groups', groupId),
+        buildQueueUpdate(groupData, queueId, {
+          turnOrder: [log.participantId, ...turnOrder.filter((id) => id !== log.participantId)],
+        }),
+      );
+    }
+
+    transaction.update(doc(db, 'groups', groupId, 'turnLog', logId), {
+      confirmationStatus: 'rejected',
+      reviewedByUid: actor.uid,
+      reviewedByName: actor.displayName || 'Unknown',
+    });
+    logTurnReview(transaction, groupId, groupData, actor, logId, log, 'rejected');
+  });
+}
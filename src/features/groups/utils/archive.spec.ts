@@ -0,0 +1,47 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/utils/archive.spec.ts
+ * @stamp {"ts":"2026-10-19T14:10:00Z"}
+ * @test-target packages/whoseturnnow/src/features/groups/utils/archive.ts
+ *
+ * @description
+ * Unit tests for the archived-group rules. This suite verifies when an archived
+ * group falls due to be purged and how its remaining days are counted.
+ *
+ * @criticality
+ * Critical (Reason: Core Business Logic Orchestration)
+ *
+ * @testing-layer Unit
+ *
+ * @contract
+ *   assertions:
+ *     purity: read-only
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computePurgeAt, daysUntilPurge, isArchived, isDueForPurge } from './archive';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('archive utils', () => {
+  it('should treat only groups with an archive time as archived', () => {
+    expect(isArchived({})).toBe(false);
+    expect(isArchived({ archivedAt: null })).toBe(false);
+    expect(isArchived({ archivedAt: 0 })).toBe(true);
+  });
+
+  it('should purge an archived group once its retention has passed', () => {
+    const purgeAt = computePurgeAt(1_000, 7);
+
+    expect(purgeAt).toBe(1_000 + 7 * DAY_MS);
+    expect(isDueForPurge({ archivedAt: 1_000, purgeAt }, purgeAt - 1)).toBe(false);
+    expect(isDueForPurge({ archivedAt: 1_000, purgeAt }, purgeAt)).toBe(true);
+    expect(isDueForPurge({ archivedAt: null, purgeAt }, purgeAt)).toBe(false);
+  });
+
+  it('should count the days left rounded up, never below zero', () => {
+    expect(daysUntilPurge(10 * DAY_MS, 8 * DAY_MS + 1)).toBe(2);
+    expect(daysUntilPurge(10 * DAY_MS, 11 * DAY_MS)).toBe(0);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/utils/archive.ts
+ * @stamp {"ts":"2026-10-19T14:10:00Z"}
+ * @architectural-role Utility
+ * @description
+ * Provides the rules for archived groups: the retention periods an admin can
+ * choose when archiving, when an archived group falls due to be purged, how
+ * long it has left, and whether its deletion was started but not finished.
+ * @core-principles
+ * 1. IS a collection of pure, stateless helper functions and constants.
+ * 2. MUST receive the current time as an argument rather than reading the clock.
+ * 3. MUST NOT perform any I/O operations.
+ * @api-declaration
+ *   - ARCHIVE_RETENTION_OPTIONS: The retention periods offered when archiving.
+ *   - DEFAULT_ARCHIVE_RETENTION_DAYS: The retention period selected by default.
+ *   - isArchived: Checks whether a group is archived.
+ *   - computePurgeAt: Computes when an archived group will be purged.
+ *   - isDueForPurge: Checks whether an archived group's retention has run out.
+ *   - daysUntilPurge: Counts the whole days an archived group has left.
+ *   - isBeingDeleted: Checks whether a group's deletion was started but not finished.
+ * @contract
+ *   assertions:
+ *     purity: pure
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import type { Group } from '../../../types/group';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The retention periods offered when archiving, in days.
+ */
+export const ARCHIVE_RETENTION_OPTIONS = [
+  { days: 7, label: '1 week' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+];
+
+/**
+ * The retention period selected by default, in days.
+ */
+export const DEFAULT_ARCHIVE_RETENTION_DAYS = 30;
+
+/**
+ * Checks whether a group is archived.
+ */
+export function isArchived(group: Pick<Group, 'archivedAt'>): boolean {
+  return typeof group.archivedAt === 'number';
+}
+
+/**
+ * Computes when an archived group will be purged.
+ * @param archivedAt When the group was archived, in epoch milliseconds.
+ * @param retentionDays How many days the group is kept.
+ */
+export function computePurgeAt(archivedAt: number, retentionDays: number): number {
+  return archivedAt + retentionDays * DAY_MS;
+}
+
+/**
+ * Checks whether an archived group's retention period has run out.
+ * @param group The group to check.
+ * @param nowMs The current time in epoch milliseconds.
+ */
+export function isDueForPurge(group: Pick<Group, 'archivedAt' | 'purgeAt'>, nowMs: number): boolean {
+  return isArchived(group) && typeof group.purgeAt === 'number' && group.purgeAt <= nowMs;
+}
+
+/**
+ * Counts the whole days an archived group has left before it is purged.
+ * @param purgeAt When the group will be purged, in epoch milliseconds.
+ * @param nowMs The current time in epoch milliseconds.
+ * @returns The number of days left, rounded up, and never below zero.
+ */
+export function daysUntilPurge(purgeAt: number, nowMs: number): number {
+  return Math.max(0, Math.ceil((purgeAt - nowMs) / DAY_MS));
+}
+
+/**
+ * Checks whether a group's deletion was started but has not finished.
+ */
+export function isBeingDeleted(group: Pick<Group, 'deletingAt'>): boolean {
+  return typeof group.deletingAt === 'number';
+}
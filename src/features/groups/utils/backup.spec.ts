@@ -0,0 +1,190 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/utils/backup.spec.ts
+ * @stamp {"ts":"2026-10-19T15:15:00Z"}
+ * @test-target packages/whoseturnnow/src/features/groups/utils/backup.ts
+ *
+ * @description
+ * Unit tests for group backups. This suite verifies that a backup survives a
+ * round trip through JSON, that malformed or unsupported files are rejected
+ * with a clear reason, that every kind of log entry, audit entries included,
+ * is accepted, and that restoring relinks only the importer and starts the
+ * group active.
+ *
+ * @criticality
+ * Critical (Reason: Core Business Logic Orchestration)
+ *
+ * @testing-layer Unit
+ *
+ * @contract
+ *   assertions:
+ *     purity: read-only
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  GROUP_BACKUP_VERSION,
+  buildGroupBackup,
+  buildRestoredGroup,
+  parseGroupBackup,
+} from './backup';
+import type { Group, LogEntry } from '../../../types/group';
+
+// --- Test Data ---
+const baseGroup: Group = {
+  gid: 'group-1',
+  name: 'Chores',
+  icon: '🧹',
+  ownerUid: 'user-alice',
+  participants: [
+    { id: 'p-alice', uid: 'user-alice', role: 'admin', turnCount: 3, nickname: 'Alice' },
+    { id: 'p-bob', uid: 'user-bob', role: 'admin', turnCount: 2, nickname: 'Bob' },
+    { id: 'p-carol', uid: null, role: 'member', turnCount: 1, nickname: 'Carol' },
+  ],
+  turnOrder: ['p-bob', 'p-carol', 'p-alice'],
+  participantUids: { 'user-alice': true, 'user-bob': true },
+  adminUids: { 'user-alice': true, 'user-bob': true },
+  queues: [{ id: 'q-bins', name: 'Bins', turnOrder: ['p-carol', 'p-alice', 'p-bob'], turnCounts: {} }],
+  swapRequests: [
+    {
+      id: 's1',
+      fromParticipantId: 'p-alice',
+      toParticipantId: 'p-bob',
+      queueId: 'main',
+      requestedByUid: 'user-alice',
+      _fromParticipantIndex: 0,
+      requestedAt: 0,
+    },
+  ],
+};
+
+const turnLog: (LogEntry & { id: string })[] = [
+  {
+    id: 'log-1',
+    type: 'TURN_COMPLETED',
+    completedAt: { toDate: () => new Date(Date.UTC(2026, 0, 2)) } as any,
+    participantId: 'p-bob',
+    participantName: 'Bob',
+    actorUid: 'user-bob',
+    actorName: 'Bob',
+    _participantUids: { 'user-alice': true, 'user-bob': true },
+    _adminUids: { 'user-alice': true, 'user-bob': true },
+  },
+];
+
+const EXPORTED_AT = Date.UTC(2026, 0, 3);
+const roundTrip = () => parseGroupBackup(JSON.stringify(buildGroupBackup(baseGroup, turnLog, EXPORTED_AT)));
+
+describe('backup utils', () => {
+  describe('parseGroupBackup', () => {
+    it('should accept a backup that went through JSON', () => {
+      const backup = roundTrip();
+      expect(backup.version).toBe(GROUP_BACKUP_VERSION);
+      expect(backup.turnLog[0].completedAt).toBe('2026-01-02T00:00:00.000Z');
+    });
+
+    it('should accept and restore membership and settings audit entries', () => {
+      const audit = { actorUid: 'user-alice', actorName: 'Alice', _participantUids: {}, _adminUids: {} };
+      const completedAt = { toDate: () => new Date(Date.UTC(2026, 0, 1)) } as any;
+      const auditLog: (LogEntry & { id: string })[] = [
+        { ...audit, id: 'log-a', type: 'MEMBER_JOINED', completedAt, participantId: 'p-bob', participantName: 'Bob' },
+        { ...audit, id: 'log-b', type: 'PARTICIPANT_ADDED', completedAt, participantId: 'p-carol', participantName: 'Carol' },
+        { ...audit, id: 'log-c', type: 'GROUP_RENAMED', completedAt, previousName: 'Dishes', newName: 'Chores' },
+      ];
+      const text = JSON.stringify(buildGroupBackup(baseGroup, [...turnLog, ...auditLog], EXPORTED_AT));
+
+      const { turnLog: restoredLog } = buildRestoredGroup(
+        parseGroupBackup(text),
+        'group-2',
+        { uid: 'user-alice', displayName: 'Alice' },
+        'unused',
+      );
+
+      expect(restoredLog.map((log) => [log.id, log.entry.type])).toEqual([
+        ['log-1', 'TURN_COMPLETED'],
+        ['log-a', 'MEMBER_JOINED'],
+        ['log-b', 'PARTICIPANT_ADDED'],
+        ['log-c', 'GROUP_RENAMED'],
+      ]);
+    });
+
+    it('should reject log entries of an unknown type', () => {
+      const backup = buildGroupBackup(baseGroup, turnLog, EXPORTED_AT);
+      const damaged = { ...backup, turnLog: [{ ...backup.turnLog[0], type: 'toString' }] };
+      expect(() => parseGroupBackup(JSON.stringify(damaged))).toThrow(
+        'This backup is damaged: turnLog[0].type is not a known entry type.',
+      );
+    });
+
+    it('should reject files that are not backups', () => {
+      expect(() => parseGroupBackup('not json')).toThrow('This file is not valid JSON.');
+      expect(() => parseGroupBackup('{"name":"x"}')).toThrow('not a Whose Turn Now group backup');
+    });
+
+    it('should reject backups from a newer version', () => {
+      const backup = { ...buildGroupBackup(baseGroup, turnLog, EXPORTED_AT), version: GROUP_BACKUP_VERSION + 1 };
+      expect(() => parseGroupBackup(JSON.stringify(backup))).toThrow('newer version of the app');
+    });
+
+    it('should name the damaged field', () => {
+      const backup = buildGroupBackup(baseGroup, turnLog, EXPORTED_AT);
+      const damaged = { ...backup, group: { ...backup.group, turnOrder: ['p-bob', 'p-nobody'] } };
+      expect(() => parseGroupBackup(JSON.stringify(damaged))).toThrow(
+        'This backup is damaged: group.turnOrder names a participant that is not in the group.',
+      );
+    });
+  });
+
+  describe('buildRestoredGroup', () => {
+    it('should unlink everyone except the importer, who becomes the only admin', () => {
+      const { group } = buildRestoredGroup(roundTrip(), 'group-2', { uid: 'user-alice', displayName: 'Alice' }, 'unused');
+
+      expect(group.gid).toBe('group-2');
+      expect(group.participants.map((p) => [p.id, p.uid, p.role])).toEqual([
+        ['p-alice', 'user-alice', 'admin'],
+        ['p-bob', null, 'member'],
+        ['p-carol', null, 'member'],
+      ]);
+      expect(group.turnOrder).toEqual(baseGroup.turnOrder);
+      expect(group.adminUids).toEqual({ 'user-alice': true });
+      expect(group).not.toHaveProperty('swapRequests');
+    });
+
+    it('should restore an archived group as active', () => {
+      const backup = buildGroupBackup(
+        { ...baseGroup, archivedAt: 1000, purgeAt: 2000, deletingAt: 3000 },
+        turnLog,
+        EXPORTED_AT,
+      );
+      const { group } = buildRestoredGroup(
+        parseGroupBackup(JSON.stringify(backup)),
+        'group-2',
+        { uid: 'user-alice', displayName: 'Alice' },
+        'unused',
+      );
+
+      expect(group).not.toHaveProperty('archivedAt');
+      expect(group).not.toHaveProperty('purgeAt');
+      expect(group).not.toHaveProperty('deletingAt');
+    });
+
+    it('should give an importer who was not in the group a new slot at the back', () => {
+      const { group, turnLog: restoredLog } = buildRestoredGroup(
+        roundTrip(),
+        'group-2',
+        { uid: 'user-dana', displayName: 'Dana' },
+        'p-dana',
+      );
+
+      expect(group.participants[0]).toMatchObject({ id: 'p-dana', uid: 'user-dana', role: 'admin', nickname: 'Dana' });
+      expect(group.turnOrder).toEqual(['p-bob', 'p-carol', 'p-alice', 'p-dana']);
+      expect(group.queues?.[0].turnOrder).toEqual(['p-carol', 'p-alice', 'p-bob', 'p-dana']);
+      expect(restoredLog[0]).toMatchObject({
+        id: 'log-1',
+        completedAtMs: Date.UTC(2026, 0, 2),
+        entry: { _participantUids: { 'user-dana': true }, _adminUids: { 'user-dana': true } },
+      });
+    });
+  });
+});
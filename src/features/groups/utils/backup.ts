@@ -0,0 +1,316 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/utils/backup.ts
+ * @stamp {"ts":"2026-10-19T16:10:00Z"}
+ * @architectural-role Utility
+ * @description
+ * Builds, validates and restores portable group backups. A backup is a
+ * versioned JSON document holding a group document and its entire turn log,
+ * with server timestamps written as ISO 8601 strings. Restoring produces a new
+ * group owned by the importer: placeholders are kept, every other linked user
+ * becomes a claimable placeholder again, and the importer takes their old
+ * slot, or a new one if they were not in the group, as its only admin.
+ * @core-principles
+ * 1. IS a collection of pure, stateless helper functions.
+ * 2. MUST reject any file that is not a backup of a supported version, with an
+ *    error message that says what is wrong.
+ * 3. MUST keep log entry IDs, so undo and redo records still find their originals.
+ * 4. MUST NOT perform any I/O operations.
+ * @api-declaration
+ *   - GROUP_BACKUP_FORMAT: The marker identifying a group backup file.
+ *   - GROUP_BACKUP_VERSION: The current backup schema version.
+ *   - GroupBackup: The shape of a backup file.
+ *   - RestoredGroup: A group and log ready to be written under a new ID.
+ *   - buildGroupBackup: Builds a backup from a group and its log.
+ *   - parseGroupBackup: Parses and validates the text of a backup file.
+ *   - buildRestoredGroup: Rebuilds a backup as a new group owned by the importer.
+ * @contract
+ *   assertions:
+ *     purity: pure
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import type { Group, LogEntry, TurnParticipant } from '../../../types/group';
+import { addParticipantToQueues } from './queues';
+
+/**
+ * The marker identifying a group backup file.
+ */
+export const GROUP_BACKUP_FORMAT = 'whoseturnnow/group-backup';
+
+/**
+ * The current backup schema version. Bump it whenever the shape changes in a
+ * way older readers cannot handle, and teach `parseGroupBackup` to upgrade.
+ */
+export const GROUP_BACKUP_VERSION = 1;
+
+/**
+ * A log entry as stored in a backup: its ID, and its time as an ISO 8601
+ * string, or `null` if the server had not resolved it when the backup was made.
+ */
+export type BackupLogEntry = Omit<LogEntry, 'completedAt'> & {
+  id: string;
+  completedAt: string | null;
+};
+
+/**
+ * The shape of a backup file.
+ */
+export interface GroupBackup {
+  format: typeof GROUP_BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  group: Group;
+  turnLog: BackupLogEntry[];
+}
+
+/**
+ * A group and its log, ready to be written under a new ID.
+ */
+export interface RestoredGroup {
+  group: Group;
+  /** The log entries, each with its time in epoch milliseconds. */
+  turnLog: { id: string; entry: Omit<LogEntry, 'completedAt'>; completedAtMs: number }[];
+}
+
+// Keyed by every member of the `LogEntry` union, so the compiler rejects this
+// table whenever a new entry type is added without it.
+const LOG_TYPES: Record<LogEntry['type'], true> = {
+  TURN_COMPLETED: true,
+  TURN_SKIPPED: true,
+  TURN_STARTED: true,
+  TURN_UNDONE: true,
+  TURN_REDONE: true,
+  TURN_SWAPPED: true,
+  COUNTS_RESET: true,
+  QUEUE_REORDERED: true,
+  PARTICIPANT_ADDED: true,
+  PARTICIPANT_REMOVED: true,
+  ROLE_CHANGED: true,
+  PLACEHOLDER_CLAIMED: true,
+  MEMBER_JOINED: true,
+  MEMBER_LEFT: true,
+  GROUP_RENAMED: true,
+  ICON_CHANGED: true,
+  AWAY_CHANGED: true,
+  WEIGHT_CHANGED: true,
+  TURN_REVIEWED: true,
+};
+
+/**
+ * Builds a backup from a group and its full log.
+ * @param group The group document.
+ * @param turnLog The group's entire log, in any order.
+ * @param exportedAt The backup time in epoch milliseconds.
+ */
+export function buildGroupBackup(
+  group: Group,
+  turnLog: (LogEntry & { id: string })[],
+  exportedAt: number,
+): GroupBackup {
+  return {
+    format: GROUP_BACKUP_FORMAT,
+    version: GROUP_BACKUP_VERSION,
+    exportedAt: new Date(exportedAt).toISOString(),
+    group,
+    turnLog: turnLog.map((log) => {
+      const completedAt = log.completedAt as { toDate?: () => Date } | null;
+      return {
+        ...log,
+        completedAt:
+          typeof completedAt?.toDate === 'function' ? completedAt.toDate().toISOString() : null,
+      } as BackupLogEntry;
+    }),
+  };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+/**
+ * Throws a validation error naming the offending field.
+ */
+function invalid(path: string, problem: string): never {
+  throw new Error(`This backup is damaged: ${path} ${problem}.`);
+}
+
+function validateParticipant(value: unknown, path: string): void {
+  if (!isRecord(value)) invalid(path, 'must be an object');
+  if (typeof value.id !== 'string' || value.id === '') {
+    invalid(`${path}.id`, 'must be a non-empty string');
+  }
+  if (value.uid !== null && typeof value.uid !== 'string') {
+    invalid(`${path}.uid`, 'must be a string or null');
+  }
+  if (value.role !== 'admin' && value.role !== 'member') {
+    invalid(`${path}.role`, 'must be "admin" or "member"');
+  }
+  if (typeof value.turnCount !== 'number') invalid(`${path}.turnCount`, 'must be a number');
+}
+
+function validateQueue(value: unknown, path: string): void {
+  if (!isRecord(value)) invalid(path, 'must be an object');
+  if (typeof value.id !== 'string' || typeof value.name !== 'string') {
+    invalid(path, 'must have a string id and name');
+  }
+  if (!isStringArray(value.turnOrder)) invalid(`${path}.turnOrder`, 'must be a list of participant IDs');
+  if (!isRecord(value.turnCounts)) invalid(`${path}.turnCounts`, 'must be an object');
+}
+
+function validateGroup(value: unknown): void {
+  if (!isRecord(value)) invalid('group', 'must be an object');
+  if (typeof value.name !== 'string' || value.name.trim() === '') {
+    invalid('group.name', 'must be a non-empty string');
+  }
+  if (typeof value.icon !== 'string') invalid('group.icon', 'must be a string');
+  if (!Array.isArray(value.participants)) invalid('group.participants', 'must be a list');
+  value.participants.forEach((p, i) => validateParticipant(p, `group.participants[${i}]`));
+
+  const ids = new Set((value.participants as TurnParticipant[]).map((p) => p.id));
+  if (ids.size !== value.participants.length) invalid('group.participants', 'must not repeat an ID');
+  if (!isStringArray(value.turnOrder)) invalid('group.turnOrder', 'must be a list of participant IDs');
+  if (value.turnOrder.some((id) => !ids.has(id))) {
+    invalid('group.turnOrder', 'names a participant that is not in the group');
+  }
+
+  if (value.queues !== undefined) {
+    if (!Array.isArray(value.queues)) invalid('group.queues', 'must be a list');
+    value.queues.forEach((q, i) => validateQueue(q, `group.queues[${i}]`));
+  }
+}
+
+function validateLogEntry(value: unknown, path: string): void {
+  if (!isRecord(value)) invalid(path, 'must be an object');
+  if (typeof value.id !== 'string' || value.id === '') {
+    invalid(`${path}.id`, 'must be a non-empty string');
+  }
+  if (typeof value.type !== 'string' || !Object.prototype.hasOwnProperty.call(LOG_TYPES, value.type)) {
+    invalid(`${path}.type`, 'is not a known entry type');
+  }
+  if (typeof value.actorUid !== 'string' || typeof value.actorName !== 'string') {
+    invalid(path, 'must record who took the action');
+  }
+  const { completedAt } = value;
+  if (completedAt !== null && (typeof completedAt !== 'string' || Number.isNaN(Date.parse(completedAt)))) {
+    invalid(`${path}.completedAt`, 'must be a date or null');
+  }
+}
+
+/**
+ * Parses and validates the text of a backup file.
+ * @param text The file's contents.
+ * @returns The validated backup.
+ * @throws An `Error` with a user-facing message if the file is not a valid
+ *         backup of a supported version.
+ */
+export function parseGroupBackup(text: string): GroupBackup {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+
+  if (!isRecord(data) || data.format !== GROUP_BACKUP_FORMAT) {
+    throw new Error('This file is not a Whose Turn Now group backup.');
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    throw new Error('This backup does not say which version it is.');
+  }
+  if (data.version > GROUP_BACKUP_VERSION) {
+    throw new Error(
+      `This backup was made by a newer version of the app (version ${data.version}). Update the app and try again.`,
+    );
+  }
+
+  if (typeof data.exportedAt !== 'string' || Number.isNaN(Date.parse(data.exportedAt))) {
+    invalid('exportedAt', 'must be a date');
+  }
+  validateGroup(data.group);
+  if (!Array.isArray(data.turnLog)) invalid('turnLog', 'must be a list');
+  data.turnLog.forEach((log, i) => validateLogEntry(log, `turnLog[${i}]`));
+
+  const logIds = new Set((data.turnLog as BackupLogEntry[]).map((log) => log.id));
+  if (logIds.size !== data.turnLog.length) invalid('turnLog', 'must not repeat an ID');
+
+  return data as unknown as GroupBackup;
+}
+
+/**
+ * Rebuilds a backup as a new group owned by the importer.
+ *
+ * Every participant keeps their slot, counts and settings, but only the
+ * importer stays linked: everyone else becomes a placeholder that can be
+ * claimed again through an invite. The importer is listed first and is the
+ * only admin, as a newly created group requires. Swap requests and turns in
+ * progress are dropped, since they belong to the old group's members, and the
+ * restored group starts active even if it was archived or being deleted.
+ * @param backup A backup that passed `parseGroupBackup`.
+ * @param gid The new group's ID.
+ * @param importer The user restoring the backup.
+ * @param newParticipantId The slot ID to use if the importer was not in the group.
+ */
+export function buildRestoredGroup(
+  backup: GroupBackup,
+  gid: string,
+  importer: { uid: string; displayName: string | null },
+  newParticipantId: string,
+): RestoredGroup {
+  const source = backup.group;
+  const ownSlot = source.participants.find((p) => p.uid === importer.uid);
+
+  const others: TurnParticipant[] = source.participants
+    .filter((p) => p !== ownSlot)
+    .map((p) => ({ ...p, uid: null, role: 'member' }));
+  const importerSlot: TurnParticipant = ownSlot
+    ? { ...ownSlot, role: 'admin' }
+    : {
+        id: newParticipantId,
+        uid: importer.uid,
+        role: 'admin',
+        turnCount: 0,
+        nickname: importer.displayName ?? 'default',
+      };
+
+  const participantUids = { [importer.uid]: true };
+  const adminUids = { [importer.uid]: true };
+
+  // Leaves out what belonged to the old group's members.
+  const {
+    swapRequests: _swapRequests,
+    turnsInProgress: _turnsInProgress,
+    joinCode: _joinCode,
+    archivedAt: _archivedAt,
+    purgeAt: _purgeAt,
+    deletingAt: _deletingAt,
+    ...settings
+  } = source;
+  const group: Group = {
+    ...settings,
+    gid,
+    ownerUid: importer.uid,
+    participants: [importerSlot, ...others],
+    turnOrder: ownSlot ? source.turnOrder : [...source.turnOrder, importerSlot.id],
+    participantUids,
+    adminUids,
+    ...(source.queues && {
+      queues: ownSlot ? source.queues : addParticipantToQueues(source.queues, importerSlot.id),
+    }),
+  };
+
+  const exportedAtMs = Date.parse(backup.exportedAt);
+  const turnLog = backup.turnLog.map(({ id, completedAt, ...entry }) => ({
+    id,
+    entry: {
+      ...entry,
+      _participantUids: participantUids,
+      _adminUids: adminUids,
+    } as Omit<LogEntry, 'completedAt'>,
+    completedAtMs: completedAt !== null ? Date.parse(completedAt) : exportedAtMs,
+  }));
+
+  return { group, turnLog };
+}
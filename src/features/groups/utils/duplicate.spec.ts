@@ -0,0 +1,107 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/utils/duplicate.spec.ts
+ * @stamp {"ts":"2026-10-19T15:15:00Z"}
+ * @test-target packages/whoseturnnow/src/features/groups/utils/duplicate.ts
+ *
+ * @description
+ * Unit tests for duplicating a group. This suite verifies that a duplicate
+ * keeps the roster, links and roles, that progress is either carried over or
+ * reset to roster order, and that nothing in progress is copied. A duplicate
+ * of an archived group starts active.
+ *
+ * @criticality
+ * Critical (Reason: Core Business Logic Orchestration)
+ *
+ * @testing-layer Unit
+ *
+ * @contract
+ *   assertions:
+ *     purity: read-only
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildDuplicatedGroup } from './duplicate';
+import type { Group } from '../../../types/group';
+
+// --- Test Data ---
+const source: Group = {
+  gid: 'group-1',
+  name: 'Coffee',
+  icon: '☕',
+  ownerUid: 'user-bob',
+  participants: [
+    { id: 'p-alice', uid: 'user-alice', role: 'admin', turnCount: 3, nickname: 'Alice', totalSpent: 12 },
+    { id: 'p-bob', uid: 'user-bob', role: 'admin', turnCount: 2, nickname: 'Bob', weight: 2 },
+    { id: 'p-carol', uid: null, role: 'member', turnCount: 1, nickname: 'Carol' },
+  ],
+  turnOrder: ['p-carol', 'p-bob', 'p-alice'],
+  participantUids: { 'user-alice': true, 'user-bob': true },
+  adminUids: { 'user-alice': true, 'user-bob': true },
+  rotationStrategy: 'ledger',
+  nextDueAt: 1000,
+  queues: [{ id: 'q-1', name: 'Tea', turnOrder: ['p-bob', 'p-alice', 'p-carol'], turnCounts: { 'p-bob': 4 } }],
+  swapRequests: [
+    {
+      id: 's1',
+      fromParticipantId: 'p-alice',
+      toParticipantId: 'p-bob',
+      queueId: 'main',
+      requestedByUid: 'user-alice',
+      _fromParticipantIndex: 0,
+      requestedAt: 0,
+    },
+  ],
+};
+
+const duplicate = (keepProgress: boolean) =>
+  buildDuplicatedGroup(source, { gid: 'group-2', name: 'Coffee 2', creatorUid: 'user-alice', keepProgress });
+
+describe('duplicate utils', () => {
+  describe('buildDuplicatedGroup', () => {
+    it('should keep the roster, links, roles and settings', () => {
+      const group = duplicate(true);
+
+      expect(group).toMatchObject({
+        gid: 'group-2',
+        name: 'Coffee 2',
+        ownerUid: 'user-alice',
+        participants: source.participants,
+        turnOrder: source.turnOrder,
+        participantUids: source.participantUids,
+        adminUids: source.adminUids,
+        rotationStrategy: 'ledger',
+        queues: source.queues,
+        duplicatedFromGid: 'group-1',
+      });
+      expect(group).not.toHaveProperty('swapRequests');
+      expect(group).not.toHaveProperty('nextDueAt');
+    });
+
+    it('should reset the order to the roster and clear every count when not keeping progress', () => {
+      const group = duplicate(false);
+
+      expect(group.turnOrder).toEqual(['p-alice', 'p-bob', 'p-carol']);
+      expect(group.participants.map((p) => [p.turnCount, p.totalSpent, p.weight])).toEqual([
+        [0, undefined, undefined],
+        [0, undefined, 2],
+        [0, undefined, undefined],
+      ]);
+      expect(group.queues).toEqual([
+        { id: 'q-1', name: 'Tea', turnOrder: ['p-alice', 'p-bob', 'p-carol'], turnCounts: {} },
+      ]);
+    });
+
+    it('should start active when the source is archived or being deleted', () => {
+      const group = buildDuplicatedGroup(
+        { ...source, archivedAt: 1000, purgeAt: 2000, deletingAt: 3000 },
+        { gid: 'group-2', name: 'Coffee 2', creatorUid: 'user-alice', keepProgress: true },
+      );
+
+      expect(group).not.toHaveProperty('archivedAt');
+      expect(group).not.toHaveProperty('purgeAt');
+      expect(group).not.toHaveProperty('deletingAt');
+    });
+  });
+});
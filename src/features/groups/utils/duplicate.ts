@@ -0,0 +1,70 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/utils/duplicate.ts
+ * @stamp {"ts":"2026-10-19T15:15:00Z"}
+ * @architectural-role Utility
+ * @description
+ * Builds a duplicate of a group: the same roster, with linked users still
+ * linked, placeholders still placeholders and roles kept, plus the same
+ * settings and queues. The duplicate either carries over the turn order and
+ * counts or starts afresh in roster order. Nothing in progress is carried over,
+ * and neither is the join code, which belongs to the source group alone. A
+ * duplicate starts active even if its source is archived or being deleted.
+ * @core-principles
+ * 1. IS a collection of pure, stateless helper functions.
+ * 2. MUST keep the membership and admin maps identical to the source group's,
+ *    as the security rules only allow a multi-member create on that basis.
+ * 3. MUST NOT perform any I/O operations.
+ * @api-declaration
+ *   - buildDuplicatedGroup: Builds a new group from an existing one.
+ * @contract
+ *   assertions:
+ *     purity: pure
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import type { Group, TurnParticipant } from '../../../types/group';
+
+/**
+ * Builds a new group with the roster and settings of an existing one.
+ * @param source The group to duplicate.
+ * @param options The new group's ID and name, the duplicating user's UID, and
+ *                whether to keep the turn order and counts rather than reset them.
+ * @returns The new group document. Its `nextDueAt` is left for the caller to compute.
+ */
+export function buildDuplicatedGroup(
+  source: Group,
+  options: { gid: string; name: string; creatorUid: string; keepProgress: boolean },
+): Group {
+  const { gid, name, creatorUid, keepProgress } = options;
+  const {
+    swapRequests: _swapRequests,
+    turnsInProgress: _turnsInProgress,
+    nextDueAt: _nextDueAt,
+    joinCode: _joinCode,
+    archivedAt: _archivedAt,
+    purgeAt: _purgeAt,
+    deletingAt: _deletingAt,
+    ...settings
+  } = source;
+
+  const participants: TurnParticipant[] = keepProgress
+    ? source.participants
+    : source.participants.map(({ totalSpent: _totalSpent, ...p }) => ({ ...p, turnCount: 0 }));
+  const rosterOrder = participants.map((p) => p.id);
+
+  return {
+    ...settings,
+    gid,
+    name,
+    ownerUid: creatorUid,
+    participants,
+    turnOrder: keepProgress ? source.turnOrder : rosterOrder,
+    ...(source.queues && {
+      queues: keepProgress
+        ? source.queues
+        : source.queues.map((q) => ({ ...q, turnOrder: [...rosterOrder], turnCounts: {} })),
+    }),
+    duplicatedFromGid: source.gid,
+  };
+}
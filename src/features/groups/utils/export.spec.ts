@@ -0,0 +1,106 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/utils/export.spec.ts
+ * @stamp {"ts":"2026-10-19T13:50:00Z"}
+ * @test-target packages/whoseturnnow/src/features/groups/utils/export.ts
+ *
+ * @description
+ * Unit tests for the history export helpers. This suite verifies how entries
+ * are flattened into rows and that CSV output is safely quoted.
+ *
+ * @criticality
+ * Critical (Reason: Core Business Logic Orchestration)
+ *
+ * @testing-layer Unit
+ *
+ * @contract
+ *   assertions:
+ *     purity: read-only
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildHistoryExportRow,
+  buildExportFileName,
+  serializeHistoryCsv,
+  type HistoryExportRow,
+} from './export';
+import type { LogEntry } from '../../../types/group';
+
+// --- Test Data ---
+const logBase = { actorUid: 'user-alice', actorName: 'Alice', _participantUids: {}, _adminUids: {} };
+const describeLog = (log: LogEntry) => `A ${log.type} entry.`;
+
+const row: HistoryExportRow = {
+  id: 'l1',
+  timestamp: '',
+  type: 'TURN_COMPLETED',
+  participant: 'Bob',
+  actor: 'Alice',
+  undone: false,
+  description: 'Bob\'s turn was completed.',
+};
+
+describe('export utils', () => {
+  describe('buildHistoryExportRow', () => {
+    it('should resolve the timestamp and mark undone entries', () => {
+      const log: LogEntry & { id: string } = {
+        ...logBase,
+        id: 'l1',
+        type: 'TURN_COMPLETED',
+        completedAt: { toDate: () => new Date(Date.UTC(2026, 0, 2)) } as any,
+        participantId: 'p-bob',
+        participantName: 'Bob',
+        isUndone: true,
+      };
+
+      expect(buildHistoryExportRow(log, describeLog)).toEqual({
+        id: 'l1',
+        timestamp: '2026-01-02T00:00:00.000Z',
+        type: 'TURN_COMPLETED',
+        participant: 'Bob',
+        actor: 'Alice',
+        undone: true,
+        description: 'A TURN_COMPLETED entry.',
+      });
+    });
+
+    it('should name both participants of a swap and leave unresolved times empty', () => {
+      const log: LogEntry & { id: string } = {
+        ...logBase,
+        id: 's1',
+        type: 'TURN_SWAPPED',
+        completedAt: null as any,
+        fromParticipantId: 'p-alice',
+        fromParticipantName: 'Alice',
+        toParticipantId: 'p-bob',
+        toParticipantName: 'Bob',
+      };
+
+      const exported = buildHistoryExportRow(log, describeLog);
+      expect(exported.participant).toBe('Alice / Bob');
+      expect(exported.timestamp).toBe('');
+    });
+  });
+
+  describe('serializeHistoryCsv', () => {
+    it('should quote cells with commas or quotes and defuse formulas', () => {
+      const csv = serializeHistoryCsv([
+        { ...row, participant: 'Bob, Jr.', actor: '=HYPERLINK("x")' },
+      ]);
+
+      expect(csv.split('\r\n')[1]).toBe(
+        `l1,,TURN_COMPLETED,"Bob, Jr.","'=HYPERLINK(""x"")",false,Bob's turn was completed.`,
+      );
+    });
+  });
+
+  describe('buildExportFileName', () => {
+    it('should name the file after the group and date', () => {
+      expect(buildExportFileName('Kitchen & Bins!', 'history', 'json', Date.UTC(2026, 9, 19))).toBe(
+        'kitchen-bins-history-2026-10-19.json',
+      );
+    });
+  });
+});
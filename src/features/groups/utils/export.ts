@@ -0,0 +1,167 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/utils/export.ts
+ * @stamp {"ts":"2026-10-19T16:10:00Z"}
+ * @architectural-role Utility
+ * @description
+ * Turns a group's log into downloadable history files. Each entry becomes one
+ * flat row with a resolved timestamp, its type, the participant and actor, its
+ * undone status and the same readable description shown in the app, which is
+ * then serialised as CSV for spreadsheets or as JSON.
+ * @core-principles
+ * 1. IS a collection of pure, stateless helper functions.
+ * 2. MUST produce the same row for an entry regardless of the chosen format.
+ * 3. MUST neutralise cell values a spreadsheet would run as formulas.
+ * 4. MUST NOT perform any I/O operations.
+ * @api-declaration
+ *   - HistoryExportFormat: The formats the history can be exported as.
+ *   - HistoryExportRow: One exported log entry.
+ *   - buildHistoryExportRow: Flattens a log entry into an export row.
+ *   - serializeHistoryCsv: Serialises export rows as CSV.
+ *   - serializeHistoryJson: Serialises export rows as JSON.
+ *   - buildExportFileName: Names an exported file.
+ * @contract
+ *   assertions:
+ *     purity: pure
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import type { LogEntry } from '../../../types/group';
+
+/**
+ * The formats the history can be exported as.
+ */
+export type HistoryExportFormat = 'csv' | 'json';
+
+/**
+ * One exported log entry.
+ */
+export interface HistoryExportRow {
+  id: string;
+  /** The entry's time as an ISO 8601 string, or empty if the server has not resolved it. */
+  timestamp: string;
+  type: LogEntry['type'];
+  /** The participant the entry is about, if any. Swaps name both. */
+  participant: string;
+  actor: string;
+  /** Whether the entry was undone, or, for an undo record, whether the undo was redone. */
+  undone: boolean;
+  description: string;
+}
+
+const CSV_COLUMNS: (keyof HistoryExportRow)[] = [
+  'id',
+  'timestamp',
+  'type',
+  'participant',
+  'actor',
+  'undone',
+  'description',
+];
+
+/**
+ * Names the participant an entry is about.
+ */
+function describeParticipant(log: LogEntry): string {
+  switch (log.type) {
+    case 'TURN_COMPLETED':
+    case 'TURN_SKIPPED':
+    case 'TURN_STARTED':
+    case 'PARTICIPANT_ADDED':
+    case 'PARTICIPANT_REMOVED':
+    case 'ROLE_CHANGED':
+    case 'PLACEHOLDER_CLAIMED':
+    case 'MEMBER_JOINED':
+    case 'MEMBER_LEFT':
+    case 'AWAY_CHANGED':
+    case 'WEIGHT_CHANGED':
+    case 'TURN_REVIEWED':
+      return log.participantName;
+    case 'TURN_UNDONE':
+    case 'TURN_REDONE':
+      return log.originalParticipantName ?? '';
+    case 'TURN_SWAPPED':
+      return `${log.fromParticipantName} / ${log.toParticipantName}`;
+    default:
+      return '';
+  }
+}
+
+/**
+ * Flattens a log entry into an export row.
+ * @param log The entry to export.
+ * @param describe Builds the entry's readable description, as shown in the app.
+ */
+export function buildHistoryExportRow(
+  log: LogEntry & { id: string },
+  describe: (log: LogEntry) => string,
+): HistoryExportRow {
+  const completedAt = log.completedAt as { toDate?: () => Date } | null;
+  return {
+    id: log.id,
+    timestamp: typeof completedAt?.toDate === 'function' ? completedAt.toDate().toISOString() : '',
+    type: log.type,
+    participant: describeParticipant(log),
+    actor: log.actorName,
+    undone: ('isUndone' in log && !!log.isUndone) || ('isRedone' in log && !!log.isRedone),
+    description: describe(log),
+  };
+}
+
+/**
+ * Quotes a CSV cell when needed. Text a spreadsheet would treat as a formula
+ * is prefixed with an apostrophe so it is shown rather than run.
+ */
+function toCsvCell(value: string | boolean): string {
+  let text = String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialises export rows as CSV, with a header row and CRLF line endings.
+ * @param rows The rows to serialise, in order.
+ */
+export function serializeHistoryCsv(rows: HistoryExportRow[]): string {
+  const lines = [
+    CSV_COLUMNS.join(','),
+    ...rows.map((row) => CSV_COLUMNS.map((column) => toCsvCell(row[column])).join(',')),
+  ];
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * Serialises export rows as JSON, wrapped with the group's name and the export time.
+ * @param rows The rows to serialise, in order.
+ * @param groupName The name of the exported group.
+ * @param exportedAt The export time in epoch milliseconds.
+ */
+export function serializeHistoryJson(
+  rows: HistoryExportRow[],
+  groupName: string,
+  exportedAt: number,
+): string {
+  return JSON.stringify(
+    { group: groupName, exportedAt: new Date(exportedAt).toISOString(), entries: rows },
+    null,
+    2,
+  );
+}
+
+/**
+ * Names an exported file after the group, what it holds and the export date.
+ * @param groupName The name of the exported group.
+ * @param kind What the file holds: the history alone, or a full backup.
+ * @param format The file format, used as the extension.
+ * @param exportedAt The export time in epoch milliseconds.
+ */
+export function buildExportFileName(
+  groupName: string,
+  kind: 'history' | 'backup',
+  format: HistoryExportFormat,
+  exportedAt: number,
+): string {
+  const slug = groupName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'group';
+  const date = new Date(exportedAt).toISOString().slice(0, 10);
+  return `${slug}-${kind}-${date}.${format}`;
+}
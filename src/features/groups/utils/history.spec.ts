@@ -0,0 +1,123 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/utils/history.spec.ts
+ * @stamp {"ts":"2026-10-19T14:20:00Z"}
+ * @test-target packages/whoseturnnow/src/features/groups/utils/history.ts
+ *
+ * @description
+ * Unit tests for the turn history helpers. This suite verifies that each filter
+ * matches live entries as the paged query would, and that live and fetched
+ * entries merge into a single newest-first list without duplicates.
+ *
+ * @criticality
+ * Critical (Reason: Core Business Logic Orchestration)
+ *
+ * @testing-layer Unit
+ *
+ * @contract
+ *   assertions:
+ *     purity: read-only
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  EMPTY_TURN_LOG_FILTERS,
+  isAuditEntry,
+  matchesTurnLogFilters,
+  mergeTurnLogPages,
+  resolveFilterTypes,
+} from './history';
+import type { LogEntry } from '../../../types/group';
+
+// --- Test Data ---
+const NOW = 1_000_000;
+const at = (ms: number) => ({ toMillis: () => ms }) as any;
+
+const logBase = { actorUid: 'user-alice', actorName: 'Alice', _participantUids: {}, _adminUids: {} };
+
+const completed = (id: string, time: number, extra: object = {}): LogEntry & { id: string } => ({
+  ...logBase,
+  id,
+  type: 'TURN_COMPLETED',
+  completedAt: at(time),
+  participantId: 'p-bob',
+  participantName: 'Bob',
+  ...extra,
+});
+
+describe('history utils', () => {
+  describe('resolveFilterTypes', () => {
+    it('should cover both undo and redo records for the undone kind', () => {
+      expect(resolveFilterTypes(['undone', 'reset'])).toEqual([
+        'TURN_UNDONE',
+        'TURN_REDONE',
+        'COUNTS_RESET',
+      ]);
+      expect(resolveFilterTypes([])).toEqual([]);
+    });
+
+    it('should cover every membership change for the membership kind', () => {
+      expect(resolveFilterTypes(['membership'])).toEqual([
+        'PARTICIPANT_ADDED',
+        'PARTICIPANT_REMOVED',
+        'ROLE_CHANGED',
+        'PLACEHOLDER_CLAIMED',
+        'MEMBER_JOINED',
+        'MEMBER_LEFT',
+      ]);
+    });
+  });
+
+  describe('isAuditEntry', () => {
+    it('should recognise membership and settings entries but not turns', () => {
+      expect(
+        isAuditEntry({ ...logBase, type: 'ICON_CHANGED', completedAt: at(0), previousIcon: '🧹', newIcon: '🚀' }),
+      ).toBe(true);
+      expect(
+        isAuditEntry({ ...logBase, type: 'MEMBER_LEFT', completedAt: at(0), participantId: 'p-bob', participantName: 'Bob' }),
+      ).toBe(true);
+      expect(isAuditEntry(completed('c1', 0))).toBe(false);
+    });
+  });
+
+  describe('matchesTurnLogFilters', () => {
+    it('should match every entry with no filters set', () => {
+      const reset: LogEntry = { ...logBase, type: 'COUNTS_RESET', completedAt: at(0) };
+      expect(matchesTurnLogFilters(reset, EMPTY_TURN_LOG_FILTERS, NOW)).toBe(true);
+    });
+
+    it('should require every set filter to match', () => {
+      const log = completed('c1', 500);
+      const filters = { ...EMPTY_TURN_LOG_FILTERS, kinds: ['completed' as const], participantId: 'p-bob' };
+
+      expect(matchesTurnLogFilters(log, filters, NOW)).toBe(true);
+      expect(matchesTurnLogFilters(log, { ...filters, actorUid: 'user-bob' }, NOW)).toBe(false);
+      expect(matchesTurnLogFilters(log, { ...filters, kinds: ['skipped'] }, NOW)).toBe(false);
+    });
+
+    it('should not match entries without a participant when filtering by one', () => {
+      const reset: LogEntry = { ...logBase, type: 'COUNTS_RESET', completedAt: at(500) };
+      const filters = { ...EMPTY_TURN_LOG_FILTERS, participantId: 'p-bob' };
+      expect(matchesTurnLogFilters(reset, filters, NOW)).toBe(false);
+    });
+
+    it('should apply an inclusive date range, treating unresolved timestamps as now', () => {
+      const filters = { ...EMPTY_TURN_LOG_FILTERS, from: 400, to: 600 };
+      expect(matchesTurnLogFilters(completed('c1', 400), filters, NOW)).toBe(true);
+      expect(matchesTurnLogFilters(completed('c2', 601), filters, NOW)).toBe(false);
+      expect(matchesTurnLogFilters(completed('c3', 0, { completedAt: null }), filters, 500)).toBe(true);
+    });
+  });
+
+  describe('mergeTurnLogPages', () => {
+    it('should merge newest first and keep the live copy of a duplicate', () => {
+      const live = [completed('c3', 300), completed('c2', 200, { isUndone: true })];
+      const older = [completed('c2', 200), completed('c1', 100)];
+
+      const merged = mergeTurnLogPages(live, older, NOW);
+      expect(merged.map((log) => log.id)).toEqual(['c3', 'c2', 'c1']);
+      expect(merged[1]).toHaveProperty('isUndone', true);
+    });
+  });
+});
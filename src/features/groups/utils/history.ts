@@ -0,0 +1,209 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/utils/history.ts
+ * @stamp {"ts":"2026-10-19T16:10:00Z"}
+ * @architectural-role Utility
+ * @description
+ * Helpers for browsing a group's full turn history. The newest entries arrive
+ * through the live log listener and older ones are fetched a page at a time;
+ * these functions define the history filters, apply them to live entries the
+ * same way the repository applies them to fetched pages, and merge the two
+ * sources into one newest-first list.
+ * @core-principles
+ * 1. IS a collection of pure, stateless helper functions.
+ * 2. MUST match entries exactly as the repository's filtered page query does.
+ * 3. MUST treat entries whose server timestamp has not resolved yet as happening now.
+ * 4. MUST NOT perform any I/O operations.
+ * @api-declaration
+ *   - LIVE_LOG_LIMIT: How many of the newest entries the live listener covers.
+ *   - HISTORY_PAGE_SIZE: How many older entries are fetched per page.
+ *   - HistoryEntryKind: The kinds of entry the history can be filtered to.
+ *   - HISTORY_ENTRY_KINDS: Display metadata and log types for every kind.
+ *   - isAuditEntry: Whether a log entry records a membership or settings change.
+ *   - TurnLogFilters: The filters applied to the history.
+ *   - EMPTY_TURN_LOG_FILTERS: Filters that match every entry.
+ *   - hasActiveFilters: Whether any filter is set.
+ *   - resolveFilterTypes: Lists the log types the selected kinds cover.
+ *   - matchesTurnLogFilters: Whether a log entry passes the filters.
+ *   - mergeTurnLogPages: Merges live and fetched entries, newest first.
+ * @contract
+ *   assertions:
+ *     purity: pure
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import type { LogEntry } from '../../../types/group';
+
+/**
+ * How many of the newest log entries the live listener keeps up to date.
+ */
+export const LIVE_LOG_LIMIT = 50;
+
+/**
+ * How many older log entries are fetched each time the history scrolls to its end.
+ */
+export const HISTORY_PAGE_SIZE = 25;
+
+/**
+ * The kinds of entry the history can be filtered to.
+ */
+export type HistoryEntryKind =
+  | 'completed'
+  | 'skipped'
+  | 'undone'
+  | 'reviewed'
+  | 'reset'
+  | 'membership'
+  | 'settings';
+
+const MEMBERSHIP_LOG_TYPES = [
+  'PARTICIPANT_ADDED',
+  'PARTICIPANT_REMOVED',
+  'ROLE_CHANGED',
+  'PLACEHOLDER_CLAIMED',
+  'MEMBER_JOINED',
+  'MEMBER_LEFT',
+] as const;
+
+const SETTINGS_LOG_TYPES = ['GROUP_RENAMED', 'ICON_CHANGED', 'AWAY_CHANGED', 'WEIGHT_CHANGED'] as const;
+
+type AuditLogEntry = Extract<
+  LogEntry,
+  { type: (typeof MEMBERSHIP_LOG_TYPES)[number] | (typeof SETTINGS_LOG_TYPES)[number] }
+>;
+
+/**
+ * Display metadata for every entry kind, in menu order, with the log types each covers.
+ */
+export const HISTORY_ENTRY_KINDS: {
+  value: HistoryEntryKind;
+  label: string;
+  types: LogEntry['type'][];
+}[] = [
+  { value: 'completed', label: 'Completed', types: ['TURN_COMPLETED'] },
+  { value: 'skipped', label: 'Skipped', types: ['TURN_SKIPPED'] },
+  { value: 'undone', label: 'Undone', types: ['TURN_UNDONE', 'TURN_REDONE'] },
+  { value: 'reviewed', label: 'Reviewed', types: ['TURN_REVIEWED'] },
+  { value: 'reset', label: 'Reset', types: ['COUNTS_RESET'] },
+  { value: 'membership', label: 'Membership', types: [...MEMBERSHIP_LOG_TYPES] },
+  { value: 'settings', label: 'Settings', types: [...SETTINGS_LOG_TYPES] },
+];
+
+/**
+ * Whether a log entry records a change to the group's membership or settings
+ * rather than to a queue. Such entries belong to no queue.
+ * @param log The entry to check.
+ */
+export function isAuditEntry(log: LogEntry): log is AuditLogEntry {
+  return (
+    (MEMBERSHIP_LOG_TYPES as readonly string[]).includes(log.type) ||
+    (SETTINGS_LOG_TYPES as readonly string[]).includes(log.type)
+  );
+}
+
+/**
+ * The filters applied to the history. Every set filter must match.
+ */
+export interface TurnLogFilters {
+  /** The entry kinds to show. Empty shows every kind. */
+  kinds: HistoryEntryKind[];
+  /** Only entries about this participant's turn. */
+  participantId: string | null;
+  /** Only entries recorded by this user. */
+  actorUid: string | null;
+  /** The earliest time to show, in epoch milliseconds, inclusive. */
+  from: number | null;
+  /** The latest time to show, in epoch milliseconds, inclusive. */
+  to: number | null;
+}
+
+/**
+ * Filters that match every entry.
+ */
+export const EMPTY_TURN_LOG_FILTERS: TurnLogFilters = {
+  kinds: [],
+  participantId: null,
+  actorUid: null,
+  from: null,
+  to: null,
+};
+
+/**
+ * Reads an entry's time, treating an unresolved server timestamp as now.
+ */
+function entryTime(log: LogEntry, nowMs: number): number {
+  const completedAt = log.completedAt as { toMillis?: () => number } | null;
+  return typeof completedAt?.toMillis === 'function' ? completedAt.toMillis() : nowMs;
+}
+
+/**
+ * Whether any filter is set.
+ * @param filters The filters to check.
+ */
+export function hasActiveFilters(filters: TurnLogFilters): boolean {
+  return (
+    filters.kinds.length > 0 ||
+    filters.participantId !== null ||
+    filters.actorUid !== null ||
+    filters.from !== null ||
+    filters.to !== null
+  );
+}
+
+/**
+ * Lists the log types the selected kinds cover.
+ * @param kinds The selected kinds.
+ * @returns The log types, or an empty array when every type is shown.
+ */
+export function resolveFilterTypes(kinds: HistoryEntryKind[]): LogEntry['type'][] {
+  return HISTORY_ENTRY_KINDS.filter((kind) => kinds.includes(kind.value)).flatMap(
+    (kind) => kind.types,
+  );
+}
+
+/**
+ * Whether a log entry passes the filters.
+ * @param log The entry to check.
+ * @param filters The filters to apply.
+ * @param nowMs The current time in epoch milliseconds.
+ */
+export function matchesTurnLogFilters(
+  log: LogEntry,
+  filters: TurnLogFilters,
+  nowMs: number,
+): boolean {
+  const types = resolveFilterTypes(filters.kinds);
+  if (types.length > 0 && !types.includes(log.type)) return false;
+  if (
+    filters.participantId !== null &&
+    !('participantId' in log && log.participantId === filters.participantId)
+  ) {
+    return false;
+  }
+  if (filters.actorUid !== null && log.actorUid !== filters.actorUid) return false;
+
+  const time = entryTime(log, nowMs);
+  if (filters.from !== null && time < filters.from) return false;
+  if (filters.to !== null && time > filters.to) return false;
+  return true;
+}
+
+/**
+ * Merges the live entries with older fetched pages into one newest-first list.
+ * An entry can appear in both while the live window moves on; it is kept once,
+ * preferring the live copy since it reflects later updates such as `isUndone`.
+ * @param liveLog The entries from the live listener.
+ * @param olderLog The entries fetched page by page.
+ * @param nowMs The current time in epoch milliseconds.
+ * @returns The merged entries, newest first.
+ */
+export function mergeTurnLogPages<T extends LogEntry & { id: string }>(
+  liveLog: T[],
+  olderLog: T[],
+  nowMs: number,
+): T[] {
+  const liveIds = new Set(liveLog.map((log) => log.id));
+  return [...liveLog, ...olderLog.filter((log) => !liveIds.has(log.id))].sort(
+    (a, b) => entryTime(b, nowMs) - entryTime(a, nowMs),
+  );
+}
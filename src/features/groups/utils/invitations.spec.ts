@@ -0,0 +1,77 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/utils/invitations.spec.ts
+ * @stamp {"ts":"2026-10-19T14:25:00Z"}
+ * @test-target packages/whoseturnnow/src/features/groups/utils/invitations.ts
+ *
+ * @description
+ * Unit tests for the invitation token rules. This suite verifies that revoked,
+ * expired, used-up and mismatched invitations are refused, and that links
+ * carry the token and any target slot.
+ *
+ * @criticality
+ * Critical (Reason: Security & Authentication Context)
+ *
+ * @testing-layer Unit
+ *
+ * @contract
+ *   assertions:
+ *     purity: read-only
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  INVITATION_EXPIRY_DAYS,
+  buildInvitation,
+  buildInvitationUrl,
+  getInvitationProblem,
+  isInvitationActive,
+} from './invitations';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const invitation = buildInvitation(
+  { id: 'token-1', groupId: 'group-1', participantId: null, createdByUid: 'user-admin', maxUses: 2 },
+  1_000,
+);
+const link = { groupId: 'group-1', participantId: null };
+
+describe('invitation utils', () => {
+  it('should build an unused invitation that expires after the default period', () => {
+    expect(invitation).toMatchObject({
+      createdAt: 1_000,
+      expiresAt: 1_000 + INVITATION_EXPIRY_DAYS * DAY_MS,
+      useCount: 0,
+      revoked: false,
+    });
+    expect(getInvitationProblem(invitation, link, 2_000)).toBeNull();
+  });
+
+  it('should refuse missing, revoked, expired and used-up invitations', () => {
+    expect(getInvitationProblem(null, link, 2_000)).toMatch(/not valid/);
+    expect(getInvitationProblem({ ...invitation, revoked: true }, link, 2_000)).toMatch(/revoked/);
+    expect(getInvitationProblem(invitation, link, invitation.expiresAt)).toMatch(/expired/);
+    expect(getInvitationProblem({ ...invitation, useCount: 2 }, link, 2_000)).toMatch(/already been used/);
+    expect(getInvitationProblem({ ...invitation, maxUses: null, useCount: 50 }, link, 2_000)).toBeNull();
+  });
+
+  it('should refuse a token followed with a different group or slot than it was made for', () => {
+    expect(getInvitationProblem(invitation, { ...link, groupId: 'group-2' }, 2_000)).toMatch(/not valid/);
+    expect(getInvitationProblem(invitation, { ...link, participantId: 'p-1' }, 2_000)).toMatch(/not valid/);
+  });
+
+  it('should report whether an invitation is still active', () => {
+    expect(isInvitationActive(invitation, 2_000)).toBe(true);
+    expect(isInvitationActive({ ...invitation, revoked: true }, 2_000)).toBe(false);
+  });
+
+  it('should carry the token, and the slot of a targeted invitation, in the link', () => {
+    expect(buildInvitationUrl('https://app.test', invitation)).toBe(
+      'https://app.test/join/group-1?invite=token-1',
+    );
+    expect(buildInvitationUrl('https://app.test', { ...invitation, participantId: 'p-1' })).toBe(
+      'https://app.test/join/group-1?participantId=p-1&invite=token-1',
+    );
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/utils/invitations.ts
+ * @stamp {"ts":"2026-10-19T14:40:00Z"}
+ * @architectural-role Utility
+ * @description
+ * Provides the rules for invitation tokens: building a new invitation with its
+ * expiry and use limit, deciding whether a token can still be redeemed (and
+ * why not, in words an invitee can act on), and building the link that
+ * carries it.
+ * @core-principles
+ * 1. IS a collection of pure, stateless helper functions and constants.
+ * 2. MUST receive the current time as an argument rather than reading the clock.
+ * 3. MUST be the single place that decides whether an invitation can be redeemed.
+ * 4. MUST NOT perform any I/O operations.
+ * @api-declaration
+ *   - INVITATION_EXPIRY_DAYS: How long a new invitation works for.
+ *   - buildInvitation: Builds a new, unused invitation.
+ *   - getInvitationProblem: Explains why an invitation cannot be redeemed, if it cannot.
+ *   - isInvitationActive: Whether an invitation can still be redeemed.
+ *   - buildInvitationUrl: Builds the link that carries an invitation.
+ *   - InviteSheetEntry: One labelled link on a printable invite sheet.
+ * @contract
+ *   assertions:
+ *     purity: pure
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import type { Invitation } from '../../../types/group';
+
+/**
+ * One labelled link on a printable invite sheet.
+ */
+export interface InviteSheetEntry {
+  /** The placeholder slot the link claims, or `null` for the generic invite. */
+  participantId: string | null;
+  label: string;
+  url: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How many days a new invitation works for.
+ */
+export const INVITATION_EXPIRY_DAYS = 7;
+
+/**
+ * Builds a new, unused invitation.
+ * @param fields The invitation's token, group, target slot, creator and use limit.
+ * @param nowMs The current time in epoch milliseconds.
+ */
+export function buildInvitation(
+  fields: Pick<Invitation, 'id' | 'groupId' | 'participantId' | 'createdByUid' | 'maxUses'>,
+  nowMs: number,
+): Invitation {
+  return {
+    ...fields,
+    createdAt: nowMs,
+    expiresAt: nowMs + INVITATION_EXPIRY_DAYS * DAY_MS,
+    useCount: 0,
+    revoked: false,
+  };
+}
+
+/**
+ * Explains why an invitation cannot be redeemed.
+ * @param invitation The stored invitation, or `null` if the token was not found.
+ * @param link The group and placeholder slot named by the link being followed.
+ * @param nowMs The current time in epoch milliseconds.
+ * @returns A message for the invitee, or `null` if the invitation can be redeemed.
+ */
+export function getInvitationProblem(
+  invitation: Invitation | null,
+  link: { groupId: string; participantId: string | null },
+  nowMs: number,
+): string | null {
+  if (
+    !invitation ||
+    invitation.groupId !== link.groupId ||
+    invitation.participantId !== link.participantId
+  ) {
+    return 'This invitation link is not valid. Ask an admin of the group for a new one.';
+  }
+  if (invitation.revoked) {
+    return 'This invitation has been revoked. Ask an admin of the group for a new one.';
+  }
+  if (invitation.expiresAt <= nowMs) {
+    return 'This invitation has expired. Ask an admin of the group for a new one.';
+  }
+  if (invitation.maxUses !== null && invitation.useCount >= invitation.maxUses) {
+    return 'This invitation has already been used. Ask an admin of the group for a new one.';
+  }
+  return null;
+}
+
+/**
+ * Whether an invitation can still be redeemed.
+ * @param invitation The invitation to check.
+ * @param nowMs The current time in epoch milliseconds.
+ */
+export function isInvitationActive(invitation: Invitation, nowMs: number): boolean {
+  return getInvitationProblem(invitation, invitation, nowMs) === null;
+}
+
+/**
+ * Builds the link that carries an invitation.
+ * @param origin The app's origin, e.g. `window.location.origin`.
+ * @param invitation The invitation to link to.
+ */
+export function buildInvitationUrl(origin: string, invitation: Invitation): string {
+  const params = new URLSearchParams();
+  if (invitation.participantId) params.set('participantId', invitation.participantId);
+  params.set('invite', invitation.id);
+  return `${origin}/join/${invitation.groupId}?${params.toString()}`;
+}
@@ -0,0 +1,71 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/utils/joinCodes.spec.ts
+ * @stamp {"ts":"2026-10-19T16:05:00Z"}
+ * @test-target packages/whoseturnnow/src/features/groups/utils/joinCodes.ts
+ *
+ * @description
+ * Unit tests for the join code rules. This suite verifies that codes are built
+ * only from unambiguous characters without favouring any, that typed codes are accepted in any case
+ * and with separators, and that a code leads to its invitation.
+ *
+ * @criticality
+ * Critical (Reason: Security & Authentication Context)
+ *
+ * @testing-layer Unit
+ *
+ * @contract
+ *   assertions:
+ *     purity: read-only
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  JOIN_CODE_ALPHABET,
+  JOIN_CODE_LENGTH,
+  buildJoinCodePath,
+  formatJoinCode,
+  generateJoinCode,
+  normalizeJoinCode,
+} from './joinCodes';
+
+describe('join code utils', () => {
+  it('should build a code of the right length from unambiguous characters', () => {
+    const code = generateJoinCode(() => new Uint8Array([0, 1, 29, 30, 31, 247]));
+
+    expect(code).toHaveLength(JOIN_CODE_LENGTH);
+    expect(code).toBe('AB89A9');
+    expect(JOIN_CODE_ALPHABET).not.toMatch(/[01ILO]/);
+  });
+
+  it('should discard the bytes that would favour some characters and draw more', () => {
+    const draws = [new Uint8Array([248, 0, 255, 1, 2, 3]), new Uint8Array([250, 4]), new Uint8Array([5])];
+    const getRandomBytes = vi.fn(() => draws.shift() ?? new Uint8Array(0));
+
+    expect(generateJoinCode(getRandomBytes)).toBe('ABCDEF');
+    expect(getRandomBytes.mock.calls).toEqual([[6], [2], [1]]);
+  });
+
+  it('should refuse to build a code without random bytes', () => {
+    expect(() => generateJoinCode(() => new Uint8Array(0))).toThrow();
+  });
+
+  it('should accept a typed code in any case and with separators', () => {
+    expect(normalizeJoinCode('abc-def')).toBe('ABCDEF');
+    expect(normalizeJoinCode(' ABC DEF ')).toBe('ABCDEF');
+  });
+
+  it('should reject input that cannot be a code', () => {
+    expect(normalizeJoinCode('ABCDE')).toBeNull();
+    expect(normalizeJoinCode('ABCDEFG')).toBeNull();
+    expect(normalizeJoinCode('ABCDE0')).toBeNull();
+  });
+
+  it('should display a code in two halves and lead to its invitation', () => {
+    expect(formatJoinCode('ABCDEF')).toBe('ABC-DEF');
+    expect(buildJoinCodePath({ groupId: 'group-1', invitationId: 'token-1' })).toBe(
+      '/join/group-1?invite=token-1',
+    );
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/utils/joinCodes.ts
+ * @stamp {"ts":"2026-10-19T16:05:00Z"}
+ * @architectural-role Utility
+ * @description
+ * Provides the rules for join codes: short codes that can be read aloud or
+ * typed in instead of following an invite link. A code is only an alias for
+ * one of the group's invitations, so it works exactly as long as that
+ * invitation does. Codes avoid letters and digits that are easily confused
+ * (0 and O, 1, I and L), and are shown split in two halves for reading aloud.
+ * @core-principles
+ * 1. IS a collection of pure, stateless helper functions and constants.
+ * 2. MUST receive its randomness as an argument rather than generating it.
+ * 3. MUST accept codes however the user types them: any case, with spaces or dashes.
+ * 4. MUST NOT perform any I/O operations.
+ * @api-declaration
+ *   - JOIN_CODE_LENGTH: How many characters a join code has.
+ *   - JOIN_CODE_ALPHABET: The characters a join code is made of.
+ *   - generateJoinCode: Builds an evenly spread code from a source of random bytes.
+ *   - normalizeJoinCode: Turns what the user typed into a code, or `null` if it cannot be one.
+ *   - formatJoinCode: Splits a code in two for display.
+ *   - buildJoinCodePath: Builds the in-app invitation path a code leads to.
+ * @contract
+ *   assertions:
+ *     purity: pure
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import type { JoinCode } from '../../../types/group';
+
+/**
+ * How many characters a join code has.
+ */
+export const JOIN_CODE_LENGTH = 6;
+
+/**
+ * The characters a join code is made of: upper-case letters and digits,
+ * without 0, 1, I, L and O.
+ */
+export const JOIN_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+/**
+ * The largest multiple of the alphabet's size that fits in a byte. Bytes at or
+ * above it are discarded, so every character is equally likely.
+ */
+const UNBIASED_BYTE_LIMIT = 256 - (256 % JOIN_CODE_ALPHABET.length);
+
+/**
+ * Builds a join code from random bytes, drawing more whenever some had to be
+ * discarded to keep the characters evenly spread.
+ * @param getRandomBytes Returns the given number of random bytes, e.g. from
+ *                       `crypto.getRandomValues`.
+ */
+export function generateJoinCode(getRandomBytes: (count: number) => Uint8Array): string {
+  let code = '';
+  while (code.length < JOIN_CODE_LENGTH) {
+    const randomBytes = getRandomBytes(JOIN_CODE_LENGTH - code.length);
+    if (randomBytes.length === 0) {
+      throw new Error('A join code needs random bytes.');
+    }
+    for (const byte of randomBytes) {
+      if (byte < UNBIASED_BYTE_LIMIT && code.length < JOIN_CODE_LENGTH) {
+        code += JOIN_CODE_ALPHABET.charAt(byte % JOIN_CODE_ALPHABET.length);
+      }
+    }
+  }
+  return code;
+}
+
+/**
+ * Turns what the user typed into a join code.
+ * @param input The code as typed, in any case and with any spaces or dashes.
+ * @returns The code, or `null` if the input cannot be a join code.
+ */
+export function normalizeJoinCode(input: string): string | null {
+  const code = input.toUpperCase().replace(/[\s-]/g, '');
+  if (code.length !== JOIN_CODE_LENGTH) return null;
+  return [...code].every((char) => JOIN_CODE_ALPHABET.includes(char)) ? code : null;
+}
+
+/**
+ * Splits a join code in two halves for display, e.g. `ABC-DEF`.
+ */
+export function formatJoinCode(code: string): string {
+  const half = Math.ceil(code.length / 2);
+  return `${code.slice(0, half)}-${code.slice(half)}`;
+}
+
+/**
+ * Builds the in-app path of the invitation a join code stands for.
+ */
+export function buildJoinCodePath(joinCode: Pick<JoinCode, 'groupId' | 'invitationId'>): string {
+  const params = new URLSearchParams({ invite: joinCode.invitationId });
+  return `/join/${joinCode.groupId}?${params.toString()}`;
+}
@@ -0,0 +1,59 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/utils/ledger.spec.ts
+ * @stamp {"ts":"2026-10-19T13:35:00Z"}
+ * @test-target packages/whoseturnnow/src/features/groups/utils/ledger.ts
+ *
+ * @description
+ * Unit tests for the ledger utilities. This suite verifies amount parsing and
+ * that balances are measured against the group's average spend.
+ *
+ * @criticality
+ * Critical (Reason: Core Business Logic Orchestration)
+ *
+ * @testing-layer Unit
+ *
+ * @contract
+ *   assertions:
+ *     purity: read-only
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeBalances, parseAmount } from './ledger';
+import type { TurnParticipant } from '../../../types/group';
+
+// --- Test Data ---
+const participant = (id: string, totalSpent?: number): TurnParticipant => ({
+  id,
+  uid: null,
+  role: 'member',
+  turnCount: 0,
+  ...(totalSpent !== undefined && { totalSpent }),
+});
+
+describe('ledger utils', () => {
+  describe('parseAmount', () => {
+    it('should round a valid amount to cents', () => {
+      expect(parseAmount(' 12.345 ')).toBe(12.35);
+      expect(parseAmount('0')).toBe(0);
+    });
+
+    it('should reject empty, negative and non-numeric input', () => {
+      expect(parseAmount('')).toBeNull();
+      expect(parseAmount('-5')).toBeNull();
+      expect(parseAmount('ten')).toBeNull();
+    });
+  });
+
+  describe('computeBalances', () => {
+    it('should measure each total against the average, treating missing totals as zero', () => {
+      const balances = computeBalances([
+        participant('p-alice', 30),
+        participant('p-bob', 15),
+        participant('p-carol'),
+      ]);
+      expect(balances).toEqual({ 'p-alice': 15, 'p-bob': 0, 'p-carol': -15 });
+    });
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/utils/ledger.ts
+ * @stamp {"ts":"2026-10-19T13:35:00Z"}
+ * @architectural-role Utility
+ * @description
+ * Helpers for groups using the `ledger` rotation strategy, where each turn
+ * records an amount spent. A participant's balance is how far their total is
+ * above or below the group's average: whoever is furthest below goes next.
+ * @core-principles
+ * 1. IS a collection of pure, stateless helper functions.
+ * 2. MUST treat a missing `totalSpent` as 0.
+ * 3. MUST NOT perform any I/O operations.
+ * @api-declaration
+ *   - parseAmount: Parses a user-entered amount, rejecting invalid input.
+ *   - formatAmount: Formats an amount for display.
+ *   - computeBalances: Computes each participant's balance against the average.
+ * @contract
+ *   assertions:
+ *     purity: pure
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import type { TurnParticipant } from '../../../types/group';
+
+/**
+ * Parses a user-entered amount.
+ * @param input The raw text the user entered.
+ * @returns The amount, rounded to cents, or `null` if it is not a non-negative number.
+ */
+export function parseAmount(input: string): number | null {
+  const trimmed = input.trim();
+  if (trimmed === '') return null;
+  const amount = Number(trimmed);
+  if (!Number.isFinite(amount) || amount < 0) return null;
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Formats an amount with two decimal places in the user's locale
+ * (e.g., "12.50"). No currency is assumed.
+ * @param amount The amount to format.
+ */
+export function formatAmount(amount: number): string {
+  return amount.toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
+
+/**
+ * Computes each participant's balance: their total spent minus the average
+ * across all participants. Negative balances are behind.
+ * @param participants The participants, with `totalSpent` already projected onto the queue.
+ * @returns Each participant's balance, keyed by participant `id`.
+ */
+export function computeBalances(participants: TurnParticipant[]): Record<string, number> {
+  if (participants.length === 0) return {};
+  const total = participants.reduce((sum, p) => sum + (p.totalSpent ?? 0), 0);
+  const average = total / participants.length;
+  return Object.fromEntries(
+    participants.map((p) => [p.id, Math.round(((p.totalSpent ?? 0) - average) * 100) / 100]),
+  );
+}
@@ -0,0 +1,123 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/utils/queues.spec.ts
+ * @stamp {"ts":"2026-10-19T15:00:00Z"}
+ * @test-target packages/whoseturnnow/src/features/groups/utils/queues.ts
+ *
+ * @description
+ * Unit tests for the queue projection utilities. This suite verifies that a
+ * queue can be viewed as a group, that its new state is written back to the
+ * right fields, and that roster changes reach every additional queue.
+ *
+ * @criticality
+ * Critical (Reason: Core Business Logic Orchestration)
+ *
+ * @testing-layer Unit
+ *
+ * @contract
+ *   assertions:
+ *     purity: read-only
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MAIN_QUEUE_ID,
+  addParticipantToQueues,
+  buildQueueUpdate,
+  getQueueName,
+  listQueues,
+  projectQueue,
+  removeParticipantFromQueues,
+} from './queues';
+import type { Group } from '../../../types/group';
+
+// --- Test Data ---
+const baseGroup: Group = {
+  gid: 'group-1',
+  name: 'Chores',
+  icon: '🧹',
+  ownerUid: 'owner',
+  participants: [
+    { id: 'p-alice', uid: 'user-alice', role: 'admin', turnCount: 5, nickname: 'Alice' },
+    { id: 'p-bob', uid: 'user-bob', role: 'member', turnCount: 4, nickname: 'Bob' },
+  ],
+  turnOrder: ['p-alice', 'p-bob'],
+  participantUids: { 'user-alice': true, 'user-bob': true },
+  adminUids: { 'user-alice': true },
+  schedule: { frequency: 'daily', dueHour: 18 },
+  nextDueAt: 1000,
+  queues: [
+    { id: 'q-trash', name: 'Trash', turnOrder: ['p-bob', 'p-alice'], turnCounts: { 'p-bob': 2 } },
+  ],
+};
+
+describe('queue utils', () => {
+  it('should list the main queue first', () => {
+    expect(listQueues(baseGroup)).toEqual([
+      { id: MAIN_QUEUE_ID, name: 'Main' },
+      { id: 'q-trash', name: 'Trash' },
+    ]);
+    expect(getQueueName(baseGroup, undefined)).toBe('Main');
+    expect(getQueueName(baseGroup, 'q-gone')).toBeNull();
+  });
+
+  it('should return the group unchanged when projecting the main queue', () => {
+    expect(projectQueue(baseGroup, MAIN_QUEUE_ID)).toBe(baseGroup);
+  });
+
+  it('should project a queue`s order and counts onto the shared roster', () => {
+    const view = projectQueue(baseGroup, 'q-trash');
+    expect(view.turnOrder).toEqual(['p-bob', 'p-alice']);
+    expect(view.participants.map((p) => p.turnCount)).toEqual([0, 2]);
+    expect(view.participants[0].nickname).toBe('Alice');
+    expect(view.schedule).toBeNull();
+  });
+
+  it('should place members missing from a queue at its end', () => {
+    const joined = {
+      ...baseGroup,
+      participants: [
+        ...baseGroup.participants,
+        { id: 'p-carol', uid: 'user-carol', role: 'member' as const, turnCount: 0, nickname: 'Carol' },
+      ],
+      turnOrder: ['p-alice', 'p-bob', 'p-carol'],
+    };
+    const view = projectQueue(joined, 'q-trash');
+    expect(view.turnOrder).toEqual(['p-bob', 'p-alice', 'p-carol']);
+    expect(view.participants[2].turnCount).toBe(0);
+  });
+
+  it('should write main queue changes to the top-level fields', () => {
+    const update = buildQueueUpdate(baseGroup, MAIN_QUEUE_ID, { turnOrder: ['p-bob', 'p-alice'] });
+    expect(update).toEqual({ turnOrder: ['p-bob', 'p-alice'] });
+  });
+
+  it('should write queue changes into the queues array only', () => {
+    const view = projectQueue(baseGroup, 'q-trash');
+    const update = buildQueueUpdate(baseGroup, 'q-trash', {
+      turnOrder: ['p-alice', 'p-bob'],
+      participants: view.participants.map((p) => ({ ...p, turnCount: p.turnCount + 1 })),
+    });
+    expect(update).toEqual({
+      queues: [
+        {
+          id: 'q-trash',
+          name: 'Trash',
+          turnOrder: ['p-alice', 'p-bob'],
+          turnCounts: { 'p-alice': 1, 'p-bob': 3 },
+        },
+      ],
+    });
+  });
+
+  it('should add and remove participants in every queue', () => {
+    const added = addParticipantToQueues(baseGroup.queues, 'p-carol');
+    expect(added[0].turnOrder).toEqual(['p-bob', 'p-alice', 'p-carol']);
+    expect(added[0].turnCounts['p-carol']).toBe(0);
+
+    const removed = removeParticipantFromQueues(added, 'p-bob');
+    expect(removed[0].turnOrder).toEqual(['p-alice', 'p-carol']);
+    expect(removed[0].turnCounts).not.toHaveProperty('p-bob');
+  });
+});
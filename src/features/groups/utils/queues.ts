@@ -0,0 +1,176 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/utils/queues.ts
+ * @stamp {"ts":"2026-10-19T15:00:00Z"}
+ * @architectural-role Utility
+ * @description
+ * Maps between a group and the individual named queues it holds. A queue is
+ * "projected" into the familiar `Group` shape (with its own `turnOrder` and
+ * turn counts) so the rotation logic and UI can treat every queue exactly like
+ * the main one, and results are written back through a matching update payload.
+ * @core-principles
+ * 1. IS a collection of pure, stateless helper functions.
+ * 2. MUST treat the top-level `turnOrder` and `turnCount` fields as the main queue.
+ * 3. MUST NOT perform any I/O operations.
+ * @api-declaration
+ *   - MAIN_QUEUE_ID: The reserved ID of a group's main queue.
+ *   - MAIN_QUEUE_NAME: The display name of a group's main queue.
+ *   - listQueues: Lists the ID and name of every queue in a group.
+ *   - getQueueName: Looks up a queue's display name.
+ *   - projectQueue: Returns a group view whose queue fields come from one queue.
+ *   - buildQueueUpdate: Builds the update payload that saves a queue's new state.
+ *   - addParticipantToQueues: Appends a new participant to every additional queue.
+ *   - removeParticipantFromQueues: Removes a participant from every additional queue.
+ * @contract
+ *   assertions:
+ *     purity: pure
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import type { Group, TurnParticipant, TurnQueue } from '../../../types/group';
+
+/**
+ * The reserved ID of a group's main queue, stored in the top-level fields.
+ */
+export const MAIN_QUEUE_ID = 'main';
+
+/**
+ * The display name of a group's main queue.
+ */
+export const MAIN_QUEUE_NAME = 'Main';
+
+/**
+ * Lists every queue in a group, main queue first.
+ * @param group The group whose queues are listed.
+ * @returns The ID and display name of each queue.
+ */
+export function listQueues(group: Pick<Group, 'queues'>): { id: string; name: string }[] {
+  return [
+    { id: MAIN_QUEUE_ID, name: MAIN_QUEUE_NAME },
+    ...(group.queues ?? []).map(({ id, name }) => ({ id, name })),
+  ];
+}
+
+/**
+ * Looks up a queue's display name.
+ * @param group The group that holds the queue.
+ * @param queueId The queue's ID. Absent IDs refer to the main queue.
+ * @returns The queue's name, or `null` if the queue no longer exists.
+ */
+export function getQueueName(
+  group: Pick<Group, 'queues'>,
+  queueId: string | undefined,
+): string | null {
+  if (!queueId || queueId === MAIN_QUEUE_ID) return MAIN_QUEUE_NAME;
+  return group.queues?.find((q) => q.id === queueId)?.name ?? null;
+}
+
+/**
+ * Returns a view of the group in which `turnOrder` and each participant's
+ * `turnCount` and `totalSpent` come from the given queue. The main queue (or an unknown ID)
+ * returns the group unchanged. Members who joined through an invitation are
+ * not written into the additional queues, so any member missing from the
+ * queue is placed at its end, in main-queue order, until the queue is next saved.
+ * @param group The group to project.
+ * @param queueId The ID of the queue to project.
+ * @returns A group-shaped view of the queue.
+ */
+export function projectQueue(group: Group, queueId: string): Group {
+  const queue = group.queues?.find((q) => q.id === queueId);
+  if (queueId === MAIN_QUEUE_ID || !queue) return group;
+
+  const missing = group.turnOrder.filter((id) => !queue.turnOrder.includes(id));
+
+  return {
+    ...group,
+    turnOrder: [...queue.turnOrder, ...missing],
+    participants: group.participants.map((p) => ({
+      ...p,
+      turnCount: queue.turnCounts[p.id] ?? 0,
+      totalSpent: queue.totalsSpent?.[p.id] ?? 0,
+    })),
+    // Deadlines only apply to the main queue.
+    schedule: null,
+    nextDueAt: null,
+  };
+}
+
+/**
+ * Builds the update payload that saves a queue's new order and counts back
+ * into the group. For the main queue these are the top-level fields; for any
+ * other queue the whole `queues` array is rewritten.
+ * @param group The current group state.
+ * @param queueId The ID of the queue that changed.
+ * @param state The queue's new order and, optionally, its new turn counts and
+ *              totals spent expressed as a projected `participants` array.
+ * @returns A partial group suitable for a Firestore update or optimistic merge.
+ */
+export function buildQueueUpdate(
+  group: Group,
+  queueId: string,
+  state: { turnOrder: string[]; participants?: TurnParticipant[] },
+): Partial<Group> {
+  const queue = group.queues?.find((q) => q.id === queueId);
+  if (queueId === MAIN_QUEUE_ID || !queue) {
+    return {
+      turnOrder: state.turnOrder,
+      ...(state.participants && { participants: state.participants }),
+    };
+  }
+
+  const turnCounts = state.participants
+    ? Object.fromEntries(state.participants.map((p) => [p.id, p.turnCount]))
+    : queue.turnCounts;
+  const totalsSpent = state.participants?.some((p) => p.totalSpent)
+    ? Object.fromEntries(state.participants.map((p) => [p.id, p.totalSpent ?? 0]))
+    : queue.totalsSpent;
+
+  return {
+    queues: (group.queues ?? []).map((q) =>
+      q.id === queueId
+        ? { ...q, turnOrder: state.turnOrder, turnCounts, ...(totalsSpent && { totalsSpent }) }
+        : q,
+    ),
+  };
+}
+
+/**
+ * Appends a new participant to the end of every additional queue.
+ * @param queues The group's current additional queues.
+ * @param participantId The ID of the new participant.
+ * @returns The updated queues.
+ */
+export function addParticipantToQueues(
+  queues: TurnQueue[] | undefined,
+  participantId: string,
+): TurnQueue[] {
+  return (queues ?? []).map((q) => ({
+    ...q,
+    turnOrder: [...q.turnOrder, participantId],
+    turnCounts: { ...q.turnCounts, [participantId]: 0 },
+  }));
+}
+
+/**
+ * Removes a participant from every additional queue.
+ * @param queues The group's current additional queues.
+ * @param participantId The ID of the participant being removed.
+ * @returns The updated queues.
+ */
+export function removeParticipantFromQueues(
+  queues: TurnQueue[] | undefined,
+  participantId: string,
+): TurnQueue[] {
+  return (queues ?? []).map((q) => {
+    const turnCounts = { ...q.turnCounts };
+    delete turnCounts[participantId];
+    const totalsSpent = q.totalsSpent && { ...q.totalsSpent };
+    delete totalsSpent?.[participantId];
+    return {
+      ...q,
+      turnOrder: q.turnOrder.filter((id) => id !== participantId),
+      turnCounts,
+      ...(totalsSpent && { totalsSpent }),
+    };
+  });
+}
@@ -0,0 +1,138 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/utils/rotation.spec.ts
+ * @stamp {"ts":"2026-10-19T15:35:00Z"}
+ * @test-target packages/whoseturnnow/src/features/groups/utils/rotation.ts
+ *
+ * @description
+ * Unit tests for the pure rotation utilities. This suite verifies that every
+ * rotation strategy produces the expected queue order and that the random
+ * draw is deterministic for identical group state, that away participants
+ * are passed over, and that a skip always moves the queue on.
+ *
+ * @criticality
+ * Critical (Reason: Core Business Logic Orchestration)
+ *
+ * @testing-layer Unit
+ *
+ * @contract
+ *   assertions:
+ *     purity: read-only
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  computeCompletedTurn,
+  computeNextTurnOrder,
+  computeSkippedTurn,
+  deferAwayParticipants,
+  resolveRotationStrategy,
+} from './rotation';
+import type { Group } from '../../../types/group';
+
+// --- Test Data ---
+const NOW = 1_700_000_000_000;
+const baseGroup: Group = {
+  gid: 'group-1',
+  name: 'Test Group',
+  icon: '🧪',
+  ownerUid: 'owner',
+  participants: [
+    { id: 'p-alice', uid: 'user-alice', role: 'admin', turnCount: 5, nickname: 'Alice' },
+    { id: 'p-bob', uid: 'user-bob', role: 'member', turnCount: 4, nickname: 'Bob' },
+    { id: 'p-carol', uid: null, role: 'member', turnCount: 1, nickname: 'Carol', weight: 1 },
+    { id: 'p-dave', uid: null, role: 'member', turnCount: 3, nickname: 'Dave', weight: 4 },
+  ],
+  turnOrder: ['p-alice', 'p-bob', 'p-carol', 'p-dave'],
+  participantUids: { 'user-alice': true, 'user-bob': true },
+  adminUids: { 'user-alice': true },
+};
+
+describe('rotation utils', () => {
+  it('should default to round-robin when no strategy is set', () => {
+    expect(resolveRotationStrategy(baseGroup)).toBe('round-robin');
+  });
+
+  it('should move the participant to the end of the line under round-robin', () => {
+    const order = computeNextTurnOrder(baseGroup, 'p-alice', NOW);
+    expect(order).toEqual(['p-bob', 'p-carol', 'p-dave', 'p-alice']);
+  });
+
+  it('should put the participant with the fewest turns next under fewest-turns', () => {
+    const group: Group = { ...baseGroup, rotationStrategy: 'fewest-turns' };
+    const order = computeNextTurnOrder(group, 'p-alice', NOW);
+    expect(order).toEqual(['p-carol', 'p-dave', 'p-bob', 'p-alice']);
+  });
+
+  it('should divide turn counts by weight under the weighted strategy', () => {
+    const group: Group = { ...baseGroup, rotationStrategy: 'weighted' };
+    const order = computeNextTurnOrder(group, 'p-alice', NOW);
+    // Dave: 3 / 4 = 0.75, Carol: 1 / 1 = 1, Bob: 4 / 1 = 4
+    expect(order).toEqual(['p-dave', 'p-carol', 'p-bob', 'p-alice']);
+  });
+
+  it('should produce the same random draw for the same group state', () => {
+    const group: Group = { ...baseGroup, rotationStrategy: 'random' };
+    const first = computeNextTurnOrder(group, 'p-alice', NOW);
+    const second = computeNextTurnOrder({ ...group }, 'p-alice', NOW);
+    expect(first).toEqual(second);
+    expect(first[first.length - 1]).toBe('p-alice');
+    expect([...first].sort()).toEqual([...baseGroup.turnOrder].sort());
+  });
+
+  it('should increment the turn count before rotating on completion', () => {
+    const group: Group = { ...baseGroup, rotationStrategy: 'fewest-turns' };
+    const { turnOrder, participants } = computeCompletedTurn(group, 'p-carol', NOW);
+    expect(participants.find((p) => p.id === 'p-carol')?.turnCount).toBe(2);
+    expect(turnOrder).toEqual(['p-dave', 'p-bob', 'p-alice', 'p-carol']);
+  });
+
+  it('should add the amount to the total and rank everyone by spend under the ledger', () => {
+    const group: Group = {
+      ...baseGroup,
+      rotationStrategy: 'ledger',
+      participants: baseGroup.participants.map((p, i) => ({ ...p, totalSpent: [10, 20, 30, 40][i] })),
+    };
+    const { turnOrder, participants } = computeCompletedTurn(group, 'p-alice', NOW, 5);
+    expect(participants.find((p) => p.id === 'p-alice')?.totalSpent).toBe(15);
+    // Alice is still furthest behind, so Alice goes again.
+    expect(turnOrder).toEqual(['p-alice', 'p-bob', 'p-carol', 'p-dave']);
+  });
+
+  it('should pass over away participants without changing their relative order', () => {
+    const group: Group = {
+      ...baseGroup,
+      participants: baseGroup.participants.map((p) =>
+        p.id === 'p-bob' ? { ...p, awayUntil: NOW + 1000 } : p,
+      ),
+    };
+    const order = computeNextTurnOrder(group, 'p-alice', NOW);
+    expect(order).toEqual(['p-carol', 'p-dave', 'p-alice', 'p-bob']);
+  });
+
+  it('should treat an expired away period as available', () => {
+    const participants = baseGroup.participants.map((p) =>
+      p.id === 'p-alice' ? { ...p, awayUntil: NOW - 1 } : p,
+    );
+    expect(deferAwayParticipants(baseGroup.turnOrder, participants, NOW)).toEqual(
+      baseGroup.turnOrder,
+    );
+  });
+
+  it('should not change turn counts on a skip', () => {
+    const { turnOrder } = computeSkippedTurn(baseGroup, 'p-alice', NOW);
+    expect(turnOrder).toEqual(['p-bob', 'p-carol', 'p-dave', 'p-alice']);
+  });
+
+  it('should move a skipping lowest spender behind everyone under the ledger', () => {
+    const group: Group = {
+      ...baseGroup,
+      rotationStrategy: 'ledger',
+      participants: baseGroup.participants.map((p, i) => ({ ...p, totalSpent: [10, 30, 20, 30][i] })),
+    };
+    const { turnOrder } = computeSkippedTurn(group, 'p-alice', NOW);
+    expect(turnOrder[0]).not.toBe('p-alice');
+    expect(turnOrder).toEqual(['p-carol', 'p-bob', 'p-dave', 'p-alice']);
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/utils/rotation.ts
+ * @stamp {"ts":"2026-10-19T15:35:00Z"}
+ * @architectural-role Utility
+ * @description
+ * The single source of truth for how a group's queue is re-ordered after a turn
+ * is completed or skipped. Both the repository transactions and the optimistic
+ * updates in the action hooks compute their results through these functions, so
+ * the client preview always matches the state that is eventually saved.
+ * Participants who are away are passed over: they keep their relative place
+ * but are moved behind everyone who is available.
+ * @core-principles
+ * 1. IS a collection of pure, deterministic functions.
+ * 2. MUST produce identical results for identical group state and time (including the `random` strategy).
+ * 3. MUST receive the current time as an argument rather than reading the clock.
+ * 4. MUST NOT perform any I/O operations.
+ * @api-declaration
+ *   - ROTATION_STRATEGIES: Display metadata for every supported strategy.
+ *   - resolveRotationStrategy: Returns the effective strategy for a group.
+ *   - isParticipantAway: Checks whether a participant is away at a given time.
+ *   - deferAwayParticipants: Moves away participants behind available ones.
+ *   - computeNextTurnOrder: Computes the queue order after a participant has had their turn.
+ *   - computeCompletedTurn: Computes the queue and participants after a completed turn.
+ *   - computeSkippedTurn: Computes the queue after a skipped turn.
+ * @contract
+ *   assertions:
+ *     purity: pure
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import type {
+  Group,
+  RotationStrategy,
+  TurnParticipant,
+} from '../../../types/group';
+
+type RotationState = Pick<Group, 'gid' | 'turnOrder' | 'participants' | 'rotationStrategy'>;
+
+/**
+ * Display metadata for every supported rotation strategy, in menu order.
+ */
+export const ROTATION_STRATEGIES: {
+  value: RotationStrategy;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: 'round-robin',
+    label: 'Round robin',
+    description: 'Whoever just went moves to the end of the line.',
+  },
+  {
+    value: 'fewest-turns',
+    label: 'Fewest turns first',
+    description: 'Whoever has taken the fewest turns goes next.',
+  },
+  {
+    value: 'weighted',
+    label: 'Weighted',
+    description: 'Turns are shared out in proportion to each participant\'s weight.',
+  },
+  {
+    value: 'random',
+    label: 'Random draw',
+    description: 'The next participant is drawn at random.',
+  },
+  {
+    value: 'ledger',
+    label: 'Who paid least',
+    description: 'Each turn records what was spent, and whoever is furthest behind goes next.',
+  },
+];
+
+/**
+ * Returns the effective rotation strategy for a group, falling back to
+ * round-robin for groups created before strategies existed.
+ * @param group The group whose strategy is being resolved.
+ * @returns The strategy to apply.
+ */
+export function resolveRotationStrategy(
+  group: Pick<Group, 'rotationStrategy'>,
+): RotationStrategy {
+  return group.rotationStrategy ?? 'round-robin';
+}
+
+/**
+ * Checks whether a participant is away at the given time.
+ * @param participant The participant to check.
+ * @param nowMs The current time in epoch milliseconds.
+ * @returns `true` if the participant's away period has not yet ended.
+ */
+export function isParticipantAway(
+  participant: Pick<TurnParticipant, 'awayUntil'> | undefined,
+  nowMs: number,
+): boolean {
+  return typeof participant?.awayUntil === 'number' && participant.awayUntil > nowMs;
+}
+
+/**
+ * Moves every away participant behind the available ones, preserving the
+ * relative order within each group. No turns are skipped or logged; away
+ * participants simply wait at the back until they return.
+ * @param turnOrder The queue order to adjust.
+ * @param participants The group's roster.
+ * @param nowMs The current time in epoch milliseconds.
+ * @returns The adjusted queue order.
+ */
+export function deferAwayParticipants(
+  turnOrder: string[],
+  participants: TurnParticipant[],
+  nowMs: number,
+): string[] {
+  const participantsById = new Map(participants.map((p) => [p.id, p]));
+  const isAway = (id: string) => isParticipantAway(participantsById.get(id), nowMs);
+  return [...turnOrder.filter((id) => !isAway(id)), ...turnOrder.filter(isAway)];
+}
+
+/**
+ * A 32-bit FNV-1a hash, used to derive a stable seed from the group state.
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * A small seeded PRNG (mulberry32). Returns a generator of floats in [0, 1).
+ */
+function createSeededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Sorts ids by a numeric key without disturbing the existing order of ties.
+ */
+function stableSortBy(ids: string[], key: (id: string) => number): string[] {
+  return ids
+    .map((id, index) => ({ id, index, value: key(id) }))
+    .sort((a, b) => a.value - b.value || a.index - b.index)
+    .map(({ id }) => id);
+}
+
+/**
+ * Computes the queue order after a participant has had their turn (completed
+ * or skipped). The participant who just went is placed last among the
+ * available participants; the rest of the queue is ordered according to the
+ * group's rotation strategy, and away participants are passed over. Under the
+ * `ledger` strategy the whole queue is ranked by total spent instead, with the
+ * participant who just went placed last among ties.
+ * @param group The group state to rotate. `participants` MUST already reflect
+ *              any turn count or total spent changes caused by the action.
+ * @param movedParticipantId The ID of the participant who just had their turn.
+ * @param nowMs The current time in epoch milliseconds, used for away status.
+ * @returns The new `turnOrder` array.
+ */
+export function computeNextTurnOrder(
+  group: RotationState,
+  movedParticipantId: string,
+  nowMs: number,
+): string[] {
+  const others = group.turnOrder.filter((id) => id !== movedParticipantId);
+  const participantsById = new Map<string, TurnParticipant>(
+    group.participants.map((p) => [p.id, p]),
+  );
+  const turnCountOf = (id: string) => participantsById.get(id)?.turnCount ?? 0;
+
+  // The ledger ranks everyone, including whoever just paid: if they are still
+  // furthest behind, it is their turn again.
+  if (resolveRotationStrategy(group) === 'ledger') {
+    const spentOf = (id: string) => participantsById.get(id)?.totalSpent ?? 0;
+    return deferAwayParticipants(
+      stableSortBy([...others, movedParticipantId], spentOf),
+      group.participants,
+      nowMs,
+    );
+  }
+
+  let nextOthers: string[];
+  switch (resolveRotationStrategy(group)) {
+    case 'fewest-turns':
+      nextOthers = stableSortBy(others, turnCountOf);
+      break;
+    case 'weighted':
+      nextOthers = stableSortBy(others, (id) => {
+        const weight = participantsById.get(id)?.weight ?? 1;
+        return turnCountOf(id) / (weight > 0 ? weight : 1);
+      });
+      break;
+    case 'random': {
+      const totalTurns = group.participants.reduce((sum, p) => sum + p.turnCount, 0);
+      const random = createSeededRandom(
+        hashString(`${group.gid}:${group.turnOrder.join(',')}:${totalTurns}`),
+      );
+      nextOthers = [...others];
+      for (let i = nextOthers.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [nextOthers[i], nextOthers[j]] = [nextOthers[j], nextOthers[i]];
+      }
+      break;
+    }
+    case 'round-robin':
+    default:
+      nextOthers = others;
+  }
+
+  return deferAwayParticipants(
+    [...nextOthers, movedParticipantId],
+    group.participants,
+    nowMs,
+  );
+}
+
+/**
+ * Computes the group state after a participant completes a turn: their turn
+ * count is incremented, any amount they spent is added to their total, and the
+ * queue is rotated by the group's strategy.
+ * @param group The current group state.
+ * @param participantId The ID of the participant whose turn was completed.
+ * @param nowMs The current time in epoch milliseconds.
+ * @param amount The amount spent on the turn, for groups using the `ledger` strategy.
+ * @returns The new `turnOrder` and `participants` arrays.
+ */
+export function computeCompletedTurn(
+  group: RotationState,
+  participantId: string,
+  nowMs: number,
+  amount?: number,
+): { turnOrder: string[]; participants: TurnParticipant[] } {
+  const participants = group.participants.map((p) =>
+    p.id === participantId
+      ? {
+          ...p,
+          turnCount: p.turnCount + 1,
+          ...(amount !== undefined && { totalSpent: (p.totalSpent ?? 0) + amount }),
+        }
+      : p,
+  );
+  const turnOrder = computeNextTurnOrder({ ...group, participants }, participantId, nowMs);
+  return { turnOrder, participants };
+}
+
+/**
+ * Computes the queue after a participant skips their turn. Turn counts are
+ * left untouched. Under the `ledger` strategy a skip leaves every total as it
+ * was, so ranking the skipper again would put them straight back in front;
+ * instead they go behind everyone they tie with or trail, which is everyone.
+ * @param group The current group state.
+ * @param participantId The ID of the participant whose turn was skipped.
+ * @param nowMs The current time in epoch milliseconds.
+ * @returns The new `turnOrder` array.
+ */
+export function computeSkippedTurn(
+  group: RotationState,
+  participantId: string,
+  nowMs: number,
+): { turnOrder: string[] } {
+  if (resolveRotationStrategy(group) === 'ledger') {
+    const participantsById = new Map(group.participants.map((p) => [p.id, p]));
+    const spentOf = (id: string) => participantsById.get(id)?.totalSpent ?? 0;
+    const others = group.turnOrder.filter((id) => id !== participantId);
+    return {
+      turnOrder: deferAwayParticipants(
+        [...stableSortBy(others, spentOf), participantId],
+        group.participants,
+        nowMs,
+      ),
+    };
+  }
+  return { turnOrder: computeNextTurnOrder(group, participantId, nowMs) };
+}
@@ -0,0 +1,84 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/utils/schedule.spec.ts
+ * @stamp {"ts":"2026-10-19T10:25:00Z"}
+ * @test-target packages/whoseturnnow/src/features/groups/utils/schedule.ts
+ *
+ * @description
+ * Unit tests for the pure schedule utilities. This suite verifies the next
+ * deadline for every schedule frequency, including early and late completions,
+ * and the overdue check.
+ *
+ * @criticality
+ * Critical (Reason: Core Business Logic Orchestration)
+ *
+ * @testing-layer Unit
+ *
+ * @contract
+ *   assertions:
+ *     purity: read-only
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  advanceDueAt,
+  computeNextDueAt,
+  describeSchedule,
+  isOverdue,
+} from './schedule';
+import type { GroupSchedule } from '../../../types/group';
+
+// --- Test Data ---
+// Monday 5 January 2026, local time.
+const monday = (hour: number) => new Date(2026, 0, 5, hour).getTime();
+const dayAt = (day: number, hour: number) => new Date(2026, 0, day, hour).getTime();
+
+describe('schedule utils', () => {
+  describe('computeNextDueAt', () => {
+    it('should return today`s due hour when it is still ahead for a daily schedule', () => {
+      const schedule: GroupSchedule = { frequency: 'daily', dueHour: 18 };
+      expect(computeNextDueAt(schedule, monday(10))).toBe(monday(18));
+    });
+
+    it('should roll over to tomorrow once today`s due hour has passed', () => {
+      const schedule: GroupSchedule = { frequency: 'daily', dueHour: 9 };
+      expect(computeNextDueAt(schedule, monday(10))).toBe(dayAt(6, 9));
+    });
+
+    it('should find the next chosen weekday for a weekly schedule', () => {
+      // Wednesday (3) and Friday (5)
+      const schedule: GroupSchedule = { frequency: 'weekly', weekdays: [3, 5], dueHour: 18 };
+      expect(computeNextDueAt(schedule, monday(10))).toBe(dayAt(7, 18));
+      expect(computeNextDueAt(schedule, dayAt(7, 19))).toBe(dayAt(9, 18));
+    });
+
+    it('should add the interval to the current day for an interval schedule', () => {
+      const schedule: GroupSchedule = { frequency: 'interval', intervalDays: 3, dueHour: 8 };
+      expect(computeNextDueAt(schedule, monday(10))).toBe(dayAt(8, 8));
+    });
+  });
+
+  describe('advanceDueAt', () => {
+    const schedule: GroupSchedule = { frequency: 'daily', dueHour: 18 };
+
+    it('should not grant the same slot again when a turn is completed early', () => {
+      expect(advanceDueAt(schedule, monday(18), monday(10))).toBe(dayAt(6, 18));
+    });
+
+    it('should search forward from now when a turn is completed late', () => {
+      expect(advanceDueAt(schedule, dayAt(3, 18), monday(10))).toBe(monday(18));
+    });
+  });
+
+  it('should report overdue only once the deadline has passed', () => {
+    expect(isOverdue(monday(18), monday(10))).toBe(false);
+    expect(isOverdue(monday(9), monday(10))).toBe(true);
+    expect(isOverdue(null, monday(10))).toBe(false);
+  });
+
+  it('should describe a weekly schedule with sorted weekday labels', () => {
+    const schedule: GroupSchedule = { frequency: 'weekly', weekdays: [5, 1], dueHour: 7 };
+    expect(describeSchedule(schedule)).toBe('Mon, Fri at 07:00');
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/utils/schedule.ts
+ * @stamp {"ts":"2026-10-19T10:00:00Z"}
+ * @architectural-role Utility
+ * @description
+ * Provides the pure date arithmetic for recurring group schedules: computing
+ * the next due date after a turn, deciding whether a turn is overdue, and
+ * describing schedules and deadlines in human-readable form.
+ * @core-principles
+ * 1. IS a collection of pure, stateless helper functions.
+ * 2. MUST receive the current time as an argument rather than reading the clock.
+ * 3. MUST use the browser's native Intl API for localization.
+ * @api-declaration
+ *   - WEEKDAY_LABELS: Short labels for each weekday, indexed from Sunday.
+ *   - computeNextDueAt: Computes the first due time strictly after a given instant.
+ *   - advanceDueAt: Computes the due date that follows a completed turn.
+ *   - isOverdue: Checks whether a deadline has passed.
+ *   - describeSchedule: Describes a schedule in plain words.
+ *   - formatDueAt: Formats a deadline for display.
+ * @contract
+ *   assertions:
+ *     purity: pure
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import type { GroupSchedule } from '../../../types/group';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Short labels for each weekday, indexed from Sunday (0) to Saturday (6).
+ */
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Returns the given day's local date at the schedule's due hour.
+ */
+function atDueHour(dayMs: number, dueHour: number, dayOffset = 0): number {
+  const date = new Date(dayMs);
+  date.setDate(date.getDate() + dayOffset);
+  date.setHours(dueHour, 0, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * Computes the first due time that falls strictly after the given instant.
+ * @param schedule The group's recurring schedule.
+ * @param fromMs The instant, in epoch milliseconds, to search forward from.
+ * @returns The next due time in epoch milliseconds.
+ */
+export function computeNextDueAt(schedule: GroupSchedule, fromMs: number): number {
+  switch (schedule.frequency) {
+    case 'interval': {
+      const intervalDays = Math.max(1, Math.floor(schedule.intervalDays ?? 1));
+      return atDueHour(fromMs, schedule.dueHour, intervalDays);
+    }
+    case 'weekly': {
+      const weekdays = schedule.weekdays?.length ? schedule.weekdays : [0, 1, 2, 3, 4, 5, 6];
+      // Eight days covers every weekday at least once after today's due hour.
+      for (let offset = 0; offset <= 7; offset++) {
+        const candidate = atDueHour(fromMs, schedule.dueHour, offset);
+        if (candidate > fromMs && weekdays.includes(new Date(candidate).getDay())) {
+          return candidate;
+        }
+      }
+      return atDueHour(fromMs, schedule.dueHour, 7);
+    }
+    case 'daily':
+    default: {
+      const today = atDueHour(fromMs, schedule.dueHour);
+      return today > fromMs ? today : atDueHour(fromMs, schedule.dueHour, 1);
+    }
+  }
+}
+
+/**
+ * Computes the deadline that follows a completed turn. A turn completed early
+ * does not earn a second turn in the same slot, so the search starts from the
+ * later of "now" and the current deadline.
+ * @param schedule The group's recurring schedule.
+ * @param currentDueAt The current deadline, if any.
+ * @param nowMs The completion time in epoch milliseconds.
+ * @returns The new deadline in epoch milliseconds.
+ */
+export function advanceDueAt(
+  schedule: GroupSchedule,
+  currentDueAt: number | null | undefined,
+  nowMs: number,
+): number {
+  return computeNextDueAt(schedule, Math.max(nowMs, currentDueAt ?? 0));
+}
+
+/**
+ * Checks whether a deadline has passed.
+ * @param nextDueAt The deadline in epoch milliseconds, if any.
+ * @param nowMs The current time in epoch milliseconds.
+ * @returns `true` if there is a deadline and it is in the past.
+ */
+export function isOverdue(nextDueAt: number | null | undefined, nowMs: number): boolean {
+  return typeof nextDueAt === 'number' && nextDueAt <= nowMs;
+}
+
+/**
+ * Describes a schedule in plain words (e.g., "Mon, Thu at 18:00").
+ * @param schedule The schedule to describe.
+ * @returns A short, human-readable description.
+ */
+export function describeSchedule(schedule: GroupSchedule): string {
+  const time = `${String(schedule.dueHour).padStart(2, '0')}:00`;
+  switch (schedule.frequency) {
+    case 'weekly': {
+      const days = [...(schedule.weekdays ?? [])].sort((a, b) => a - b).map((d) => WEEKDAY_LABELS[d]);
+      return `${days.length ? days.join(', ') : 'Every day'} at ${time}`;
+    }
+    case 'interval':
+      return `Every ${schedule.intervalDays ?? 1} days at ${time}`;
+    case 'daily':
+    default:
+      return `Every day at ${time}`;
+  }
+}
+
+/**
+ * Formats a deadline for display, using a weekday for dates within the next
+ * week and a short date otherwise.
+ * @param nextDueAt The deadline in epoch milliseconds.
+ * @param nowMs The current time in epoch milliseconds.
+ * @returns A localized string (e.g., "Tue 18:00").
+ */
+export function formatDueAt(nextDueAt: number, nowMs: number): string {
+  const withinWeek = Math.abs(nextDueAt - nowMs) < 6 * DAY_MS;
+  return new Intl.DateTimeFormat(
+    undefined,
+    withinWeek
+      ? { weekday: 'short', hour: '2-digit', minute: '2-digit' }
+      : { dateStyle: 'short', timeStyle: 'short' },
+  ).format(new Date(nextDueAt));
+}
@@ -0,0 +1,126 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/utils/templates.spec.ts
+ * @stamp {"ts":"2026-10-19T14:00:00Z"}
+ * @test-target packages/whoseturnnow/src/features/groups/utils/templates.ts
+ *
+ * @description
+ * Unit tests for group templates. This suite verifies that saving a group as a
+ * template keeps its settings but none of its members' links, that applying a
+ * template puts the creator first in every queue, and that wording falls back
+ * to the default.
+ *
+ * @criticality
+ * Critical (Reason: Core Business Logic Orchestration)
+ *
+ * @testing-layer Unit
+ *
+ * @contract
+ *   assertions:
+ *     purity: read-only
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  GROUP_TEMPLATES,
+  applyGroupTemplate,
+  buildTemplateFromGroup,
+  resolveWording,
+} from './templates';
+import type { Group, TurnParticipant } from '../../../types/group';
+
+// --- Test Data ---
+const group: Group = {
+  gid: 'group-1',
+  name: 'Coffee',
+  icon: '☕',
+  ownerUid: 'user-alice',
+  participants: [
+    { id: 'p-alice', uid: 'user-alice', role: 'admin', turnCount: 3, nickname: 'Alice' },
+    { id: 'p-bob', uid: 'user-bob', role: 'member', turnCount: 2, nickname: 'Bob' },
+    { id: 'p-carol', uid: null, role: 'member', turnCount: 1, nickname: 'Carol' },
+  ],
+  turnOrder: ['p-carol', 'p-alice', 'p-bob'],
+  participantUids: { 'user-alice': true, 'user-bob': true },
+  adminUids: { 'user-alice': true },
+  rotationStrategy: 'ledger',
+  queues: [{ id: 'q-1', name: 'Tea', turnOrder: ['p-bob', 'p-alice', 'p-carol'], turnCounts: {} }],
+  wording: { turn: 'Coffee Run' },
+};
+
+const creator: TurnParticipant = {
+  id: 'p-creator',
+  uid: 'user-dana',
+  role: 'admin',
+  turnCount: 0,
+  nickname: 'Dana',
+};
+
+const sequentialIds = () => {
+  let next = 0;
+  return () => `id-${++next}`;
+};
+
+describe('templates utils', () => {
+  describe('buildTemplateFromGroup', () => {
+    it('should keep the settings and turn everyone but the saver into placeholders', () => {
+      const template = buildTemplateFromGroup(group, { id: 't-1', name: 'Office Coffee', ownerUid: 'user-alice' });
+
+      expect(template).toEqual({
+        id: 't-1',
+        name: 'Office Coffee',
+        icon: '☕',
+        rotationStrategy: 'ledger',
+        schedule: null,
+        requireConfirmation: false,
+        placeholders: ['Carol', 'Bob'],
+        queueNames: ['Tea'],
+        wording: { turn: 'Coffee Run' },
+      });
+    });
+  });
+
+  describe('applyGroupTemplate', () => {
+    it('should put the creator first, followed by the placeholders, in every queue', () => {
+      const chores = GROUP_TEMPLATES.find((t) => t.id === 'builtin-weekly-chores')!;
+      const fields = applyGroupTemplate(chores, creator, sequentialIds());
+
+      expect(fields.participants.map((p) => [p.id, p.uid, p.nickname])).toEqual([
+        ['p-creator', 'user-dana', 'Dana'],
+        ['id-1', null, 'Housemate 2'],
+        ['id-2', null, 'Housemate 3'],
+      ]);
+      expect(fields.turnOrder).toEqual(['p-creator', 'id-1', 'id-2']);
+      expect(fields.queues?.map((q) => [q.name, q.turnOrder])).toEqual([
+        ['Kitchen', ['p-creator', 'id-1', 'id-2']],
+        ['Bathroom', ['p-creator', 'id-1', 'id-2']],
+        ['Bins', ['p-creator', 'id-1', 'id-2']],
+      ]);
+      expect(fields.schedule).toEqual(chores.schedule);
+      expect(fields.wording).toEqual({ turn: 'Chores' });
+    });
+
+    it('should leave out settings the template does not use', () => {
+      const fields = applyGroupTemplate(
+        { id: 't', name: 'Plain', icon: '📋', rotationStrategy: 'round-robin', placeholders: [] },
+        creator,
+        sequentialIds(),
+      );
+
+      expect(fields).toEqual({
+        participants: [creator],
+        turnOrder: ['p-creator'],
+        rotationStrategy: 'round-robin',
+      });
+    });
+  });
+
+  describe('resolveWording', () => {
+    it('should fall back to the default wording', () => {
+      expect(resolveWording(null).turn).toBe('Turn');
+      expect(resolveWording({}).turn).toBe('Turn');
+      expect(resolveWording(group).turn).toBe('Coffee Run');
+    });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/utils/templates.ts
+ * @stamp {"ts":"2026-10-19T14:00:00Z"}
+ * @architectural-role Utility
+ * @description
+ * Group templates: the built-in starting points offered when creating a group,
+ * turning an existing group's configuration into a personal template, and
+ * expanding a template into the roster, queues and settings of a new group.
+ * Also resolves the wording a group uses for its turns.
+ * @core-principles
+ * 1. IS a collection of pure, stateless helper functions and constants.
+ * 2. MUST NOT copy linked users, counts or history into a template.
+ * 3. MUST receive ID generation as an argument rather than creating IDs itself.
+ * 4. MUST NOT perform any I/O operations.
+ * @api-declaration
+ *   - DEFAULT_WORDING: The wording used by groups that have not set their own.
+ *   - GROUP_TEMPLATES: The built-in templates, in menu order.
+ *   - resolveWording: Returns the wording a group uses.
+ *   - buildTemplateFromGroup: Captures a group's configuration as a template.
+ *   - applyGroupTemplate: Expands a template into the fields of a new group.
+ * @contract
+ *   assertions:
+ *     purity: pure
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import type {
+  Group,
+  GroupTemplate,
+  GroupWording,
+  TurnParticipant,
+  TurnQueue,
+} from '../../../types/group';
+
+/**
+ * The wording used by groups that have not set their own.
+ */
+export const DEFAULT_WORDING: GroupWording = { turn: 'Turn' };
+
+/**
+ * The built-in templates, in menu order.
+ */
+export const GROUP_TEMPLATES: GroupTemplate[] = [
+  {
+    id: 'builtin-weekly-chores',
+    name: 'Weekly Chores',
+    description: 'Housemates take turns with the chores, due every Saturday morning.',
+    icon: '🧹',
+    rotationStrategy: 'round-robin',
+    schedule: { frequency: 'weekly', weekdays: [6], dueHour: 10 },
+    requireConfirmation: true,
+    placeholders: ['Housemate 2', 'Housemate 3'],
+    queueNames: ['Kitchen', 'Bathroom', 'Bins'],
+    wording: { turn: 'Chores' },
+  },
+  {
+    id: 'builtin-board-game-host',
+    name: 'Board Game Night',
+    description: 'Whoever has hosted least hosts the next game night.',
+    icon: '🎲',
+    rotationStrategy: 'fewest-turns',
+    schedule: { frequency: 'weekly', weekdays: [5], dueHour: 18 },
+    placeholders: ['Player 2', 'Player 3', 'Player 4'],
+    wording: { turn: 'Hosting' },
+  },
+  {
+    id: 'builtin-coffee-run',
+    name: 'Coffee Run',
+    description: 'Whoever has spent least buys the next round.',
+    icon: '☕',
+    rotationStrategy: 'ledger',
+    placeholders: ['Colleague 2', 'Colleague 3'],
+    wording: { turn: 'Coffee Run' },
+  },
+  {
+    id: 'builtin-standup-facilitator',
+    name: 'Standup Facilitator',
+    description: 'The team takes turns running the daily standup, every weekday.',
+    icon: '🗣️',
+    rotationStrategy: 'round-robin',
+    schedule: { frequency: 'weekly', weekdays: [1, 2, 3, 4, 5], dueHour: 9 },
+    placeholders: ['Teammate 2', 'Teammate 3', 'Teammate 4'],
+    wording: { turn: 'Standup' },
+  },
+];
+
+/**
+ * Returns the wording a group uses for its turns.
+ * @param group The group, if loaded.
+ */
+export function resolveWording(group: Pick<Group, 'wording'> | null): GroupWording {
+  return { ...DEFAULT_WORDING, ...group?.wording };
+}
+
+/**
+ * Captures a group's configuration as a personal template. Every participant
+ * except the saving user becomes a placeholder name, in the main queue's order.
+ * @param group The group to capture.
+ * @param options The template's ID and name, and the saving user's UID.
+ */
+export function buildTemplateFromGroup(
+  group: Group,
+  options: { id: string; name: string; ownerUid: string },
+): GroupTemplate {
+  const byId = new Map(group.participants.map((p) => [p.id, p]));
+  const placeholders = group.turnOrder
+    .map((id) => byId.get(id))
+    .filter((p): p is TurnParticipant => !!p && p.uid !== options.ownerUid)
+    .map((p) => p.nickname || 'Participant');
+
+  return {
+    id: options.id,
+    name: options.name,
+    icon: group.icon,
+    rotationStrategy: group.rotationStrategy ?? 'round-robin',
+    schedule: group.schedule ?? null,
+    requireConfirmation: !!group.requireConfirmation,
+    placeholders,
+    queueNames: (group.queues ?? []).map((q) => q.name),
+    ...(group.wording && { wording: group.wording }),
+  };
+}
+
+/**
+ * Expands a template into the roster, queues and settings of a new group. The
+ * creator goes first in every queue, followed by the placeholders.
+ * @param template The template to apply.
+ * @param creator The creator's participant slot.
+ * @param newId Generates a unique ID for each placeholder and queue.
+ * @returns The fields to merge into the new group document.
+ */
+export function applyGroupTemplate(
+  template: GroupTemplate,
+  creator: TurnParticipant,
+  newId: () => string,
+): Pick<Group, 'participants' | 'turnOrder' | 'rotationStrategy'> &
+  Partial<Pick<Group, 'schedule' | 'requireConfirmation' | 'queues' | 'wording'>> {
+  const placeholders: TurnParticipant[] = template.placeholders.map((nickname) => ({
+    id: newId(),
+    uid: null,
+    role: 'member',
+    turnCount: 0,
+    nickname,
+  }));
+  const participants = [creator, ...placeholders];
+  const turnOrder = participants.map((p) => p.id);
+
+  const queues: TurnQueue[] = (template.queueNames ?? []).map((name) => ({
+    id: newId(),
+    name,
+    turnOrder: [...turnOrder],
+    turnCounts: Object.fromEntries(turnOrder.map((id) => [id, 0])),
+  }));
+
+  return {
+    participants,
+    turnOrder,
+    rotationStrategy: template.rotationStrategy,
+    ...(template.schedule && { schedule: template.schedule }),
+    ...(template.requireConfirmation && { requireConfirmation: true }),
+    ...(queues.length > 0 && { queues }),
+    ...(template.wording && { wording: template.wording }),
+  };
+}
@@ -0,0 +1,299 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/utils/undo.spec.ts
+ * @stamp {"ts":"2026-10-19T15:10:00Z"}
+ * @test-target packages/whoseturnnow/src/features/groups/utils/undo.ts
+ *
+ * @description
+ * Unit tests for the undo engine. This suite verifies that before-state is
+ * captured per queue, that the undo and redo stacks are strictly last-in,
+ * first-out, that neither stack crosses a reviewed turn, and that restoring a
+ * snapshot reconciles membership changes and away participants.
+ *
+ * @criticality
+ * Critical (Reason: Core Business Logic Orchestration)
+ *
+ * @testing-layer Unit
+ *
+ * @contract
+ *   assertions:
+ *     purity: read-only
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildRedoStack,
+  buildUndoStack,
+  captureRedoState,
+  captureUndoState,
+  computeRedoUpdate,
+  computeUndoUpdate,
+} from './undo';
+import type { Group, LogEntry, TurnUndoneLog } from '../../../types/group';
+
+// --- Test Data ---
+const baseGroup: Group = {
+  gid: 'group-1',
+  name: 'Chores',
+  icon: '🧹',
+  ownerUid: 'owner',
+  participants: [
+    { id: 'p-alice', uid: 'user-alice', role: 'admin', turnCount: 5, nickname: 'Alice' },
+    { id: 'p-bob', uid: 'user-bob', role: 'member', turnCount: 4, nickname: 'Bob' },
+  ],
+  turnOrder: ['p-alice', 'p-bob'],
+  participantUids: { 'user-alice': true, 'user-bob': true },
+  adminUids: { 'user-alice': true },
+  nextDueAt: 1000,
+  queues: [
+    { id: 'q-trash', name: 'Trash', turnOrder: ['p-bob', 'p-alice'], turnCounts: { 'p-bob': 2 } },
+  ],
+};
+
+const now = 10_000;
+
+const logBase = {
+  completedAt: 'ts' as any,
+  actorUid: 'user-alice',
+  actorName: 'Alice',
+  _participantUids: {},
+  _adminUids: {},
+};
+
+const completed = (id: string, extra: object = {}): LogEntry & { id: string } => ({
+  ...logBase,
+  id,
+  type: 'TURN_COMPLETED',
+  participantId: 'p-alice',
+  participantName: 'Alice',
+  undoState: { queues: {} },
+  ...extra,
+});
+
+const reviewed = (id: string, originalLogId: string): LogEntry & { id: string } => ({
+  ...logBase,
+  id,
+  type: 'TURN_REVIEWED',
+  originalLogId,
+  outcome: 'confirmed',
+  participantId: 'p-alice',
+  participantName: 'Alice',
+});
+
+const undone = (id: string, originalLogId: string, extra: object = {}): TurnUndoneLog & { id: string } => ({
+  ...logBase,
+  id,
+  type: 'TURN_UNDONE',
+  originalLogId,
+  originalParticipantName: 'Alice',
+  redoState: { queues: {} },
+  ...extra,
+});
+
+describe('undo utils', () => {
+  describe('captureUndoState', () => {
+    it('should snapshot each requested queue and the deadline when asked', () => {
+      const state = captureUndoState(baseGroup, ['main', 'q-trash'], { includeDueAt: true });
+      expect(state).toEqual({
+        queues: {
+          main: { turnOrder: ['p-alice', 'p-bob'], turnCounts: { 'p-alice': 5, 'p-bob': 4 } },
+          'q-trash': { turnOrder: ['p-bob', 'p-alice'], turnCounts: { 'p-alice': 0, 'p-bob': 2 } },
+        },
+        nextDueAt: 1000,
+      });
+    });
+
+    it('should leave out the deadline by default', () => {
+      expect(captureUndoState(baseGroup, ['main'])).not.toHaveProperty('nextDueAt');
+    });
+  });
+
+  describe('buildUndoStack', () => {
+    it('should pass over undo records and undone entries, newest first', () => {
+      const turnLog: (LogEntry & { id: string })[] = [
+        { ...logBase, id: 'u1', type: 'TURN_UNDONE', originalParticipantName: 'Alice' },
+        completed('c3', { isUndone: true }),
+        completed('c2'),
+        completed('c1'),
+      ];
+      expect(buildUndoStack(turnLog).map((l) => l.id)).toEqual(['c2', 'c1']);
+    });
+
+    it('should stop at an entry that cannot be reversed', () => {
+      const turnLog: (LogEntry & { id: string })[] = [
+        completed('c2'),
+        { ...logBase, id: 'r1', type: 'COUNTS_RESET' },
+        completed('c1'),
+      ];
+      expect(buildUndoStack(turnLog).map((l) => l.id)).toEqual(['c2']);
+    });
+
+    it('should pass over started turns, which change no queue state', () => {
+      const turnLog: (LogEntry & { id: string })[] = [
+        completed('c2'),
+        { ...logBase, id: 's1', type: 'TURN_STARTED', participantId: 'p-alice', participantName: 'Alice' },
+        completed('c1'),
+      ];
+      expect(buildUndoStack(turnLog).map((l) => l.id)).toEqual(['c2', 'c1']);
+    });
+
+    it('should pass over membership and settings audit entries', () => {
+      const turnLog: (LogEntry & { id: string })[] = [
+        completed('c2'),
+        { ...logBase, id: 'a1', type: 'PARTICIPANT_ADDED', participantId: 'p-carol', participantName: 'Carol' },
+        { ...logBase, id: 'a2', type: 'GROUP_RENAMED', previousName: 'Chores', newName: 'House' },
+        completed('c1'),
+      ];
+      expect(buildUndoStack(turnLog).map((l) => l.id)).toEqual(['c2', 'c1']);
+    });
+
+    it('should not undo past a turn confirmed after later actions were logged', () => {
+      // Alice completes (pending), Bob completes, then Alice's turn is confirmed.
+      // Bob's snapshot predates the confirmation, so restoring it would lose it.
+      const turnLog: (LogEntry & { id: string })[] = [
+        reviewed('rv1', 'cA'),
+        completed('cB', { participantId: 'p-bob', participantName: 'Bob' }),
+        completed('cA', { confirmationStatus: 'confirmed' }),
+      ];
+      expect(buildUndoStack(turnLog)).toEqual([]);
+    });
+
+    it('should still undo actions logged after a review', () => {
+      const turnLog: (LogEntry & { id: string })[] = [
+        completed('c2'),
+        reviewed('rv1', 'c0'),
+        completed('c1'),
+      ];
+      expect(buildUndoStack(turnLog).map((l) => l.id)).toEqual(['c2']);
+    });
+
+    it('should cap the stack at the given depth', () => {
+      const turnLog = ['c4', 'c3', 'c2', 'c1'].map((id) => completed(id));
+      expect(buildUndoStack(turnLog, 2).map((l) => l.id)).toEqual(['c4', 'c3']);
+    });
+  });
+
+  describe('computeUndoUpdate', () => {
+    it('should restore a snapshotted queue and the deadline', () => {
+      const log = completed('c1', {
+        undoState: {
+          queues: { main: { turnOrder: ['p-bob', 'p-alice'], turnCounts: { 'p-alice': 4, 'p-bob': 4 } } },
+          nextDueAt: 500,
+        },
+      });
+      const update = computeUndoUpdate(baseGroup, log, now);
+      expect(update.turnOrder).toEqual(['p-bob', 'p-alice']);
+      expect(update.participants?.map((p) => p.turnCount)).toEqual([4, 4]);
+      expect(update.nextDueAt).toBe(500);
+    });
+
+    it('should restore every queue touched by a counts reset', () => {
+      const log: LogEntry = {
+        ...logBase,
+        type: 'COUNTS_RESET',
+        undoState: captureUndoState(baseGroup, ['main', 'q-trash']),
+      };
+      const resetGroup: Group = {
+        ...baseGroup,
+        participants: baseGroup.participants.map((p) => ({ ...p, turnCount: 0 })),
+        queues: [{ ...baseGroup.queues![0], turnCounts: {} }],
+      };
+
+      const update = computeUndoUpdate(resetGroup, log, now);
+      expect(update.participants?.map((p) => p.turnCount)).toEqual([5, 4]);
+      expect(update.queues?.[0].turnCounts).toEqual({ 'p-alice': 0, 'p-bob': 2 });
+    });
+
+    it('should keep membership changes made since the action', () => {
+      const log = completed('c1', {
+        undoState: {
+          queues: { main: { turnOrder: ['p-bob', 'p-alice'], turnCounts: { 'p-alice': 4, 'p-bob': 4 } } },
+        },
+      });
+      const current: Group = {
+        ...baseGroup,
+        participants: [
+          baseGroup.participants[0],
+          { id: 'p-carol', uid: null, role: 'member', turnCount: 0, nickname: 'Carol' },
+        ],
+        turnOrder: ['p-alice', 'p-carol'],
+        queues: undefined,
+      };
+
+      const update = computeUndoUpdate(current, log, now);
+      expect(update.turnOrder).toEqual(['p-alice', 'p-carol']);
+      expect(update.participants?.map((p) => p.turnCount)).toEqual([4, 0]);
+    });
+
+    it('should keep participants who are away now at the back', () => {
+      const log = completed('c1', {
+        undoState: {
+          queues: { main: { turnOrder: ['p-bob', 'p-alice'], turnCounts: { 'p-alice': 4, 'p-bob': 4 } } },
+        },
+      });
+      const current: Group = {
+        ...baseGroup,
+        participants: [baseGroup.participants[0], { ...baseGroup.participants[1], awayUntil: now + 1 }],
+      };
+
+      const update = computeUndoUpdate(current, log, now);
+      expect(update.turnOrder).toEqual(['p-alice', 'p-bob']);
+    });
+
+    it('should move a legacy completed turn back to the front', () => {
+      const log = completed('c1', { participantId: 'p-bob', undoState: undefined });
+      const update = computeUndoUpdate(baseGroup, log, now);
+      expect(update.turnOrder).toEqual(['p-bob', 'p-alice']);
+      expect(update.participants?.map((p) => p.turnCount)).toEqual([5, 3]);
+    });
+  });
+
+  describe('redo', () => {
+    it('should list unredone undos, newest first, up to the next new action', () => {
+      const turnLog: (LogEntry & { id: string })[] = [
+        undone('u2', 'c2'),
+        { ...logBase, id: 'r1', type: 'TURN_REDONE', originalLogId: 'c3', originalType: 'TURN_COMPLETED', undoLogId: 'u0', originalParticipantName: 'Alice' },
+        undone('u0', 'c3', { isRedone: true }),
+        undone('u1', 'c1'),
+        completed('c4'),
+        undone('u-old', 'c0'),
+      ];
+      expect(buildRedoStack(turnLog).map((l) => l.id)).toEqual(['u2', 'u1']);
+    });
+
+    it('should not redo past a turn reviewed since the undo', () => {
+      const turnLog: (LogEntry & { id: string })[] = [
+        reviewed('rv1', 'c0'),
+        undone('u1', 'c1'),
+      ];
+      expect(buildRedoStack(turnLog)).toEqual([]);
+    });
+
+    it('should return a redone action to the undo stack', () => {
+      const turnLog: (LogEntry & { id: string })[] = [
+        completed('c2'),
+        undone('u1', 'c1', { isRedone: true }),
+        completed('c1'),
+      ];
+      expect(buildRedoStack(turnLog)).toEqual([]);
+      expect(buildUndoStack(turnLog).map((l) => l.id)).toEqual(['c2', 'c1']);
+    });
+
+    it('should restore the state an undo reversed', () => {
+      const log = completed('c1', {
+        undoState: {
+          queues: { main: { turnOrder: ['p-bob', 'p-alice'], turnCounts: { 'p-alice': 4, 'p-bob': 4 } } },
+          nextDueAt: 500,
+        },
+      });
+      const redoState = captureRedoState(baseGroup, log);
+      const afterUndo = { ...baseGroup, ...computeUndoUpdate(baseGroup, log, now) };
+
+      const update = computeRedoUpdate(afterUndo, undone('u1', 'c1', { redoState }), now);
+      expect(update.turnOrder).toEqual(['p-alice', 'p-bob']);
+      expect(update.participants?.map((p) => p.turnCount)).toEqual([5, 4]);
+      expect(update.nextDueAt).toBe(1000);
+    });
+  });
+});
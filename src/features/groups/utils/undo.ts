@@ -0,0 +1,310 @@
+/**
+ * @file packages/whoseturnnow/src/features/groups/utils/undo.ts
+ * @stamp {"ts":"2026-10-19T16:10:00Z"}
+ * @architectural-role Utility
+ * @description
+ * The undo engine. Every state-changing log entry carries an `undoState`: the
+ * order, turn counts and totals spent of the queues it touched, captured just
+ * before it was applied. Reversing an entry restores that snapshot. Entries
+ * are undone strictly last-in, first-out, so each snapshot is restored onto the
+ * state its action produced. Membership and settings changes made in between
+ * are logged for the audit trail only: they are passed over, and roster
+ * changes are reconciled rather than reverted. Confirming or rejecting a turn
+ * changes the queue after that turn was logged, so its review entry ends the
+ * stack: restoring an older snapshot would silently discard the review.
+ * Restored orders always keep away participants at the back, as marking them
+ * away did.
+ *
+ * Redo works the same way in the other direction: each undo record stores the
+ * state it reversed as its `redoState`, and undo records that have not been
+ * redone form a redo stack until the next new action clears it.
+ * @core-principles
+ * 1. IS a collection of pure, stateless helper functions.
+ * 2. MUST only reverse entries in reverse chronological order.
+ * 3. MUST NOT reverse or redo past a confirmed or rejected turn.
+ * 4. MUST NOT re-add removed participants or drop newly added ones when restoring.
+ * 5. MUST NOT perform any I/O operations.
+ * @api-declaration
+ *   - UNDO_DEPTH: The maximum number of entries that can be undone in a row.
+ *   - captureUndoState: Snapshots the queues an action is about to change.
+ *   - canUndoLog: Whether a log entry carries enough state to be reversed.
+ *   - buildUndoStack: Lists the entries that can currently be undone, newest first.
+ *   - computeUndoUpdate: Builds the update payload that reverses a log entry.
+ *   - captureRedoState: Snapshots the state an undo is about to reverse.
+ *   - buildRedoStack: Lists the undo records that can currently be redone, newest first.
+ *   - computeRedoUpdate: Builds the update payload that re-applies an undone entry.
+ * @contract
+ *   assertions:
+ *     purity: pure
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import type {
+  Group,
+  LogEntry,
+  TurnRedoneLog,
+  TurnReviewedLog,
+  TurnUndoneLog,
+  UndoState,
+} from '../../../types/group';
+import { MAIN_QUEUE_ID, buildQueueUpdate, projectQueue } from './queues';
+import { deferAwayParticipants, resolveRotationStrategy } from './rotation';
+
+/**
+ * The maximum number of consecutive log entries that can be undone.
+ */
+export const UNDO_DEPTH = 5;
+
+/**
+ * Whether a log entry records an undo or redo, rather than an action.
+ */
+const isUndoRecord = (log: LogEntry): log is TurnUndoneLog | TurnRedoneLog =>
+  log.type === 'TURN_UNDONE' || log.type === 'TURN_REDONE';
+
+/**
+ * Whether a log entry records a turn being confirmed or rejected. The review
+ * changed the queue without a snapshot, so neither stack can cross it.
+ */
+const isReviewRecord = (log: LogEntry): log is TurnReviewedLog => log.type === 'TURN_REVIEWED';
+
+/**
+ * The log types that are purely informational as far as undo is concerned.
+ * Turn starts change no queue state; the audit entries for membership and
+ * settings changes are never reversed, and roster changes are reconciled.
+ */
+const INFORMATIONAL_TYPES = [
+  'TURN_STARTED',
+  'PARTICIPANT_ADDED',
+  'PARTICIPANT_REMOVED',
+  'ROLE_CHANGED',
+  'PLACEHOLDER_CLAIMED',
+  'MEMBER_JOINED',
+  'MEMBER_LEFT',
+  'GROUP_RENAMED',
+  'ICON_CHANGED',
+  'AWAY_CHANGED',
+  'WEIGHT_CHANGED',
+] as const;
+
+type InformationalLog = Extract<LogEntry, { type: (typeof INFORMATIONAL_TYPES)[number] }>;
+
+/**
+ * Whether a log entry is purely informational and changed no state that undo
+ * restores. Such entries are passed over by both stacks.
+ */
+const isInformational = (log: LogEntry): log is InformationalLog =>
+  (INFORMATIONAL_TYPES as readonly string[]).includes(log.type);
+
+/**
+ * Snapshots the order and turn counts of the given queues, for storing on the
+ * log entry of an action that is about to change them.
+ * @param group The group state before the action.
+ * @param queueIds The IDs of the queues the action changes.
+ * @param options Set `includeDueAt` when the action also moves the group's deadline.
+ * @returns The before-state to store as the log entry's `undoState`.
+ */
+export function captureUndoState(
+  group: Group,
+  queueIds: string[],
+  options: { includeDueAt?: boolean } = {},
+): UndoState {
+  const queues: UndoState['queues'] = {};
+  for (const queueId of queueIds) {
+    const view = projectQueue(group, queueId);
+    const hasLedger =
+      resolveRotationStrategy(group) === 'ledger' || view.participants.some((p) => p.totalSpent);
+    queues[queueId] = {
+      turnOrder: view.turnOrder,
+      turnCounts: Object.fromEntries(view.participants.map((p) => [p.id, p.turnCount])),
+      ...(hasLedger && {
+        totalsSpent: Object.fromEntries(view.participants.map((p) => [p.id, p.totalSpent ?? 0])),
+      }),
+    };
+  }
+
+  return {
+    queues,
+    ...(options.includeDueAt && { nextDueAt: group.nextDueAt ?? null }),
+  };
+}
+
+/**
+ * Whether a log entry carries enough state to be reversed. Completed turns
+ * logged before snapshots existed are still reversible by moving the
+ * participant back to the front of the queue.
+ * @param log The log entry to check.
+ */
+export function canUndoLog(log: LogEntry): boolean {
+  if (isUndoRecord(log) || isInformational(log) || isReviewRecord(log)) return false;
+  return !!log.undoState || log.type === 'TURN_COMPLETED';
+}
+
+/**
+ * Lists the log entries that can currently be undone, newest first. The first
+ * entry is the next one to undo. Undo and redo records, informational entries
+ * and entries that were already undone are passed over; the stack ends at the first entry that cannot be
+ * reversed, such as a turn review, since nothing older can be restored past it.
+ * @param turnLog The group's log, sorted newest first.
+ * @param depth The maximum size of the stack.
+ * @returns The undoable entries, newest first.
+ */
+export function buildUndoStack<T extends LogEntry>(turnLog: T[], depth: number = UNDO_DEPTH): T[] {
+  const stack: T[] = [];
+  for (const log of turnLog) {
+    if (stack.length >= depth) break;
+    if (isUndoRecord(log) || isInformational(log) || ('isUndone' in log && log.isUndone)) continue;
+    if (!canUndoLog(log)) break;
+    stack.push(log);
+  }
+  return stack;
+}
+
+/**
+ * Builds the update payload that reverses a log entry.
+ *
+ * Each snapshotted queue gets its previous order and counts back. Participants
+ * removed since the action stay removed, and participants added since keep
+ * their place at the back of the queue. Queues that were deleted are skipped.
+ * @param group The current group state.
+ * @param log The log entry to reverse. MUST satisfy `canUndoLog`.
+ * @param nowMs The current time in epoch milliseconds, for deciding who is away.
+ * @returns A partial group suitable for a Firestore update or optimistic merge.
+ */
+export function computeUndoUpdate(group: Group, log: LogEntry, nowMs: number): Partial<Group> {
+  if (isUndoRecord(log) || isInformational(log) || isReviewRecord(log)) {
+    throw new Error('This entry records no action that can be undone.');
+  }
+
+  if (!log.undoState) {
+    if (log.type !== 'TURN_COMPLETED') {
+      throw new Error('This action did not record enough state to be undone.');
+    }
+    return computeLegacyTurnUndo(group, log.queueId ?? MAIN_QUEUE_ID, log.participantId);
+  }
+
+  return restoreState(group, log.undoState, nowMs);
+}
+
+/**
+ * Snapshots the queues an undo is about to restore, for storing as the undo
+ * record's `redoState`.
+ * @param group The group state before the undo.
+ * @param log The log entry being undone.
+ * @returns The state a redo should restore.
+ */
+export function captureRedoState(group: Group, log: LogEntry): UndoState {
+  if (isUndoRecord(log) || isInformational(log) || isReviewRecord(log)) {
+    throw new Error('This entry records no action that can be undone.');
+  }
+  const queueIds = log.undoState
+    ? Object.keys(log.undoState.queues)
+    : [('queueId' in log && log.queueId) || MAIN_QUEUE_ID];
+  return captureUndoState(group, queueIds, {
+    includeDueAt: log.undoState?.nextDueAt !== undefined,
+  });
+}
+
+/**
+ * Lists the undo records that can currently be redone, newest first. The first
+ * entry is the next one to redo. Redo records, informational entries and undos
+ * that were already redone are passed over; any new action, including a turn review, ends the
+ * stack, since redoing past it would overwrite its result.
+ * @param turnLog The group's log, sorted newest first.
+ * @param depth The maximum size of the stack.
+ * @returns The redoable undo records, newest first.
+ */
+export function buildRedoStack<T extends LogEntry>(
+  turnLog: T[],
+  depth: number = UNDO_DEPTH,
+): (T & TurnUndoneLog)[] {
+  const stack: (T & TurnUndoneLog)[] = [];
+  for (const log of turnLog) {
+    if (stack.length >= depth) break;
+    if (log.type === 'TURN_REDONE' || isInformational(log)) continue;
+    if (log.type !== 'TURN_UNDONE') break;
+    const undoLog = log as T & TurnUndoneLog;
+    if (undoLog.isRedone) continue;
+    if (!undoLog.redoState || !undoLog.originalLogId) break;
+    stack.push(undoLog);
+  }
+  return stack;
+}
+
+/**
+ * Builds the update payload that re-applies an undone log entry, restoring the
+ * state its undo record captured.
+ * @param group The current group state.
+ * @param undoLog The undo record to reverse. MUST carry a `redoState`.
+ * @param nowMs The current time in epoch milliseconds, for deciding who is away.
+ * @returns A partial group suitable for a Firestore update or optimistic merge.
+ */
+export function computeRedoUpdate(
+  group: Group,
+  undoLog: TurnUndoneLog,
+  nowMs: number,
+): Partial<Group> {
+  if (!undoLog.redoState) {
+    throw new Error('This undo did not record enough state to be redone.');
+  }
+  return restoreState(group, undoLog.redoState, nowMs);
+}
+
+/**
+ * Restores a snapshot onto the current group. Each snapshotted queue gets its
+ * recorded order and counts back, reconciled with the current membership.
+ * Participants who are away now wait at the back, whatever the snapshot says.
+ */
+function restoreState(group: Group, state: UndoState, nowMs: number): Partial<Group> {
+  const memberIds = new Set(group.participants.map((p) => p.id));
+  let working = group;
+  let update: Partial<Group> = {};
+
+  for (const [queueId, snapshot] of Object.entries(state.queues)) {
+    const queueExists = queueId === MAIN_QUEUE_ID || working.queues?.some((q) => q.id === queueId);
+    if (!queueExists) continue;
+
+    const view = projectQueue(working, queueId);
+    const turnOrder = deferAwayParticipants(
+      [
+        ...snapshot.turnOrder.filter((id) => memberIds.has(id)),
+        ...view.turnOrder.filter((id) => !snapshot.turnOrder.includes(id)),
+      ],
+      group.participants,
+      nowMs,
+    );
+    const participants = view.participants.map((p) => ({
+      ...p,
+      turnCount: snapshot.turnCounts[p.id] ?? p.turnCount,
+      ...(snapshot.totalsSpent && { totalSpent: snapshot.totalsSpent[p.id] ?? p.totalSpent ?? 0 }),
+    }));
+
+    const queueUpdate = buildQueueUpdate(working, queueId, { turnOrder, participants });
+    working = { ...working, ...queueUpdate };
+    update = { ...update, ...queueUpdate };
+  }
+
+  if (state.nextDueAt !== undefined) {
+    update.nextDueAt = state.nextDueAt;
+  }
+
+  return update;
+}
+
+/**
+ * Reverses a completed turn logged without a snapshot: the participant goes
+ * back to the front of the queue and their count is decremented.
+ */
+function computeLegacyTurnUndo(group: Group, queueId: string, participantId: string): Partial<Group> {
+  const { participants, turnOrder } = projectQueue(group, queueId);
+  if (!participants.some((p) => p.id === participantId)) {
+    throw new Error(`Participant ${participantId} from log entry not found in group.`);
+  }
+
+  return buildQueueUpdate(group, queueId, {
+    turnOrder: [participantId, ...turnOrder.filter((id) => id !== participantId)],
+    participants: participants.map((p) =>
+      p.id === participantId ? { ...p, turnCount: Math.max(0, p.turnCount - 1) } : p,
+    ),
+  });
+}
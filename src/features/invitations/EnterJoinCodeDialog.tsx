@@ -0,0 +1,113 @@
+/**
+ * @file packages/whoseturnnow/src/features/invitations/EnterJoinCodeDialog.tsx
+ * @stamp {"ts":"2026-10-19T16:05:00Z"}
+ * @architectural-role UI Component
+ * @description
+ * A modal dialog for joining a group by typing in its join code. The code is
+ * looked up and, if a group uses it and it has not expired, the user is taken
+ * through the same invitation flow as an invite link, which checks the code's
+ * invitation and asks for approval where the group requires it.
+ * @core-principles
+ * 1. IS a self-contained component for a single user action.
+ * 2. OWNS the local form state for the typed code, the lookup and its error.
+ * 3. DELEGATES interpreting codes to the join code utilities.
+ * @contract
+ *   assertions:
+ *     purity: mutates
+ *     state_ownership: [input, error, isLookingUp]
+ *     external_io: firestore
+ */
+
+import { useState, useEffect, type FC, type FormEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogContentText from '@mui/material/DialogContentText';
+import DialogActions from '@mui/material/DialogActions';
+import TextField from '@mui/material/TextField';
+import Button from '@mui/material/Button';
+import { groupsRepository } from '../groups/repository';
+import { buildJoinCodePath, normalizeJoinCode, JOIN_CODE_LENGTH } from '../groups/utils/joinCodes';
+import { logger } from '../../shared/utils/debug';
+
+interface EnterJoinCodeDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export const EnterJoinCodeDialog: FC<EnterJoinCodeDialogProps> = ({ open, onClose }) => {
+  const navigate = useNavigate();
+  const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isLookingUp, setIsLookingUp] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setInput('');
+      setError(null);
+    }
+  }, [open]);
+
+  const handleSubmit = async (event?: FormEvent) => {
+    event?.preventDefault();
+    const code = normalizeJoinCode(input);
+    if (!code) {
+      setError(`A join code has ${JOIN_CODE_LENGTH} letters and digits.`);
+      return;
+    }
+
+    setIsLookingUp(true);
+    try {
+      const joinCode = await groupsRepository.getJoinCodeOnce(code);
+      if (!joinCode) {
+        setError('No group uses that code. Check it with whoever gave it to you.');
+        return;
+      }
+      if (joinCode.expiresAt <= Date.now()) {
+        setError('That code has expired. Ask an admin of the group for a new one.');
+        return;
+      }
+      onClose();
+      navigate(buildJoinCodePath(joinCode));
+    } catch (lookupError) {
+      logger.error('Failed to look up join code:', { error: lookupError });
+      setError('Could not check the code. Please try again.');
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>Enter a Code</DialogTitle>
+        <DialogContent>
+          <DialogContentText>Type in the join code an admin of the group gave you.</DialogContentText>
+          <TextField
+            autoFocus
+            margin="dense"
+            id="join-code"
+            label="Join Code"
+            fullWidth
+            variant="standard"
+            value={input}
+            onChange={(e) => {
+              setInput(e.target.value);
+              setError(null);
+            }}
+            error={!!error}
+            helperText={error ?? ' '}
+            inputProps={{ autoCapitalize: 'characters', autoComplete: 'off', spellCheck: false }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="submit" variant="contained" disabled={!input.trim() || isLookingUp}>
+            Join
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
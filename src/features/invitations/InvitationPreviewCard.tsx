@@ -0,0 +1,90 @@
+/**
+ * @file packages/whoseturnnow/src/features/invitations/InvitationPreviewCard.tsx
+ * @stamp {"ts":"2026-10-19T14:45:00Z"}
+ * @architectural-role UI Component
+ * @description
+ * A card previewing the group an invitation is for: its icon and name, how
+ * many members it has, who its admins are and who is up next. It asks the
+ * invitee to confirm with "Join" or back out with "Not now", and says which
+ * spot a targeted link claims and whether an admin must approve them first.
+ * @core-principles
+ * 1. IS a pure, presentational component.
+ * 2. MUST receive the group and the handlers for both choices via props.
+ * 3. MUST NOT join the group itself.
+ */
+
+import type { FC } from 'react';
+import Card from '@mui/material/Card';
+import CardContent from '@mui/material/CardContent';
+import CardActions from '@mui/material/CardActions';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Typography from '@mui/material/Typography';
+import type { Group } from '../../types/group';
+import { deferAwayParticipants } from '../groups/utils/rotation';
+
+interface InvitationPreviewCardProps {
+  group: Group;
+  participantId: string | null;
+  now: number;
+  isJoining: boolean;
+  onJoin: () => void;
+  onDecline: () => void;
+}
+
+export const InvitationPreviewCard: FC<InvitationPreviewCardProps> = ({
+  group,
+  participantId,
+  now,
+  isJoining,
+  onJoin,
+  onDecline,
+}) => {
+  const nameOf = (id: string | undefined) =>
+    group.participants.find((p) => p.id === id)?.nickname || 'Unnamed';
+  const memberCount = group.participants.length;
+  const admins = group.participants.filter((p) => p.role === 'admin').map((p) => p.nickname || 'Unnamed');
+  const upNextId = deferAwayParticipants(group.turnOrder, group.participants, now)[0];
+
+  return (
+    <Card sx={{ border: (theme) => `1px solid ${theme.palette.divider}`, textAlign: 'left' }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+          <Typography variant="h3" sx={{ mr: 2 }}>
+            {group.icon}
+          </Typography>
+          <Box>
+            <Typography variant="h6">{group.name}</Typography>
+            <Typography variant="body2" color="text.secondary">
+              {`${memberCount} ${memberCount === 1 ? 'member' : 'members'}`}
+            </Typography>
+          </Box>
+        </Box>
+        <Typography variant="body1">
+          {`${admins.length === 1 ? 'Admin' : 'Admins'}: ${admins.join(', ') || 'None'}`}
+        </Typography>
+        <Typography variant="body1">
+          {`Up next: ${upNextId ? nameOf(upNextId) : 'No one is in the group'}`}
+        </Typography>
+        {participantId && (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+            {`You're invited to take the '${nameOf(participantId)}' spot.`}
+          </Typography>
+        )}
+        {!participantId && group.requireApproval && (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+            An admin of this list must approve new members before they can join.
+          </Typography>
+        )}
+      </CardContent>
+      <CardActions sx={{ justifyContent: 'flex-end' }}>
+        <Button onClick={onDecline} disabled={isJoining}>
+          Not now
+        </Button>
+        <Button onClick={onJoin} variant="contained" disabled={isJoining}>
+          Join
+        </Button>
+      </CardActions>
+    </Card>
+  );
+};
@@ -1,10 +1,13 @@
 /**
  * @file packages/whoseturnnow/src/features/invitations/InvitationScreen.spec.tsx
- * @stamp {"ts":"2025-10-24T10:40:00Z"}
+ * @stamp {"ts":"2026-10-19T14:45:00Z"}
  * @test-target packages/whoseturnnow/src/features/invitations/InvitationScreen.tsx
  * @description
- * Verifies the end-to-end invitation acceptance flow, ensuring users are
- * correctly added to groups for both generic and targeted links.
+ * Verifies the end-to-end invitation acceptance flow, ensuring users see a
+ * preview of the group and are only added to it once they choose "Join", for
+ * both generic and targeted links. Links without a valid invitation token add
+ * no one, existing members go straight to the group, and groups requiring
+ * approval get a join request and a waiting state instead.
  * @criticality
  * Critical (Reason: Core Business Logic Orchestration, I/O & Concurrency Management)
  * @testing-layer Integration
@@ -16,6 +19,7 @@
  */
 
 import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import type { Mock } from 'vitest';
 
@@ -46,6 +50,7 @@ import { useAuthStore } from '../auth/useAuthStore';
 import { groupsRepository } from '../groups/repository';
 import type { AppUser } from '../auth/useAuthStore';
 import type { Group } from '../../types/group';
+import { buildInvitation } from '../groups/utils/invitations';
 
 // --- Test Setup ---
 const mockUseParams = useParams as Mock;
@@ -57,6 +62,9 @@ const mockUseAuthStore = useAuthStore as unknown as Mock;
 const mockJoinGroup = vi.spyOn(groupsRepository, 'joinGroupAsNewParticipant');
 const mockClaimPlaceholder = vi.spyOn(groupsRepository, 'claimPlaceholder');
 const mockGetGroupOnce = vi.spyOn(groupsRepository, 'getGroupOnce');
+const mockGetInvitationOnce = vi.spyOn(groupsRepository, 'getInvitationOnce');
+const mockRequestToJoin = vi.spyOn(groupsRepository, 'requestToJoinGroup');
+const mockGetJoinRequest = vi.spyOn(groupsRepository, 'getJoinRequest');
 
 
 const mockUser: AppUser = {
@@ -76,6 +84,22 @@ const mockGroupData: Group = {
   adminUids: {},
 };
 
+/**
+ * Waits for the preview and confirms the invitation.
+ */
+const confirmJoin = async () => {
+  await userEvent.setup().click(await screen.findByRole('button', { name: 'Join' }));
+};
+
+const genericInvitation = buildInvitation(
+  { id: 'token-generic', groupId: 'group-abc', participantId: null, createdByUid: 'owner', maxUses: null },
+  Date.now(),
+);
+const targetedInvitation = buildInvitation(
+  { id: 'token-targeted', groupId: 'group-abc', participantId: 'p-xyz', createdByUid: 'owner', maxUses: 1 },
+  Date.now(),
+);
+
 describe('InvitationScreen', () => {
   const mockNavigateFn = vi.fn();
 
@@ -85,6 +109,9 @@ describe('InvitationScreen', () => {
     mockGetGroupOnce.mockResolvedValue(mockGroupData);
     mockJoinGroup.mockResolvedValue(undefined);
     mockClaimPlaceholder.mockResolvedValue(undefined);
+    mockGetInvitationOnce.mockImplementation(async (_groupId, invitationId) =>
+      [genericInvitation, targetedInvitation].find((i) => i.id === invitationId) ?? null,
+    );
   });
 
   it('should show the LoginScreen when the user is not logged in', () => {
@@ -103,19 +130,79 @@ describe('InvitationScreen', () => {
     ).toBeInTheDocument();
   });
 
+  it('should preview the group without joining until the user confirms', async () => {
+    // ARRANGE
+    mockGetGroupOnce.mockResolvedValue({
+      ...mockGroupData,
+      participants: [
+        { id: 'p-owner', uid: 'owner', role: 'admin', turnCount: 0, nickname: 'Olive' },
+        { id: 'p-sam', uid: 'sam', role: 'member', turnCount: 0, nickname: 'Sam' },
+      ],
+      turnOrder: ['p-sam', 'p-owner'],
+    });
+    mockUseAuthStore.mockReturnValue({ status: 'authenticated', user: mockUser });
+    mockUseParams.mockReturnValue({ groupId: 'group-abc' });
+    mockUseSearchParams.mockReturnValue([new URLSearchParams('invite=token-generic')]);
+
+    // ACT
+    render(<InvitationScreen />);
+
+    // ASSERT
+    expect(await screen.findByText('Test Group Name')).toBeInTheDocument();
+    expect(screen.getByText('2 members')).toBeInTheDocument();
+    expect(screen.getByText('Admin: Olive')).toBeInTheDocument();
+    expect(screen.getByText('Up next: Sam')).toBeInTheDocument();
+    expect(mockJoinGroup).not.toHaveBeenCalled();
+    expect(mockNavigateFn).not.toHaveBeenCalled();
+  });
+
+  it('should go to the dashboard without joining when the user chooses "Not now"', async () => {
+    // ARRANGE
+    mockUseAuthStore.mockReturnValue({ status: 'authenticated', user: mockUser });
+    mockUseParams.mockReturnValue({ groupId: 'group-abc' });
+    mockUseSearchParams.mockReturnValue([new URLSearchParams('invite=token-generic')]);
+    render(<InvitationScreen />);
+
+    // ACT
+    await userEvent.setup().click(await screen.findByRole('button', { name: 'Not now' }));
+
+    // ASSERT
+    expect(mockNavigateFn).toHaveBeenCalledWith('/', { replace: true });
+    expect(mockJoinGroup).not.toHaveBeenCalled();
+  });
+
+  it('should take an existing member straight to the group', async () => {
+    // ARRANGE
+    mockGetGroupOnce.mockResolvedValue({ ...mockGroupData, participantUids: { [mockUser.uid]: true } });
+    mockUseAuthStore.mockReturnValue({ status: 'authenticated', user: mockUser });
+    mockUseParams.mockReturnValue({ groupId: 'group-abc' });
+    mockUseSearchParams.mockReturnValue([new URLSearchParams('invite=token-generic')]);
+
+    // ACT
+    render(<InvitationScreen />);
+
+    // ASSERT
+    await waitFor(() => {
+      expect(mockNavigateFn).toHaveBeenCalledWith('/group/group-abc', { replace: true });
+    });
+    expect(screen.queryByRole('button', { name: 'Join' })).not.toBeInTheDocument();
+    expect(mockJoinGroup).not.toHaveBeenCalled();
+  });
+
   it('should call joinGroupAsNewParticipant for a generic invitation', async () => {
     // ARRANGE
     mockUseAuthStore.mockReturnValue({ status: 'authenticated', user: mockUser });
     mockUseParams.mockReturnValue({ groupId: 'group-abc' });
-    mockUseSearchParams.mockReturnValue([new URLSearchParams()]);
+    mockUseSearchParams.mockReturnValue([new URLSearchParams('invite=token-generic')]);
 
     // ACT
     render(<InvitationScreen />);
+    await confirmJoin();
 
     // ASSERT
     await waitFor(() => {
       expect(mockJoinGroup).toHaveBeenCalledTimes(1);
-      expect(mockJoinGroup).toHaveBeenCalledWith('group-abc', mockUser);
+      expect(mockJoinGroup).toHaveBeenCalledWith('group-abc', mockUser, 'token-generic');
       expect(mockClaimPlaceholder).not.toHaveBeenCalled();
       expect(mockNavigateFn).toHaveBeenCalledWith('/group/group-abc', {
         replace: true,
@@ -128,11 +215,12 @@ describe('InvitationScreen', () => {
     mockUseAuthStore.mockReturnValue({ status: 'authenticated', user: mockUser });
     mockUseParams.mockReturnValue({ groupId: 'group-abc' });
     mockUseSearchParams.mockReturnValue([
-      new URLSearchParams('participantId=p-xyz'),
+      new URLSearchParams('participantId=p-xyz&invite=token-targeted'),
     ]);
 
     // ACT
     render(<InvitationScreen />);
+    await confirmJoin();
 
     // ASSERT
     await waitFor(() => {
@@ -141,6 +229,7 @@ describe('InvitationScreen', () => {
         'group-abc',
         'p-xyz',
         mockUser,
+        'token-targeted',
       );
       expect(mockJoinGroup).not.toHaveBeenCalled();
       expect(mockNavigateFn).toHaveBeenCalledWith('/group/group-abc', {
@@ -156,11 +245,12 @@ describe('InvitationScreen', () => {
     mockUseAuthStore.mockReturnValue({ status: 'authenticated', user: mockUser });
     mockUseParams.mockReturnValue({ groupId: 'group-abc' });
     mockUseSearchParams.mockReturnValue([
-      new URLSearchParams('participantId=p-xyz'),
+      new URLSearchParams('participantId=p-xyz&invite=token-targeted'),
     ]);
 
     // ACT
     render(<InvitationScreen />);
+    await confirmJoin();
 
     // ASSERT
     const alert = await screen.findByRole('alert');
@@ -168,4 +258,96 @@ describe('InvitationScreen', () => {
     expect(alert).toHaveTextContent(errorMessage);
     expect(mockNavigateFn).not.toHaveBeenCalled();
   });
-});
\ No newline at end of file
+
+  it('should refuse a link without an invitation token', async () => {
+    // ARRANGE
+    mockUseAuthStore.mockReturnValue({ status: 'authenticated', user: mockUser });
+    mockUseParams.mockReturnValue({ groupId: 'group-abc' });
+    mockUseSearchParams.mockReturnValue([new URLSearchParams()]);
+
+    // ACT
+    render(<InvitationScreen />);
+
+    // ASSERT
+    expect(await screen.findByRole('alert')).toHaveTextContent(/not valid/);
+    expect(mockJoinGroup).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a revoked invitation without joining', async () => {
+    // ARRANGE
+    mockGetInvitationOnce.mockResolvedValue({ ...genericInvitation, revoked: true });
+    mockUseAuthStore.mockReturnValue({ status: 'authenticated', user: mockUser });
+    mockUseParams.mockReturnValue({ groupId: 'group-abc' });
+    mockUseSearchParams.mockReturnValue([new URLSearchParams('invite=token-generic')]);
+
+    // ACT
+    render(<InvitationScreen />);
+
+    // ASSERT
+    expect(await screen.findByRole('alert')).toHaveTextContent(/revoked/);
+    expect(mockJoinGroup).not.toHaveBeenCalled();
+    expect(mockNavigateFn).not.toHaveBeenCalled();
+  });
+
+  describe('when the group requires approval', () => {
+    const approvalGroup: Group = { ...mockGroupData, requireApproval: true };
+    let onRequestUpdate: (request: null) => void;
+
+    beforeEach(() => {
+      mockGetGroupOnce.mockResolvedValue(approvalGroup);
+      mockRequestToJoin.mockResolvedValue(undefined);
+      mockGetJoinRequest.mockImplementation((_groupId, _uid, onUpdate) => {
+        onRequestUpdate = onUpdate as (request: null) => void;
+        return vi.fn();
+      });
+      mockUseAuthStore.mockReturnValue({ status: 'authenticated', user: mockUser });
+      mockUseParams.mockReturnValue({ groupId: 'group-abc' });
+      mockUseSearchParams.mockReturnValue([new URLSearchParams('invite=token-generic')]);
+    });
+
+    it('should file a join request and wait instead of joining', async () => {
+      // ACT
+      render(<InvitationScreen />);
+      await confirmJoin();
+
+      // ASSERT
+      expect(await screen.findByText('Waiting for approval')).toBeInTheDocument();
+      expect(mockRequestToJoin).toHaveBeenCalledWith('group-abc', mockUser, 'token-generic');
+      expect(mockJoinGroup).not.toHaveBeenCalled();
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    });
+
+    it('should open the group once the request is approved', async () => {
+      // ARRANGE
+      render(<InvitationScreen />);
+      await confirmJoin();
+      await screen.findByText('Waiting for approval');
+      mockGetGroupOnce.mockResolvedValue({
+        ...approvalGroup,
+        participantUids: { [mockUser.uid]: true },
+      });
+
+      // ACT
+      onRequestUpdate(null);
+
+      // ASSERT
+      await waitFor(() => {
+        expect(mockNavigateFn).toHaveBeenCalledWith('/group/group-abc', { replace: true });
+      });
+    });
+
+    it('should say so when the request is rejected', async () => {
+      // ARRANGE
+      render(<InvitationScreen />);
+      await confirmJoin();
+      await screen.findByText('Waiting for approval');
+
+      // ACT
+      onRequestUpdate(null);
+
+      // ASSERT
+      expect(await screen.findByRole('alert')).toHaveTextContent(/declined/);
+      expect(mockNavigateFn).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,22 +1,29 @@
 /**
  * @file packages/whoseturnnow/src/features/invitations/InvitationScreen.tsx
- * @stamp {"ts":"2025-10-24T09:30:00Z"}
+ * @stamp {"ts":"2026-10-19T14:45:00Z"}
  * @architectural-role Feature Entry Point, Orchestrator
  * @description
- * Manages the invitation flow. It now correctly waits for a user to be
- * fully authenticated before attempting to add them to a group, resolving a
- * permissions-related race condition by performing the write operation
- * before any reads and then redirecting.
+ * Manages the invitation flow. Once the user is fully authenticated, it
+ * checks the link's invitation token and shows a preview of the group, and
+ * only adds the user to the group after they choose "Join". "Not now" goes to
+ * the dashboard without joining, and a user who is already a member is taken
+ * straight to the group. Every link must carry an invitation token, which is
+ * redeemed by the join itself. In a group that requires approval, a generic
+ * invite files a join request instead, and the screen waits for an admin to
+ * approve or reject it.
  * @core-principles
  * 1. OWNS the logic for parsing invitation context from the URL.
- * 2. MUST orchestrate the full authentication and user creation UI for invitees.
- * 3. MUST successfully add the user to the group before navigating to the group detail page.
+ * 2. MUST refuse a missing, revoked, expired or used-up invitation before showing the preview.
+ * 3. MUST orchestrate the full authentication and user creation UI for invitees.
+ * 4. MUST NOT write to the group until the user confirms they want to join.
+ * 5. MUST successfully add the user to the group before navigating to the group detail page.
+ * 6. MUST show a waiting state, not an error, while a join request is pending.
  * @api-declaration
  *   - default: The InvitationScreen React functional component.
  * @contract
  *   assertions:
  *     purity: mutates
- *     state_ownership: [isJoining, error]
+ *     state_ownership: [preview, isLoadingPreview, isJoining, isAwaitingApproval, error]
  *     external_io: firestore
  */
 
@@ -31,59 +38,119 @@ import { useAuthStore } from '../auth/useAuthStore';
 import { LoginScreen } from '../auth/LoginScreen';
 import { NewUserHandshake } from '../auth/NewUserHandshake';
 import { groupsRepository } from '../groups/repository';
+import { getInvitationProblem } from '../groups/utils/invitations';
+import { useNow } from '../../shared/hooks/useNow';
+import type { Group } from '../../types/group';
+import { InvitationPreviewCard } from './InvitationPreviewCard';
 
 export const InvitationScreen: FC = () => {
   const { groupId } = useParams<{ groupId: string }>();
   const [searchParams] = useSearchParams();
   const participantId = searchParams.get('participantId');
+  const invitationId = searchParams.get('invite');
   const navigate = useNavigate();
+  const now = useNow();
 
   const { user, status } = useAuthStore();
+  const [preview, setPreview] = useState<Group | null>(null);
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
   const [isJoining, setIsJoining] = useState(false);
+  const [isAwaitingApproval, setIsAwaitingApproval] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // ARCHITECTURAL FIX: This ref acts as a "gatekeeper". Its purpose is to
-  // ensure that the join logic is only attempted ONCE. Unlike state, changing
-  // a ref does not trigger a component re-render, which is the key to
-  // breaking the infinite loop.
-  const hasAttemptedJoin = useRef(false);
+  // This ref acts as a "gatekeeper", ensuring the preview is only loaded
+  // ONCE. Unlike state, changing a ref does not trigger a re-render.
+  const hasLoadedPreview = useRef(false);
 
   useEffect(() => {
-    // The guard clause now checks for three things:
-    // 1. Is the user fully authenticated?
-    // 2. Do we have all the necessary info?
-    // 3. Have we ALREADY tried to run this logic? (The Gatekeeper)
-    if (status !== 'authenticated' || !user || !groupId || hasAttemptedJoin.current) {
+    if (status !== 'authenticated' || !user || !groupId || hasLoadedPreview.current) {
       return;
     }
 
-    const joinGroup = async () => {
-      // Set the gatekeeper flag to true immediately. This is the "lock" that
-      // prevents the effect from ever running this logic again, even if the
-      // component re-renders for any reason.
-      hasAttemptedJoin.current = true;
-      setIsJoining(true);
+    const loadPreview = async () => {
+      hasLoadedPreview.current = true;
+      setIsLoadingPreview(true);
       setError(null);
-      
+
       try {
-        if (participantId) {
-          await groupsRepository.claimPlaceholder(groupId, participantId, user);
-        } else {
-          await groupsRepository.joinGroupAsNewParticipant(groupId, user);
+        const group = await groupsRepository.getGroupOnce(groupId);
+        if (group?.participantUids[user.uid]) {
+          navigate(`/group/${groupId}`, { replace: true });
+          return;
         }
-        // On success, we navigate away. The component unmounts.
-        navigate(`/group/${groupId}`, { replace: true });
+
+        const invitation = invitationId
+          ? await groupsRepository.getInvitationOnce(groupId, invitationId)
+          : null;
+        const problem = getInvitationProblem(invitation, { groupId, participantId }, Date.now());
+        if (problem || !invitationId) {
+          throw new Error(problem ?? 'This invitation link is not valid.');
+        }
+        if (!group) {
+          throw new Error('This list no longer exists.');
+        }
+        setPreview(group);
       } catch (err: unknown) {
-        const message = err instanceof Error ? err.message : 'Could not join the group. The link may be invalid.';
+        const message = err instanceof Error ? err.message : 'Could not load the invitation. The link may be invalid.';
         setError(message);
-        setIsJoining(false);
+      } finally {
+        setIsLoadingPreview(false);
       }
     };
 
-    joinGroup();
-  // The dependency array is now correct and stable. It only contains external
-  // dependencies. The linter is satisfied, and the loop is gone.
-  }, [status, user, groupId, participantId, navigate]);
+    loadPreview();
+  }, [status, user, groupId, participantId, invitationId, navigate]);
+
+  const handleJoin = async () => {
+    if (!user || !groupId || !invitationId || !preview) return;
+    setIsJoining(true);
+    setError(null);
+
+    try {
+      if (participantId) {
+        await groupsRepository.claimPlaceholder(groupId, participantId, user, invitationId);
+      } else if (preview.requireApproval) {
+        await groupsRepository.requestToJoinGroup(groupId, user, invitationId);
+        setIsAwaitingApproval(true);
+        setIsJoining(false);
+        return;
+      } else {
+        await groupsRepository.joinGroupAsNewParticipant(groupId, user, invitationId);
+      }
+      // On success, we navigate away. The component unmounts.
+      navigate(`/group/${groupId}`, { replace: true });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Could not join the group. The link may be invalid.';
+      setError(message);
+      setIsJoining(false);
+    }
+  };
+
+  const handleDecline = () => navigate('/', { replace: true });
+
+  // While the request is pending, follow it. Once it is gone, an admin has
+  // either approved it, making the user a member, or rejected it.
+  useEffect(() => {
+    if (!isAwaitingApproval || !user || !groupId) return;
+    let isActive = true;
+
+    const unsubscribe = groupsRepository.getJoinRequest(groupId, user.uid, async (request) => {
+      if (request) return;
+      const group = await groupsRepository.getGroupOnce(groupId);
+      if (!isActive) return;
+      if (group?.participantUids[user.uid]) {
+        navigate(`/group/${groupId}`, { replace: true });
+      } else {
+        setIsAwaitingApproval(false);
+        setError('An admin of the group declined your request to join.');
+      }
+    });
+
+    return () => {
+      isActive = false;
+      unsubscribe();
+    };
+  }, [isAwaitingApproval, user, groupId, navigate]);
   
   if (error) {
     return (
@@ -96,7 +163,22 @@ export const InvitationScreen: FC = () => {
     );
   }
 
-  if (status === 'initializing' || isJoining) {
+  if (isAwaitingApproval) {
+    return (
+      <Container component="main" maxWidth="xs" sx={{ mt: 8, textAlign: 'center' }}>
+        <CircularProgress />
+        <Typography variant="h6" sx={{ mt: 2 }} gutterBottom>
+          Waiting for approval
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          An admin of this list needs to approve your request to join. You'll be taken to the list
+          as soon as they do, or it will appear on your dashboard later.
+        </Typography>
+      </Container>
+    );
+  }
+
+  if (status === 'initializing' || isLoadingPreview) {
     return (
       <Box
         sx={{
@@ -108,7 +190,7 @@ export const InvitationScreen: FC = () => {
         }}
       >
         <CircularProgress />
-        <Typography sx={{ mt: 2 }}>Joining list...</Typography>
+        <Typography sx={{ mt: 2 }}>Loading invitation...</Typography>
       </Box>
     );
   }
@@ -138,6 +220,24 @@ export const InvitationScreen: FC = () => {
     );
   }
 
+  if (preview) {
+    return (
+      <Container component="main" maxWidth="xs" sx={{ mt: 4, textAlign: 'center' }}>
+        <Typography variant="h6" gutterBottom>
+          You've been invited to join a list!
+        </Typography>
+        <InvitationPreviewCard
+          group={preview}
+          participantId={participantId}
+          now={now}
+          isJoining={isJoining}
+          onJoin={handleJoin}
+          onDecline={handleDecline}
+        />
+      </Container>
+    );
+  }
+
   // Fallback content in case the effect hasn't run yet.
   return null;
 };
\ No newline at end of file
@@ -0,0 +1,201 @@
+/**
+ * @file packages/whoseturnnow/src/features/invitations/ManageInvitationsScreen.tsx
+ * @stamp {"ts":"2026-10-19T14:35:00Z"}
+ * @architectural-role Feature Entry Point
+ * @description
+ * Lists a group's active invitations for its admins: who each one is for,
+ * when it expires and how often it has been used. Any of them can have its
+ * link copied again or be revoked, which stops it working immediately.
+ * Revoked, expired and used-up invitations are left out. The invitation behind
+ * the group's join code is labelled with the code, and revoking it retires
+ * the code too.
+ * @core-principles
+ * 1. IS the primary UI for managing a group's invitations.
+ * 2. OWNS the subscription to the group's invitations and the one-time fetch of the group.
+ * 3. DELEGATES deciding which invitations are active to the invitation utilities.
+ * 4. MUST only offer its actions to admins of the group.
+ * 5. MUST provide a semantic `<main>` landmark for its content.
+ * @api-declaration
+ *   - default: The ManageInvitationsScreen React functional component.
+ * @contract
+ *   assertions:
+ *     purity: mutates
+ *     state_ownership: [group, invitations, isLoading, feedback]
+ *     external_io: firestore
+ */
+
+import { useEffect, useMemo, useState, type FC } from 'react';
+import { useParams } from 'react-router-dom';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import List from '@mui/material/List';
+import ListItem from '@mui/material/ListItem';
+import ListItemText from '@mui/material/ListItemText';
+import IconButton from '@mui/material/IconButton';
+import Button from '@mui/material/Button';
+import Typography from '@mui/material/Typography';
+import CircularProgress from '@mui/material/CircularProgress';
+import Snackbar from '@mui/material/Snackbar';
+import Alert from '@mui/material/Alert';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import { groupsRepository } from '../groups/repository';
+import { useAuthStore } from '../auth/useAuthStore';
+import { useAppBar } from '../../shared/hooks/useAppBar';
+import { useNow } from '../../shared/hooks/useNow';
+import { logger } from '../../shared/utils/debug';
+import { buildInvitationUrl, isInvitationActive } from '../groups/utils/invitations';
+import { formatJoinCode } from '../groups/utils/joinCodes';
+import type { Group, Invitation } from '../../types/group';
+
+const formatDate = (ms: number) =>
+  new Intl.DateTimeFormat(undefined, { dateStyle: 'medium', timeStyle: 'short' }).format(new Date(ms));
+
+/**
+ * Describes how often an invitation has been used against its limit.
+ */
+const describeUses = (invitation: Invitation) =>
+  invitation.maxUses === null
+    ? `Used ${invitation.useCount} ${invitation.useCount === 1 ? 'time' : 'times'}`
+    : `Used ${invitation.useCount} of ${invitation.maxUses}`;
+
+export const ManageInvitationsScreen: FC = () => {
+  const { groupId } = useParams<{ groupId: string }>();
+  const user = useAuthStore((state) => state.user);
+  const now = useNow();
+  const [group, setGroup] = useState<Group | null>(null);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [feedback, setFeedback] = useState<{ message: string; severity: 'success' | 'error' } | null>(null);
+
+  const appBarConfig = useMemo(
+    () => ({ title: group ? `${group.name} Invites` : 'Invites', showBackButton: true }),
+    [group],
+  );
+  useAppBar(appBarConfig);
+
+  const isAdmin = !!group && !!user && !!group.adminUids[user.uid];
+
+  useEffect(() => {
+    if (!groupId) return;
+    let isActive = true;
+    setIsLoading(true);
+
+    groupsRepository
+      .getGroupOnce(groupId)
+      .then((groupData) => {
+        if (isActive) setGroup(groupData);
+      })
+      .catch((error) => logger.error('Failed to load group for invitations:', { error }))
+      .finally(() => {
+        if (isActive) setIsLoading(false);
+      });
+
+    return () => {
+      isActive = false;
+    };
+  }, [groupId]);
+
+  useEffect(() => {
+    if (!groupId || !isAdmin) return;
+    return groupsRepository.getGroupInvitations(groupId, setInvitations);
+  }, [groupId, isAdmin]);
+
+  const activeInvitations = useMemo(
+    () => invitations.filter((invitation) => isInvitationActive(invitation, now)),
+    [invitations, now],
+  );
+
+  const describeTarget = (invitation: Invitation) => {
+    if (group?.joinCode?.invitationId === invitation.id) {
+      return `Join code ${formatJoinCode(group.joinCode.code)}`;
+    }
+    if (!invitation.participantId) return 'Anyone with the link';
+    const participant = group?.participants.find((p) => p.id === invitation.participantId);
+    return `Claim the '${participant?.nickname || 'removed'}' spot`;
+  };
+
+  const handleCopy = async (invitation: Invitation) => {
+    try {
+      await navigator.clipboard.writeText(buildInvitationUrl(window.location.origin, invitation));
+      setFeedback({ message: 'Invite link copied!', severity: 'success' });
+    } catch (error) {
+      logger.error('Failed to copy invitation link:', { error });
+      setFeedback({ message: 'Could not copy the link.', severity: 'error' });
+    }
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    if (!groupId) return;
+    try {
+      await groupsRepository.revokeInvitation(groupId, invitation.id);
+      setFeedback({ message: 'Invite revoked.', severity: 'success' });
+    } catch (error) {
+      logger.error('Failed to revoke invitation:', { error });
+      setFeedback({ message: 'Could not revoke the invite.', severity: 'error' });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (!group) {
+    return <Typography sx={{ mt: 4, textAlign: 'center' }}>Group not found.</Typography>;
+  }
+
+  if (!isAdmin) {
+    return (
+      <Typography sx={{ mt: 4, textAlign: 'center' }}>
+        Only admins of this group can manage its invites.
+      </Typography>
+    );
+  }
+
+  return (
+    <Box component="main">
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Invite links stop working when they expire, run out of uses, or are revoked here. New links
+        are created from the group's invite buttons.
+      </Typography>
+      <Paper>
+        <List>
+          {activeInvitations.map((invitation) => (
+            <ListItem
+              key={invitation.id}
+              secondaryAction={
+                <>
+                  <IconButton aria-label="Copy link" onClick={() => handleCopy(invitation)}>
+                    <ContentCopyIcon />
+                  </IconButton>
+                  <Button color="error" size="small" onClick={() => handleRevoke(invitation)}>
+                    Revoke
+                  </Button>
+                </>
+              }
+              sx={{ pr: 18 }}
+            >
+              <ListItemText
+                primary={describeTarget(invitation)}
+                secondary={`Expires ${formatDate(invitation.expiresAt)} · ${describeUses(invitation)}`}
+              />
+            </ListItem>
+          ))}
+          {activeInvitations.length === 0 && (
+            <ListItem>
+              <ListItemText secondary="No active invites." sx={{ textAlign: 'center' }} />
+            </ListItem>
+          )}
+        </List>
+      </Paper>
+      <Snackbar open={!!feedback} autoHideDuration={6000} onClose={() => setFeedback(null)}>
+        <Alert onClose={() => setFeedback(null)} severity={feedback?.severity} sx={{ width: '100%' }}>
+          {feedback?.message}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+};
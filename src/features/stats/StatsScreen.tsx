@@ -0,0 +1,236 @@
+/**
+ * @file packages/whoseturnnow/src/features/stats/StatsScreen.tsx
+ * @stamp {"ts":"2026-10-19T16:00:00Z"}
+ * @architectural-role Feature Entry Point
+ * @description
+ * Renders a group's statistics, built from its full turn log: a summary with
+ * the fairness index and average turn length, per-participant completions and skips, activity over
+ * time, and a table of each participant's figures. A period filter narrows
+ * everything to the last 7, 30 or 90 days, or to the time since the last
+ * turn count reset.
+ * @core-principles
+ * 1. IS the primary UI for a group's statistics.
+ * 2. OWNS the one-time fetch of the group and its full log, read page by page,
+ *    the selected period, and the error shown when either cannot be loaded.
+ * 3. DELEGATES every calculation to the pure `computeStats` module.
+ * 4. MUST provide a semantic `<main>` landmark for its content.
+ * @api-declaration
+ *   - default: The StatsScreen React functional component.
+ * @contract
+ *   assertions:
+ *     purity: mutates
+ *     state_ownership: [group, turnLog, isLoading, loadError, period]
+ *     external_io: firestore
+ */
+
+import { useEffect, useMemo, useState, type FC } from 'react';
+import { useParams } from 'react-router-dom';
+import { useTheme } from '@mui/material';
+import Box from '@mui/material/Box';
+import Stack from '@mui/material/Stack';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import CircularProgress from '@mui/material/CircularProgress';
+import ToggleButton from '@mui/material/ToggleButton';
+import ToggleButtonGroup from '@mui/material/ToggleButtonGroup';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import { groupsRepository } from '../groups/repository';
+import { useAppBar } from '../../shared/hooks/useAppBar';
+import { useNow } from '../../shared/hooks/useNow';
+import { formatDuration } from '../../shared/utils/formatDate';
+import { logger } from '../../shared/utils/debug';
+import type { Group, LogEntry } from '../../types/group';
+import { STATS_PERIODS, computeGroupStats, type StatsPeriod } from './computeStats';
+import { HorizontalBarChart } from './components/HorizontalBarChart';
+import { ActivityChart } from './components/ActivityChart';
+
+/**
+ * Describes a fairness index in plain words.
+ */
+const describeFairness = (index: number) => {
+  if (index >= 0.9) return 'Very even';
+  if (index >= 0.75) return 'Fairly even';
+  if (index >= 0.5) return 'Uneven';
+  return 'Very uneven';
+};
+
+export const StatsScreen: FC = () => {
+  const { groupId } = useParams<{ groupId: string }>();
+  const theme = useTheme();
+  const now = useNow();
+  const [group, setGroup] = useState<Group | null>(null);
+  const [turnLog, setTurnLog] = useState<(LogEntry & { id: string })[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [period, setPeriod] = useState<StatsPeriod>('30d');
+
+  const appBarConfig = useMemo(
+    () => ({ title: group ? `${group.name} Stats` : 'Stats', showBackButton: true }),
+    [group],
+  );
+  useAppBar(appBarConfig);
+
+  useEffect(() => {
+    if (!groupId) return;
+    let isActive = true;
+    setIsLoading(true);
+
+    setLoadError(null);
+
+    const readTurnLog = async () => {
+      const entries: (LogEntry & { id: string })[] = [];
+      for await (const page of groupsRepository.streamTurnLog(groupId)) {
+        entries.push(...page);
+      }
+      return entries;
+    };
+
+    Promise.all([groupsRepository.getGroupOnce(groupId), readTurnLog()])
+      .then(([groupData, logData]) => {
+        if (!isActive) return;
+        setGroup(groupData);
+        setTurnLog(logData);
+      })
+      .catch((error) => {
+        logger.error('Failed to load group statistics:', { error });
+        if (isActive) setLoadError('The statistics could not be loaded.');
+      })
+      .finally(() => {
+        if (isActive) setIsLoading(false);
+      });
+
+    return () => {
+      isActive = false;
+    };
+  }, [groupId]);
+
+  const stats = useMemo(
+    () => (group ? computeGroupStats(turnLog, group.participants, period, now) : null),
+    [group, turnLog, period, now],
+  );
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (loadError) {
+    return <Typography sx={{ mt: 4, textAlign: 'center' }}>{loadError}</Typography>;
+  }
+
+  if (!group || !stats) {
+    return <Typography sx={{ mt: 4, textAlign: 'center' }}>Group not found.</Typography>;
+  }
+
+  return (
+    <Box component="main">
+      <Stack spacing={3}>
+        <ToggleButtonGroup
+          value={period}
+          exclusive
+          onChange={(_e, value: StatsPeriod | null) => value && setPeriod(value)}
+          size="small"
+          fullWidth
+          aria-label="Period"
+        >
+          {STATS_PERIODS.map((option) => (
+            <ToggleButton key={option.value} value={option.value}>
+              {option.label}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+
+        <Stack direction="row" spacing={2}>
+          <Paper sx={{ p: 2, flex: 1 }}>
+            <Typography variant="caption" color="text.secondary">
+              Turns completed
+            </Typography>
+            <Typography variant="h4">{stats.totalCompletions}</Typography>
+          </Paper>
+          <Paper sx={{ p: 2, flex: 1 }}>
+            <Typography variant="caption" color="text.secondary">
+              Fairness index
+            </Typography>
+            <Typography variant="h4">
+              {stats.fairnessIndex === null ? '–' : `${Math.round(stats.fairnessIndex * 100)}%`}
+            </Typography>
+            {stats.fairnessIndex !== null && (
+              <Typography variant="caption">{describeFairness(stats.fairnessIndex)}</Typography>
+            )}
+          </Paper>
+          <Paper sx={{ p: 2, flex: 1 }}>
+            <Typography variant="caption" color="text.secondary">
+              Avg. turn length
+            </Typography>
+            <Typography variant="h4">
+              {stats.averageDurationMs === null ? '–' : formatDuration(stats.averageDurationMs)}
+            </Typography>
+          </Paper>
+        </Stack>
+
+        <Paper sx={{ p: 2 }}>
+          <Typography variant="h6" gutterBottom>
+            Turns by Participant
+          </Typography>
+          <HorizontalBarChart
+            series={[
+              { name: 'Completed', color: theme.palette.primary.main },
+              { name: 'Skipped', color: theme.palette.warning.main },
+            ]}
+            rows={stats.participants.map((p) => ({ label: p.name, values: [p.completions, p.skips] }))}
+          />
+        </Paper>
+
+        <Paper sx={{ p: 2 }}>
+          <Typography variant="h6" gutterBottom>
+            Activity
+          </Typography>
+          <ActivityChart activity={stats.activity} />
+        </Paper>
+
+        <TableContainer component={Paper}>
+          <Table size="small" aria-label="Participant statistics">
+            <TableHead>
+              <TableRow>
+                <TableCell>Participant</TableCell>
+                <TableCell align="right">Done</TableCell>
+                <TableCell align="right">Skipped</TableCell>
+                <TableCell align="right">Undone</TableCell>
+                <TableCell align="right">Avg. gap</TableCell>
+                <TableCell align="right">Avg. length</TableCell>
+                <TableCell align="right">Best streak</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {stats.participants.map((p) => (
+                <TableRow key={p.participantId}>
+                  <TableCell component="th" scope="row">
+                    {p.name}
+                  </TableCell>
+                  <TableCell align="right">{p.completions}</TableCell>
+                  <TableCell align="right">{p.skips}</TableCell>
+                  <TableCell align="right">{p.undos}</TableCell>
+                  <TableCell align="right">
+                    {p.averageGapMs === null ? '–' : formatDuration(p.averageGapMs)}
+                  </TableCell>
+                  <TableCell align="right">
+                    {p.averageDurationMs === null ? '–' : formatDuration(p.averageDurationMs)}
+                  </TableCell>
+                  <TableCell align="right">{p.longestStreak}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Stack>
+    </Box>
+  );
+};
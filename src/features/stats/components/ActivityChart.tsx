@@ -0,0 +1,70 @@
+/**
+ * @file packages/whoseturnnow/src/features/stats/components/ActivityChart.tsx
+ * @stamp {"ts":"2026-10-19T13:40:00Z"}
+ * @architectural-role UI Component
+ * @description
+ * A minimal column chart of completed turns over time, drawn with
+ * theme-aware boxes. Each column is one bucket of the activity series.
+ * @core-principles
+ * 1. IS a pure, presentational ("dumb") component.
+ * 2. MUST scale every column against the busiest bucket.
+ * 3. MUST label each column with its date range for assistive technology.
+ * @api-declaration
+ *   - default: The ActivityChart React functional component.
+ * @contract
+ *   assertions:
+ *     purity: pure
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import { type FC } from 'react';
+import Box from '@mui/material/Box';
+import Tooltip from '@mui/material/Tooltip';
+import Typography from '@mui/material/Typography';
+
+interface ActivityChartProps {
+  activity: { start: number; completions: number }[];
+}
+
+const formatDay = (ms: number) =>
+  new Intl.DateTimeFormat(undefined, { month: 'short', day: 'numeric' }).format(new Date(ms));
+
+export const ActivityChart: FC<ActivityChartProps> = ({ activity }) => {
+  const max = Math.max(1, ...activity.map((bucket) => bucket.completions));
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'flex-end', gap: '2px', height: 96 }}>
+        {activity.map((bucket) => {
+          const label = `${formatDay(bucket.start)}: ${bucket.completions} completed`;
+          return (
+            <Tooltip key={bucket.start} title={label}>
+              <Box
+                role="img"
+                aria-label={label}
+                sx={{
+                  flex: 1,
+                  minHeight: 2,
+                  height: `${(bucket.completions / max) * 100}%`,
+                  bgcolor: bucket.completions > 0 ? 'primary.main' : 'action.hover',
+                  borderRadius: '2px 2px 0 0',
+                }}
+              />
+            </Tooltip>
+          );
+        })}
+      </Box>
+      {activity.length > 0 && (
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 0.5 }}>
+          <Typography variant="caption" color="text.secondary">
+            {formatDay(activity[0].start)}
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            Today
+          </Typography>
+        </Box>
+      )}
+    </Box>
+  );
+};
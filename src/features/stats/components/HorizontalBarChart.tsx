@@ -0,0 +1,67 @@
+/**
+ * @file packages/whoseturnnow/src/features/stats/components/HorizontalBarChart.tsx
+ * @stamp {"ts":"2026-10-19T13:40:00Z"}
+ * @architectural-role UI Component
+ * @description
+ * A minimal horizontal bar chart drawn with theme-aware boxes, one row per
+ * label. Each row can stack several series (e.g., completions and skips).
+ * @core-principles
+ * 1. IS a pure, presentational ("dumb") component.
+ * 2. MUST scale every bar against the largest row total.
+ * 3. MUST expose each row's values as text for assistive technology.
+ * @api-declaration
+ *   - default: The HorizontalBarChart React functional component.
+ * @contract
+ *   assertions:
+ *     purity: pure
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import { type FC } from 'react';
+import Box from '@mui/material/Box';
+import Stack from '@mui/material/Stack';
+import Typography from '@mui/material/Typography';
+
+interface HorizontalBarChartProps {
+  series: { name: string; color: string }[];
+  rows: { label: string; values: number[] }[];
+}
+
+export const HorizontalBarChart: FC<HorizontalBarChartProps> = ({ series, rows }) => {
+  const maxTotal = Math.max(1, ...rows.map((row) => row.values.reduce((sum, v) => sum + v, 0)));
+
+  return (
+    <Stack spacing={1}>
+      {rows.map((row) => {
+        const summary = series.map((s, i) => `${row.values[i] ?? 0} ${s.name.toLowerCase()}`).join(', ');
+        return (
+          <Box key={row.label} role="img" aria-label={`${row.label}: ${summary}`}>
+            <Typography variant="body2">{row.label}</Typography>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Box sx={{ display: 'flex', flexGrow: 1, height: 12, bgcolor: 'action.hover', borderRadius: 1, overflow: 'hidden' }}>
+                {series.map((s, i) => (
+                  <Box
+                    key={s.name}
+                    sx={{ width: `${((row.values[i] ?? 0) / maxTotal) * 100}%`, bgcolor: s.color }}
+                  />
+                ))}
+              </Box>
+              <Typography variant="caption" color="text.secondary" sx={{ minWidth: 48, textAlign: 'right' }}>
+                {row.values.join(' / ')}
+              </Typography>
+            </Box>
+          </Box>
+        );
+      })}
+      <Stack direction="row" spacing={2}>
+        {series.map((s) => (
+          <Box key={s.name} sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+            <Box sx={{ width: 10, height: 10, borderRadius: '50%', bgcolor: s.color }} />
+            <Typography variant="caption">{s.name}</Typography>
+          </Box>
+        ))}
+      </Stack>
+    </Stack>
+  );
+};
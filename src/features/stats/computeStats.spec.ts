@@ -0,0 +1,137 @@
+/**
+ * @file packages/whoseturnnow/src/features/stats/computeStats.spec.ts
+ * @stamp {"ts":"2026-10-19T15:25:00Z"}
+ * @test-target packages/whoseturnnow/src/features/stats/computeStats.ts
+ *
+ * @description
+ * Unit tests for the statistics engine. This suite verifies period filtering
+ * (including "since the last reset"), which completions count, the
+ * per-participant figures, average turn length, and the fairness index.
+ *
+ * @criticality
+ * Critical (Reason: Core Business Logic Orchestration)
+ *
+ * @testing-layer Unit
+ *
+ * @contract
+ *   assertions:
+ *     purity: read-only
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeFairnessIndex, computeGroupStats, resolvePeriodStart } from './computeStats';
+import type { LogEntry, TurnParticipant } from '../../types/group';
+
+// --- Test Data ---
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 100 * DAY;
+const at = (ms: number) => ({ toMillis: () => ms }) as any;
+
+const participants: TurnParticipant[] = [
+  { id: 'p-alice', uid: 'user-alice', role: 'admin', turnCount: 0, nickname: 'Alice' },
+  { id: 'p-bob', uid: 'user-bob', role: 'member', turnCount: 0, nickname: 'Bob' },
+];
+
+const logBase = { actorUid: 'user-alice', actorName: 'Alice', _participantUids: {}, _adminUids: {} };
+
+const completed = (participantId: string, daysAgo: number, extra: object = {}): LogEntry => ({
+  ...logBase,
+  type: 'TURN_COMPLETED',
+  completedAt: at(NOW - daysAgo * DAY),
+  participantId,
+  participantName: participantId,
+  ...extra,
+});
+
+const skipped = (participantId: string, daysAgo: number): LogEntry => ({
+  ...logBase,
+  type: 'TURN_SKIPPED',
+  completedAt: at(NOW - daysAgo * DAY),
+  participantId,
+  participantName: participantId,
+});
+
+describe('computeStats', () => {
+  describe('resolvePeriodStart', () => {
+    it('should count back from now for fixed periods', () => {
+      expect(resolvePeriodStart('7d', [], NOW)).toBe(NOW - 7 * DAY);
+    });
+
+    it('should start at the latest reset that was not undone', () => {
+      const turnLog: LogEntry[] = [
+        { ...logBase, type: 'COUNTS_RESET', completedAt: at(NOW - 2 * DAY), isUndone: true },
+        { ...logBase, type: 'COUNTS_RESET', completedAt: at(NOW - 10 * DAY) },
+      ];
+      expect(resolvePeriodStart('since-reset', turnLog, NOW)).toBe(NOW - 10 * DAY);
+      expect(resolvePeriodStart('since-reset', [], NOW)).toBeNull();
+    });
+  });
+
+  describe('computeGroupStats', () => {
+    it('should compute each participant`s figures within the period', () => {
+      const turnLog: LogEntry[] = [
+        completed('p-alice', 1),
+        completed('p-alice', 3),
+        skipped('p-alice', 4),
+        completed('p-alice', 5),
+        completed('p-alice', 6, { isUndone: true }),
+        completed('p-bob', 2, { confirmationStatus: 'rejected' }),
+        completed('p-bob', 40),
+      ];
+
+      const stats = computeGroupStats(turnLog, participants, '30d', NOW);
+      const [alice, bob] = stats.participants;
+
+      expect(alice).toMatchObject({ completions: 3, skips: 1, undos: 1, longestStreak: 2 });
+      expect(alice.averageGapMs).toBe(2 * DAY);
+      expect(bob).toMatchObject({ completions: 0, skips: 0, averageGapMs: null });
+      expect(stats.totalCompletions).toBe(3);
+      expect(stats.activity).toHaveLength(30);
+      expect(stats.activity.reduce((sum, b) => sum + b.completions, 0)).toBe(3);
+    });
+
+    it('should only count turns that were confirmed or never needed confirming', () => {
+      const turnLog: LogEntry[] = [
+        completed('p-alice', 1, { confirmationStatus: 'pending' }),
+        completed('p-alice', 2, { confirmationStatus: 'disputed' }),
+        completed('p-alice', 3, { confirmationStatus: 'confirmed' }),
+        completed('p-alice', 4),
+      ];
+
+      const stats = computeGroupStats(turnLog, participants, '30d', NOW);
+      expect(stats.participants[0].completions).toBe(2);
+      expect(stats.totalCompletions).toBe(2);
+    });
+
+    it('should average the length of counted turns that recorded one', () => {
+      const turnLog: LogEntry[] = [
+        completed('p-alice', 1, { durationMs: 10 * 60_000 }),
+        completed('p-alice', 2, { durationMs: 20 * 60_000 }),
+        completed('p-alice', 3),
+        completed('p-bob', 1, { durationMs: 45 * 60_000 }),
+        completed('p-bob', 2, { durationMs: 90 * 60_000, confirmationStatus: 'pending' }),
+      ];
+
+      const stats = computeGroupStats(turnLog, participants, '30d', NOW);
+      expect(stats.participants.map((p) => p.averageDurationMs)).toEqual([15 * 60_000, 45 * 60_000]);
+      expect(stats.averageDurationMs).toBe(25 * 60_000);
+      expect(computeGroupStats([], participants, '30d', NOW).averageDurationMs).toBeNull();
+    });
+
+    it('should treat an unresolved timestamp as now', () => {
+      const pending = completed('p-bob', 0, { completedAt: null });
+      const stats = computeGroupStats([pending], participants, '7d', NOW);
+      expect(stats.participants[1].completions).toBe(1);
+    });
+  });
+
+  describe('computeFairnessIndex', () => {
+    it('should be 1 for an even split and 1/n when one participant does everything', () => {
+      expect(computeFairnessIndex([3, 3, 3])).toBe(1);
+      expect(computeFairnessIndex([6, 0, 0])).toBeCloseTo(1 / 3);
+      expect(computeFairnessIndex([0, 0])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * @file packages/whoseturnnow/src/features/stats/computeStats.ts
+ * @stamp {"ts":"2026-10-19T15:25:00Z"}
+ * @architectural-role Utility
+ * @description
+ * Derives a group's statistics from its turn log for a chosen period: each
+ * participant's completions, skips, undone actions, average gap between turns,
+ * average turn length and longest streak, the group's fairness index and
+ * average turn length, and a bucketed activity series for charting. Only
+ * turns that were confirmed, or never needed confirming, count as completed;
+ * undone entries never count.
+ * @core-principles
+ * 1. IS a collection of pure, deterministic functions.
+ * 2. MUST receive the current time as an argument rather than reading the clock.
+ * 3. MUST treat entries whose server timestamp has not resolved yet as happening now.
+ * 4. MUST NOT perform any I/O operations.
+ * @api-declaration
+ *   - StatsPeriod: The periods statistics can be filtered to.
+ *   - STATS_PERIODS: Display metadata for every period, in menu order.
+ *   - ParticipantStats: The statistics computed for one participant.
+ *   - GroupStats: The statistics computed for the whole group.
+ *   - resolvePeriodStart: Returns the time a period starts at.
+ *   - computeFairnessIndex: Computes Jain's fairness index for a set of shares.
+ *   - computeGroupStats: Computes all statistics for a period.
+ * @contract
+ *   assertions:
+ *     purity: pure
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+import type { LogEntry, TurnParticipant } from '../../types/group';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_ACTIVITY_BUCKETS = 30;
+
+/**
+ * The periods statistics can be filtered to.
+ * - `7d`, `30d`, `90d`: The last 7, 30 or 90 days.
+ * - `since-reset`: Everything since the most recent turn count reset that was not undone.
+ */
+export type StatsPeriod = '7d' | '30d' | '90d' | 'since-reset';
+
+/**
+ * Display metadata for every period, in menu order.
+ */
+export const STATS_PERIODS: { value: StatsPeriod; label: string }[] = [
+  { value: '7d', label: '7 days' },
+  { value: '30d', label: '30 days' },
+  { value: '90d', label: '90 days' },
+  { value: 'since-reset', label: 'Since reset' },
+];
+
+const PERIOD_DAYS: Record<Exclude<StatsPeriod, 'since-reset'>, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+};
+
+/**
+ * The statistics computed for one participant.
+ */
+export interface ParticipantStats {
+  participantId: string;
+  name: string;
+  /** Turns completed, not undone, and confirmed if they needed confirming. */
+  completions: number;
+  /** Turns skipped and not undone. */
+  skips: number;
+  /** The participant's completed or skipped turns that were later undone. */
+  undos: number;
+  /** The mean time between consecutive completions, or `null` with fewer than two. */
+  averageGapMs: number | null;
+  /** The mean length of completed turns that were started first, or `null` if none were. */
+  averageDurationMs: number | null;
+  /** The most completions in a row without a skip in between. */
+  longestStreak: number;
+}
+
+/**
+ * The statistics computed for the whole group.
+ */
+export interface GroupStats {
+  /** The start of the period in epoch milliseconds, or `null` for all time. */
+  periodStart: number | null;
+  participants: ParticipantStats[];
+  totalCompletions: number;
+  /**
+   * Jain's fairness index over each participant's share of completions,
+   * adjusted by their weight: 1 means perfectly even, 1/n means one
+   * participant did everything. `null` when there were no completions.
+   */
+  fairnessIndex: number | null;
+  /** The mean length of every completed turn that was started first, or `null` if none were. */
+  averageDurationMs: number | null;
+  /** Completions per bucket, oldest first, for charting activity over time. */
+  activity: { start: number; completions: number }[];
+}
+
+/**
+ * Reads an entry's time, treating an unresolved server timestamp as now.
+ */
+function entryTime(log: LogEntry, nowMs: number): number {
+  const completedAt = log.completedAt as { toMillis?: () => number } | null;
+  return typeof completedAt?.toMillis === 'function' ? completedAt.toMillis() : nowMs;
+}
+
+/**
+ * Whether a completed turn counts towards the statistics. Turns still pending
+ * or disputed are left out until they are confirmed, and rejected ones for good.
+ */
+const isCountedCompletion = (log: LogEntry) =>
+  log.type === 'TURN_COMPLETED' &&
+  !log.isUndone &&
+  (log.confirmationStatus === undefined || log.confirmationStatus === 'confirmed');
+
+/**
+ * The mean recorded length of a set of completed turns, or `null` if none of
+ * them was started before it was completed.
+ */
+function averageDuration(logs: LogEntry[]): number | null {
+  const durations = logs.flatMap((log) =>
+    log.type === 'TURN_COMPLETED' && log.durationMs !== undefined ? [log.durationMs] : [],
+  );
+  return durations.length > 0 ? durations.reduce((sum, ms) => sum + ms, 0) / durations.length : null;
+}
+
+/**
+ * Returns the time a period starts at.
+ * @param period The period to resolve.
+ * @param turnLog The group's log, in any order.
+ * @param nowMs The current time in epoch milliseconds.
+ * @returns The start in epoch milliseconds, or `null` when the period covers all time
+ *          (since-reset with no reset on record).
+ */
+export function resolvePeriodStart(
+  period: StatsPeriod,
+  turnLog: LogEntry[],
+  nowMs: number,
+): number | null {
+  if (period !== 'since-reset') {
+    return nowMs - PERIOD_DAYS[period] * DAY_MS;
+  }
+  const resetTimes = turnLog
+    .filter((log) => log.type === 'COUNTS_RESET' && !log.isUndone)
+    .map((log) => entryTime(log, nowMs));
+  return resetTimes.length > 0 ? Math.max(...resetTimes) : null;
+}
+
+/**
+ * Computes Jain's fairness index, (Σx)² / (n · Σx²), for a set of shares.
+ * @param shares Each participant's share, already divided by their weight.
+ * @returns A value between 1/n and 1, or `null` if every share is zero.
+ */
+export function computeFairnessIndex(shares: number[]): number | null {
+  const sum = shares.reduce((total, x) => total + x, 0);
+  const sumOfSquares = shares.reduce((total, x) => total + x * x, 0);
+  if (shares.length === 0 || sumOfSquares === 0) return null;
+  return (sum * sum) / (shares.length * sumOfSquares);
+}
+
+/**
+ * Computes all statistics for a period.
+ * @param turnLog The group's log, in any order.
+ * @param participants The group's current roster. Former participants are left out.
+ * @param period The period to filter to.
+ * @param nowMs The current time in epoch milliseconds.
+ * @returns The group's statistics for the period.
+ */
+export function computeGroupStats(
+  turnLog: LogEntry[],
+  participants: TurnParticipant[],
+  period: StatsPeriod,
+  nowMs: number,
+): GroupStats {
+  const periodStart = resolvePeriodStart(period, turnLog, nowMs);
+  const entries = turnLog
+    .map((log) => ({ log, time: entryTime(log, nowMs) }))
+    .filter(({ time }) => periodStart === null || time >= periodStart)
+    .sort((a, b) => a.time - b.time);
+
+  const participantStats = participants.map((participant): ParticipantStats => {
+    const own = entries.filter(
+      ({ log }) =>
+        (log.type === 'TURN_COMPLETED' || log.type === 'TURN_SKIPPED') &&
+        log.participantId === participant.id,
+    );
+    const counted = own.filter(({ log }) => isCountedCompletion(log));
+    const completionTimes = counted.map(({ time }) => time);
+
+    let longestStreak = 0;
+    let streak = 0;
+    for (const { log } of own) {
+      if (log.type === 'TURN_SKIPPED' && !log.isUndone) {
+        streak = 0;
+      } else if (isCountedCompletion(log)) {
+        streak += 1;
+        longestStreak = Math.max(longestStreak, streak);
+      }
+    }
+
+    const gaps = completionTimes.slice(1).map((time, i) => time - completionTimes[i]);
+
+    return {
+      participantId: participant.id,
+      name: participant.nickname || 'Unnamed',
+      completions: completionTimes.length,
+      skips: own.filter(({ log }) => log.type === 'TURN_SKIPPED' && !log.isUndone).length,
+      undos: own.filter(({ log }) => 'isUndone' in log && log.isUndone).length,
+      averageGapMs: gaps.length > 0 ? gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length : null,
+      averageDurationMs: averageDuration(counted.map(({ log }) => log)),
+      longestStreak,
+    };
+  });
+
+  const weightOf = (id: string) => {
+    const weight = participants.find((p) => p.id === id)?.weight ?? 1;
+    return weight > 0 ? weight : 1;
+  };
+  const fairnessIndex = computeFairnessIndex(
+    participantStats.map((s) => s.completions / weightOf(s.participantId)),
+  );
+
+  // Daily buckets for short periods; at least weekly ones otherwise, widened
+  // so long periods still fit a readable number of bars.
+  const completions = entries.filter(({ log }) => isCountedCompletion(log));
+  const completionTimes = completions.map(({ time }) => time);
+  const seriesStart = periodStart ?? (completionTimes[0] ?? nowMs);
+  const spanDays = Math.max(0, nowMs - seriesStart) / DAY_MS;
+  const bucketDays =
+    period === '7d' || period === '30d'
+      ? 1
+      : Math.max(7, Math.ceil(spanDays / MAX_ACTIVITY_BUCKETS));
+  const bucketMs = bucketDays * DAY_MS;
+  const bucketCount = Math.max(1, Math.ceil((nowMs - seriesStart) / bucketMs));
+  const activity = Array.from({ length: bucketCount }, (_, i) => ({
+    start: seriesStart + i * bucketMs,
+    completions: 0,
+  }));
+  for (const time of completionTimes) {
+    const index = Math.min(bucketCount - 1, Math.max(0, Math.floor((time - seriesStart) / bucketMs)));
+    activity[index].completions += 1;
+  }
+
+  return {
+    periodStart,
+    participants: participantStats,
+    totalCompletions: completionTimes.length,
+    fairnessIndex,
+    averageDurationMs: averageDuration(completions.map(({ log }) => log)),
+    activity,
+  };
+}
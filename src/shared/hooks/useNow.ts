@@ -0,0 +1,38 @@
+/**
+ * @file packages/whoseturnnow/src/shared/hooks/useNow.ts
+ * @stamp {"ts":"2026-10-19T10:05:00Z"}
+ * @architectural-role Hook
+ * @description
+ * A small clock hook that returns the current time and re-renders its host
+ * component on a fixed interval. It lets time-dependent UI (e.g., "overdue"
+ * badges) stay current without each component managing its own timer.
+ * @core-principles
+ * 1. IS a self-contained utility hook with no external dependencies.
+ * 2. MUST clear its timer when the host component unmounts.
+ * 3. OWNS only the current-time value it exposes.
+ * @api-declaration
+ *   - useNow: Returns the current time in epoch milliseconds.
+ * @contract
+ *   assertions:
+ *     purity: mutates # Schedules a timer that triggers re-renders.
+ *     state_ownership: [now]
+ *     external_io: none
+ */
+
+import { useEffect, useState } from 'react';
+
+/**
+ * Returns the current time, refreshed on a fixed interval.
+ * @param intervalMs How often to refresh the value. Defaults to one minute.
+ * @returns The current time in epoch milliseconds.
+ */
+export function useNow(intervalMs = 60_000): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
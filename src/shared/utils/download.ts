@@ -0,0 +1,36 @@
+/**
+ * @file packages/whoseturnnow/src/shared/utils/download.ts
+ * @stamp {"ts":"2026-10-19T13:50:00Z"}
+ * @architectural-role Utility
+ * @description
+ * Saves generated text to the user's device as a file, using a temporary
+ * object URL and link click so it works without any server round trip.
+ * @core-principles
+ * 1. IS a stateless helper function.
+ * 2. MUST release the object URL once the download has started.
+ * @api-declaration
+ *   - downloadTextFile(content: string, fileName: string, mimeType: string): void
+ * @contract
+ *   assertions:
+ *     purity: mutates # Touches the DOM to trigger the download.
+ *     state_ownership: none
+ *     external_io: none
+ */
+
+/**
+ * Downloads text content as a file.
+ * @param content The file's contents.
+ * @param fileName The name to save the file as.
+ * @param mimeType The file's MIME type, e.g. `text/csv`.
+ */
+export function downloadTextFile(content: string, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoked on the next tick, once the browser has picked up the download.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
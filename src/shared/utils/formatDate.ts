@@ -5,7 +5,7 @@
  * @description
  * Provides a centralized, reusable utility for safely formatting Firestore
  * Timestamp objects into human-readable strings that respect the user's
- * local timezone and locale.
+ * local timezone and locale, and elapsed times into short durations.
  * @core-principles
  * 1. IS a pure, stateless helper function.
  * 2. MUST gracefully handle non-Timestamp objects that may appear before the
@@ -13,6 +13,7 @@
  * 3. MUST use the browser's native Intl API for localization.
  * @api-declaration
   - default formatFirestoreTimestamp(timestamp: any): string
+  - formatDuration(durationMs: number): string
  * @contract
  *   assertions:
  *     purity: pure
@@ -44,4 +45,22 @@ interface FirestoreTimestamp {
     
     // Return a fallback for server timestamps that haven't been set yet.
     return 'Pending...';
-  }
\ No newline at end of file
+  }
+
+  /**
+   * Formats an elapsed time as a short duration, to the nearest minute.
+   * @param durationMs The elapsed time in milliseconds.
+   * @returns A compact string (e.g., "2d 3h", "1h 5m", "12m" or "<1m").
+   */
+  export function formatDuration(durationMs: number): string {
+    const totalMinutes = Math.floor(Math.max(0, durationMs) / 60_000);
+    if (totalMinutes < 1) return '<1m';
+
+    const days = Math.floor(totalMinutes / (24 * 60));
+    const hours = Math.floor((totalMinutes % (24 * 60)) / 60);
+    const minutes = totalMinutes % 60;
+
+    if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+    if (hours > 0) return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+    return `${minutes}m`;
+  }
@@ -1,6 +1,6 @@
 /**
  * @file packages/whoseturnnow/src/types/group.ts
- * @stamp {"ts":"2025-10-24T12:35:00Z"}
+ * @stamp {"ts":"2026-10-19T16:10:00Z"}
  * @architectural-role Type Definition
  * @description Defines the canonical data structures for the application's core domain, including the denormalized `_adminUids` map on all log entries to support secure, non-recursive security rules.
  * @core-principles
@@ -8,8 +8,20 @@
  * 2. OWNS the core domain model definitions.
  * 3. MUST include all denormalized fields required for security rule validation.
  * @api-declaration
+ *   - RotationStrategy: The set of rules that decide the queue order after a turn.
+ *   - GroupSchedule: The recurring rhythm on which a group's turns fall due.
  *   - TurnParticipant: The interface for a participant within a group.
+ *   - TurnQueue: An additional, named rotation that shares the group's roster.
+ *   - SwapRequest: A pending proposal between two participants to trade places.
+ *   - TurnInProgress: A turn that has been started but not yet completed.
+ *   - ConfirmationStatus: Where a completed turn is in peer confirmation.
+ *   - GroupWording: The words a group uses for its turns.
  *   - Group: The interface for the central group data entity.
+ *   - GroupTemplate: A reusable starting configuration for new groups.
+ *   - Invitation: A revocable, expiring invitation token for a group.
+ *   - JoinRequest: A request to join a group that is waiting for an admin.
+ *   - JoinCode: A short, typeable code standing for one of a group's invitations.
+ *   - UndoState: The before-state a log entry carries so it can be reversed.
  *   - LogEntry: A union type for all possible log events.
  * @contract
  *   assertions:
@@ -20,6 +32,45 @@
 
 import type { FieldValue } from 'firebase/firestore';
 
+/**
+ * @id packages/whoseturnnow/src/types/group.ts#RotationStrategy
+ * @description The rule used to re-order a group's queue after a turn is completed or skipped.
+ * - `round-robin`: The participant moves to the end of the line.
+ * - `fewest-turns`: The participant with the lowest `turnCount` goes next.
+ * - `weighted`: The participant with the lowest `turnCount` relative to their `weight` goes next.
+ * - `random`: The next participant is drawn at random (deterministically seeded from the group state).
+ * - `ledger`: Completing a turn records an amount spent, and the participant with the
+ *   lowest `totalSpent` goes next (e.g., whose turn it is to buy the coffee).
+ */
+export type RotationStrategy = 'round-robin' | 'fewest-turns' | 'weighted' | 'random' | 'ledger';
+
+/**
+ * @id packages/whoseturnnow/src/types/group.ts#GroupSchedule
+ * @description The recurring rhythm on which a group's turns fall due. All times
+ * are interpreted in the local timezone of the client that computes them.
+ */
+export interface GroupSchedule {
+  /**
+   * How often a turn falls due.
+   * - `daily`: Every day.
+   * - `weekly`: On each of the chosen `weekdays`.
+   * - `interval`: Every `intervalDays` days.
+   */
+  frequency: 'daily' | 'weekly' | 'interval';
+  /**
+   * For `weekly` schedules, the days on which a turn falls due (0 = Sunday, 6 = Saturday).
+   */
+  weekdays?: number[];
+  /**
+   * For `interval` schedules, the number of days between due dates.
+   */
+  intervalDays?: number;
+  /**
+   * The hour of the day (0-23) at which a turn falls due.
+   */
+  dueHour: number;
+}
+
 /**
  * @id packages/whoseturnnow/src/types/group.ts#TurnParticipant
  * @description Represents the profile of a single participant within the context of a specific group.
@@ -47,6 +98,138 @@ export interface TurnParticipant {
    * A lifetime counter of all turns this participant has completed in this group.
    */
   turnCount: number;
+  /**
+   * The participant's relative share of turns under the `weighted` rotation strategy.
+   * A participant with a weight of 2 is expected to take twice as many turns as
+   * one with a weight of 1. Defaults to 1 when absent.
+   */
+  weight?: number;
+  /**
+   * If set, the participant is away until this time (epoch milliseconds). While
+   * away they are passed over by the rotation without a skip being logged.
+   * `null` or absent means the participant is available.
+   */
+  awayUntil?: number | null;
+  /**
+   * The running total of the amounts this participant has spent on their turns
+   * under the `ledger` rotation strategy. A missing value counts as 0.
+   */
+  totalSpent?: number;
+  /**
+   * The token of the invitation through which the participant's user joined
+   * the group or claimed this slot. The security rules use it to check that
+   * the same write redeemed a valid invitation.
+   */
+  invitationId?: string;
+}
+
+/**
+ * @id packages/whoseturnnow/src/types/group.ts#TurnQueue
+ * @description An additional, named rotation within a group (e.g., "Trash"
+ * alongside the main "Dishes" queue). It shares the group's `participants`
+ * roster and admin set but keeps its own queue order and turn counts.
+ */
+export interface TurnQueue {
+  /**
+   * A unique, stable identifier for this queue within the group.
+   */
+  id: string;
+  /**
+   * The user-defined name of the queue.
+   */
+  name: string;
+  /**
+   * An ordered array of participant `id` strings for this queue. The
+   * participant at index `[0]` is the one whose turn is next.
+   */
+  turnOrder: string[];
+  /**
+   * The number of turns each participant has completed in this queue, keyed by
+   * participant `id`. A missing entry counts as 0.
+   */
+  turnCounts: Record<string, number>;
+  /**
+   * The total each participant has spent in this queue under the `ledger`
+   * rotation strategy, keyed by participant `id`. A missing entry counts as 0.
+   */
+  totalsSpent?: Record<string, number>;
+}
+
+/**
+ * @id packages/whoseturnnow/src/types/group.ts#TurnInProgress
+ * @description A turn that a participant has started but not yet completed,
+ * for turns that take a long time (e.g., a deep clean).
+ */
+export interface TurnInProgress {
+  /**
+   * The ID of the participant doing the turn.
+   */
+  participantId: string;
+  /**
+   * When the turn was started, in epoch milliseconds.
+   */
+  startedAt: number;
+}
+
+/**
+ * @id packages/whoseturnnow/src/types/group.ts#ConfirmationStatus
+ * @description Where a completed turn is in peer confirmation, for groups that
+ * require it.
+ * - `pending`: Waiting for another participant to confirm it.
+ * - `confirmed`: Confirmed; the turn has been counted.
+ * - `disputed`: Another participant disputed it; waiting for an admin's review.
+ * - `rejected`: An admin upheld the dispute; the turn was sent back and not counted.
+ */
+export type ConfirmationStatus = 'pending' | 'confirmed' | 'disputed' | 'rejected';
+
+/**
+ * @id packages/whoseturnnow/src/types/group.ts#SwapRequest
+ * @description A pending proposal from one participant to trade queue positions
+ * with another. It is removed from the group once accepted, declined or withdrawn.
+ */
+export interface SwapRequest {
+  /**
+   * A unique identifier for this request within the group.
+   */
+  id: string;
+  /**
+   * The ID of the participant proposing the swap.
+   */
+  fromParticipantId: string;
+  /**
+   * The ID of the participant being asked to swap.
+   */
+  toParticipantId: string;
+  /**
+   * The ID of the queue in which the positions would be swapped.
+   */
+  queueId: string;
+  /**
+   * The UID of the user who created the request.
+   */
+  requestedByUid: string;
+  /**
+   * The position of the proposing participant in the roster when the request
+   * was made. This field exists solely to let the security rules check that
+   * the requester owns that slot.
+   */
+  _fromParticipantIndex: number;
+  /**
+   * When the request was made, in epoch milliseconds.
+   */
+  requestedAt: number;
+}
+
+/**
+ * @id packages/whoseturnnow/src/types/group.ts#GroupWording
+ * @description The words a group uses for its turns, so the app can speak the
+ * group's own language (e.g., "Complete My Coffee Run").
+ */
+export interface GroupWording {
+  /**
+   * A short, title-case noun for one turn, used in place of "Turn" on action buttons.
+   */
+  turn: string;
 }
 
 /**
@@ -94,6 +277,248 @@ export interface Group {
    * @example {'uid-123': true}
    */
   adminUids: Record<string, boolean>;
+  /**
+   * The rule used to compute the next queue order after a turn is completed or skipped.
+   * Defaults to `round-robin` when absent.
+   */
+  rotationStrategy?: RotationStrategy;
+  /**
+   * The optional recurring schedule for this group's turns. `null` or absent
+   * means turns have no deadline.
+   */
+  schedule?: GroupSchedule | null;
+  /**
+   * The deadline, in epoch milliseconds, for the participant at `turnOrder[0]`.
+   * It is moved forward each time a turn is completed so every member sees the
+   * same deadline. `null` or absent when the group has no schedule.
+   */
+  nextDueAt?: number | null;
+  /**
+   * If true, a completed turn only counts once another participant confirms
+   * it. Absent or false means turns count as soon as they are completed.
+   */
+  requireConfirmation?: boolean;
+  /**
+   * If true, following a generic invite link only asks to join, and an admin
+   * must approve the request before the user becomes a participant. Links that
+   * claim a placeholder still join directly.
+   */
+  requireApproval?: boolean;
+  /**
+   * The group's current join code, if an admin has created one. Only this
+   * code works; creating a new one retires the old.
+   */
+  joinCode?: Pick<JoinCode, 'code' | 'invitationId' | 'expiresAt'> | null;
+  /**
+   * Additional named queues that share this group's roster. The top-level
+   * `turnOrder` and each participant's `turnCount` always form the group's
+   * main queue; these are the queues beside it.
+   */
+  queues?: TurnQueue[];
+  /**
+   * Swap proposals that are still waiting for an answer.
+   */
+  swapRequests?: SwapRequest[];
+  /**
+   * The turns currently in progress, keyed by queue ID (the main queue uses
+   * `'main'`). A queue has at most one turn in progress at a time.
+   */
+  turnsInProgress?: Record<string, TurnInProgress>;
+  /**
+   * The group's own words for its turns. Absent means the default wording.
+   */
+  wording?: GroupWording;
+  /**
+   * The ID of the group this one was duplicated from, if any. The security
+   * rules use it to allow creating a group that already has other members.
+   */
+  duplicatedFromGid?: string;
+  /**
+   * When the group was archived, in epoch milliseconds. An archived group is
+   * hidden from the dashboard's main list until it is restored or purged.
+   * `null` or absent means the group is active.
+   */
+  archivedAt?: number | null;
+  /**
+   * When an archived group will be permanently deleted, in epoch milliseconds,
+   * as chosen by the admin who archived it. `null` or absent when not archived.
+   */
+  purgeAt?: number | null;
+  /**
+   * When deletion of the group began, in epoch milliseconds. The turn log is
+   * deleted in batches before the group itself, so a group with this set is
+   * partway through deletion and any of its admins may resume it.
+   */
+  deletingAt?: number | null;
+}
+
+/**
+ * @id packages/whoseturnnow/src/types/group.ts#GroupTemplate
+ * @description A reusable starting configuration for new groups: either one
+ * of the built-in templates or one a user saved from an existing group. It
+ * holds settings and placeholder names only, never linked users or history.
+ */
+export interface GroupTemplate {
+  /**
+   * A unique identifier for the template.
+   */
+  id: string;
+  /**
+   * The template's display name, also offered as the new group's name.
+   */
+  name: string;
+  /**
+   * A short explanation of what the template is for.
+   */
+  description?: string;
+  icon: string;
+  rotationStrategy: RotationStrategy;
+  schedule?: GroupSchedule | null;
+  requireConfirmation?: boolean;
+  /**
+   * Nicknames of the placeholder participants to create, in queue order after the creator.
+   */
+  placeholders: string[];
+  /**
+   * Names of additional queues to create beside the main queue.
+   */
+  queueNames?: string[];
+  wording?: GroupWording;
+}
+
+/**
+ * @id packages/whoseturnnow/src/types/group.ts#Invitation
+ * @description A revocable, expiring invitation to a group. Its ID is the
+ * token carried by the invite link, and it is stored in the group's
+ * `invitations` sub-collection.
+ */
+export interface Invitation {
+  /**
+   * The invitation's token, also its document ID. It is random and unguessable.
+   */
+  id: string;
+  /**
+   * The ID of the group the invitation is for.
+   */
+  groupId: string;
+  /**
+   * The placeholder slot the invitation claims, or `null` for an invitation
+   * that joins as a new participant.
+   */
+  participantId: string | null;
+  /**
+   * The unique ID of the admin who created the invitation.
+   */
+  createdByUid: string;
+  /**
+   * When the invitation was created, in epoch milliseconds.
+   */
+  createdAt: number;
+  /**
+   * When the invitation stops working, in epoch milliseconds.
+   */
+  expiresAt: number;
+  /**
+   * How many times the invitation can be used, or `null` for no limit.
+   */
+  maxUses: number | null;
+  /**
+   * How many times the invitation has been used.
+   */
+  useCount: number;
+  /**
+   * If true, an admin has revoked the invitation and it no longer works.
+   */
+  revoked: boolean;
+  /**
+   * Set on invitations minted for the printable invite sheet. The sheet reuses
+   * them for as long as they still work instead of minting new ones.
+   */
+  inviteSheet?: boolean;
+}
+
+/**
+ * @id packages/whoseturnnow/src/types/group.ts#JoinRequest
+ * @description A user's request to join a group that requires approval. It is
+ * stored in the group's `joinRequests` sub-collection under the requester's
+ * UID, and removed once an admin approves or rejects it.
+ */
+export interface JoinRequest {
+  /**
+   * The unique ID of the user asking to join, also the request's document ID.
+   */
+  uid: string;
+  /**
+   * The name the user will join under.
+   */
+  displayName: string;
+  /**
+   * When the request was made, in epoch milliseconds.
+   */
+  requestedAt: number;
+  /**
+   * The token of the invitation the user followed.
+   */
+  invitationId: string;
+}
+
+/**
+ * @id packages/whoseturnnow/src/types/group.ts#JoinCode
+ * @description A short code that can be read aloud or typed in instead of
+ * following an invite link. It is stored in the top-level `joinCodes`
+ * collection under the code itself, so it can be looked up without knowing
+ * the group, and works exactly as long as the invitation it stands for.
+ */
+export interface JoinCode {
+  /**
+   * The code, also its document ID.
+   */
+  code: string;
+  /**
+   * The ID of the group the code joins.
+   */
+  groupId: string;
+  /**
+   * The token of the invitation the code stands for.
+   */
+  invitationId: string;
+  /**
+   * The unique ID of the admin who created the code.
+   */
+  createdByUid: string;
+  /**
+   * When the code was created, in epoch milliseconds.
+   */
+  createdAt: number;
+  /**
+   * When the code's invitation stops working, in epoch milliseconds.
+   */
+  expiresAt: number;
+}
+
+/**
+ * @id packages/whoseturnnow/src/types/group.ts#UndoState
+ * @description The state a log entry's action changed, captured just before the
+ * action was applied. Any entry carrying it can be reversed by the undo engine.
+ */
+export interface UndoState {
+  /**
+   * The order and turn counts of each affected queue, keyed by queue ID (the
+   * main queue uses `'main'`). Totals spent are only captured for queues that
+   * have any.
+   */
+  queues: Record<
+    string,
+    {
+      turnOrder: string[];
+      turnCounts: Record<string, number>;
+      totalsSpent?: Record<string, number>;
+    }
+  >;
+  /**
+   * The group's deadline before the action, if the action moved it.
+   */
+  nextDueAt?: number | null;
 }
 
 /**
@@ -125,6 +550,41 @@ export interface TurnCompletedLog {
    * A snapshot of the actor's name at the moment the action was initiated.
    */
   actorName: string;
+  /**
+   * The ID of the queue the turn belongs to. Absent on entries written before
+   * multiple queues existed, which always belong to the main queue.
+   */
+  queueId?: string;
+  /**
+   * How long the turn took, in milliseconds, measured from its `TURN_STARTED`
+   * entry. Absent when the turn was completed without being started first.
+   */
+  durationMs?: number;
+  /**
+   * The amount spent on this turn, recorded when the group uses the `ledger`
+   * rotation strategy.
+   */
+  amount?: number;
+  /**
+   * Where this turn is in peer confirmation. Absent on turns completed in
+   * groups that do not require confirmation, which count immediately.
+   */
+  confirmationStatus?: ConfirmationStatus;
+  /**
+   * The unique ID of the user who last moved this turn through confirmation
+   * (by confirming, disputing, or reviewing it).
+   */
+  reviewedByUid?: string;
+  /**
+   * A snapshot of that user's name at the moment of their action.
+   */
+  reviewedByName?: string;
+  /**
+   * The state this action changed, captured before it was applied. Entries
+   * without it (written before the undo engine existed) cannot be reversed,
+   * except legacy `TURN_COMPLETED` entries.
+   */
+  undoState?: UndoState;
   /**
    * If true, this log entry has been reversed by a subsequent 'TURN_UNDONE' action
    * and should be visually represented as such (e.g., struck-through).
@@ -163,6 +623,14 @@ export interface CountsResetLog {
    * A snapshot of the admin's name at the moment the action was initiated.
    */
   actorName: string;
+  /**
+   * The state this action changed, captured before it was applied.
+   */
+  undoState?: UndoState;
+  /**
+   * If true, this log entry has been reversed by a subsequent 'TURN_UNDONE' action.
+   */
+  isUndone?: boolean;
   /**
    * A denormalized snapshot of the parent group's `participantUids` map at the
    * time of logging. This field exists solely to enable secure Firestore rule queries.
@@ -197,9 +665,32 @@ export interface TurnUndoneLog {
      */
     actorName: string;
     /**
-     * A snapshot of the name of the participant from the original turn that was undone.
+     * The ID of the log entry that was undone.
+     */
+    originalLogId?: string;
+    /**
+     * The type of the log entry that was undone. Absent on entries written
+     * before other actions could be undone, which always refer to a completed turn.
+     */
+    originalType?: LogEntry['type'];
+    /**
+     * A snapshot of the name of the participant from the original action that was
+     * undone. Empty for actions that do not concern a single participant.
      */
     originalParticipantName: string;
+    /**
+     * The ID of the queue the undone turn belonged to.
+     */
+    queueId?: string;
+    /**
+     * The state the undo reversed, captured just before it was applied. A
+     * redo restores it.
+     */
+    redoState?: UndoState;
+    /**
+     * If true, this undo has been reversed by a subsequent 'TURN_REDONE' action.
+     */
+    isRedone?: boolean;
     /**
      * A denormalized snapshot of the parent group's `participantUids` map at the
      * time of logging. This field exists solely to enable secure Firestore rule queries.
@@ -213,34 +704,47 @@ export interface TurnUndoneLog {
 }
 
 /**
- * @id packages/whoseturnnow/src/types/group.ts#TurnSkippedLog
- * @description An immutable record representing a user skipping their turn.
+ * @id packages/whoseturnnow/src/types/group.ts#TurnRedoneLog
+ * @description An immutable record representing the re-application of an undone action. It points back to both the original action and the undo it reversed.
  */
-export interface TurnSkippedLog {
+export interface TurnRedoneLog {
   /**
    * The unique, machine-readable identifier for this type of log entry.
    */
-  type: 'TURN_SKIPPED';
+  type: 'TURN_REDONE';
   /**
-   * The server-generated timestamp indicating when the turn was skipped.
+   * The server-generated timestamp indicating when the redo action occurred.
    */
   completedAt: FieldValue;
   /**
-   * The unique ID of the participant slot whose turn was skipped.
+   * The unique ID of the admin who initiated the redo action.
    */
-  participantId: string;
+  actorUid: string;
   /**
-   * A snapshot of the participant's name at the moment their turn was skipped.
+   * A snapshot of the actor's name at the moment the redo was initiated.
    */
-  participantName: string;
+  actorName: string;
   /**
-   * The unique ID of the user who initiated the skip action.
+   * The ID of the log entry that was re-applied.
    */
-  actorUid: string;
+  originalLogId: string;
   /**
-   * A snapshot of the actor's name at the moment the action was initiated.
+   * The type of the log entry that was re-applied.
    */
-  actorName: string;
+  originalType: LogEntry['type'];
+  /**
+   * The ID of the 'TURN_UNDONE' log entry that was reversed.
+   */
+  undoLogId: string;
+  /**
+   * A snapshot of the name of the participant from the re-applied action.
+   * Empty for actions that do not concern a single participant.
+   */
+  originalParticipantName: string;
+  /**
+   * The ID of the queue the re-applied action belonged to.
+   */
+  queueId?: string;
   /**
    * A denormalized snapshot of the parent group's `participantUids` map at the
    * time of logging. This field exists solely to enable secure Firestore rule queries.
@@ -254,7 +758,726 @@ export interface TurnSkippedLog {
 }
 
 /**
- * @id packages/whoseturnnow/src/types/group.ts#LogEntry
- * @description A union type representing any possible event that can be recorded in a group's immutable turn history.
+ * @id packages/whoseturnnow/src/types/group.ts#TurnStartedLog
+ * @description An immutable record of a participant starting a turn that will take a while. The matching `TURN_COMPLETED` entry records how long it took.
  */
-export type LogEntry = TurnCompletedLog | CountsResetLog | TurnUndoneLog | TurnSkippedLog;
\ No newline at end of file
+export interface TurnStartedLog {
+  /**
+   * The unique, machine-readable identifier for this type of log entry.
+   */
+  type: 'TURN_STARTED';
+  /**
+   * The server-generated timestamp indicating when the turn was started.
+   */
+  completedAt: FieldValue;
+  /**
+   * The unique ID of the participant slot whose turn was started.
+   */
+  participantId: string;
+  /**
+   * A snapshot of the participant's name at the moment the turn was started.
+   */
+  participantName: string;
+  /**
+   * The ID of the queue the started turn belongs to.
+   */
+  queueId?: string;
+  /**
+   * The unique ID of the user who started the turn.
+   */
+  actorUid: string;
+  /**
+   * A snapshot of the actor's name at the moment the action was initiated.
+   */
+  actorName: string;
+  /**
+   * A denormalized snapshot of the parent group's `participantUids` map at the
+   * time of logging. This field exists solely to enable secure Firestore rule queries.
+   */
+  _participantUids: Record<string, boolean>;
+  /**
+   * A denormalized snapshot of the parent group's `adminUids` map at the
+   * time of logging. This field exists solely to enable secure Firestore rule queries.
+   */
+  _adminUids: Record<string, boolean>;
+}
+
+/**
+ * @id packages/whoseturnnow/src/types/group.ts#TurnSkippedLog
+ * @description An immutable record representing a user skipping their turn.
+ */
+export interface TurnSkippedLog {
+  /**
+   * The unique, machine-readable identifier for this type of log entry.
+   */
+  type: 'TURN_SKIPPED';
+  /**
+   * The server-generated timestamp indicating when the turn was skipped.
+   */
+  completedAt: FieldValue;
+  /**
+   * The unique ID of the participant slot whose turn was skipped.
+   */
+  participantId: string;
+  /**
+   * A snapshot of the participant's name at the moment their turn was skipped.
+   */
+  participantName: string;
+  /**
+   * The ID of the queue the skipped turn belongs to.
+   */
+  queueId?: string;
+  /**
+   * The unique ID of the user who initiated the skip action.
+   */
+  actorUid: string;
+  /**
+   * A snapshot of the actor's name at the moment the action was initiated.
+   */
+  actorName: string;
+  /**
+   * The state this action changed, captured before it was applied.
+   */
+  undoState?: UndoState;
+  /**
+   * If true, this log entry has been reversed by a subsequent 'TURN_UNDONE' action.
+   */
+  isUndone?: boolean;
+  /**
+   * A denormalized snapshot of the parent group's `participantUids` map at the
+   * time of logging. This field exists solely to enable secure Firestore rule queries.
+   */
+  _participantUids: Record<string, boolean>;
+  /**
+   * A denormalized snapshot of the parent group's `adminUids` map at the
+   * time of logging. This field exists solely to enable secure Firestore rule queries.
+   */
+  _adminUids: Record<string, boolean>;
+}
+
+/**
+ * @id packages/whoseturnnow/src/types/group.ts#TurnSwappedLog
+ * @description An immutable record of two participants trading their positions in a queue after an accepted swap request.
+ */
+export interface TurnSwappedLog {
+  /**
+   * The unique, machine-readable identifier for this type of log entry.
+   */
+  type: 'TURN_SWAPPED';
+  /**
+   * The server-generated timestamp indicating when the swap was accepted.
+   */
+  completedAt: FieldValue;
+  /**
+   * The unique ID of the participant who proposed the swap.
+   */
+  fromParticipantId: string;
+  /**
+   * A snapshot of the proposing participant's name at the time of the swap.
+   */
+  fromParticipantName: string;
+  /**
+   * The unique ID of the participant who accepted the swap.
+   */
+  toParticipantId: string;
+  /**
+   * A snapshot of the accepting participant's name at the time of the swap.
+   */
+  toParticipantName: string;
+  /**
+   * The ID of the queue in which the positions were swapped.
+   */
+  queueId?: string;
+  /**
+   * The unique ID of the user who accepted the swap.
+   */
+  actorUid: string;
+  /**
+   * A snapshot of the actor's name at the moment the swap was accepted.
+   */
+  actorName: string;
+  /**
+   * The state this action changed, captured before it was applied.
+   */
+  undoState?: UndoState;
+  /**
+   * If true, this log entry has been reversed by a subsequent 'TURN_UNDONE' action.
+   */
+  isUndone?: boolean;
+  /**
+   * A denormalized snapshot of the parent group's `participantUids` map at the
+   * time of logging. This field exists solely to enable secure Firestore rule queries.
+   */
+  _participantUids: Record<string, boolean>;
+  /**
+   * A denormalized snapshot of the parent group's `adminUids` map at the
+   * time of logging. This field exists solely to enable secure Firestore rule queries.
+   */
+  _adminUids: Record<string, boolean>;
+}
+
+/**
+ * @id packages/whoseturnnow/src/types/group.ts#QueueReorderedLog
+ * @description An immutable record of an admin manually re-arranging a queue. It holds both the previous and new order so the change can be audited.
+ */
+export interface QueueReorderedLog {
+  /**
+   * The unique, machine-readable identifier for this type of log entry.
+   */
+  type: 'QUEUE_REORDERED';
+  /**
+   * The server-generated timestamp indicating when the queue was reordered.
+   */
+  completedAt: FieldValue;
+  /**
+   * The queue's participant `id` order before the change.
+   */
+  previousOrder: string[];
+  /**
+   * The queue's participant `id` order after the change.
+   */
+  newOrder: string[];
+  /**
+   * The ID of the queue that was reordered.
+   */
+  queueId?: string;
+  /**
+   * The unique ID of the admin who reordered the queue.
+   */
+  actorUid: string;
+  /**
+   * A snapshot of the admin's name at the moment the action was initiated.
+   */
+  actorName: string;
+  /**
+   * The state this action changed, captured before it was applied.
+   */
+  undoState?: UndoState;
+  /**
+   * If true, this log entry has been reversed by a subsequent 'TURN_UNDONE' action.
+   */
+  isUndone?: boolean;
+  /**
+   * A denormalized snapshot of the parent group's `participantUids` map at the
+   * time of logging. This field exists solely to enable secure Firestore rule queries.
+   */
+  _participantUids: Record<string, boolean>;
+  /**
+   * A denormalized snapshot of the parent group's `adminUids` map at the
+   * time of logging. This field exists solely to enable secure Firestore rule queries.
+   */
+  _adminUids: Record<string, boolean>;
+}
+
+/**
+ * @id packages/whoseturnnow/src/types/group.ts#ParticipantAddedLog
+ * @description An immutable record of an admin adding a placeholder participant to the group.
+ */
+export interface ParticipantAddedLog {
+  /**
+   * The unique, machine-readable identifier for this type of log entry.
+   */
+  type: 'PARTICIPANT_ADDED';
+  /**
+   * The server-generated timestamp indicating when the participant was added.
+   */
+  completedAt: FieldValue;
+  /**
+   * The unique ID of the participant slot that was added.
+   */
+  participantId: string;
+  /**
+   * A snapshot of the participant's name as it was added.
+   */
+  participantName: string;
+  /**
+   * The unique ID of the admin who added the participant.
+   */
+  actorUid: string;
+  /**
+   * A snapshot of the actor's name at the moment the action was initiated.
+   */
+  actorName: string;
+  /**
+   * A denormalized snapshot of the parent group's `participantUids` map once
+   * the change is applied. This field exists solely to enable secure Firestore rule queries.
+   */
+  _participantUids: Record<string, boolean>;
+  /**
+   * A denormalized snapshot of the parent group's `adminUids` map once the
+   * change is applied. This field exists solely to enable secure Firestore rule queries.
+   */
+  _adminUids: Record<string, boolean>;
+}
+
+/**
+ * @id packages/whoseturnnow/src/types/group.ts#ParticipantRemovedLog
+ * @description An immutable record of an admin removing a participant from the group.
+ */
+export interface ParticipantRemovedLog {
+  /**
+   * The unique, machine-readable identifier for this type of log entry.
+   */
+  type: 'PARTICIPANT_REMOVED';
+  /**
+   * The server-generated timestamp indicating when the participant was removed.
+   */
+  completedAt: FieldValue;
+  /**
+   * The unique ID of the participant slot that was removed.
+   */
+  participantId: string;
+  /**
+   * A snapshot of the participant's name at the moment it was removed.
+   */
+  participantName: string;
+  /**
+   * The unique ID of the admin who removed the participant.
+   */
+  actorUid: string;
+  /**
+   * A snapshot of the actor's name at the moment the action was initiated.
+   */
+  actorName: string;
+  /**
+   * A denormalized snapshot of the parent group's `participantUids` map once
+   * the change is applied. This field exists solely to enable secure Firestore rule queries.
+   */
+  _participantUids: Record<string, boolean>;
+  /**
+   * A denormalized snapshot of the parent group's `adminUids` map once the
+   * change is applied. This field exists solely to enable secure Firestore rule queries.
+   */
+  _adminUids: Record<string, boolean>;
+}
+
+/**
+ * @id packages/whoseturnnow/src/types/group.ts#RoleChangedLog
+ * @description An immutable record of an admin changing a participant's role.
+ */
+export interface RoleChangedLog {
+  /**
+   * The unique, machine-readable identifier for this type of log entry.
+   */
+  type: 'ROLE_CHANGED';
+  /**
+   * The server-generated timestamp indicating when the role was changed.
+   */
+  completedAt: FieldValue;
+  /**
+   * The unique ID of the participant slot whose role changed.
+   */
+  participantId: string;
+  /**
+   * A snapshot of the participant's name at the moment the role changed.
+   */
+  participantName: string;
+  /**
+   * The participant's role before the change.
+   */
+  previousRole: 'admin' | 'member';
+  /**
+   * The participant's role after the change.
+   */
+  newRole: 'admin' | 'member';
+  /**
+   * The unique ID of the admin who changed the role.
+   */
+  actorUid: string;
+  /**
+   * A snapshot of the actor's name at the moment the action was initiated.
+   */
+  actorName: string;
+  /**
+   * A denormalized snapshot of the parent group's `participantUids` map once
+   * the change is applied. This field exists solely to enable secure Firestore rule queries.
+   */
+  _participantUids: Record<string, boolean>;
+  /**
+   * A denormalized snapshot of the parent group's `adminUids` map once the
+   * change is applied. This field exists solely to enable secure Firestore rule queries.
+   */
+  _adminUids: Record<string, boolean>;
+}
+
+/**
+ * @id packages/whoseturnnow/src/types/group.ts#PlaceholderClaimedLog
+ * @description An immutable record of a user taking over a placeholder slot, keeping its place and counts.
+ */
+export interface PlaceholderClaimedLog {
+  /**
+   * The unique, machine-readable identifier for this type of log entry.
+   */
+  type: 'PLACEHOLDER_CLAIMED';
+  /**
+   * The server-generated timestamp indicating when the placeholder was claimed.
+   */
+  completedAt: FieldValue;
+  /**
+   * The unique ID of the participant slot that was claimed.
+   */
+  participantId: string;
+  /**
+   * A snapshot of the participant's name once claimed, which is the claiming user's name.
+   */
+  participantName: string;
+  /**
+   * The placeholder's name before it was claimed.
+   */
+  placeholderName: string;
+  /**
+   * The unique ID of the user who claimed the placeholder.
+   */
+  actorUid: string;
+  /**
+   * A snapshot of the actor's name at the moment the action was initiated.
+   */
+  actorName: string;
+  /**
+   * A denormalized snapshot of the parent group's `participantUids` map once
+   * the change is applied. This field exists solely to enable secure Firestore rule queries.
+   */
+  _participantUids: Record<string, boolean>;
+  /**
+   * A denormalized snapshot of the parent group's `adminUids` map once the
+   * change is applied. This field exists solely to enable secure Firestore rule queries.
+   */
+  _adminUids: Record<string, boolean>;
+}
+
+/**
+ * @id packages/whoseturnnow/src/types/group.ts#MemberJoinedLog
+ * @description An immutable record of a user joining the group as a new participant.
+ */
+export interface MemberJoinedLog {
+  /**
+   * The unique, machine-readable identifier for this type of log entry.
+   */
+  type: 'MEMBER_JOINED';
+  /**
+   * The server-generated timestamp indicating when the user joined.
+   */
+  completedAt: FieldValue;
+  /**
+   * The unique ID of the participant slot created for the new member.
+   */
+  participantId: string;
+  /**
+   * A snapshot of the participant's name at the moment they joined.
+   */
+  participantName: string;
+  /**
+   * The unique ID of the user who joined.
+   */
+  actorUid: string;
+  /**
+   * A snapshot of the actor's name at the moment the action was initiated.
+   */
+  actorName: string;
+  /**
+   * A denormalized snapshot of the parent group's `participantUids` map once
+   * the change is applied. This field exists solely to enable secure Firestore rule queries.
+   */
+  _participantUids: Record<string, boolean>;
+  /**
+   * A denormalized snapshot of the parent group's `adminUids` map once the
+   * change is applied. This field exists solely to enable secure Firestore rule queries.
+   */
+  _adminUids: Record<string, boolean>;
+}
+
+/**
+ * @id packages/whoseturnnow/src/types/group.ts#MemberLeftLog
+ * @description An immutable record of a user leaving the group, including when their account is deleted.
+ */
+export interface MemberLeftLog {
+  /**
+   * The unique, machine-readable identifier for this type of log entry.
+   */
+  type: 'MEMBER_LEFT';
+  /**
+   * The server-generated timestamp indicating when the user left.
+   */
+  completedAt: FieldValue;
+  /**
+   * The unique ID of the participant slot the member gave up.
+   */
+  participantId: string;
+  /**
+   * A snapshot of the participant's name at the moment they left.
+   */
+  participantName: string;
+  /**
+   * The unique ID of the user who left.
+   */
+  actorUid: string;
+  /**
+   * A snapshot of the actor's name at the moment the action was initiated.
+   */
+  actorName: string;
+  /**
+   * A denormalized snapshot of the parent group's `participantUids` map once
+   * the change is applied. This field exists solely to enable secure Firestore rule queries.
+   */
+  _participantUids: Record<string, boolean>;
+  /**
+   * A denormalized snapshot of the parent group's `adminUids` map once the
+   * change is applied. This field exists solely to enable secure Firestore rule queries.
+   */
+  _adminUids: Record<string, boolean>;
+}
+
+/**
+ * @id packages/whoseturnnow/src/types/group.ts#GroupRenamedLog
+ * @description An immutable record of an admin renaming the group.
+ */
+export interface GroupRenamedLog {
+  /**
+   * The unique, machine-readable identifier for this type of log entry.
+   */
+  type: 'GROUP_RENAMED';
+  /**
+   * The server-generated timestamp indicating when the group was renamed.
+   */
+  completedAt: FieldValue;
+  /**
+   * The group's name before the change.
+   */
+  previousName: string;
+  /**
+   * The group's name after the change.
+   */
+  newName: string;
+  /**
+   * The unique ID of the admin who renamed the group.
+   */
+  actorUid: string;
+  /**
+   * A snapshot of the actor's name at the moment the action was initiated.
+   */
+  actorName: string;
+  /**
+   * A denormalized snapshot of the parent group's `participantUids` map once
+   * the change is applied. This field exists solely to enable secure Firestore rule queries.
+   */
+  _participantUids: Record<string, boolean>;
+  /**
+   * A denormalized snapshot of the parent group's `adminUids` map once the
+   * change is applied. This field exists solely to enable secure Firestore rule queries.
+   */
+  _adminUids: Record<string, boolean>;
+}
+
+/**
+ * @id packages/whoseturnnow/src/types/group.ts#IconChangedLog
+ * @description An immutable record of an admin changing the group's icon.
+ */
+export interface IconChangedLog {
+  /**
+   * The unique, machine-readable identifier for this type of log entry.
+   */
+  type: 'ICON_CHANGED';
+  /**
+   * The server-generated timestamp indicating when the icon was changed.
+   */
+  completedAt: FieldValue;
+  /**
+   * The group's icon before the change.
+   */
+  previousIcon: string;
+  /**
+   * The group's icon after the change.
+   */
+  newIcon: string;
+  /**
+   * The unique ID of the admin who changed the icon.
+   */
+  actorUid: string;
+  /**
+   * A snapshot of the actor's name at the moment the action was initiated.
+   */
+  actorName: string;
+  /**
+   * A denormalized snapshot of the parent group's `participantUids` map once
+   * the change is applied. This field exists solely to enable secure Firestore rule queries.
+   */
+  _participantUids: Record<string, boolean>;
+  /**
+   * A denormalized snapshot of the parent group's `adminUids` map once the
+   * change is applied. This field exists solely to enable secure Firestore rule queries.
+   */
+  _adminUids: Record<string, boolean>;
+}
+
+/**
+ * @id packages/whoseturnnow/src/types/group.ts#AwayChangedLog
+ * @description An immutable record of a participant being marked as away, or as back.
+ */
+export interface AwayChangedLog {
+  /**
+   * The unique, machine-readable identifier for this type of log entry.
+   */
+  type: 'AWAY_CHANGED';
+  /**
+   * The server-generated timestamp indicating when the status was changed.
+   */
+  completedAt: FieldValue;
+  /**
+   * The unique ID of the participant slot whose status changed.
+   */
+  participantId: string;
+  /**
+   * A snapshot of the participant's name at the moment the status changed.
+   */
+  participantName: string;
+  /**
+   * The time (epoch milliseconds) the participant returns, or `null` if they are back.
+   */
+  awayUntil: number | null;
+  /**
+   * The unique ID of the participant themselves, or of the admin, who changed the status.
+   */
+  actorUid: string;
+  /**
+   * A snapshot of the actor's name at the moment the action was initiated.
+   */
+  actorName: string;
+  /**
+   * A denormalized snapshot of the parent group's `participantUids` map at the
+   * time of logging. This field exists solely to enable secure Firestore rule queries.
+   */
+  _participantUids: Record<string, boolean>;
+  /**
+   * A denormalized snapshot of the parent group's `adminUids` map at the
+   * time of logging. This field exists solely to enable secure Firestore rule queries.
+   */
+  _adminUids: Record<string, boolean>;
+}
+
+/**
+ * @id packages/whoseturnnow/src/types/group.ts#WeightChangedLog
+ * @description An immutable record of a participant's share of the weighted rotation being changed.
+ */
+export interface WeightChangedLog {
+  /**
+   * The unique, machine-readable identifier for this type of log entry.
+   */
+  type: 'WEIGHT_CHANGED';
+  /**
+   * The server-generated timestamp indicating when the weight was changed.
+   */
+  completedAt: FieldValue;
+  /**
+   * The unique ID of the participant slot whose weight changed.
+   */
+  participantId: string;
+  /**
+   * A snapshot of the participant's name at the moment the weight changed.
+   */
+  participantName: string;
+  /**
+   * The participant's weight before the change. A participant without one has a weight of 1.
+   */
+  previousWeight: number;
+  /**
+   * The participant's weight after the change.
+   */
+  newWeight: number;
+  /**
+   * The unique ID of the participant themselves, or of the admin, who changed the weight.
+   */
+  actorUid: string;
+  /**
+   * A snapshot of the actor's name at the moment the action was initiated.
+   */
+  actorName: string;
+  /**
+   * A denormalized snapshot of the parent group's `participantUids` map at the
+   * time of logging. This field exists solely to enable secure Firestore rule queries.
+   */
+  _participantUids: Record<string, boolean>;
+  /**
+   * A denormalized snapshot of the parent group's `adminUids` map at the
+   * time of logging. This field exists solely to enable secure Firestore rule queries.
+   */
+  _adminUids: Record<string, boolean>;
+}
+
+/**
+ * @id packages/whoseturnnow/src/types/group.ts#TurnReviewedLog
+ * @description An immutable record of a completed turn being confirmed or rejected. Both outcomes change the queue after the turn itself was logged, so nothing older can be undone past this entry.
+ */
+export interface TurnReviewedLog {
+  /**
+   * The unique, machine-readable identifier for this type of log entry.
+   */
+  type: 'TURN_REVIEWED';
+  /**
+   * The server-generated timestamp indicating when the turn was reviewed.
+   */
+  completedAt: FieldValue;
+  /**
+   * The ID of the `TURN_COMPLETED` log entry that was reviewed.
+   */
+  originalLogId: string;
+  /**
+   * Whether the turn was counted or returned to its participant.
+   */
+  outcome: Extract<ConfirmationStatus, 'confirmed' | 'rejected'>;
+  /**
+   * The unique ID of the participant slot whose turn was reviewed.
+   */
+  participantId: string;
+  /**
+   * A snapshot of the participant's name at the moment of the review.
+   */
+  participantName: string;
+  /**
+   * The ID of the queue the reviewed turn belongs to.
+   */
+  queueId?: string;
+  /**
+   * The unique ID of the user who confirmed or rejected the turn.
+   */
+  actorUid: string;
+  /**
+   * A snapshot of the actor's name at the moment the action was initiated.
+   */
+  actorName: string;
+  /**
+   * A denormalized snapshot of the parent group's `participantUids` map at the
+   * time of logging. This field exists solely to enable secure Firestore rule queries.
+   */
+  _participantUids: Record<string, boolean>;
+  /**
+   * A denormalized snapshot of the parent group's `adminUids` map at the
+   * time of logging. This field exists solely to enable secure Firestore rule queries.
+   */
+  _adminUids: Record<string, boolean>;
+}
+
+/**
+ * @id packages/whoseturnnow/src/types/group.ts#LogEntry
+ * @description A union type representing any possible event that can be recorded in a group's immutable turn history.
+ */
+export type LogEntry =
+  | TurnCompletedLog
+  | CountsResetLog
+  | TurnUndoneLog
+  | TurnRedoneLog
+  | TurnStartedLog
+  | TurnSkippedLog
+  | TurnSwappedLog
+  | QueueReorderedLog
+  | ParticipantAddedLog
+  | ParticipantRemovedLog
+  | RoleChangedLog
+  | PlaceholderClaimedLog
+  | MemberJoinedLog
+  | MemberLeftLog
+  | GroupRenamedLog
+  | IconChangedLog
+  | AwayChangedLog
+  | WeightChangedLog
+  | TurnReviewedLog;
+
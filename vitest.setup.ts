@@ -74,6 +74,10 @@ vi.mock('firebase/firestore', () => ({
   limit: vi.fn(),
   deleteDoc: vi.fn(),
   getDocs: vi.fn(),
+  getCountFromServer: vi.fn(),
+  startAfter: vi.fn(),
+  writeBatch: vi.fn(),
+  Timestamp: { fromMillis: vi.fn() },
 }));
 
 vi.mock('uuid', () => ({